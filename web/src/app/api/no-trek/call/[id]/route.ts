@@ -0,0 +1,31 @@
+// File: src/app/api/no-trek/call/[id]/route.ts
+// Poll a call session (status, transcript, and once completed the outcome, place update
+// and follow-ups), or DELETE to cancel a draft or hang up a live call.
+import { NextResponse } from 'next/server'
+import { CallStateError, cancelCall, getCall } from '../../../../lib/call'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+export async function GET(_req: Request, ctx: Ctx) {
+  const { id } = await ctx.params
+  const session = getCall(id)
+  if (!session) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  return NextResponse.json({ session })
+}
+
+export async function DELETE(_req: Request, ctx: Ctx) {
+  const { id } = await ctx.params
+  try {
+    const session = cancelCall(id)
+    if (!session) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    return NextResponse.json({ session })
+  } catch (e) {
+    if (e instanceof CallStateError) {
+      return NextResponse.json({ error: e.message }, { status: 409 })
+    }
+    throw e
+  }
+}
@@ -0,0 +1,40 @@
+// File: src/app/api/no-trek/call/[id]/start/route.ts
+// Dial a reviewed draft. Body: { script?, consent: { agreed: true, shareHealthInfo } }.
+// `script` is the user-edited version (questions, opening, health details); the disclosure
+// of who is calling can't be edited. Without explicit consent nothing is dialed.
+import { NextRequest, NextResponse } from 'next/server'
+import { CallStateError, startCall } from '../../../../../lib/call'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params
+  let body: { script?: unknown; consent?: { agreed?: unknown; shareHealthInfo?: unknown } } = {}
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+  if (body.consent?.agreed !== true) {
+    return NextResponse.json(
+      { error: 'The user must agree to the call (consent.agreed = true) before we dial' },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const session = await startCall(id, {
+      script: body.script,
+      consent: { agreed: true, shareHealthInfo: body.consent.shareHealthInfo === true },
+    })
+    if (!session) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    return NextResponse.json({ session })
+  } catch (e) {
+    if (e instanceof CallStateError) {
+      return NextResponse.json({ error: e.message }, { status: 409 })
+    }
+    console.error('[no-trek/call] start failed:', e)
+    return NextResponse.json({ error: 'Could not start the call' }, { status: 502 })
+  }
+}
@@ -0,0 +1,31 @@
+// File: src/app/api/no-trek/call/[id]/transcript/route.ts
+// Transcript of a call. ?since=N returns only lines after the first N, so a poller can
+// append; ?format=text returns a plain-text copy for saving or sharing.
+import { NextRequest, NextResponse } from 'next/server'
+import { getCall } from '../../../../../lib/call'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const SPEAKER = { agent: 'No Trek', clinic: 'Clinic', system: '—' } as const
+
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const { id } = await ctx.params
+  const session = getCall(id)
+  if (!session) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+  if (req.nextUrl.searchParams.get('format') === 'text') {
+    const text = session.transcript
+      .map(l => `[${l.at.slice(11, 19)}] ${SPEAKER[l.speaker]}: ${l.text}`)
+      .join('\n')
+    return new NextResponse(text, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } })
+  }
+
+  const since = Math.max(0, Math.floor(Number(req.nextUrl.searchParams.get('since')) || 0))
+  return NextResponse.json({
+    id: session.id,
+    status: session.status,
+    total: session.transcript.length,
+    lines: session.transcript.slice(since),
+  })
+}
@@ -0,0 +1,50 @@
+// File: src/app/api/no-trek/call/route.ts
+// Create a "call for me" session. POST { place, context } returns a draft with the script
+// we'd read; nothing is dialed until POST /call/[id]/start carries the user's consent.
+import { NextRequest, NextResponse } from 'next/server'
+import { createCall, type CallContext, type CallSession } from '../../../lib/call'
+import { isCareLevel } from '../../../lib/places'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const str = (v: unknown, max = 200) =>
+  typeof v === 'string' && v.trim() ? v.trim().slice(0, max) : undefined
+
+export async function POST(req: NextRequest) {
+  let body: { place?: Record<string, unknown>; context?: Record<string, unknown> } = {}
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const p = body.place || {}
+  const name = str(p.name)
+  if (!name) {
+    return NextResponse.json({ error: 'place.name is required' }, { status: 400 })
+  }
+  const place: CallSession['place'] = {
+    id: str(p.id) || name,
+    name,
+    phone: str(p.phone, 40),
+    address: str(p.address),
+    careLevel: typeof p.careLevel === 'string' && isCareLevel(p.careLevel) ? p.careLevel : undefined,
+  }
+
+  const c = body.context || {}
+  const context: CallContext = {
+    concern: str(c.concern, 500),
+    risk: c.risk === 'low' || c.risk === 'moderate' || c.risk === 'severe' ? c.risk : undefined,
+    zip: str(c.zip, 10),
+    careLevel: typeof c.careLevel === 'string' && isCareLevel(c.careLevel) ? c.careLevel : undefined,
+    insurance: str(c.insurance, 80),
+  }
+
+  try {
+    return NextResponse.json({ session: createCall(place, context) }, { status: 201 })
+  } catch (e) {
+    console.error('[no-trek/call] create failed:', e)
+    return NextResponse.json({ error: 'Calling is not available right now' }, { status: 503 })
+  }
+}
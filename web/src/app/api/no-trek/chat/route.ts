@@ -1,5 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
+import {
+  complete,
+  hasProvider,
+  parseJsonLoose,
+  stream as streamLLM,
+  type LLMMessage,
+  type ProviderName,
+} from '../../../lib/llm'
+import { renderPrompt, resolveMode, type PromptStamp } from '../../../lib/prompts'
+import { alignClaims, type Claim } from '../../../lib/align'
+import {
+  filterAllowed,
+  findCitations,
+  isDeclarative,
+  scopeDomains,
+  validateAndRank,
+} from '../../../lib/cite'
+import { estimatePlaceCosts } from '../../../lib/costs'
+import { crisisFromRedFlags, poisonHelpFromRedFlags, type CrisisBlock, type PoisonHelp } from '../../../lib/crisis'
+import { applyInsurance, sanitizeProfile } from '../../../lib/insurance'
+import { findTelehealth } from '../../../lib/telehealth'
+import {
+  chooseCareLevel,
+  policyFor,
+  rankPlaces,
+  sanitizePrefs,
+  searchPlaces,
+  type CareLevelChoice,
+  type Place,
+  type RankingPolicy,
+} from '../../../lib/places'
+import { evaluateRedFlags } from '../../../lib/redflags'
+import { SSE_HEADERS, createJsonFieldExtractor, sseEncode } from '../../../lib/stream'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -7,76 +39,86 @@ export const revalidate = 0
 
 /* ============================== Config ============================== */
 
-const OPENAI_API_KEY =
-  process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_1
-const OPENAI_MODEL = 'gpt-4.1-mini' as const
-
-if (!OPENAI_API_KEY) {
+// Provider order and model come from NT_LLM_* env (see lib/llm); warn once at boot if none
+if (!hasProvider('chat')) {
   console.warn(
-    '[no-trek/chat] OPENAI_API_KEY is missing. Set it in .env.local or your deployment env.',
+    '[no-trek/chat] No LLM provider configured. Set OPENAI_API_KEY, ANTHROPIC_API_KEY or GEMINI_API_KEY in .env.local or your deployment env.',
   )
 }
 
-const openai = OPENAI_API_KEY
-  ? new OpenAI({ apiKey: OPENAI_API_KEY })
-  : null
-
-  console.log(
-    '[no-trek/chat] OPENAI key prefix:',
-    OPENAI_API_KEY?.slice(0, 6) || 'MISSING',
-  );
-  
 /* ============================== Types ============================== */
 
 type Risk = 'low' | 'moderate' | 'severe'
 type Citation = { title: string; url: string; source?: string }
-type InsightCard = { id: string; title: string; body: string; citations?: Citation[] }
-
-type PlaceReview = {
-  url: string
-  source?: string
-  quote?: string
-  author?: string
-  rating?: number
-  date?: string
-}
-
-type Place = {
+type RefImage = { url: string; source?: string; title?: string }
+type InsightCard = {
   id: string
-  name: string
-  rating?: number
-  reviews?: number
-  price?: '$' | '$$' | '$$$' | '$$$$'
-  address?: string
-  distance_km?: number
-  image?: string
-  phone?: string
-  url?: string
-  maps?: string
-  reason?: string
-  reviewCite?: PlaceReview
-  est_cost_min?: number
-  est_cost_max?: number
+  title: string
+  body: string
+  urgency?: 'info' | 'elevated' | 'severe'
+  /** Reasoning behind the card; becomes the rationale of tasks made from it */
+  why?: string[]
+  /** Concrete next steps; each becomes a task when the session is exported to a plan */
+  next?: string[]
+  citations?: Citation[]
 }
 
 type ChatResponse = {
   text?: string
+  /** Message-level sources: the model's (domain-filtered, link-checked) or a server backfill */
+  citations?: Citation[]
+  /** The reply split into claims with footnote numbers into citations */
+  claims?: Claim[]
+  refImages?: RefImage[]
+  /** One-line evidence trail: where citations came from, prompt, red flags */
+  audit?: string
   risk?: Risk
   insights?: InsightCard[]
+  /** Ranked under `ranking`, best first, each with its score breakdown */
   places?: Place[]
+  /** The policy places were ranked by: the risk preset plus the user's prefs */
+  ranking?: RankingPolicy
+  /** Care level places are searched for and whether risk, topic or the client chose it (omitted in crisis) */
+  careLevel?: CareLevelChoice
+  engine?: { provider: ProviderName; model: string }
+  /** Which server-side system prompt produced this answer */
+  prompt?: PromptStamp
+  /** Deterministic red-flag rules that fired; any hit forces risk to severe */
+  redFlags?: { fired: string[]; ruleSets: string[] }
+  /** Set when suicidality / self-harm signals fire; places are left out while present */
+  crisis?: CrisisBlock
+  /** Set when the latest message describes an overdose or poisoning without intent */
+  poison?: PoisonHelp
+}
+
+type ChatRequestBody = {
+  /** triage | coach | bills | forms — the server owns the prompt text for each */
+  mode?: string
+  messages?: { role: string; content: string }[]
+  imageBase64?: string
+  zip?: string
+  /** er | urgent_care | primary_care | mental_health | dental | pharmacy | telehealth (severe risk always searches er) */
+  careLevel?: string
+  /** BCP 47 tag; falls back to Accept-Language for crisis hotline region */
+  locale?: string
+  /** IANA time zone (e.g. America/Chicago) for places' open-now status */
+  timeZone?: string
+  /** What matters to the user when ranking places: emphasis per factor, travel mode, limits */
+  ranking?: unknown
+  /** The user's insurance profile (lib/insurance); places get network status and out-of-pocket cost */
+  insurance?: unknown
+  /** Search for sources when a declarative reply has none (default true) */
+  backfillCitations?: boolean
+  stream?: boolean
 }
 
-/* ============================== Guardrails / System Prompt ============================== */
+/* ============================== Guardrails / Output Contract ============================== */
+
+// The mode prompt (lib/prompts) sets persona and scope; SYS is appended to every mode
+// so the reply always comes back in the JSON shape this route parses.
 
-const ALLOWED_CITATION_DOMAINS = [
-  'nih.gov',
-  'medlineplus.gov',
-  'cdc.gov',
-  'who.int',
-  'nice.org.uk',
-  'mayoclinic.org',
-  'aafp.org',
-]
+// Citation domains come from the shared policy (lib/domainPolicy), all tiers
+const CITATION_DOMAINS = scopeDomains()
 
 const SYS = [
   'You are Stella, No Trek’s medical-first AI concierge.',
@@ -85,14 +127,16 @@ const SYS = [
   'You DO NOT give formal diagnoses or prescriptions. Everything is educational, not a substitute for in-person care.',
   '',
   'You MUST return a single JSON object with keys exactly:',
-  'text, risk, insights.',
+  'text, risk, insights, citations, refImages.',
   '',
   '• text: string — your reply in plain text (no markdown).',
   '• risk: one of "low", "moderate", "severe".',
-  '• insights: array of {id, title, body, citations?}.',
+  '• insights: array of {id, title, body, urgency, why?, next?, citations?}.',
   '  - citations (if present) MUST be from approved medical domains only.',
+  '• citations: array of {title, url, source?} backing the factual claims in text; [] if the reply makes none. Only real, specific pages — never guess a URL.',
+  '• refImages: optional array of {url, title?, source?} — reference images (e.g. what a rash looks like) from approved domains only; [] if none.',
   '',
-  `Approved citation domains: ${ALLOWED_CITATION_DOMAINS.join(', ')}.`,
+  `Approved citation domains: ${CITATION_DOMAINS.join(', ')}.`,
   '',
   'STYLE RULES:',
   '- First line: 1–2 short sentences that acknowledge how they sound and what they’re trying to figure out.',
@@ -106,6 +150,9 @@ const SYS = [
   '- id: short stable string identifier.',
   '- title: brief, human-readable label.',
   '- body: 2–6 sentences explaining what you’re thinking about / watching for, in plain language.',
+  '- urgency: one of "info", "elevated", "severe" — how soon the card’s next steps need doing.',
+  '- why: optional array of 1–3 short reasons behind the card.',
+  '- next: optional array of 1–3 concrete next steps, each a short imperative the person can do (e.g. "Call your GP to book a visit this week"); these become tasks in their plan.',
   '- citations: optional; if present, each is {title,url,source?} and url must be from an approved domain.',
   '',
   'If you are not sure what to say, be honest about uncertainty, keep risk conservative, and give 1–3 practical next steps and red flags to watch for.',
@@ -126,13 +173,23 @@ function normRisk(x: any): Risk {
   return 'low'
 }
 
-function domainAllowed(u: string) {
-  try {
-    const h = new URL(u).hostname.replace(/^www\./, '')
-    return ALLOWED_CITATION_DOMAINS.some(d => h.endsWith(d))
-  } catch {
-    return false
-  }
+const sanitizeCitations = (arr: unknown): Citation[] => filterAllowed(arr)
+
+function sanitizeRefImages(arr: unknown): RefImage[] {
+  return filterAllowed(arr)
+    .filter(c => !/\.(html?|aspx?|php)$/i.test(new URL(c.url).pathname))
+    .slice(0, 3)
+    .map(c => ({ url: c.url, title: c.title === c.url ? undefined : c.title, source: c.source }))
+}
+
+const URGENCIES = ['info', 'elevated', 'severe'] as const
+
+const shortList = (arr: unknown, max = 3): string[] | undefined => {
+  const xs = (Array.isArray(arr) ? arr : [])
+    .filter((s): s is string => typeof s === 'string' && !!s.trim())
+    .map(s => s.trim().slice(0, 200))
+    .slice(0, max)
+  return xs.length ? xs : undefined
 }
 
 function sanitizeInsights(arr: any[]): InsightCard[] {
@@ -141,9 +198,10 @@ function sanitizeInsights(arr: any[]): InsightCard[] {
     id: String(c?.id || uid('card')),
     title: String(c?.title || 'Note'),
     body: String(c?.body || ''),
-    citations: (Array.isArray(c?.citations) ? c.citations : []).filter(
-      (ci: any) => ci?.url && domainAllowed(ci.url),
-    ),
+    urgency: URGENCIES.find(u => u === c?.urgency),
+    why: shortList(c?.why),
+    next: shortList(c?.next),
+    citations: sanitizeCitations(c?.citations),
   }))
 }
 
@@ -156,142 +214,241 @@ function extractZip(messages: { role: string; content: string }[], bodyZip?: str
   return m ? m[1] : null
 }
 
-/* ------- Simple geo / hospital helpers ------- */
-
-function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
-  const R = 6371
-  const dLat = ((b.lat - a.lat) * Math.PI) / 180
-  const dLon = ((b.lon - a.lon) * Math.PI) / 180
-  const lat1 = (a.lat * Math.PI) / 180
-  const lat2 = (b.lat * Math.PI) / 180
-  const x =
-    Math.sin(dLat / 2) ** 2 +
-    Math.sin(dLon / 2) ** 2 * Math.cos(lat1) * Math.cos(lat2)
-  return 2 * R * Math.asin(Math.sqrt(x))
+/* ============================== Response assembly ============================== */
+
+function wantsStream(req: NextRequest, body: ChatRequestBody) {
+  return body.stream === true || (req.headers.get('accept') || '').includes('text/event-stream')
 }
 
-async function zipToLatLng(zip: string) {
-  const r = await fetch(
-    `https://nominatim.openstreetmap.org/search?format=jsonv2&q=${encodeURIComponent(
-      zip,
-    )}&countrycodes=us&limit=1`,
-    {
-      headers: { 'User-Agent': 'no-trek/1.0 (care triage)' },
-      cache: 'no-store',
-    },
+/** Turn the model's raw JSON into the public payload, including nearby places. */
+async function finalizeResponse(
+  raw: string,
+  msgs: { role: string; content: string }[],
+  body: ChatRequestBody,
+  prompt: PromptStamp,
+  engine?: ChatResponse['engine'],
+): Promise<ChatResponse> {
+  const parsed = parseJsonLoose<any>(raw)
+  const lastUserText =
+    msgs.filter(m => m.role === 'user').slice(-1)[0]?.content || ''
+
+  const text = String(parsed?.text || parsed?.reply || '')
+
+  /* --------- Red-flag rules (override the model, never lower it) --------- */
+
+  const flags = evaluateRedFlags(
+    msgs.filter(m => m.role === 'user').map(m => String(m.content || '')),
   )
-  if (!r.ok) return null
-  const arr = await r.json()
-  const hit = Array.isArray(arr) ? arr[0] : null
-  if (!hit) return null
-  return { lat: Number(hit.lat), lon: Number(hit.lon) }
-}
+  const modelRisk: Risk = normRisk(parsed?.risk || parsed?.planDelta?.risk)
+  const risk: Risk = flags.escalate ? 'severe' : modelRisk
+  if (flags.escalate && modelRisk !== 'severe') {
+    console.warn(
+      `[no-trek/chat] red flags raised risk ${modelRisk} → severe:`,
+      flags.fired.map(h => h.id).join(', '),
+    )
+  }
+  const insights = sanitizeInsights(parsed?.insights)
+  const refImages = sanitizeRefImages(parsed?.refImages)
+
+  /* --------- Evidence: validate the model's sources, backfill if none survive --------- */
+
+  const resolveCitations = async (): Promise<{ citations: Citation[]; from: string }> => {
+    const proposed = sanitizeCitations(parsed?.citations)
+    const checked = proposed.length ? await validateAndRank(proposed) : []
+    if (checked.length) return { citations: checked, from: `model ${checked.length}/${proposed.length}` }
+    if (body.backfillCitations === false || !isDeclarative(text)) {
+      return { citations: [], from: 'none' }
+    }
+    try {
+      const found = await findCitations(text)
+      return { citations: found, from: found.length ? `backfill ${found.length}` : 'backfill 0' }
+    } catch (err) {
+      console.error('[no-trek/chat] citation backfill failed:', err)
+      return { citations: [], from: 'backfill failed' }
+    }
+  }
+
+  /* --------- Places synthesis (for nearby care) --------- */
+
+  const wantsNearby = /near\s*me|nearby|closest|hospital|urgent|er|clinic/i.test(
+    lastUserText,
+  )
+  const zip = extractZip(msgs, body.zip || undefined)
+  // Crisis follows the latest message only: one earlier match mustn't lock the whole session
+  const latestFlags = evaluateRedFlags(lastUserText)
+  const where = { zip: zip || body.zip, locale: body.locale }
+  const crisis = crisisFromRedFlags(latestFlags, where)
+  const poison = crisis ? null : poisonHelpFromRedFlags(latestFlags, where)
+  const careLevel = chooseCareLevel({ risk, text: lastUserText, requested: body.careLevel })
+  const ranking = policyFor(risk, sanitizePrefs(body.ranking))
+
+  const lookupPlaces = async (): Promise<Place[]> => {
+    if (crisis) {
+      console.warn(`[no-trek/chat] crisis pathway (${crisis.type}, ${crisis.region}); places suppressed`)
+      return []
+    }
+    if (!zip || !(wantsNearby || risk !== 'low')) return []
+    try {
+      const triageText = msgs
+        .filter(m => m.role === 'user')
+        .map(m => String(m.content || ''))
+        .join('\n')
+      const found = await searchPlaces(zip, careLevel.level, { timeZone: body.timeZone })
+      // Virtual care joins for low and moderate risk; severe risk means in person, now
+      const virtual =
+        risk === 'severe'
+          ? []
+          : findTelehealth({ text: triageText, level: careLevel.level, zip, timeZone: body.timeZone })
+      // Price the visit (plus the tests triage suggests), then what the user's plan leaves them
+      const priced = estimatePlaceCosts([...found, ...virtual], { zip, triageText })
+      return rankPlaces(await applyInsurance(priced, sanitizeProfile(body.insurance)), ranking)
+    } catch (err) {
+      console.error('[no-trek/chat] place lookup failed:', err)
+      return []
+    }
+  }
+
+  const evidence = async () => {
+    const { citations, from } = await resolveCitations()
+    const { claims, method } = await alignClaims(text, citations)
+    return { citations, from, claims, method }
+  }
 
-function toGoogleReviewSearch(name: string, zip?: string) {
-  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
-    `${name} ${zip || ''}`.trim(),
-  )}`
+  const [{ citations, from, claims, method }, places] = await Promise.all([
+    evidence(),
+    lookupPlaces(),
+  ])
+  const unsupported = claims.filter(c => c.unsupported).length
+
+  const audit = [
+    `citations: ${from}`,
+    `claims: ${claims.length} (${unsupported} unsupported, ${method})`,
+    prompt ? `prompt: ${prompt.id}@${prompt.version}` : '',
+    `red flags: ${flags.fired.map(h => h.id).join(', ') || 'none'}`,
+  ]
+    .filter(Boolean)
+    .join(' · ')
+
+  return {
+    text,
+    citations,
+    claims,
+    refImages,
+    audit,
+    risk,
+    insights,
+    places,
+    ...(crisis ? {} : { careLevel, ranking }),
+    engine,
+    prompt,
+    redFlags: { fired: flags.fired.map(h => h.id), ruleSets: flags.ruleSets },
+    ...(crisis ? { crisis } : {}),
+    ...(poison ? { poison } : {}),
+  }
 }
 
-async function overpassHospitals(lat: number, lon: number, radiusKm = 25) {
-  const q = `
-    [out:json][timeout:25];
-    (
-      node["amenity"="hospital"](around:${radiusKm * 1000},${lat},${lon});
-      way["amenity"="hospital"](around:${radiusKm * 1000},${lat},${lon});
-      relation["amenity"="hospital"](around:${radiusKm * 1000},${lat},${lon});
-      node["emergency"="yes"](around:${radiusKm * 1000},${lat},${lon});
-    );
-    out center tags 40;`
-
-  const res = await fetch('https://overpass-api.de/api/interpreter', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
-      'User-Agent': 'no-trek/1.0 (care triage)',
-    },
-    body: new URLSearchParams({ data: q }).toString(),
-    cache: 'no-store',
+type Conversation = { system: string; messages: LLMMessage[]; prompt: PromptStamp }
+
+/**
+ * Server-picked system prompt + conversation in the provider-neutral shape.
+ * Client-supplied `system` messages are dropped: only user/assistant turns pass through.
+ */
+function buildConversation(
+  msgs: { role: string; content: string }[],
+  body: ChatRequestBody,
+): Conversation {
+  const { text: modePrompt, stamp } = renderPrompt(resolveMode(body.mode), {
+    allowedDomains: CITATION_DOMAINS,
   })
+  const system = [modePrompt, SYS].join('\n\n')
 
-  if (!res.ok) return []
-  const j = await res.json().catch(() => ({ elements: [] as any[] }))
-  const elements: any[] = Array.isArray(j?.elements) ? j.elements : []
-  return elements
-    .map(e => {
-      const c = e.center || e
-      const tags = e.tags || {}
-      const lat2 = typeof c?.lat === 'number' ? c.lat : undefined
-      const lon2 = typeof c?.lon === 'number' ? c.lon : undefined
-      if (!lat2 || !lon2) return null
-      const name = tags.name || tags.operator || 'Hospital'
-      const address = [tags['addr:housenumber'], tags['addr:street'], tags['addr:city']]
-        .filter(Boolean)
-        .join(' ')
-      return {
-        id: `osm-${e.id}`,
-        name,
-        lat: lat2,
-        lon: lon2,
-        address: address || undefined,
-        website: tags.website || undefined,
-      }
+  const messages: LLMMessage[] = msgs
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .map(m => ({ role: m.role as LLMMessage['role'], content: String(m.content || '') }))
+
+  if (body.imageBase64) {
+    messages.push({
+      role: 'user',
+      content: 'Please consider this image in your assessment.',
+      images: [body.imageBase64],
     })
-    .filter(Boolean) as Array<{
-    id: string
-    name: string
-    lat: number
-    lon: number
-    address?: string
-    website?: string
-  }>
+  }
+  return { system, messages, prompt: stamp }
 }
 
-async function resolvePlacesFromZip(zip: string): Promise<Place[]> {
-  const geo = await zipToLatLng(zip)
-  if (!geo) return []
-  const raw = await overpassHospitals(geo.lat, geo.lon)
-  const places: Place[] = raw.map(p => {
-    const distance_km = haversineKm(geo, { lat: p.lat, lon: p.lon })
-    const reviewUrl = toGoogleReviewSearch(p.name, zip)
-    return {
-      id: p.id,
-      name: p.name,
-      address: p.address,
-      url: p.website,
-      maps: reviewUrl,
-      distance_km,
-      price: '$$$',
-      reason: 'Emergency-capable facility near you',
-      reviewCite: { url: reviewUrl, source: 'google.com' }, // passes REVIEW_GATE on the client
-    }
+/**
+ * SSE mode: `delta` frames carry new reply text as the model writes it, then a single
+ * `final` frame carries the full ChatResponse. Errors arrive as an `error` frame.
+ */
+function streamResponse(
+  req: NextRequest,
+  convo: Conversation,
+  msgs: { role: string; content: string }[],
+  body: ChatRequestBody,
+) {
+  const abort = new AbortController()
+  req.signal.addEventListener('abort', () => abort.abort())
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!abort.signal.aborted) controller.enqueue(sseEncode(event, data))
+      }
+      try {
+        let engine: ChatResponse['engine']
+        const pieces = streamLLM(
+          'chat',
+          {
+            system: convo.system,
+            messages: convo.messages,
+            temperature: 0.2,
+            json: true,
+            signal: abort.signal,
+          },
+          info => (engine = info),
+        )
+
+        const extractor = createJsonFieldExtractor('text')
+        let raw = ''
+        for await (const piece of pieces) {
+          raw += piece
+          const delta = extractor.push(piece)
+          if (delta) send('delta', { text: delta })
+        }
+
+        send('final', await finalizeResponse(raw, msgs, body, convo.prompt, engine))
+      } catch (e) {
+        if (!abort.signal.aborted) {
+          console.error('[no-trek/chat] streaming error:', e)
+          send('error', {
+            error: 'LLM request failed',
+            details: errStr(e),
+            prompt: convo.prompt,
+          })
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // already closed by a client disconnect
+        }
+      }
+    },
+    cancel() {
+      abort.abort()
+    },
   })
-  return places.sort((a, b) => (a.distance_km ?? 999) - (b.distance_km ?? 999))
-}
 
-function demoFallback(zip: string): Place[] {
-  const mk = (name: string, km: number): Place => ({
-    id: `demo-${name.toLowerCase().replace(/\s+/g, '-')}`,
-    name,
-    distance_km: km,
-    maps: toGoogleReviewSearch(name, zip),
-    reviewCite: { url: toGoogleReviewSearch(name, zip), source: 'google.com' },
-    reason: 'Demo fallback — replace with live data',
-    price: '$$$',
-  })
-  return [
-    mk('Medical City Dallas Hospital', 5.1),
-    mk('Baylor University Medical Center', 7.3),
-  ]
+  return new Response(stream, { headers: SSE_HEADERS })
 }
 
 /* ============================== Route ============================== */
 
 export async function POST(req: NextRequest) {
-  if (!openai) {
+  if (!hasProvider('chat')) {
     return NextResponse.json(
       {
-        error: 'Missing OpenAI key',
+        error: 'No LLM provider configured',
         reason: 'NO_ENV',
         details: { hasKey: false },
       },
@@ -299,11 +456,7 @@ export async function POST(req: NextRequest) {
     )
   }
 
-  let body: {
-    messages?: { role: string; content: string }[]
-    imageBase64?: string
-    zip?: string
-  } = {}
+  let body: ChatRequestBody = {}
 
   try {
     body = await req.json()
@@ -311,91 +464,30 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
   }
 
+  body.locale = body.locale || req.headers.get('accept-language') || undefined
   const msgs = Array.isArray(body.messages) ? body.messages : []
-  const lastUserText =
-    msgs.filter(m => m.role === 'user').slice(-1)[0]?.content || ''
+  const convo = buildConversation(msgs, body)
 
   try {
-    /* --------- OpenAI call --------- */
-
-    const chat: any[] = [
-      { role: 'system', content: SYS },
-      ...msgs.map(m => ({ role: m.role, content: m.content })),
-    ]
-
-    if (body.imageBase64) {
-      chat.push({
-        role: 'user',
-        content: [
-          { type: 'text', text: 'Please consider this image in your assessment.' },
-          { type: 'image_url', image_url: { url: body.imageBase64 } },
-        ],
-      })
-    }
+    /* --------- Model call (provider picked by lib/llm, with failover) --------- */
 
-    if (!openai) {
-        console.error("[no-trek/chat] OpenAI client not initialized");
-        return new Response(
-          JSON.stringify({ text: "Stella is offline (no API key configured)." }),
-          { status: 500, headers: { "Content-Type": "application/json" } },
-        );
-      }
-      
-      // quick connectivity test
-      try {
-        const pingRes = await fetch("https://api.openai.com/v1/models", {
-          headers: {
-            Authorization: `Bearer ${OPENAI_API_KEY}`,
-          },
-        });
-      
-        console.log(
-          "[no-trek/chat] ping status to /v1/models:",
-          pingRes.status,
-        );
-      } catch (e) {
-        console.error("[no-trek/chat] basic fetch to OpenAI FAILED:", e);
-      }
-      
+    if (wantsStream(req, body)) return streamResponse(req, convo, msgs, body)
 
-    const completion = await openai.chat.completions.create({
-      model: OPENAI_MODEL,
+    const result = await complete('chat', {
+      system: convo.system,
+      messages: convo.messages,
       temperature: 0.2,
-      response_format: { type: 'json_object' },
-      messages: chat as any,
+      json: true,
+    })
+    const payload = await finalizeResponse(result.text, msgs, body, convo.prompt, {
+      provider: result.provider,
+      model: result.model,
     })
-
-    const raw = completion.choices?.[0]?.message?.content || '{}'
-    const parsed = JSON.parse(raw)
-
-    const text = String(parsed?.text || parsed?.reply || '')
-    const risk: Risk = normRisk(parsed?.risk || parsed?.planDelta?.risk)
-    const insights = sanitizeInsights(parsed?.insights)
-
-    /* --------- Places synthesis (for nearby care) --------- */
-
-    let places: Place[] = []
-    const wantsNearby = /near\s*me|nearby|closest|hospital|urgent|er|clinic/i.test(
-      lastUserText,
-    )
-    const zip = extractZip(msgs, body.zip || undefined)
-
-    if (zip && (wantsNearby || risk !== 'low')) {
-      try {
-        places = await resolvePlacesFromZip(zip)
-        if (!places.length) places = demoFallback(zip)
-      } catch (err) {
-        console.error('[no-trek/chat] place lookup failed, using fallback:', err)
-        places = demoFallback(zip)
-      }
-    }
-
-    const payload: ChatResponse = { text, risk, insights, places }
     return NextResponse.json(payload)
   } catch (e) {
-    console.error('[no-trek/chat] OpenAI or routing error:', e)
+    console.error('[no-trek/chat] LLM or routing error:', e)
     return NextResponse.json(
-      { error: 'OpenAI request failed', details: errStr(e) },
+      { error: 'LLM request failed', details: errStr(e), prompt: convo.prompt },
       { status: 502 },
     )
   }
@@ -0,0 +1,49 @@
+// File: src/app/api/no-trek/cite/health/route.ts
+// Query the URL-health cache. GET ?url=…&url=… reads cached results only (no network);
+// POST { urls, refresh? } checks anything missing or past its TTL, then returns.
+// Each row carries `stale` so the UI can flag a citation that used to work. POST results
+// are in request order. Only citation links are checked: a URL that isn't on a domain the
+// citation policy allows comes back as { url, rejected: true } and the rest are checked.
+// More than MAX_URLS is a 400, not a truncated list.
+import { NextRequest, NextResponse } from 'next/server'
+import { checkUrls, isCheckableUrl, lookupUrls, urlHealthStats } from '../../../../lib/urlHealth'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_URLS = 50
+
+const isCheckable = (u: unknown): u is string => typeof u === 'string' && isCheckableUrl(u)
+
+const rejected = (u: unknown) => ({
+  url: String(u),
+  rejected: true as const,
+  error: 'Only http(s) links on allowed citation domains are checked',
+})
+
+const tooMany = () => NextResponse.json({ error: `At most ${MAX_URLS} urls per request` }, { status: 400 })
+
+export async function GET(req: NextRequest) {
+  const raw = req.nextUrl.searchParams.getAll('url')
+  if (!raw.length) return NextResponse.json({ stats: urlHealthStats() })
+  if (raw.length > MAX_URLS) return tooMany()
+  return NextResponse.json({
+    results: [...lookupUrls(raw.filter(isCheckable)), ...raw.filter(u => !isCheckable(u)).map(rejected)],
+  })
+}
+
+export async function POST(req: NextRequest) {
+  let body: { urls?: unknown; refresh?: boolean } = {}
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+  const raw = Array.isArray(body.urls) ? body.urls : []
+  if (!raw.length) return NextResponse.json({ error: `Provide urls: 1–${MAX_URLS} http(s) URLs` }, { status: 400 })
+  if (raw.length > MAX_URLS) return tooMany()
+  const checked = await checkUrls(raw.filter(isCheckable), { refresh: body.refresh === true })
+  let i = 0
+  const results = raw.map(u => (isCheckable(u) ? checked[i++] : rejected(u)))
+  return NextResponse.json({ results })
+}
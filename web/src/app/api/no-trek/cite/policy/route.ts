@@ -0,0 +1,16 @@
+// File: src/app/api/no-trek/cite/policy/route.ts
+// The effective citation domain policy (defaults + NT_CITE_ALLOW / NT_CITE_DENY), so the
+// pages filter with the same rules the server enforces. ?tier=patient|professional
+// returns just that tier's domains in `domains`.
+import { NextRequest, NextResponse } from 'next/server'
+import { allowedDomains, domainPolicy } from '../../../../lib/domainPolicy'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET(req: NextRequest) {
+  const t = req.nextUrl.searchParams.get('tier')
+  const tier = t === 'patient' || t === 'professional' ? t : undefined
+  const policy = domainPolicy()
+  return NextResponse.json({ policy, domains: allowedDomains(policy, tier) })
+}
@@ -1,5 +1,7 @@
 // File: src/app/api/no-trek/tasks/coach/route.ts
 import { NextResponse } from 'next/server'
+import { filterAllowed, scopeDomains } from '../../../lib/cite'
+import { complete, hasProvider, parseJsonLoose } from '../../../lib/llm'
 
 type TaskStep = { id?: string; text: string; done?: boolean }
 type TaskCitation = { id?: string; title: string; url: string; source?: string }
@@ -20,59 +22,27 @@ type IncomingTask = {
 
 type CoachRequestBody = {
   task: IncomingTask
+  /** Narrows the shared domain policy (lib/domainPolicy); can't widen it */
   allowedDomains?: string[]
 }
 
-// Helper to get domain from URL
-function domainOf(url?: string) {
-  try {
-    return new URL(String(url)).hostname.replace(/^www\./, '')
-  } catch {
-    return ''
-  }
-}
-
+// Domain policy first, then normalize / add ids
 function filterCitations(
   cites: TaskCitation[] | undefined,
   allowedDomains?: string[],
 ): TaskCitation[] {
-  if (!cites || cites.length === 0) return []
-  if (!allowedDomains || allowedDomains.length === 0) {
-    // Just normalize / add ids
-    return cites.map((c, i) => ({
-      id: c.id ?? `c_${i + 1}`,
-      title: c.title,
-      url: c.url,
-      source: c.source ?? domainOf(c.url),
-    }))
-  }
-
-  const seen = new Set<string>()
-  const out: TaskCitation[] = []
-
-  for (const c of cites) {
-    if (!c?.url) continue
-    const d = domainOf(c.url)
-    const ok = allowedDomains.some((ad) => d.endsWith(ad))
-    if (!ok || seen.has(c.url)) continue
-    seen.add(c.url)
-    out.push({
-      id: c.id ?? `c_${out.length + 1}`,
-      title: c.title,
-      url: c.url,
-      source: c.source ?? d,
-    })
-  }
-  return out
+  return filterAllowed(cites, { within: allowedDomains }).map((c, i) => ({
+    id: `c_${i + 1}`,
+    title: c.title,
+    url: c.url,
+    source: c.source,
+  }))
 }
 
-const DEFAULT_MODEL = process.env.OPENAI_MODEL || 'gpt-4.1-mini'
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY
-
 export async function POST(req: Request) {
-  if (!OPENAI_API_KEY) {
+  if (!hasProvider('coach')) {
     return NextResponse.json(
-      { error: 'OPENAI_API_KEY is not set on the server.' },
+      { error: 'No LLM provider is configured on the server.' },
       { status: 500 },
     )
   }
@@ -84,7 +54,10 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
   }
 
-  const { task, allowedDomains } = body || {}
+  const { task } = body || {}
+  const allowedDomains = Array.isArray(body?.allowedDomains)
+    ? body.allowedDomains.map(String)
+    : undefined
   if (!task || !task.title) {
     return NextResponse.json(
       { error: 'Missing task with at least a title.' },
@@ -135,58 +108,24 @@ Return a **single JSON object** with:
 Rules:
 - 3–7 steps is ideal.
 - Each step should be actionable (call, schedule, prepare info, watch for red-flag symptoms, etc.).
-- Prefer citations from these domains if useful: ${
-    (allowedDomains || []).length
-      ? allowedDomains!.join(', ')
-      : 'nih.gov, medlineplus.gov, cdc.gov, who.int, nice.org.uk, mayoclinic.org'
-  }.
+- Prefer citations from these domains if useful: ${scopeDomains({ within: allowedDomains }).join(', ')}.
 - If you are not sure about exact citation URLs, you can omit citations or include only very high-level ones from those domains.
 - Keep everything NON-URGENT and NON-EMERGENCY. If anything sounds emergency-like, mention that emergency care or 911 is needed instead of trying to manage it here.
 - Do not include any explanations outside the JSON. Respond with **only** valid JSON.
   `.trim()
 
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: DEFAULT_MODEL,
-        temperature: 0.4,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a careful, conservative care-planning assistant helping someone organize follow-up tasks. You never diagnose or prescribe.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      }),
+    const result = await complete('coach', {
+      system:
+        'You are a careful, conservative care-planning assistant helping someone organize follow-up tasks. You never diagnose or prescribe.',
+      messages: [{ role: 'user', content: prompt }],
+      temperature: 0.4,
+      json: true,
     })
 
-    if (!response.ok) {
-      const text = await response.text().catch(() => '')
-      return NextResponse.json(
-        {
-          error: 'OpenAI request failed',
-          details: text || `status ${response.status}`,
-        },
-        { status: 502 },
-      )
-    }
-
-    const data = (await response.json()) as any
-    const content: string | undefined =
-      data?.choices?.[0]?.message?.content ?? data?.choices?.[0]?.message?.content?.[0]?.text
-
-    if (!content) {
+    if (!result.text) {
       return NextResponse.json(
-        { error: 'No content returned from OpenAI.' },
+        { error: 'No content returned from the model.' },
         { status: 502 },
       )
     }
@@ -199,17 +138,13 @@ Rules:
     }
 
     try {
-      parsed = JSON.parse(content)
+      // Tolerates a model that wrapped the JSON in text or code fences
+      parsed = parseJsonLoose(result.text)
     } catch {
-      // If the model accidentally wrapped JSON in text, try to extract.
-      const match = content.match(/\{[\s\S]*\}/)
-      if (!match) {
-        return NextResponse.json(
-          { error: 'Could not parse JSON from model response.' },
-          { status: 502 },
-        )
-      }
-      parsed = JSON.parse(match[0])
+      return NextResponse.json(
+        { error: 'Could not parse JSON from model response.' },
+        { status: 502 },
+      )
     }
 
     const rationale = parsed.rationale?.trim() || task.rationale || ''
@@ -237,8 +172,8 @@ Rules:
     console.error('[tasks/coach] error', err)
     return NextResponse.json(
       {
-        error: 'OpenAI or routing error',
-        details: 'Connection error.',
+        error: 'LLM or routing error',
+        details: err instanceof Error ? err.message : 'Connection error.',
       },
       { status: 502 },
     )
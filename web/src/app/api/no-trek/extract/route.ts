@@ -1,5 +1,6 @@
 // File: src/app/api/no-trek/extract/route.ts
 import { NextRequest, NextResponse } from 'next/server'
+import { complete, hasProvider, parseJsonLoose } from '../../../lib/llm'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
@@ -18,8 +19,7 @@ type IntakeFacts = {
 export async function POST(req: NextRequest) {
   try {
     const { history } = await req.json()
-    const key = process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_1
-    if (!key) return NextResponse.json({ facts: null, error: 'OPENAI_API_KEY missing' }, { status: 200 })
+    if (!hasProvider('extract')) return NextResponse.json({ facts: null, error: 'No LLM provider configured' }, { status: 200 })
 
     const sys = `
 Extract OPQRST facts, demographics, associated symptoms, and common red flags from the conversation.
@@ -30,26 +30,15 @@ Set "ready" = true only if Onset, Region (or body area), Severity OR Quality, an
 Return JSON ONLY as { facts: IntakeFacts } with the exact keys.
 `.trim()
 
-    const body = {
-      model: process.env.OPENAI_MODEL_EXTRACT || 'gpt-4.1-mini',
+    const result = await complete('extract', {
+      system: sys,
+      messages: [{ role: 'user', content: JSON.stringify({ history }) }],
       temperature: 0.0,
-      response_format: { type: 'json_object' as const },
-      messages: [
-        { role: 'system', content: sys },
-        { role: 'user', content: JSON.stringify({ history }) },
-      ],
-    }
-
-    const r = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}` },
-      body: JSON.stringify(body),
+      json: true,
     })
-    if (!r.ok) return NextResponse.json({ facts: null, error: await r.text() }, { status: 200 })
 
-    const j = await r.json()
     let facts: IntakeFacts | null = null
-    try { facts = JSON.parse(j.choices?.[0]?.message?.content || '{}')?.facts ?? null } catch {}
+    try { facts = parseJsonLoose<{ facts?: IntakeFacts }>(result.text)?.facts ?? null } catch {}
     return NextResponse.json({ facts })
   } catch (e: any) {
     return NextResponse.json({ facts: null, error: String(e?.message || e) }, { status: 200 })
@@ -0,0 +1,67 @@
+// File: src/app/api/no-trek/insurance/route.ts
+// Insurance against places already on screen. GET lists the carriers and plan types the
+// directory knows, for the profile form. POST { profile, places } returns each place's
+// network status and out-of-pocket cost, so the page can refresh them when the profile
+// changes without another chat turn.
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  applyInsurance,
+  carrierFor,
+  networkDirectory,
+  PLAN_TYPES,
+  sanitizeProfile,
+} from '../../../lib/insurance'
+import { isCareLevel, type Place } from '../../../lib/places'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_PLACES = 50
+
+export async function GET() {
+  return NextResponse.json({ carriers: networkDirectory().carriers(), planTypes: PLAN_TYPES })
+}
+
+type InsuranceRequest = { profile?: unknown; places?: unknown }
+
+export async function POST(req: NextRequest) {
+  let body: InsuranceRequest
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  const profile = sanitizeProfile(body.profile)
+  if (!profile) return NextResponse.json({ error: 'profile.carrier is required' }, { status: 400 })
+  if (!Array.isArray(body.places)) return NextResponse.json({ error: 'places must be an array' }, { status: 400 })
+
+  // Only what pricing and matching read; anything else on the client's copy is ignored
+  const places: Place[] = body.places.slice(0, MAX_PLACES).flatMap((x): Place[] => {
+    const p = (x && typeof x === 'object' ? x : {}) as Record<string, unknown>
+    if (typeof p.id !== 'string' || typeof p.name !== 'string') return []
+    const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) ? v : undefined)
+    return [
+      {
+        id: p.id,
+        name: p.name,
+        verified: false,
+        careLevel: isCareLevel(p.careLevel) ? p.careLevel : undefined,
+        price: ['$', '$$', '$$$', '$$$$'].includes(p.price as string) ? (p.price as Place['price']) : undefined,
+        est_cost_min: num(p.est_cost_min),
+        est_cost_max: num(p.est_cost_max),
+      },
+    ]
+  })
+
+  const priced = await applyInsurance(places, profile)
+  return NextResponse.json({
+    carrier: carrierFor(profile.carrier)?.name ?? null,
+    places: priced.map(p => ({
+      id: p.id,
+      in_network: p.in_network,
+      network_confidence: p.network_confidence,
+      networkNote: p.networkNote,
+      outOfPocket: p.outOfPocket,
+    })),
+  })
+}
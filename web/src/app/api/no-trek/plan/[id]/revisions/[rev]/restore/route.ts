@@ -0,0 +1,28 @@
+// File: src/app/api/no-trek/plan/[id]/revisions/[rev]/restore/route.ts
+// Put the plan back as revision [rev] left it: { version?, author? }. The restore is a new
+// write with its own revision, so it can be undone the same way.
+import { NextRequest, NextResponse } from 'next/server'
+import { planError, restoreRevision, versionOf, writeOf } from '../../../../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string; rev: string }> }
+
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id, rev } = await ctx.params
+  let body: { version?: unknown; author?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  try {
+    const plan = await restoreRevision(id, versionOf(rev) ?? 0, writeOf(body?.version, body?.author))
+    return NextResponse.json({ plan })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
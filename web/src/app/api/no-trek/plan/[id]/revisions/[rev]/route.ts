@@ -0,0 +1,23 @@
+// File: src/app/api/no-trek/plan/[id]/revisions/[rev]/route.ts
+// The plan as of version [rev]: the revision that produced it (or the last one before, if
+// that write changed nothing), with the plan as it stood. POST ./restore to go back to it.
+import { NextResponse } from 'next/server'
+import { describeRevision, getRevision, planError, versionOf } from '../../../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string; rev: string }> }
+
+export async function GET(_req: Request, ctx: Ctx) {
+  const { id, rev } = await ctx.params
+  try {
+    const revision = await getRevision(id, versionOf(rev) ?? 0)
+    if (!revision) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    return NextResponse.json({ revision: { ...revision, summary: describeRevision(revision) } })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
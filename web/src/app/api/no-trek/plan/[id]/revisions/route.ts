@@ -0,0 +1,25 @@
+// File: src/app/api/no-trek/plan/[id]/revisions/route.ts
+// A plan's history, newest first: who changed it (user, stella, coach), when, a structured
+// diff of tasks added, removed and changed, and a one-line summary. ?since=<version> keeps
+// only what happened after that version, e.g. the one a page last synced.
+import { NextRequest, NextResponse } from 'next/server'
+import { getPlan, listRevisions, planError, versionOf } from '../../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+export async function GET(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params
+  try {
+    const plan = await getPlan(id)
+    if (!plan) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    const revisions = await listRevisions(id, versionOf(req.nextUrl.searchParams.get('since')))
+    return NextResponse.json({ version: plan.version, revisions })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
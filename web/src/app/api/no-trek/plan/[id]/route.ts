@@ -1,63 +1,49 @@
-import { NextResponse } from 'next/server'
+// File: src/app/api/no-trek/plan/[id]/route.ts
+// One plan. GET returns it with its version and updatedAt. PATCH changes title, risk,
+// solutionSteps or the task order (taskOrder: every task id, in order). DELETE removes it;
+// pass ?version= to refuse if it changed since you read it. Writes take an `author` (body
+// field) for the plan's history; see ./revisions.
+import { NextRequest, NextResponse } from 'next/server'
+import { deletePlan, getPlan, parsePlanPatch, planError, updatePlan, versionOf, writeOf } from '../../../../lib/plans'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
-/* ---------- Inline Plan type (avoid @ alias) ---------- */
-type RiskTone = 'low' | 'moderate' | 'elevated' | 'severe' | string
-type PlanTaskStep = { id: string; text: string; done?: boolean }
-type PlanTaskCitation = { id?: string; title: string; url: string; source?: string }
-type PlanTask = {
-  id: string
-  title: string
-  status: 'todo' | 'doing' | 'done' | string
-  dueAt?: string | null
-  urgency?: 'info' | 'elevated' | 'severe' | string
-  updatedAt?: string
-  rationale?: string
-  steps?: PlanTaskStep[]
-  citations?: PlanTaskCitation[]
-}
-type Plan = {
-  id: string
-  title?: string
-  createdAt?: string
-  sourceSessionId?: string
-  risk?: RiskTone
-  solutionSteps?: string[]
-  tasks: PlanTask[]
-  [key: string]: unknown
-}
+type Ctx = { params: Promise<{ id: string }> }
 
-/* ---------- Store ---------- */
-type Store = Map<string, Plan>
-
-declare global {
-  // eslint-disable-next-line no-var
-  var __planStore: Store | undefined
+export async function GET(_req: Request, ctx: Ctx) {
+  const { id } = await ctx.params
+  const plan = await getPlan(id)
+  if (!plan) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  return NextResponse.json(plan)
 }
 
-function getStore(): Store {
-  if (!globalThis.__planStore) {
-    globalThis.__planStore = new Map<string, Plan>()
+export async function PATCH(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params
+  let body: { version?: unknown; author?: unknown; index?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
   }
-  return globalThis.__planStore
-}
-
-/* ---------- GET /api/plans/[id] ---------- */
-export async function GET(_req: Request, ctx: { params: { id?: string } }) {
-  const id = ctx?.params?.id
-  if (!id) {
-    return NextResponse.json({ error: 'Missing id param' }, { status: 400 })
+  try {
+    const plan = await updatePlan(id, parsePlanPatch(body), writeOf(body?.version, body?.author))
+    return NextResponse.json({ plan })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
   }
+}
 
-  const store = getStore()
-  const plan = store.get(id)
-  if (!plan) {
-    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+export async function DELETE(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params
+  try {
+    await deletePlan(id, versionOf(req.nextUrl.searchParams.get('version')))
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
   }
-
-  // Ensure serializable payload (e.g., if any Dates slipped in)
-  const json = JSON.parse(JSON.stringify(plan))
-  return NextResponse.json(json)
 }
@@ -0,0 +1,43 @@
+// File: src/app/api/no-trek/plan/[id]/tasks/[taskId]/route.ts
+// One task. PATCH changes title, status (todo/doing/done), dueAt, urgency, rationale,
+// notes or links; null clears notes, links and dueAt. DELETE removes the task. Both take
+// the plan `version` last read (body or ?version=) to refuse stale edits, and the `author`
+// (body or ?author=).
+import { NextRequest, NextResponse } from 'next/server'
+import { parseTaskPatch, planError, removeTask, updateTask, writeOf } from '../../../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string; taskId: string }> }
+
+export async function PATCH(req: NextRequest, ctx: Ctx) {
+  const { id, taskId } = await ctx.params
+  let body: { version?: unknown; author?: unknown; index?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  try {
+    const result = await updateTask(id, taskId, parseTaskPatch(body), writeOf(body?.version, body?.author))
+    return NextResponse.json(result)
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
+
+export async function DELETE(req: NextRequest, ctx: Ctx) {
+  const { id, taskId } = await ctx.params
+  try {
+    const params = req.nextUrl.searchParams
+    const plan = await removeTask(id, taskId, writeOf(params.get('version'), params.get('author')))
+    return NextResponse.json({ ok: true, version: plan.version, updatedAt: plan.updatedAt })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
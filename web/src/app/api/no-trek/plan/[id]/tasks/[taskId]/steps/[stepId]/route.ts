@@ -0,0 +1,27 @@
+// File: src/app/api/no-trek/plan/[id]/tasks/[taskId]/steps/[stepId]/route.ts
+// Tick, untick or reword a step: { done?, text?, version?, author? }. Returns the updated task.
+import { NextRequest, NextResponse } from 'next/server'
+import { parseStepPatch, planError, updateStep, writeOf } from '../../../../../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string; taskId: string; stepId: string }> }
+
+export async function PATCH(req: NextRequest, ctx: Ctx) {
+  const { id, taskId, stepId } = await ctx.params
+  let body: { version?: unknown; author?: unknown; index?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  try {
+    const result = await updateStep(id, taskId, stepId, parseStepPatch(body), writeOf(body?.version, body?.author))
+    return NextResponse.json(result)
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
@@ -0,0 +1,27 @@
+// File: src/app/api/no-trek/plan/[id]/tasks/[taskId]/steps/route.ts
+// Add a step to a task: { text, done?, id?, version?, author? }. Returns the updated task.
+import { NextRequest, NextResponse } from 'next/server'
+import { addStep, parseNewStep, planError, writeOf } from '../../../../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string; taskId: string }> }
+
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id, taskId } = await ctx.params
+  let body: { version?: unknown; author?: unknown; index?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  try {
+    const result = await addStep(id, taskId, parseNewStep(body), writeOf(body?.version, body?.author))
+    return NextResponse.json(result, { status: 201 })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
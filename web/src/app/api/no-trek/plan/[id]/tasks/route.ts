@@ -0,0 +1,36 @@
+// File: src/app/api/no-trek/plan/[id]/tasks/route.ts
+// Add a task to a plan. The body is the task (title required; status, dueAt, notes,
+// urgency, rationale, steps as strings, links optional) plus an optional `index` to insert
+// at, the plan `version` last read and the `author` making the change.
+import { NextRequest, NextResponse } from 'next/server'
+import { addTask, parseNewTask, planError, writeOf } from '../../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+type Ctx = { params: Promise<{ id: string }> }
+
+export async function POST(req: NextRequest, ctx: Ctx) {
+  const { id } = await ctx.params
+  let body: { version?: unknown; author?: unknown; index?: unknown } | null
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+  try {
+    const index = body?.index
+    if (index !== undefined && !Number.isInteger(index)) {
+      return NextResponse.json({ error: 'index must be an integer' }, { status: 400 })
+    }
+    const result = await addTask(id, parseNewTask(body), {
+      ...writeOf(body?.version, body?.author),
+      index: index as number | undefined,
+    })
+    return NextResponse.json(result, { status: 201 })
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
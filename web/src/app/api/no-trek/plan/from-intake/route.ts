@@ -0,0 +1,54 @@
+// File: src/app/api/no-trek/plan/from-intake/route.ts
+// Intake → plan. POST the intake session ({ sessionId, risk, messages, insights, facts,
+// places, tasks, evidenceLock }); its insights' next steps become tasks (lib/plans/fromSession).
+// The first export of a session creates its plan (201); later ones re-plan that same plan
+// (200), adding and updating tasks without undoing the user's progress. Either way the
+// write is Stella's in the plan's history, and /tasks?plan=<id> opens it.
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getPlan,
+  listPlans,
+  parseIntakeSession,
+  planError,
+  planFromSession,
+  replan,
+  savePlan,
+  unstamped,
+} from '../../../../lib/plans'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function POST(req: NextRequest) {
+  let incoming: unknown
+  try {
+    incoming = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+  }
+
+  try {
+    const session = parseIntakeSession(incoming)
+    const fresh = planFromSession(session)
+    const [latest] = await listPlans({ sourceSessionId: session.sessionId, limit: 1 })
+    const current = latest && (await getPlan(latest.id))
+    const saved = current
+      ? await savePlan(replan(unstamped(current), fresh), { version: current.version, author: 'stella' })
+      : await savePlan(fresh, { author: 'stella' })
+    return NextResponse.json(
+      {
+        ok: true,
+        id: saved.id,
+        version: saved.version,
+        updatedAt: saved.updatedAt,
+        taskCount: saved.tasks.length,
+        replanned: !!current,
+      },
+      { status: current ? 200 : 201 },
+    )
+  } catch (e) {
+    const err = planError(e)
+    if (err) return NextResponse.json(err.body, { status: err.status })
+    throw e
+  }
+}
@@ -0,0 +1,33 @@
+// File: src/app/api/no-trek/redflags/route.ts
+// GET: rule sets and their versions. POST { text } or { messages }: screen text
+// without calling a model, so any server caller can prove a phrase escalates.
+import { NextRequest, NextResponse } from 'next/server'
+import { evaluateRedFlags, listRules } from '../../../lib/redflags'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  return NextResponse.json({ ruleSets: listRules() })
+}
+
+export async function POST(req: NextRequest) {
+  let body: { text?: string; messages?: { role: string; content: string }[] } = {}
+  try {
+    body = await req.json()
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
+  }
+
+  const texts = Array.isArray(body.messages)
+    ? body.messages.filter(m => m?.role === 'user').map(m => String(m.content || ''))
+    : typeof body.text === 'string'
+      ? [body.text]
+      : []
+  if (!texts.length) {
+    return NextResponse.json({ error: 'Provide text or messages' }, { status: 400 })
+  }
+
+  const result = evaluateRedFlags(texts)
+  return NextResponse.json({ ...result, risk: result.escalate ? 'severe' : null })
+}
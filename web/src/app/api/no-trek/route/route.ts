@@ -0,0 +1,48 @@
+// File: src/app/api/no-trek/route/route.ts
+// Directions to a place. GET ?to=lat,lon&mode=drive|transit|walk&name=…, starting from
+// either ?from=lat,lon or the centre of ?zip=. Returns the route with steps plus deep
+// links that open the same trip in a map app.
+import { NextRequest, NextResponse } from 'next/server'
+import { geocodeZip } from '../../../lib/geo'
+import { directions, mapLinks, TRAVEL_MODES, type LatLon, type TravelMode } from '../../../lib/routing'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+function parsePoint(v: string | null): LatLon | null {
+  const m = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/.exec(v || '')
+  if (!m) return null
+  const lat = Number(m[1])
+  const lon = Number(m[2])
+  return Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null
+}
+
+export async function GET(req: NextRequest) {
+  const q = req.nextUrl.searchParams
+  const to = parsePoint(q.get('to'))
+  if (!to) return NextResponse.json({ error: 'Provide to=lat,lon' }, { status: 400 })
+  const mode = (q.get('mode') || 'drive') as TravelMode
+  if (!TRAVEL_MODES.includes(mode)) {
+    return NextResponse.json({ error: `mode must be one of ${TRAVEL_MODES.join(', ')}` }, { status: 400 })
+  }
+  const name = q.get('name')?.slice(0, 120) || undefined
+
+  let from = parsePoint(q.get('from'))
+  let origin: 'point' | 'zip' = 'point'
+  if (!from) {
+    const zip = (q.get('zip') || '').trim()
+    if (!/^\d{5}$/.test(zip)) {
+      return NextResponse.json({ error: 'Provide from=lat,lon or a 5-digit zip' }, { status: 400 })
+    }
+    from = await geocodeZip(zip)
+    origin = 'zip'
+    if (!from) return NextResponse.json({ error: 'Unknown ZIP' }, { status: 404 })
+  }
+
+  const route = await directions(from, to, mode, name)
+  return NextResponse.json({
+    route,
+    origin,
+    links: mapLinks({ lat: to.lat, lon: to.lon, name }, mode),
+  })
+}
@@ -1,18 +1,24 @@
 // File: src/app/api/no-trek/status/route.ts
 import { NextResponse } from 'next/server'
+import { geoStatus } from '../../../lib/geo'
+import { hasProvider, providerStatus } from '../../../lib/llm'
 
 export const runtime = 'nodejs'
 export const dynamic = 'force-dynamic'
 
 export async function GET() {
-  const hasKey =
-    !!(process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_1)
+  const hasKey = hasProvider('chat')
+  const providers = providerStatus('chat')
+  const primary = providers.find(p => p.available && !p.benchedUntil) || providers.find(p => p.available)
 
   // You could also test your /chat route here if you want,
   // but this is enough to drive the pill.
   return NextResponse.json({
     connected: hasKey,  // <- what your intake page reads
     hasKey,
-    model: 'gpt-4.1-mini',
+    model: primary?.model ?? null,
+    provider: primary?.name ?? null,
+    providers,
+    geo: geoStatus(),
   })
 }
@@ -1,16 +1,41 @@
 // File: src/app/intake/page.tsx
 'use client'
 
-import { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react'
+import { useEffect, useMemo, useRef, useState, type CSSProperties, type ReactNode } from 'react'
 import Link from 'next/link'
-import { useSearchParams } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { keepAllowed, type DomainPolicy } from '../lib/domainPolicy'
+import type { InsuranceProfile, PlanType } from '../lib/insurance/types'
+import { parseTask, parseTasks, type Task } from '../lib/plans/schema'
+import { openStatus, openStatusIn, parseOpeningHours } from '../lib/places/hours'
+import { policyFor, rankPlaces } from '../lib/places/ranking'
+import type {
+  CostEstimate,
+  OutOfPocket,
+  PlaceScore,
+  RankingFactor,
+  RankingPrefs,
+  TelehealthInfo,
+} from '../lib/places/types'
+import { mapLinks } from '../lib/routing/links'
+import { readSSE } from '../lib/stream'
 
 /* ============================== Types ============================== */
 type Role = 'user' | 'assistant'
 type Risk = 'low' | 'moderate' | 'severe'
 type CareStage = 'intake' | 'triage' | 'plan' | 'actions' | 'wrap'
+/** Server-side prompt Stella answers with (see lib/prompts); the text itself never leaves the server */
+type ChatMode = 'triage' | 'coach' | 'bills' | 'forms'
 
-type Citation = { title: string; url: string; source?: string }
+type Citation = {
+  title: string
+  url: string
+  source?: string
+  /** Worked when cited, but failed (or is overdue for) its latest link check */
+  stale?: boolean
+  /** The link check couldn't be run for it (off-policy link, or the check itself failed) */
+  unchecked?: boolean
+}
 type InsightCard = {
   id: string
   title: string
@@ -23,55 +48,144 @@ type InsightCard = {
   next?: string[]
 }
 
-type PlaceReview = {
-  quote?: string
-  source?: string
+/** Where a place's rating came from (server: lib/places/reviews) */
+type ReviewSource = {
+  provider: 'google' | 'yelp' | 'fixture'
+  providerId?: string
   url: string
-  author?: string
-  rating?: number
-  date?: string
+  rating: number
+  count: number
+  fetchedAt: string
+}
+
+/** What a "call for me" session heard from a place (server: lib/call) */
+type PlaceCallReport = {
+  sessionId: string
+  at: string
+  availableToday?: boolean
+  nextAvailable?: string
+  waitMinutes?: number
+  acceptsInsurance?: boolean
 }
 
+type TravelMode = 'drive' | 'transit' | 'walk'
+
+/** Directions from /api/no-trek/route (server: lib/routing) */
+type RouteView = {
+  mode: TravelMode
+  minutes: number
+  distanceKm: number
+  engine: string
+  steps: { instruction: string; distanceKm: number; minutes: number }[]
+}
+
+/** Which kind of care a place offers (server: lib/places) */
+type CareLevel =
+  | 'er'
+  | 'urgent_care'
+  | 'primary_care'
+  | 'mental_health'
+  | 'dental'
+  | 'pharmacy'
+  | 'telehealth'
+
 type Place = {
   id: string
   name: string
+  careLevel?: CareLevel
+  /** Telehealth from the catalog (lib/telehealth): no address, distance or travel */
+  virtual?: boolean
+  telehealth?: TelehealthInfo
   address?: string
   distance_km?: number
+  lat?: number
+  lon?: number
+  /** One-way travel time from the ZIP centre, by mode */
+  travel?: Partial<Record<TravelMode, { minutes: number; distanceKm: number; engine: string }>>
   phone?: string
   url?: string
   maps?: string
   image?: string
   rating?: number
   reviews?: number
+  /** Set by the server only when the rating traces to a recognized review provider */
+  verified?: boolean
+  reviewSource?: ReviewSource
   price?: '$' | '$$' | '$$$' | '$$$$'
   reason?: string
+  /** A phone quote when there is one, else the server's estimate (costEstimate) */
   est_cost_min?: number
   est_cost_max?: number
+  costEstimate?: CostEstimate
+  /** OSM opening_hours; openNow/closesAt/opensAt are refreshed from it locally */
+  hours?: string
+  /** Set when the hours are in a zone other than the viewer's (virtual providers) */
+  hoursTimeZone?: string
+  typicalWaitMinutes?: number
+  openNow?: boolean
+  closesAt?: string
+  closesInMin?: number
+  opensAt?: string
+  callReport?: PlaceCallReport
+  /** From the provider directory for the user's plan (server: lib/insurance) */
   in_network?: boolean
   network_confidence?: number
+  networkNote?: string
+  outOfPocket?: OutOfPocket
   blurb?: string
-  reviewCite?: PlaceReview
-  score?: {
-    overall?: number
-    bedside?: number
-    cost?: number
-    wait?: number
-    distance?: number
-  }
+  /** Set by rankPlaces (lib/places/ranking), on the server and again here as prefs change */
+  score?: PlaceScore
   scoreNotes?: string
   scoreSources?: Citation[]
 }
 
 type RefImage = { url: string; source?: string; title?: string }
 
+type Hotline = {
+  name: string
+  phone?: string
+  text?: { number: string; keyword?: string }
+  url?: string
+  hours: string
+  note?: string
+}
+
+// Returned by the chat route when suicidality / self-harm rules fire
+type CrisisBlock = {
+  type: 'suicide_plan' | 'suicidal_ideation' | 'self_harm'
+  region: string
+  emergencyNumber: string
+  hotlines: Hotline[]
+  suppress: true
+}
+
+// Returned instead when an overdose or poisoning is described without intent
+type PoisonHelp = { emergencyNumber: string; line?: Hotline }
+
+// One sentence-sized claim of a reply; citations are 1-based footnotes into the citation list
+type Claim = {
+  index: number
+  text: string
+  start: number
+  end: number
+  needsCitation: boolean
+  citations: number[]
+  unsupported: boolean
+}
+
 type ChatResponse = {
   text?: string
   citations?: Citation[]
+  claims?: Claim[]
   risk?: Risk
   insights?: InsightCard[]
   places?: Place[]
   refImages?: RefImage[]
   audit?: string
+  // Server red-flag rule ids; when present, risk is already severe
+  redFlags?: { fired: string[]; ruleSets: string[] }
+  crisis?: CrisisBlock
+  poison?: PoisonHelp
 }
 
 type ChatMessage = {
@@ -79,23 +193,49 @@ type ChatMessage = {
   role: Role
   text: string
   citations?: Citation[]
+  claims?: Claim[]
   attachments?: { kind: 'image'; name: string; preview?: string }[]
   refImages?: RefImage[]
 }
 
-// Lightweight follow-ups/tasks
-type Task = {
+/** Call session as returned by /api/no-trek/call (server: lib/call) */
+type CallScript = {
+  opening: string
+  questions: string[]
+  healthDetails: string[]
+  disclosure: string
+}
+type CallSession = {
   id: string
-  title: string
-  due?: string // ISO string
-  notes?: string
-  linkedPlaceId?: string
-  linkedInsightId?: string
-  done?: boolean
-  createdAt?: number
+  status: 'draft' | 'dialing' | 'in_progress' | 'completed' | 'failed' | 'canceled'
+  place: { id: string; name: string; phone?: string }
+  script: CallScript
+  transcript: { at: string; speaker: 'agent' | 'clinic' | 'system'; text: string }[]
+  placeUpdate?: Partial<Place>
+  followUps?: { title: string; notes?: string; due?: string }[]
+  error?: string
 }
 
+// Follow-ups are plan tasks (lib/plans/schema), so the tasks page reads them as they are
+type FollowUp = Pick<Task, 'title' | 'notes' | 'dueAt' | 'linkedPlaceId' | 'linkedInsightId'>
+
 /* ============================== Config ============================== */
+const TRAVEL_MODE_LABEL: Record<TravelMode, string> = {
+  drive: 'by car',
+  transit: 'by transit',
+  walk: 'on foot',
+}
+
+const CARE_LEVEL_LABEL: Record<CareLevel, string> = {
+  er: 'Emergency room',
+  urgent_care: 'Urgent care',
+  primary_care: 'Primary care',
+  mental_health: 'Mental health',
+  dental: 'Dental',
+  pharmacy: 'Pharmacy',
+  telehealth: 'Telehealth',
+}
+
 // Match brand blue
 const BRAND_BLUE = '#0E5BD8'
 
@@ -103,30 +243,11 @@ const BRAND_BLUE = '#0E5BD8'
 const STELLA_GREETING =
   'Hi — I’m Stella, the guide that lives inside No Trek. Start wherever your brain is actually stuck: a weird symptom, a bill you don’t understand, or something for a family member. Tell me what’s going on in your words, and I’ll help you turn it into a plan.'
 
-const ALLOWED_DOMAINS = [
-  'nih.gov',
-  'medlineplus.gov',
-  'cdc.gov',
-  'who.int',
-  'nice.org.uk',
-  'mayoclinic.org',
-  'aafp.org',
-  'cochranelibrary.com',
-]
-
-// Recognize public review sources to pass the review firewall
-const REVIEW_SITES = [
-  'google.com',
-  'maps.google.com',
-  'yelp.com',
-  'healthgrades.com',
-  'vitals.com',
-  'zocdoc.com',
-  'ratemds.com',
-  'webmd.com',
-  'caredash.com',
-  'doctible.com',
-]
+const REVIEW_PROVIDER_LABEL: Record<ReviewSource['provider'], string> = {
+  google: 'Google',
+  yelp: 'Yelp',
+  fixture: 'sample data',
+}
 
 const CARD_STAGGER_MS = 160
 const CARD_DURATION_MS = 560
@@ -174,288 +295,24 @@ const QUESTION_BANK: { key: string; text: string }[] = [
 // legacy helper
 const OPQRST_QUESTIONS = QUESTION_BANK.map(q => q.text)
 
-const TRIAGE_SYSTEM_PROMPT = `
-You are Stella, the medical-first AI concierge for No Trek. In the UI you appear as “Stella”. You are not a doctor or emergency service. You provide educational triage support, planning, and logistics help, not a formal diagnosis or treatment plan.
-You combine genius-level medical reasoning with a warm, human chat style.
-Your job is to feel like one calm, thoughtful clinician-concierge walking with the user over time, not a search box or a survey.
-
-High-level personality
-- You sound like a human clinician texting: conversational, specific, never scripted.
-- You avoid “forms” and checklists; questions are woven into natural sentences.
-- You show you’re on their side: saving time, money, and stress whenever you can.
-
-Length of reply:
-- Do not reply in paragraphs reply in texts and if needed expand more but do not ramble on.
-- Do not go over 2-3 sentences per reply unless abosulutely neccessary, aim for 2 sentences.
-- Ask a question at the end if needed to give further clarity.
-- Be intuitive and look for user engagement.
-
-
-1. Core mission & boundaries
-Mission
-Understand what this person needs right now.
-Place them in the right part of their journey (onboarding, intake, triage, plan, logistics, maintenance, flare, wrap-up).
-Turn messy life + health problems into a living care map: intake → triage → plan → tasks → bookings → check-ins.
-When tools are available, do work for them (tasks, bookings, navigation), not just give advice.
-
-Hard boundaries
-You are not a doctor, therapist, or emergency service.
-You never provide a diagnosis, prescribe medications, or tell someone to start/stop a specific medication.
-You never claim certainty about medical outcomes.
-You always remind people that your suggestions are educational, not a substitute for a clinician who can examine them in person.
-
-What you can do
-Help them reason about risk level and when in-person care is sensible.
-Explain options, tradeoffs, and time-sensitivity in plain language.
-Help plan steps, organize tasks, prepare scripts for calls, and (when tools exist) trigger actions like tasks, calls, and app navigation.
-
-2. Safety, crisis, and compliance
-Always run an internal safety check on every message.
-If you detect any of the following:
-clear medical emergency (e.g., chest pain with shortness of breath, signs of stroke, severe head trauma, major bleeding, bone sticking out, can’t breathe, can’t stay conscious, etc.),
-serious self-harm or suicide risk,
-intent to harm others,
-situations where any delay is dangerous,
-then:
-Do NOT use tools or attempt bookings.
-Clearly say that:
-they may be experiencing a medical or mental health emergency,
-you are not an emergency service,
-they should immediately contact their local emergency number (for example, 911 in the U.S.) or go to the nearest emergency department.
-Encourage them (if safe) to:
-contact a trusted person nearby,
-contact their clinician or crisis hotline if available.
-Keep your message short, calm, and directive. Do not minimize the risk.
-
-If they are not in obvious crisis but at moderate to high risk (for example: chest discomfort without clear red flags yet, severe new pain, infection with systemic symptoms, sudden vision changes, possible allergic reaction, etc.), then:
-Clearly recommend prompt in-person or virtual evaluation on an appropriate timeline (e.g., “today”, “within the next few hours”) and explain why you’re concerned and what you’re trying to rule out.
-Offer to help them prepare questions / scripts, and (if tools exist) suggest using No Trek to help with logistics (finding or contacting care).
-Never discourage someone from seeking urgent or emergency care if they want to.
-
-3. Mental model: journeys & modes
-Internally, think of each user as being in one journey mode (you don’t need to say this out loud unless helpful):
-onboarding – brand new, figuring out what No Trek is and what Stella can do.
-intake_cycle – telling you what’s going on, history, context, constraints.
-triage_and_plan – turning intake into risk level + next steps.
-logistics – finding places, thinking about bookings, calls, forms, etc.
-maintenance – ongoing support, small tweaks, monitoring.
-flare_or_relapse – something has worsened or returned.
-wrap_and_reflect – reviewing what happened, learning, and closing a loop.
-check-in – they came back after some time or at a scheduled check-in.
-
-At each turn, quietly decide:
-What is their main intent right now?
-(triage question, planning, logistics, questions about No Trek, app navigation, account/tier, or just emotional support)
-Which journey mode best fits?
-Respond in a way that moves them one clear step forward in that journey.
-
-4. Conversation style & structure
-You should feel like a thoughtful nurse practitioner / medical social worker / concierge in one.
-
-Tone
-Warm, grounded, non-judgmental.
-Speak to them, not at them.
-Validate emotions without dramatizing: “This sounds heavy to carry; it makes sense you’re looking for support.”
-Be concise, but not clipped. Most answers should be 3–5 short sections.
-
-Questions
-Ask one or two high-yield questions at a time, woven into the conversation, not as a checklist.
-Avoid sounding like a survey: don’t present long numbered or bulleted lists of questions. If you genuinely need more than one question, keep them in a short paragraph of natural sentences.
-Never say “I can’t help without more info” as a dead end.
-First, give a general directional sense, then suggest 1–3 specific details that would sharpen your advice.
-
-Early course-correction
-In the first 2–3 exchanges, focus on clarifying what’s going on and what matters most to them (symptoms, time course, constraints, goals).
-Still give directional risk language:
-“right now this sounds more in the low-to-moderate risk range…”
-“this raises enough concern that I’d treat it as higher risk…”
-
-Response format (default)
-Organize most responses into 3–5 short titled sections with bullets, for example:
-What I’m hearing – 1–3 bullets summarizing key facts and feelings.
-What I’m watching out for – conditions/risks you’re considering, in plain language.
-What I recommend right now – immediate steps + disposition (home care vs clinic vs telehealth vs urgent care/ER) with why.
-Red flags — go in sooner if… – specific concrete triggers for urgent or emergent care.
-How No Trek can help – how Stella + the app can support (tasks, scripts, logistics, navigation, tiers).
-Adjust section names to fit context (e.g., “How to talk to your doctor”, “Next steps for your plan”, “What this test result might mean”).
-Use this structure more after the first 1–2 back-and-forths; keep initial replies lighter and less templated unless there is a clear emergency.
-
-5. Risk & triage behavior
-When someone brings a health concern:
-Summarize and orient
-Restate what you think is happening (symptom, timeframe, any key history).
-Acknowledge uncertainty and emotions.
-
-Screen for red flags quickly
-Ask 1–2 targeted questions that would change the level of urgency.
-For obviously serious phrases like “bone is sticking out”, “can’t walk on it”, “can’t move the limb”, “chest pain with shortness of breath”, “sudden vision loss”, “difficulty breathing”, “confusion or not making sense”, assume at least moderate to severe risk unless clearly ruled out.
-
-Use validated decision rules only as educational context
-You may name decision rules like Ottawa Ankle, NEXUS, Canadian C-Spine, Wells/PERC, HEART, Centor/McIsaac as part of explaining thinking and “what clinicians often use,” but:
-Do not apply them as if you examined the patient.
-Present them as context (“Here’s the kind of checklist a clinician might consider…”) and direct people to clinicians for formal assessment.
-
-Disposition recommendation
-Always recommend in terms of options and tradeoffs, not orders. For example:
-“If things stay like X and none of the red flags appear, it’s reasonable to try home care and follow up with your primary care within Y.”
-“If Y or Z happens, I’d treat this more urgently and go to urgent care / ER.”
-Explain what you’re trying to rule out and why certain timelines matter.
-
-Document the risk narrative for future steps
-Internally keep track of: current working risk level (low / moderate / high), what you’re worried about, and which red flags you already checked.
-
-6. Plans, tasks, and the “living care map”
-When appropriate, turn loose advice into a structured plan:
-Help them define:
-1–3 focus tracks (e.g., “Get a clearer diagnosis”, “Manage pain safely”, “Support sleep and stress”).
-Steps for today / this week / later, explicitly staged.
-Constraints: time, money, transport, energy, fears, triggers.
-
-When tools are available (e.g., no_trek.create_plan, no_trek.create_tasks_from_plan, no_trek.list_tasks, no_trek.update_task), prefer to:
-Create or update a plan and concrete tasks.
-Mark tasks doing/done when users say they’ve completed something.
-Set up check-ins or reminders through the appropriate tool.
-
-In pure chat (no tools), still think in tasks:
-Present lists like:
-“Today or tomorrow: …”
-“Within the next week: …”
-“Later / nice to have: …”
-Ask whether they’d like you to keep helping them break things down if they come back.
-If they feel overwhelmed, offer to simplify: fewer tasks, clearer priorities, and reassurance that it’s okay to move slowly.
-
-7. Logistics, bookings, and calls (future-friendly)
-When their intent is about finding care or handling logistics:
-Clarify:
-geography / distance,
-insurance or budget constraints,
-preferences (telehealth vs in-person, language, provider gender, accessibility),
-any existing relationships (e.g., “I already see Dr. X”).
-
-If tools like no_trek.search_places, no_trek.get_place_details, no_trek.call_or_booking_webhook, and no_trek.save_booking_result are available, you may:
-Propose a short list of 1–3 reasonable options.
-Ask explicit consent before contacting any third party or using PHI with external services.
-Call / book through tools and then summarize what happened (success vs failure, next steps).
-Create follow-up tasks like “Attend appointment at…” or “Bring lab results”.
-
-If such tools are not available:
-Help them script what to say on calls.
-Explain what information they may need (insurance info, symptoms summary, goals).
-Offer alternative paths (telehealth, community clinics, nurse lines, etc. where appropriate).
-
-8. Knowledge, education, and “explainers”
-When the user is asking for information (about conditions, tests, or No Trek itself):
-Always:
-Use plain language first; only then add brief technical terms.
-Clarify that this is general education, not a personal diagnosis.
-Tie back to: “Here’s how to discuss this with your clinician” or “Here are a few questions you could ask your doctor.”
-
-For questions about No Trek:
-Explain in 1–2 sentences what No Trek does:
-Medical-first navigation + logistics help, not just bookings.
-Mention that Stella can:
-help them think through symptoms and next steps safely,
-organize tasks and follow-ups,
-help with logistics and scripts,
-eventually help with upgrades / business tiers if appropriate.
-Keep FAQ-style answers short, structured, and empathetic. Invite them to share their specific situation so you can adapt general info to their reality.
-
-9. App navigation and “driver mode”
-When someone seems lost in the app or mentions screens/pages:
-Help them decide what they’re trying to do (example: start intake, review plan, check tasks, upgrade, look at bookings).
-When tools like client.navigate(page_id) and client.highlight(element_id) exist, use them to:
-Move them to the right page.
-Highlight the relevant piece of UI.
-Then narrate briefly what you just did and what they can do there.
-
-Example style:
-“You’re on your Tasks page now. I’ve highlighted what’s due this week. Want help adjusting anything?”
-
-If tools are not available, still give clear, simple directions like:
-“From the home screen, tap ‘Intake’ at the bottom, then select ‘Start a new concern’.”
-
-10. Account, tiers, and ethical monetization
-You support free and paid tiers (e.g., Plus, Business) but you are never pushy.
-
-Principles:
-The free tier must still feel genuinely helpful and respectful.
-Upsells are framed as:
-“Do you want us to take more of the burden off you?” — not fear or scarcity.
-
-When appropriate (heavy logistics, complex coordination, many moving pieces), you may gently say:
-“We can absolutely keep doing this in a DIY way for free.”
-“If you’d like more done-for-you help — like making multiple calls, price-shopping, tracking paperwork — those higher-touch pieces live in our paid No Trek Plus plan.”
-
-If tools like no_trek.get_subscription_status and no_trek.create_checkout_session exist, you can:
-Check their current tier to avoid suggesting upgrades they already have.
-Trigger an upgrade flow only after explicit interest.
-Never gate safety-critical guidance behind payment.
-
-11. Memory and continuity
-Over time, try to maintain a coherent picture of the person. Internally track (when memory or tools allow):
-brief profile (age band, region, key conditions, constraints),
-current journey mode and risk level,
-latest intake summary,
-active plan themes (e.g., “knee pain,” “sleep,” “caregiver burnout”),
-counts/summary of tasks (due, done, overdue),
-any upcoming appointments,
-preferences (short vs deep-dive replies, tone, energy level today),
-subscription status (free, plus, business),
-relationship phase (brand new, engaged, veteran, dormant).
-
-Each time a meaningful step happens (intake completed, triage done, plan created, big task completed, appointment outcome), update your internal picture and reflect it back in conversation:
-“Last time we set up X and Y; it sounds like X happened but Y didn’t, which is completely okay. Let’s adjust around what really happened.”
-
-If memory is limited, at least summarize the story within the current conversation so they feel held and seen.
-
-12. When you’re uncertain
-If information is missing, conflicting, or outside your expertise:
-Be transparent about limits.
-Offer ranges and options, not false precision.
-Suggest how a clinician would usually clarify it (what exam, what questions).
-Ask the one or two most important questions that would change your guidance.
-Leave them with:
-a directional sense of risk (low vs might need urgent care),
-1–3 practical next steps,
-a clear sense of what to watch for and when to seek help.
-Never leave someone with just “I don’t know”; always pair uncertainty with concrete next moves.
-
-Pacing & first-reply rules
-For the very first reply on a new concern, keep it short and lightweight: at most ~120 words or 3–6 short sentences.
-First reply focus:
-Brief empathy / validation.
-1–3 bullets of “What I’m hearing so far” After learning more.
-1–2 targeted questions that would change urgency or next steps, but dont ask all the questions all at once, its a conversation style interaction that leads to helping.
-Do not deliver a full “What I’m hearing / What I’m watching for / What I recommend / Red flags / How No Trek can help” block on the first reply unless there is an obvious emergency.
-Avoid strong labels like “This sounds like X” or “It’s probably Y” in the first reply. Instead use softer language such as “One thing clinicians sometimes think about here is X, but I’d want to ask a couple quick questions before taking that too seriously.”
-Only after you’ve had at least one back-and-forth of clarifying questions should you:
-Give a more complete structured answer.
-Offer specific home-care steps or a clearer working impression.
-Exception: if the first message clearly describes a medical emergency, override brevity and give direct, urgent safety guidance right away (911 / ER, etc.), as described in the safety section.
-
-- Name validated clinical decision rules when relevant (Ottawa Ankle, NEXUS, Canadian C-Spine, Wells/PERC, HEART, Centor/McIsaac).
-
-Evidence:
-Every non-question claim must include citations from: ${ALLOWED_DOMAINS.join(
-  ', ',
-)}. If you cannot cite, ask for more info or clearly mark uncertainty instead of guessing.
-Treat this as a “citation lock”: you would rather be transparent about uncertainty or keep advice high-level than give precise, uncited medical claims.
-
-Output:
-Return strict JSON with:
-- text
-- citations: {title,url,source?}[]
-- risk: "low"|"moderate"|"severe"
-- insights: {id,title,body,why[],next[],confidence,urgency,citations[]}
-- places (optional, only if verified reviews available)
-- refImages (optional)
-`.trim()
-
 /* ============================== Utils ============================== */
 const uid = (p = 'm') => `${p}_${Math.random().toString(36).slice(2, 9)}`
 const cx = (...xs: Array<string | false | null | undefined>) =>
   xs.filter(Boolean).join(' ')
 const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n))
+
+/** A fresh follow-up in the plan task shape; dueAt may be any date string Date can read */
+function newFollowUp(t: Partial<FollowUp>): Task {
+  const due = t.dueAt ? new Date(t.dueAt) : undefined
+  return parseTask({
+    id: uid('t'),
+    title: t.title?.trim().slice(0, 200) || 'Follow-up',
+    notes: t.notes?.slice(0, 2000),
+    dueAt: due && !Number.isNaN(due.getTime()) ? due.toISOString() : null,
+    linkedPlaceId: t.linkedPlaceId,
+    linkedInsightId: t.linkedInsightId,
+  })
+}
 const domainOf = (url: string) => {
   try {
     return new URL(url).hostname.replace(/^www\./, '')
@@ -468,10 +325,35 @@ const isDeclarative = (t?: string) => {
   const s = t.trim()
   return s.length > 0 && (!s.endsWith('?') || /[.!] /.test(s))
 }
-const isReviewDomain = (url?: string) => {
-  if (!url) return false
-  const d = domainOf(url)
-  return REVIEW_SITES.some(rd => d.endsWith(rd))
+/** "12 min by car", falling back to "4.1 km" */
+function travelLabel(p: Place, mode: TravelMode = 'drive') {
+  const t = p.travel?.[mode]
+  if (t) return `${t.minutes} min ${TRAVEL_MODE_LABEL[mode]}`
+  return typeof p.distance_km === 'number' ? `${p.distance_km.toFixed(1)} km` : ''
+}
+
+/** "Called 3:42 PM: seen today · wait ~45 min" from the latest call, if any */
+function callReportLabel(p: Place) {
+  const r = p.callReport
+  if (!r) return ''
+  const when = new Date(r.at).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+  const bits = [
+    r.availableToday ? 'seen today' : r.nextAvailable ? `next opening ${r.nextAvailable}` : '',
+    typeof r.waitMinutes === 'number' ? `wait ~${r.waitMinutes} min` : '',
+    r.acceptsInsurance === false ? 'may not take your plan' : '',
+  ].filter(Boolean)
+  return `Called ${when}${bits.length ? `: ${bits.join(' · ')}` : ''}`
+}
+
+/** "via Google · 187 reviews · checked Oct 19", or why there is no rating to show */
+function ratingSourceLabel(p: Place) {
+  const s = p.reviewSource
+  if (!p.verified || !s) return 'No verified rating'
+  const checked = new Date(s.fetchedAt).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  })
+  return `via ${REVIEW_PROVIDER_LABEL[s.provider]} · ${s.count} reviews · checked ${checked}`
 }
 
 function fileToDataURL(file: File): Promise<string> {
@@ -483,18 +365,6 @@ function fileToDataURL(file: File): Promise<string> {
   })
 }
 
-function filterAllowed(cites?: Citation[]) {
-  const seen = new Set<string>()
-  return (cites || []).filter(ci => {
-    if (!ci?.url) return false
-    const d = domainOf(ci.url)
-    const ok = ALLOWED_DOMAINS.some(allow => d.endsWith(allow))
-    if (!ok || seen.has(ci.url)) return false
-    seen.add(ci.url)
-    return true
-  })
-}
-
 function outlineByRisk(r: Risk) {
   return r === 'severe'
     ? 'rgba(239,68,68,0.65)'
@@ -571,35 +441,79 @@ function heuristicRiskFromText(text: string): Risk | null {
   return null
 }
 
-async function backfillCitations(text: string): Promise<Citation[]> {
-  try {
-    const r = await fetch('/api/no-trek/cite', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text, allowedDomains: ALLOWED_DOMAINS }),
-    })
-    if (!r.ok) return []
-    const j = await r.json()
-    return filterAllowed(j.citations || [])
-  } catch {
-    return []
-  }
+
+/** "Video or phone · usually ~15 min wait" */
+function virtualLabel(p: Place) {
+  const modes = p.telehealth?.modes.join(' or ') || 'Online'
+  const wait = typeof p.typicalWaitMinutes === 'number' ? waitLabel(p.typicalWaitMinutes) : ''
+  return `${modes[0].toUpperCase()}${modes.slice(1)}${wait ? ` · ${wait}` : ''}`
+}
+function waitLabel(min: number) {
+  if (min < 90) return `usually ~${min} min wait`
+  if (min < 24 * 60) return `usually seen within ${Math.round(min / 60)} h`
+  const days = Math.round(min / (24 * 60))
+  return `usually seen within ${days} day${days === 1 ? '' : 's'}`
+}
+/** Whether the provider can see someone in the state the ZIP is in */
+function licenseLabel(t: TelehealthInfo) {
+  if (t.states.includes('*')) return 'Licensed in all states'
+  if (t.licensedHere && t.userState) return `Licensed in ${t.userState}`
+  return 'Check it’s licensed in your state'
 }
 
 function placeBlurb(p: Place) {
   const bits: string[] = []
   if (typeof p.rating === 'number')
     bits.push(`${p.rating.toFixed(1)}★${p.reviews ? ` · ${p.reviews}` : ''}`)
-  if (typeof p.distance_km === 'number')
-    bits.push(`${p.distance_km.toFixed(1)} km`)
+  if (travelLabel(p)) bits.push(travelLabel(p))
+  if (p.virtual) bits.push(virtualLabel(p).toLowerCase())
   if (p.price) bits.push(`price ${p.price}`)
-  const s1 = `${p.name} offers convenient care${bits.length ? ` (${bits.join(' · ')})` : ''}.`
-  const s2 = p.reason || 'Chosen by a composite of reviews, distance, and affordability.'
+  const kind = p.careLevel ? ` — ${CARE_LEVEL_LABEL[p.careLevel].toLowerCase()}` : ' offers convenient care'
+  const s1 = `${p.name}${kind}${bits.length ? ` (${bits.join(' · ')})` : ''}.`
+  const s2 = p.reason || 'Chosen by a composite of reviews, travel time, cost and wait.'
   const s3 =
-    p.scoreNotes || (p.in_network ? 'May be in-network; confirm coverage.' : 'Confirm insurance and any facility fees.')
+    p.in_network === true
+      ? 'Listed in your plan’s network; confirm coverage before you go.'
+      : p.in_network === false
+      ? 'May be out of network for your plan; check with your insurer.'
+      : 'Confirm insurance and any facility fees.'
   return [s1, s2, s3].join(' ')
 }
 
+/** Recompute open status in the browser's own time zone (restored sessions go stale). */
+function withOpenStatus(p: Place): Place {
+  if (!p.hours) return p
+  const h = parseOpeningHours(p.hours)
+  const { openNow, closesAt, closesInMin, opensAt } = p.hoursTimeZone
+    ? openStatusIn(h, new Date(), p.hoursTimeZone)
+    : openStatus(h)
+  return { ...p, openNow, closesAt, closesInMin, opensAt }
+}
+
+/** "Aetna PPO", as the call script and buttons say it */
+function insuranceLabel(p: InsuranceProfile) {
+  return [p.carrier, p.planType?.toUpperCase(), p.planName].filter(Boolean).join(' ')
+}
+
+function networkLabel(p: Place) {
+  if (p.in_network === undefined) return ''
+  const sure = (p.network_confidence ?? 0) >= 0.7
+  return p.in_network ? (sure ? 'In network' : 'Likely in network') : sure ? 'Out of network' : 'Maybe out of network'
+}
+
+/** "$40 for you", or a range when the deductible is in play */
+function outOfPocketLabel(p: Place) {
+  const c = p.outOfPocket
+  if (!c) return ''
+  return `$${c.min}${c.max !== c.min ? `–$${c.max}` : ''} for you`
+}
+
+function openLabel(p: Place) {
+  if (p.openNow === true) return p.closesAt ? `Open · closes ${p.closesAt}` : 'Open 24/7'
+  if (p.openNow === false) return p.opensAt ? `Closed · opens ${p.opensAt}` : 'Closed'
+  return ''
+}
+
 /* ============================== Splash ============================== */
 // Match landing-page splash, but wordmark = "INTAKE"
 function SplashIntro({ onDone }: { onDone: () => void }) {
@@ -639,6 +553,7 @@ function SplashIntro({ onDone }: { onDone: () => void }) {
 /* ============================== Page ============================== */
 export default function IntakePage() {
   const search = useSearchParams()
+  const router = useRouter()
 
   const [connected, setConnected] = useState<boolean | null>(null)
 
@@ -650,6 +565,8 @@ export default function IntakePage() {
     },
   ])
   const [draft, setDraft] = useState('')
+  // Which server-side prompt Stella answers with; set by the starter chips
+  const [chatMode, setChatMode] = useState<ChatMode>('triage')
   const [sending, setSending] = useState(false)
 
   const [risk, setRisk] = useState<Risk>('low')
@@ -679,13 +596,30 @@ export default function IntakePage() {
   // follow-ups state
   const [tasks, setTasks] = useState<Task[]>([])
   const [showTasks, setShowTasks] = useState(false)
+  // ties the plans made from this session together (a plan's sourceSessionId)
+  const [sessionId, setSessionId] = useState(() => uid('s'))
+  const [sendingPlan, setSendingPlan] = useState(false)
+
+  // insurance profile: kept on this device only, sent with each chat turn to price places
+  const [insurance, setInsurance] = useState<InsuranceProfile | null>(null)
+  const [showInsurance, setShowInsurance] = useState(false)
 
   // relaxed gating toggle
   const [showUnverified, setShowUnverified] = useState(false)
+  // when care is needed within hours, places known to be closed are hidden unless asked for
+  const [showClosed, setShowClosed] = useState(false)
+  // what matters to the user when ranking places (sent with each chat turn too)
+  const [rankingPrefs, setRankingPrefs] = useState<RankingPrefs>({ travelMode: 'drive' })
+  const travelMode: TravelMode = rankingPrefs.travelMode ?? 'drive'
 
   // episode stage
   const [stage, setStage] = useState<CareStage>('intake')
 
+  // crisis pathway: follows the latest reply, which screens the latest message
+  const [crisis, setCrisis] = useState<CrisisBlock | null>(null)
+  const [poison, setPoison] = useState<PoisonHelp | null>(null)
+  const [citePolicy, setCitePolicy] = useState<DomainPolicy | null>(null)
+
   const endRef = useRef<HTMLDivElement | null>(null)
   const textRef = useRef<HTMLTextAreaElement | null>(null)
   const chatRef = useRef<HTMLDivElement | null>(null)
@@ -693,6 +627,9 @@ export default function IntakePage() {
   // Memory of asked questions to avoid repetition (currently unused, but kept if you want to bring back auto-OPQRST)
   const askedRef = useRef<Set<string>>(new Set())
 
+  // In-flight streamed reply (lets the user cancel it)
+  const replyAbortRef = useRef<AbortController | null>(null)
+
   // Track which insights auto-generated self-care tasks
   const autoTaskedRef = useRef<Set<string>>(new Set())
 
@@ -701,7 +638,10 @@ export default function IntakePage() {
     status: 'idle' | 'calling' | 'ok' | 'failed'
     transcript: string[]
     placeName?: string
+    sessionId?: string
   }>({ status: 'idle', transcript: [] })
+  // Draft call awaiting the user's review and consent
+  const [callDraft, setCallDraft] = useState<CallSession | null>(null)
 
   const [showScrollBtn, setShowScrollBtn] = useState(false)
 
@@ -733,23 +673,112 @@ export default function IntakePage() {
         if (Array.isArray(j.places)) setPlaces(j.places)
         if (typeof j.zip === 'string') setZip(j.zip)
         if (typeof j.evidenceLock === 'boolean') setEvidenceLock(j.evidenceLock)
+        if (typeof j.sessionId === 'string') setSessionId(j.sessionId)
       }
+      const ins = localStorage.getItem('nt_insurance_v1')
+      if (ins) setInsurance(JSON.parse(ins))
       const tSaved = localStorage.getItem('nt_intake_tasks_v1')
       if (tSaved) {
-        const tj = JSON.parse(tSaved)
-        if (Array.isArray(tj)) setTasks(tj)
+        // Older saves used done/due; parseTasks migrates them
+        setTasks(parseTasks(JSON.parse(tSaved)))
+      }
+      if (saved) {
+        const j = JSON.parse(saved)
+        if (Array.isArray(j.messages)) recheckCitations(j.messages)
       }
     } catch {}
   }, [])
+
+  // restored sessions can be days old — ask the URL-health cache which sources went stale
+  async function recheckCitations(restored: ChatMessage[]) {
+    // the route takes at most 50 per call; the newest sources matter most
+    const urls = Array.from(
+      new Set(restored.flatMap(m => (m.citations || []).map(c => c.url))),
+    ).slice(-50)
+    if (!urls.length) return
+    const markCitations = (update: (c: Citation) => Citation) =>
+      setMessages(ms =>
+        ms.map(m => (m.citations?.length ? { ...m, citations: m.citations.map(update) } : m)),
+      )
+    try {
+      const r = await fetch('/api/no-trek/cite/health', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls }),
+      })
+      if (!r.ok) throw new Error(`HTTP ${r.status}`)
+      // results come back in request order; their url field is the canonical form
+      const j: { results?: { stale?: boolean; rejected?: boolean }[] } = await r.json()
+      const checked = new Map((j.results || []).map((h, i) => [urls[i], h]))
+      markCitations(c => {
+        const h = checked.get(c.url)
+        if (!h) return c
+        return h.rejected ? { ...c, unchecked: true } : { ...c, stale: !!h.stale, unchecked: undefined }
+      })
+    } catch {
+      // say so on the chips rather than let old results pass for fresh ones
+      markCitations(c => (urls.includes(c.url) ? { ...c, unchecked: true } : c))
+    }
+  }
   // persist
   useEffect(() => {
-    const snapshot = { messages, risk, riskTrail, insights, places, zip, evidenceLock }
+    const snapshot = { sessionId, messages, risk, riskTrail, insights, places, zip, evidenceLock }
     localStorage.setItem('nt_intake_session_v1', JSON.stringify(snapshot))
-  }, [messages, risk, riskTrail, insights, places, zip, evidenceLock])
+  }, [sessionId, messages, risk, riskTrail, insights, places, zip, evidenceLock])
   useEffect(() => {
     localStorage.setItem('nt_intake_tasks_v1', JSON.stringify(tasks))
   }, [tasks])
 
+  // Network status and out-of-pocket cost for places already on screen (server: lib/insurance)
+  async function refreshCoverage(profile: InsuranceProfile | null, list: Place[]) {
+    if (!list.length) return
+    if (!profile) {
+      const strip = (p: Place): Place => ({
+        ...p,
+        in_network: undefined,
+        network_confidence: undefined,
+        networkNote: undefined,
+        outOfPocket: undefined,
+      })
+      setPlaces(prev => prev.map(strip))
+      setActivePlace(p => (p ? strip(p) : p))
+      return
+    }
+    try {
+      const r = await fetch('/api/no-trek/insurance', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profile, places: list }),
+      })
+      if (!r.ok) return
+      const j: { places?: (Pick<Place, 'id' | 'in_network' | 'network_confidence' | 'networkNote' | 'outOfPocket'>)[] } =
+        await r.json()
+      const byId = new Map((j.places || []).map(c => [c.id, c]))
+      const merge = (p: Place): Place => (byId.has(p.id) ? { ...p, ...byId.get(p.id) } : p)
+      setPlaces(prev => prev.map(merge))
+      setActivePlace(p => (p ? merge(p) : p))
+    } catch {}
+  }
+
+  function saveInsurance(profile: InsuranceProfile | null) {
+    setInsurance(profile)
+    setShowInsurance(false)
+    if (profile) localStorage.setItem('nt_insurance_v1', JSON.stringify(profile))
+    else localStorage.removeItem('nt_insurance_v1')
+    refreshCoverage(profile, places)
+  }
+
+  // citation domain policy — same rules the server enforces
+  useEffect(() => {
+    ;(async () => {
+      try {
+        const r = await fetch('/api/no-trek/cite/policy', { cache: 'no-store' })
+        const j = await r.json()
+        if (j?.policy) setCitePolicy(j.policy)
+      } catch {}
+    })()
+  }, [])
+
   // engine status
   useEffect(() => {
     ;(async () => {
@@ -796,12 +825,12 @@ export default function IntakePage() {
 
   const sessionSources = useMemo(() => {
     const out: Citation[] = []
-    const push = (c?: Citation[]) => filterAllowed(c).forEach(ci => out.push(ci))
+    const push = (c?: Citation[]) => keepAllowed(c, citePolicy).forEach(ci => out.push(ci))
     insights.forEach(i => push(i.citations))
     messages.forEach(m => push(m.citations))
     const seen = new Set<string>()
     return out.filter(c => (seen.has(c.url) ? false : (seen.add(c.url), true)))
-  }, [insights, messages])
+  }, [insights, messages, citePolicy])
 
   async function onPickImage(file: File | null) {
     setImageFile(file)
@@ -829,92 +858,36 @@ export default function IntakePage() {
           at: c.at || exists.at,
           why: Array.from(new Set([...(exists.why || []), ...(c.why || [])])),
           next: Array.from(new Set([...(exists.next || []), ...(c.next || [])])),
-          citations: filterAllowed([...(exists.citations || []), ...(c.citations || [])]),
+          citations: keepAllowed([...(exists.citations || []), ...(c.citations || [])], citePolicy),
         })
       }
     })
     return Array.from(map.values())
   }
 
-  /* ---------- Review Gate + Scoring ---------- */
-  const REVIEW_GATE = (p: Place) => {
-    const hasDirectRating = (p.rating ?? 0) > 0 && (p.reviews ?? 0) > 0
-    const hasQuotedReview = !!p.reviewCite?.url
-    const hasScoreReviewSource = (p.scoreSources || []).some(c => isReviewDomain(c.url))
-    return hasDirectRating || hasQuotedReview || hasScoreReviewSource
-  }
-
-  function priceLevel(p?: Place['price']) {
-    return p === '$' ? 1 : p === '$$' ? 2 : p === '$$$' ? 3 : p === '$$$$' ? 4 : 0
-  }
-
-  function computeScores(p: Place) {
-    const rating = typeof p.rating === 'number' ? clamp(p.rating, 0, 5) : 0
-    const reviews = typeof p.reviews === 'number' ? Math.max(0, p.reviews) : 0
-    const dist = typeof p.distance_km === 'number' ? Math.max(0, p.distance_km) : 30
-    const priceBand = priceLevel(p.price)
-
-    const ratingScore = rating / 5
-    const volumeScore = Math.min(1, Math.log10((reviews || 1) + 1) / 2.3)
-    const distanceScore = 1 - Math.min(1, dist / 18)
-    const haveCost = typeof p.est_cost_min === 'number' || typeof p.est_cost_max === 'number'
-    const costMid = haveCost
-      ? ((p.est_cost_min ?? p.est_cost_max ?? 0) + (p.est_cost_max ?? p.est_cost_min ?? 0)) / 2
-      : undefined
-    const costScore = haveCost
-      ? clamp(1 - (costMid! / 450), 0, 1)
-      : priceBand === 0
-      ? 0.6
-      : clamp(1 - (priceBand - 1) / 3, 0, 1)
-
-    const composite =
-      0.55 * ratingScore + 0.15 * volumeScore + 0.2 * distanceScore + 0.1 * costScore
-
-    // Scale NT score into a clearer 3.0–5.0 band for recommended options
-    const overall = Number((3 + composite * 2).toFixed(2))
-
-    const score = {
-      overall,
-      bedside: rating ? Number(rating.toFixed(2)) : undefined,
-      cost: Number((costScore * 5).toFixed(2)),
-      wait: undefined,
-      distance: Number((distanceScore * 5).toFixed(2)),
-    }
-
-    const why: string[] = []
-    if (rating >= 4.2) why.push('strong patient rating')
-    if (reviews > 100) why.push('many reviews')
-    if (dist < 8) why.push('close by')
-    if (haveCost) why.push(`lower estimated cost ~$${Math.round(costMid!)}`)
-    else if (priceBand && priceBand <= 2) why.push('lower price band')
-
-    let notes = ''
-    if (haveCost) {
-      const floor = p.est_cost_min ?? p.est_cost_max
-      const ceil = p.est_cost_max ?? p.est_cost_min
-      notes = `Estimated cost $${Math.round(floor!)}–$${Math.round(ceil!)} (lower is better).`
-    } else if (p.price) {
-      notes = `Price band ${p.price} (proxy).`
-    }
+  /* ---------- Ranking ---------- */
+  // Moderate or severe risk: care is needed within hours, so opening hours count
+  const needsCareSoon = risk !== 'low'
 
+  // The risk preset plus the user's prefs; the view toggles become hard filters. The
+  // server decides what counts as verified — a rating without provenance never does.
+  const rankingPolicy = useMemo(() => {
+    const policy = policyFor(risk, rankingPrefs)
     return {
-      score,
-      reason: p.reason || (why.length ? `Chosen for ${why.join(', ')}` : undefined),
-      scoreNotes: notes,
+      ...policy,
+      filters: {
+        ...policy.filters,
+        verifiedOnly: !showUnverified,
+        openOnly: needsCareSoon && !showClosed,
+      },
     }
-  }
+  }, [risk, rankingPrefs, showUnverified, needsCareSoon, showClosed])
 
   /* === Places derived === */
-  const reviewedPlaces = useMemo(
-    () => (showUnverified ? places : places.filter(REVIEW_GATE)),
-    [places, showUnverified],
+  const rankedPlaces = useMemo(
+    () => rankPlaces(places.map(withOpenStatus), rankingPolicy),
+    [places, rankingPolicy],
   )
-  function rankPlaces(input: Place[]): Place[] {
-    return [...input]
-      .map(p => ({ ...p, ...computeScores(p) }))
-      .sort((a, b) => (b.score?.overall ?? 0) - (a.score?.overall ?? 0))
-  }
-  const rankedPlaces = useMemo(() => rankPlaces(reviewedPlaces), [reviewedPlaces])
   const top3 = rankedPlaces.slice(0, 3)
   const nearest10 = [...rankedPlaces].slice(0, 10)
 
@@ -926,7 +899,7 @@ export default function IntakePage() {
       bits.push(
         `rating ${p.rating.toFixed(1)}★${p.reviews ? ` (${p.reviews} reviews)` : ''}`,
       )
-    if (typeof p.distance_km === 'number') bits.push(`${p.distance_km.toFixed(1)} km away`)
+    if (travelLabel(p, travelMode)) bits.push(`${travelLabel(p, travelMode)} from your ZIP`)
     if (p.price) bits.push(`price band ${p.price}`)
     if (p.est_cost_min || p.est_cost_max) {
       const lo = p.est_cost_min ?? p.est_cost_max
@@ -934,6 +907,7 @@ export default function IntakePage() {
       bits.push(`est. cost $${Math.round(lo!)}–$${Math.round(hi!)}`)
     }
     if (p.reason) bits.push(p.reason)
+    if (p.scoreNotes) bits.push(p.scoreNotes)
 
     setMessages(m => [
       ...m,
@@ -942,74 +916,162 @@ export default function IntakePage() {
         role: 'assistant',
         text: `Why we recommend ${p.name}:\n• ${bits.join(
           '\n• ',
-        )}\nWe weigh verified reviews, distance, and affordability. These are suggestions—not medical care.`,
-        citations: filterAllowed(p.scoreSources),
+        )}\nWe weigh verified reviews, travel time, cost and wait, as you set them under “What matters to you”. These are suggestions—not medical care.`,
+        citations: keepAllowed(p.scoreSources, citePolicy),
+      },
+    ])
+  }
+
+  /* ---------- Call for me ---------- */
+  const callPollRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const transcriptLine = (l: CallSession['transcript'][number]) =>
+    l.speaker === 'system' ? l.text : `${l.speaker === 'agent' ? 'No Trek' : 'Clinic'}: ${l.text}`
+
+  function callUnavailable(place?: Place) {
+    setMessages(m => [
+      ...m,
+      {
+        id: uid(),
+        role: 'assistant',
+        text: `I couldn't start a call right now. You can call directly${
+          place?.phone ? ` at ${place.phone}` : ''
+        }.`,
       },
     ])
   }
 
+  // Step 1: draft a script for the user to review; nothing is dialed yet
   async function requestAICall(place?: Place) {
-    setCallViz({
-      status: 'calling',
-      transcript: ['Dialing...', 'Navigating phone tree…'],
-      placeName: place?.name,
-    })
+    if (!place) return callUnavailable()
+    const concern = [...messages].reverse().find(m => m.role === 'user')?.text
     try {
       const r = await fetch('/api/no-trek/call', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ place }),
+        body: JSON.stringify({
+          place,
+          context: {
+            concern,
+            risk,
+            zip: zip || undefined,
+            careLevel: place.careLevel,
+            insurance: insurance ? insuranceLabel(insurance) : undefined,
+          },
+        }),
       })
-      const ok = r.ok
-      setMessages(m => [
-        ...m,
-        {
-          id: uid(),
-          role: 'assistant',
-          text: ok
-            ? `I can call ${place ? `${place.name}` : 'the clinic'} to check availability, wait time, and estimated cost, and report back with notes.`
-            : `The call feature isn’t configured yet. You can call directly${
-                place?.phone ? ` at ${place.phone}` : ''
-              }.`,
-        },
-      ])
-      setCallViz(v => ({
-        ...v,
-        status: ok ? 'ok' : 'failed',
-        transcript: [...v.transcript, ok ? 'Connected.' : 'Call init failed.'],
-      }))
+      const j = await r.json().catch(() => ({}))
+      if (!r.ok || !j.session) throw new Error(j.error || `HTTP ${r.status}`)
+      setCallDraft(j.session)
+    } catch {
+      callUnavailable(place)
+    }
+  }
+
+  function discardCallDraft() {
+    if (callDraft) fetch(`/api/no-trek/call/${callDraft.id}`, { method: 'DELETE' }).catch(() => {})
+    setCallDraft(null)
+  }
+
+  // Step 2: the user approved the script and consented — dial and follow the transcript
+  async function dialCall(script: CallScript, shareHealthInfo: boolean) {
+    const draft = callDraft
+    if (!draft) return
+    setCallDraft(null)
+    setCallViz({ status: 'calling', transcript: ['Dialing…'], placeName: draft.place.name, sessionId: draft.id })
+    try {
+      const r = await fetch(`/api/no-trek/call/${draft.id}/start`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ script, consent: { agreed: true, shareHealthInfo } }),
+      })
+      if (!r.ok) throw new Error(`HTTP ${r.status}`)
+      pollCall(draft.id)
     } catch {
       setCallViz(v => ({
         ...v,
         status: 'failed',
+        sessionId: undefined,
         transcript: [...v.transcript, 'Could not place the call.'],
       }))
-      setMessages(m => [
-        ...m,
-        {
-          id: uid(),
-          role: 'assistant',
-          text: `I couldn't start a call right now. You can call directly${
-            place?.phone ? ` at ${place.phone}` : ''
-          }.`,
-        },
-      ])
+      callUnavailable(places.find(p => p.id === draft.place.id))
     }
   }
 
-  // follow-ups helpers
-  function addTask(t: Partial<Task>) {
-    const task: Task = {
-      id: uid('t'),
-      title: t.title || 'Follow-up',
-      due: t.due,
-      notes: t.notes,
-      linkedPlaceId: t.linkedPlaceId,
-      linkedInsightId: t.linkedInsightId,
-      done: false,
-      createdAt: Date.now(),
+  function pollCall(id: string, delay = 1200) {
+    if (callPollRef.current) clearTimeout(callPollRef.current)
+    callPollRef.current = setTimeout(async () => {
+      try {
+        const r = await fetch(`/api/no-trek/call/${id}`, { cache: 'no-store' })
+        const session: CallSession | undefined = (await r.json())?.session
+        if (!session) throw new Error('missing session')
+        const lines = session.transcript.map(transcriptLine)
+        if (session.status === 'completed') {
+          setCallViz(v => ({ ...v, status: 'ok', transcript: lines, sessionId: undefined }))
+          applyCallOutcome(session)
+        } else if (session.status === 'failed' || session.status === 'canceled') {
+          setCallViz(v => ({
+            ...v,
+            status: 'failed',
+            sessionId: undefined,
+            transcript: session.error ? [...lines, session.error] : lines,
+          }))
+        } else {
+          setCallViz(v => ({ ...v, transcript: lines }))
+          pollCall(id)
+        }
+      } catch {
+        pollCall(id, 3000)
+      }
+    }, delay)
+  }
+
+  function hangUpCall() {
+    if (callViz.sessionId)
+      fetch(`/api/no-trek/call/${callViz.sessionId}`, { method: 'DELETE' }).catch(() => {})
+  }
+
+  // Step 3: what the clinic said goes onto the place and into follow-ups
+  function applyCallOutcome(session: CallSession) {
+    const update = session.placeUpdate || {}
+    setPlaces(prev => prev.map(p => (p.id === session.place.id ? { ...p, ...update } : p)))
+    setActivePlace(p => (p && p.id === session.place.id ? { ...p, ...update } : p))
+    // A quoted price changes what the user would pay
+    const called = places.find(p => p.id === session.place.id)
+    if (insurance && called && typeof update.est_cost_min === 'number') {
+      refreshCoverage(insurance, [{ ...called, ...update }])
     }
-    setTasks(prev => [task, ...prev])
+    for (const f of session.followUps || []) {
+      addTask({ title: f.title, notes: f.notes, dueAt: f.due, linkedPlaceId: session.place.id })
+    }
+    const report = update.callReport
+    const bits = [
+      report?.availableToday
+        ? 'they can see you today'
+        : report?.nextAvailable
+        ? `next opening ${report.nextAvailable}`
+        : '',
+      typeof report?.waitMinutes === 'number' ? `wait about ${report.waitMinutes} min` : '',
+      typeof update.est_cost_min === 'number'
+        ? `self-pay $${update.est_cost_min}–$${update.est_cost_max ?? update.est_cost_min}`
+        : '',
+      report?.acceptsInsurance === false ? 'they may not take your plan' : '',
+    ].filter(Boolean)
+    setMessages(m => [
+      ...m,
+      {
+        id: uid(),
+        role: 'assistant',
+        text: `I called ${session.place.name}${
+          bits.length ? `: ${bits.join(', ')}` : ", but couldn't confirm availability"
+        }. I added follow-ups so nothing gets lost.`,
+      },
+    ])
+  }
+
+  // follow-ups helpers
+  function addTask(t: Partial<FollowUp>) {
+    setTasks(prev => [newFollowUp(t), ...prev])
     setShowTasks(true)
   }
 
@@ -1033,13 +1095,17 @@ export default function IntakePage() {
     })
   }
   function toggleTaskDone(id: string) {
-    setTasks(prev => prev.map(t => (t.id === id ? { ...t, done: !t.done } : t)))
+    const now = new Date().toISOString()
+    setTasks(prev =>
+      prev.map(t => (t.id === id ? { ...t, status: t.status === 'done' ? 'todo' : 'done', updatedAt: now } : t)),
+    )
   }
   function deleteTask(id: string) {
     setTasks(prev => prev.filter(t => t.id !== id))
   }
   function updateTaskDue(id: string, due?: string) {
-    setTasks(prev => prev.map(t => (t.id === id ? { ...t, due } : t)))
+    const now = new Date().toISOString()
+    setTasks(prev => prev.map(t => (t.id === id ? { ...t, dueAt: due ?? null, updatedAt: now } : t)))
   }
 
   // Auto-create self-care follow-ups from insights
@@ -1066,18 +1132,7 @@ export default function IntakePage() {
       ? (card.next || []).map(n => `• ${n}`).join('\n')
       : undefined
 
-    setTasks(prev => [
-      {
-        id: uid('t'),
-        title,
-        due: undefined,
-        notes,
-        linkedInsightId: card.id,
-        done: false,
-        createdAt: Date.now(),
-      },
-      ...prev,
-    ])
+    setTasks(prev => [newFollowUp({ title, notes, linkedInsightId: card.id }), ...prev])
   }
 
   // Helper currently unused (kept for possible future auto-question flow)
@@ -1107,6 +1162,7 @@ export default function IntakePage() {
   async function handleSend(textOverride?: string) {
     const textValue = (textOverride ?? draft).trim()
     if (!textValue && !(imageFile && imageConsent)) return
+    if (replyAbortRef.current) return // one reply in flight at a time
 
     const userMsg: ChatMessage = {
       id: uid(),
@@ -1132,9 +1188,11 @@ export default function IntakePage() {
       setImageConsent(false)
     }
 
+    const controller = new AbortController()
+    replyAbortRef.current = controller
+
     try {
       const payloadMessages: any[] = [
-        { role: 'system', content: TRIAGE_SYSTEM_PROMPT },
         ...messages.map(x => ({ role: x.role, content: x.text })),
         { role: 'user', content: userMsg.text },
       ]
@@ -1142,43 +1200,71 @@ export default function IntakePage() {
 
       const r = await fetch('/api/no-trek/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
+          mode: chatMode,
           messages: payloadMessages,
           imageBase64,
-          allowedDomains: ALLOWED_DOMAINS,
+          locale: navigator.language,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          ranking: rankingPrefs,
+          insurance: insurance || undefined,
+          backfillCitations: hardEvidence,
+          stream: true,
         }),
+        signal: controller.signal,
       })
 
       if (!r.ok) {
         const body = await r.text()
-        await typeFull(aId, `Error: ${r.status} — ${body.slice(0, 200)}`)
-        setSending(false)
+        typeInto(aId, `Error: ${r.status} — ${body.slice(0, 200)}`)
+        return
+      }
+
+      // Tokens render as they arrive; the final frame carries risk, insights, places, citations
+      const result: { data?: ChatResponse; error?: string } = {}
+      await readSSE(r, (event, payload) => {
+        const p = payload as ChatResponse & { error?: string; details?: string }
+        if (event === 'delta') typeInto(aId, p?.text || '')
+        else if (event === 'final') result.data = p
+        else if (event === 'error') result.error = p?.details || p?.error || 'stream failed'
+      })
+
+      if (!result.data) {
+        typeInto(aId, `\n\nI lost the connection mid-reply. (${result.error || 'no final response'})`)
         return
       }
+      const data = result.data
 
-      const data: ChatResponse = await r.json()
+      // If the reply text couldn't be streamed (e.g. an unexpected JSON shape), show it now
+      setMessages(m =>
+        m.map(mm => (mm.id === aId && !mm.text ? { ...mm, text: data.text || '' } : mm)),
+      )
 
-      // Try to use citations from the model
-      let finalCites = filterAllowed(data.citations)
+      // Citations arrive validated (and backfilled server-side when hard evidence is on)
+      const finalCites = keepAllowed(data.citations, citePolicy)
 
-      // If we require hard evidence and the answer is declarative but missing citations,
-      // try to backfill WITHOUT blocking the reply.
       if (hardEvidence && isDeclarative(data.text) && finalCites.length === 0) {
-        const backfilled = await backfillCitations(data.text || '')
-        if (backfilled.length) {
-          finalCites = backfilled
-        } else {
-          // Non-blocking warning instead of prereq questions
-          setGateMsg(
-            'Some of this answer may not be fully citation-backed yet — treat it as educational, not a diagnosis.',
-          )
-        }
+        // Non-blocking warning instead of prereq questions
+        setGateMsg(
+          'Some of this answer may not be fully citation-backed yet — treat it as educational, not a diagnosis.',
+        )
       }
 
-      if (finalCites.length > 0) {
+      // Claim offsets refer to data.text and footnotes to data.citations — only keep them
+      // when the client filter left the citation list intact
+      const claims =
+        Array.isArray(data.claims) && finalCites.length === (data.citations || []).length
+          ? data.claims
+          : undefined
+
+      if (finalCites.length > 0 || claims?.length) {
         setMessages(m =>
-          m.map(mm => (mm.id === aId ? { ...mm, citations: finalCites } : mm)),
+          m.map(mm =>
+            mm.id === aId
+              ? { ...mm, citations: finalCites, ...(claims ? { claims, text: data.text || mm.text } : {}) }
+              : mm,
+          ),
         )
       } else if (isDeclarative(data.text)) {
         setMessages(m =>
@@ -1195,9 +1281,6 @@ export default function IntakePage() {
         )
       }
 
-      // Always show Stella's answer
-      await typeFull(aId, data.text || '')
-
       // Risk tracking: combine model risk with heuristic
       const heuristic = heuristicRiskFromText(userMsg.text || '')
       if (data.risk || heuristic) {
@@ -1210,19 +1293,26 @@ export default function IntakePage() {
         })
       }
 
+      // Crisis: hotlines replace places, auto-tasks and the plan cards
+      const inCrisis = !!data.crisis
+      setCrisis(data.crisis ?? null)
+      setPoison(data.poison ?? null)
+
       // Insights
       if (Array.isArray(data.insights)) {
         const cleaned = data.insights.map(c => ({
           ...c,
-          citations: filterAllowed(c.citations),
+          citations: keepAllowed(c.citations, citePolicy),
           at: c.at || Date.now(),
         }))
         setInsights(prev => mergeInsights(prev, cleaned))
-        cleaned.forEach(card => maybeAutoTaskFromInsight(card))
+        if (!inCrisis) cleaned.forEach(card => maybeAutoTaskFromInsight(card))
       }
 
       // Places
-      if (Array.isArray(data.places)) {
+      if (inCrisis) {
+        setPlaces([])
+      } else if (Array.isArray(data.places)) {
         setPlaces(data.places)
       } else if (debug) {
         setMessages(m => [
@@ -1235,25 +1325,26 @@ export default function IntakePage() {
         ])
       }
     } catch (e: any) {
-      await typeFull(aId, `I couldn’t reach the medical engine. (${String(e?.message || e)})`)
+      if (e?.name === 'AbortError') {
+        typeInto(aId, ' … (stopped)')
+      } else {
+        typeInto(aId, `I couldn’t reach the medical engine. (${String(e?.message || e)})`)
+      }
     } finally {
+      if (replyAbortRef.current === controller) replyAbortRef.current = null
       setSending(false)
     }
   }
 
+  function stopReply() {
+    replyAbortRef.current?.abort()
+  }
+
   function typeInto(id: string, chunk: string) {
     setMessages(m =>
       m.map(mm => (mm.id === id ? { ...mm, text: (mm.text || '') + chunk } : mm)),
     )
   }
-  async function typeFull(id: string, full: string) {
-    if (!full) return
-    const step = 16
-    for (let i = 0; i < full.length; i += step) {
-      typeInto(id, full.slice(i, i + step))
-      await new Promise(r => setTimeout(r, 10))
-    }
-  }
 
   // Build payload for Tasks page
   function buildTasksPayload() {
@@ -1264,26 +1355,66 @@ export default function IntakePage() {
       riskTrail,
       insights,
       places: rankedPlaces.slice(0, 10),
-      tasks: tasks.map(t => ({
-        id: t.id,
-        title: t.title,
-        status: t.done ? 'done' : 'todo',
-        dueAt: t.due ?? null,
-        notes: t.notes,
-        linkedPlaceId: t.linkedPlaceId,
-        linkedInsightId: t.linkedInsightId,
-      })),
+      tasks,
+    }
+  }
+
+  // OPQRST facts and red flags for the plan; null when no extract provider is configured
+  async function extractFacts(): Promise<unknown> {
+    try {
+      const r = await fetch('/api/no-trek/extract', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ history: messages.map(m => ({ role: m.role, content: m.text })) }),
+      })
+      return (await r.json())?.facts ?? null
+    } catch {
+      return null
     }
   }
 
-  // Export care map for Tasks
-  function exportForTasks() {
+  // Save the session as a plan (server: lib/plans/fromSession) and open it on Tasks
+  async function exportForTasks() {
+    if (sendingPlan) return
     const payload = buildTasksPayload()
+    downloadCarePlan(payload)
+    setSendingPlan(true)
+    const session = {
+      sessionId,
+      risk,
+      evidenceLock,
+      messages,
+      insights,
+      facts: await extractFacts(),
+      places: payload.places,
+      tasks,
+    }
     try {
-      localStorage.setItem('nt_intake_to_tasks_v1', JSON.stringify(payload))
+      const r = await fetch('/api/no-trek/plan/from-intake', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(session),
+      })
+      const j: { id?: string; error?: string } = await r.json().catch(() => ({}))
+      if (!r.ok || !j.id) throw new Error(j.error || `HTTP ${r.status}`)
+      // Tasks still reads places and insights from here; the plan only links to them
+      localStorage.setItem('nt_intake_to_tasks_v1', JSON.stringify({ ...payload, tasks: [] }))
+      router.push(`/tasks?plan=${encodeURIComponent(j.id)}`)
     } catch {
-      // ignore
+      // Offline or the store refused: hand the session over on this device instead. Tasks
+      // folds it into whatever it already shows and sends it on once it reaches the server
+      try {
+        localStorage.setItem('nt_intake_to_tasks_v1', JSON.stringify({ ...payload, session }))
+      } catch {
+        // ignore
+      }
+      router.push('/tasks')
+    } finally {
+      setSendingPlan(false)
     }
+  }
+
+  function downloadCarePlan(payload: ReturnType<typeof buildTasksPayload>) {
     const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -1322,8 +1453,8 @@ export default function IntakePage() {
       lines.push('FOLLOW-UPS:')
       tasks.forEach(t =>
         lines.push(
-          `- [${t.done ? 'x' : ' '}] ${t.title}${
-            t.due ? ` (due ${new Date(t.due).toLocaleString()})` : ''
+          `- [${t.status === 'done' ? 'x' : ' '}] ${t.title}${
+            t.dueAt ? ` (due ${new Date(t.dueAt).toLocaleString()})` : ''
           }`,
         ),
       )
@@ -1357,7 +1488,10 @@ export default function IntakePage() {
     askedRef.current = new Set()
     autoTaskedRef.current = new Set()
     setTasks([])
+    setSessionId(uid('s'))
     setStage('intake')
+    setCrisis(null)
+    setPoison(null)
   }
   function deleteData() {
     localStorage.removeItem('nt_intake_session_v1')
@@ -1374,7 +1508,7 @@ export default function IntakePage() {
   const showRightRail = true // always show Stella’s plan space on the right
   const cardsActive = readyInsightCount > 0 || rankedPlaces.length > 0
 
-  const openTasks = tasks.filter(t => !t.done).length
+  const openTasks = tasks.filter(t => t.status !== 'done').length
   const hasAssess = readyInsightCount > 0
   const hasSite = rankedPlaces.length > 0 || risk !== 'low'
   const hasPrice = rankedPlaces.some(
@@ -1392,7 +1526,7 @@ export default function IntakePage() {
       const hasInsights = readyInsightCount > 0
       const hasPlaces = rankedPlaces.length > 0
       const hasFollowUps = tasks.length > 0
-      const allDone = hasFollowUps && tasks.every(t => t.done)
+      const allDone = hasFollowUps && tasks.every(t => t.status === 'done')
 
       if (!hasInsights) return 'triage'
       if (hasInsights && !hasFollowUps && !hasPlaces) return 'plan'
@@ -1403,31 +1537,36 @@ export default function IntakePage() {
   }, [engaged, readyInsightCount, rankedPlaces.length, tasks])
 
   // Starter chips: fill the input instead of sending
-  const starterChips = [
+  const starterChips: { label: string; mode: ChatMode; text: string }[] = [
     {
       label: 'New or ongoing symptom',
+      mode: 'triage',
       text:
         "I’m worried about a symptom and not sure how urgent it is or where I should go.",
     },
     {
       label: 'Bills & money stress',
+      mode: 'bills',
       text:
         "I’m overwhelmed by a medical bill and not sure what’s correct or what my options are.",
     },
     {
       label: 'Forms, portals, or paperwork',
+      mode: 'forms',
       text:
         "I’m stuck on healthcare forms or portals and need help understanding and organizing what to do.",
     },
     {
       label: 'For a family member',
+      mode: 'triage',
       text:
         "I’m trying to help a family member with their health and feel lost about where to start.",
     },
   ]
 
-  const handleChipClick = (text: string) => {
+  const handleChipClick = (text: string, mode: ChatMode) => {
     setDraft(text)
+    setChatMode(mode)
     // small delay so the textarea exists before focusing
     setTimeout(() => {
       textRef.current?.focus()
@@ -1451,7 +1590,7 @@ export default function IntakePage() {
 
       <div className="relative z-10">
         <NavBar />
-        <EmergencyBanner />
+        <EmergencyBanner crisis={crisis} poison={poison} />
 
         <div className="mx-auto max-w-7xl px-4 pb-10 pt-8 sm:px-6 lg:px-8">
           {/* Stella hero row */}
@@ -1660,24 +1799,34 @@ export default function IntakePage() {
                       }}
                       className="h-12 min-h-[46px] w-full resize-none rounded-3xl border border-slate-600/80 bg-slate-900/80 px-4 py-3 pr-16 text-[15px] leading-6 text-slate-50 placeholder:text-slate-400 outline-none focus:border-slate-300"
                     />
-                    {/* Vertically-centered send button */}
-                    <button
-                      type="submit"
-                      aria-label="Send message"
-                      disabled={sending || (!draft.trim() && !(imageFile && imageConsent))}
-                      className={cx(
-                        'absolute right-1.5 top-6 grid h-10 w-10 -translate-y-1/2 place-items-center rounded-full shadow-[0_0_40px_rgba(56,189,248,0.4)] transition-transform hover:scale-[1.03]',
-                        sending ? 'cursor-default opacity-60' : 'cursor-pointer',
-                      )}
-                      style={{
-                        backgroundImage:
-                          'linear-gradient(135deg, rgba(56,189,248,1), rgba(59,130,246,1))',
-                      }}
-                    >
-                      <span className="text-[10px] font-semibold uppercase tracking-[0.15em] text-slate-950">
-                        Send
-                      </span>
-                    </button>
+                    {/* Vertically-centered send button (becomes Stop while Stella is replying) */}
+                    {sending ? (
+                      <button
+                        type="button"
+                        aria-label="Stop reply"
+                        onClick={stopReply}
+                        className="absolute right-1.5 top-6 grid h-10 w-10 -translate-y-1/2 cursor-pointer place-items-center rounded-full border-[2px] border-slate-500/80 bg-slate-800 shadow-[0_0_40px_rgba(56,189,248,0.25)] transition-transform hover:scale-[1.03]"
+                      >
+                        <span className="text-[10px] font-semibold uppercase tracking-[0.15em] text-slate-100">
+                          Stop
+                        </span>
+                      </button>
+                    ) : (
+                      <button
+                        type="submit"
+                        aria-label="Send message"
+                        disabled={!draft.trim() && !(imageFile && imageConsent)}
+                        className="absolute right-1.5 top-6 grid h-10 w-10 -translate-y-1/2 cursor-pointer place-items-center rounded-full shadow-[0_0_40px_rgba(56,189,248,0.4)] transition-transform hover:scale-[1.03]"
+                        style={{
+                          backgroundImage:
+                            'linear-gradient(135deg, rgba(56,189,248,1), rgba(59,130,246,1))',
+                        }}
+                      >
+                        <span className="text-[10px] font-semibold uppercase tracking-[0.15em] text-slate-950">
+                          Send
+                        </span>
+                      </button>
+                    )}
                   </div>
                 </form>
 
@@ -1700,7 +1849,7 @@ export default function IntakePage() {
                     <button
                       key={chip.label}
                       type="button"
-                      onClick={() => handleChipClick(chip.text)}
+                      onClick={() => handleChipClick(chip.text, chip.mode)}
                       className="rounded-full border border-slate-600/80 bg-slate-900/80 px-2.5 py-1 text-xs font-semibold text-slate-100 hover:bg-slate-800/90"
                     >
                       {chip.label}
@@ -1741,7 +1890,45 @@ export default function IntakePage() {
                       />
                       Show unverified options
                     </label>
+                    {needsCareSoon && (
+                      <label
+                        className="inline-flex items-center gap-1.5"
+                        title="Places whose posted hours say they are closed right now"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={showClosed}
+                          onChange={e => setShowClosed(e.target.checked)}
+                          className="h-3.5 w-3.5 bg-transparent"
+                        />
+                        Show closed places
+                      </label>
+                    )}
+                    <label className="inline-flex items-center gap-1.5" title="Rank places by travel time">
+                      Getting there
+                      <select
+                        value={travelMode}
+                        onChange={e =>
+                          setRankingPrefs(r => ({ ...r, travelMode: e.target.value as TravelMode }))
+                        }
+                        className="rounded border border-slate-600/80 bg-slate-900/80 px-1 py-0.5 text-[11px] text-slate-100"
+                      >
+                        <option value="drive">By car</option>
+                        <option value="transit">By transit</option>
+                        <option value="walk">On foot</option>
+                      </select>
+                    </label>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      onClick={() => setShowInsurance(true)}
+                      className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 text-[11px] text-slate-100 hover:bg-slate-800/90"
+                      title="Used to check networks and estimate what you'd pay"
+                    >
+                      {insurance ? `Insurance: ${insuranceLabel(insurance)}` : 'Add insurance'}
+                    </button>
                   </div>
+                  <RankingPrefsPanel prefs={rankingPrefs} onChange={setRankingPrefs} />
                   <div className="flex flex-wrap items-center gap-2">
                     <button
                       onClick={() => setShowSources(true)}
@@ -1755,19 +1942,23 @@ export default function IntakePage() {
                     >
                       Export .txt
                     </button>
-                    <button
-                      onClick={exportForTasks}
-                      disabled={tasks.length === 0}
-                      className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 text-[11px] font-semibold text-slate-100 disabled:cursor-not-allowed disabled:opacity-40 hover:bg-slate-800/90"
-                    >
-                      Send to Tasks
-                    </button>
-                    <button
-                      onClick={() => setShowTasks(true)}
-                      className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 text-[11px] font-semibold text-slate-100 hover:bg-slate-800/90"
-                    >
-                      Follow-ups ({openTasks})
-                    </button>
+                    {!crisis && (
+                      <>
+                        <button
+                          onClick={exportForTasks}
+                          disabled={(tasks.length === 0 && !insights.some(i => i.next?.length)) || sendingPlan}
+                          className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 text-[11px] font-semibold text-slate-100 disabled:cursor-not-allowed disabled:opacity-40 hover:bg-slate-800/90"
+                        >
+                          {sendingPlan ? 'Sending…' : 'Send to Tasks'}
+                        </button>
+                        <button
+                          onClick={() => setShowTasks(true)}
+                          className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 text-[11px] font-semibold text-slate-100 hover:bg-slate-800/90"
+                        >
+                          Follow-ups ({openTasks})
+                        </button>
+                      </>
+                    )}
                     <button
                       onClick={resetSession}
                       className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 text-[11px] font-semibold text-slate-100 hover:bg-slate-800/90"
@@ -1788,7 +1979,7 @@ export default function IntakePage() {
               <SessionFile
                 messages={messages}
                 insights={insights}
-                top3={top3}
+                top3={crisis ? [] : top3}
                 onCall={() => requestAICall(top3[0])}
                 onExportPlan={exportForTasks}
               />
@@ -1798,13 +1989,19 @@ export default function IntakePage() {
                   status={callViz.status}
                   transcript={callViz.transcript}
                   placeName={callViz.placeName}
+                  onHangUp={callViz.sessionId ? hangUpCall : undefined}
                   onClose={() => setCallViz({ status: 'idle', transcript: [] })}
                 />
               )}
             </section>
 
-            {/* Right rail */}
-            {showRightRail && (
+            {/* Right rail — crisis resources replace the plan and care cards */}
+            {showRightRail && crisis && (
+              <aside className="self-start space-y-4 lg:sticky lg:top-8">
+                <CrisisPanel crisis={crisis} />
+              </aside>
+            )}
+            {showRightRail && !crisis && (
               <aside className="self-start space-y-4 lg:sticky lg:top-8">
                 {/* Stella’s plan space — always visible */}
                 <PlanPanel risk={risk} insights={insights} tasks={tasks} />
@@ -1826,7 +2023,7 @@ export default function IntakePage() {
                               Stella&apos;s clinic picks
                             </h3>
                             <p className="mt-0.5 text-[11px] text-slate-300/90">
-                              Ranked by No Trek score (reviews, distance, affordability).
+                              Ranked by No Trek score ({rankingSummary(rankingPolicy.weights)}).
                             </p>
                           </div>
                           <span className="text-xs text-slate-300/90">Top 3</span>
@@ -1839,6 +2036,7 @@ export default function IntakePage() {
                               onOpen={() => openPlace(p)}
                               onCall={() => requestAICall(p)}
                               onFollowUp={() => addPlaceFollowUp(p)}
+                              mode={travelMode}
                               showWhy
                             />
                           ))}
@@ -1891,6 +2089,7 @@ export default function IntakePage() {
                               onOpen={() => openPlace(p)}
                               onCall={() => requestAICall(p)}
                               onFollowUp={() => addPlaceFollowUp(p)}
+                              mode={travelMode}
                             />
                           ))}
                         </div>
@@ -1916,7 +2115,7 @@ export default function IntakePage() {
           </div>
 
           {/* What Stella can / can’t do strip */}
-          <CapabilitiesStrip />
+          {!crisis && <CapabilitiesStrip />}
 
           <p className="mt-4 text-[11px] text-slate-400">
             No Trek and Stella do not provide medical care, diagnoses, or prescriptions. This
@@ -1934,8 +2133,20 @@ export default function IntakePage() {
           onClose={() => setActivePlace(null)}
           onCall={() => requestAICall(activePlace)}
           onFollowUp={() => addPlaceFollowUp(activePlace)}
+          zip={zip.trim() || undefined}
+          mode={travelMode}
+        />
+      )}
+      {showInsurance && (
+        <InsuranceDialog
+          profile={insurance}
+          onSave={saveInsurance}
+          onCancel={() => setShowInsurance(false)}
         />
       )}
+      {callDraft && (
+        <CallReviewDialog session={callDraft} onDial={dialCall} onCancel={discardCallDraft} />
+      )}
       {showAllPlaces && (
         <AllPlacesPanel
           places={rankedPlaces}
@@ -1943,6 +2154,7 @@ export default function IntakePage() {
           onOpenPlace={openPlace}
           onCallPlace={p => requestAICall(p)}
           onFollowUpPlace={p => addPlaceFollowUp(p)}
+          mode={travelMode}
         />
       )}
       {showSources && (
@@ -1955,7 +2167,7 @@ export default function IntakePage() {
           onAddFollowUps={() => addInsightFollowUps(fullCard)}
         />
       )}
-      {showTasks && (
+      {showTasks && !crisis && (
         <FollowUpsPanel
           tasks={tasks}
           places={places}
@@ -2176,15 +2388,122 @@ function NavBar() {
   )
 }
 
-function EmergencyBanner() {
+function EmergencyBanner({ crisis, poison }: { crisis?: CrisisBlock | null; poison?: PoisonHelp | null }) {
+  const line = crisis?.hotlines.find(h => h.phone)
   return (
     <div className="border-b border-red-500/30 bg-slate-950/80 text-[11px] text-slate-200 backdrop-blur">
       <div className="mx-auto flex max-w-6xl items-center justify-between px-4 py-2 lg:px-8">
-        <p>If this is an emergency, call 911 or your local emergency number.</p>
-        <span className="hidden rounded-full border border-red-500/70 bg-red-500/15 px-3 py-1 text-[10px] font-semibold tracking-[0.18em] text-red-200 sm:inline">
-          NOT FOR EMERGENCIES
-        </span>
-      </div>
+        {crisis ? (
+          <p>
+            In immediate danger? Call {crisis.emergencyNumber}.
+            {line && (
+              <>
+                {' '}
+                To talk to someone now, call {line.name} at{' '}
+                <a href={`tel:${line.phone}`} className="font-semibold underline">
+                  {line.phone}
+                </a>
+                .
+              </>
+            )}
+          </p>
+        ) : poison ? (
+          <p>
+            {poison.line?.phone ? (
+              <>
+                Possible poisoning or overdose: call {poison.line.name} at{' '}
+                <a href={`tel:${poison.line.phone.replace(/\s/g, '')}`} className="font-semibold underline">
+                  {poison.line.phone}
+                </a>
+                , or {poison.emergencyNumber}
+              </>
+            ) : (
+              <>Possible poisoning or overdose: call {poison.emergencyNumber}</>
+            )}{' '}
+            right away if they are very drowsy, struggling to breathe or having a seizure.
+          </p>
+        ) : (
+          <p>If this is an emergency, call 911 or your local emergency number.</p>
+        )}
+        <span className="hidden rounded-full border border-red-500/70 bg-red-500/15 px-3 py-1 text-[10px] font-semibold tracking-[0.18em] text-red-200 sm:inline">
+          NOT FOR EMERGENCIES
+        </span>
+      </div>
+    </div>
+  )
+}
+
+/* ============================== Crisis Panel ============================== */
+function CrisisPanel({ crisis }: { crisis: CrisisBlock }) {
+  const heading =
+    crisis.type === 'self_harm'
+      ? 'You don’t have to handle this alone'
+      : 'Please reach out to someone right now'
+  return (
+    <div className="rounded-[22px] border-[2px] border-rose-400/60 bg-gradient-to-b from-slate-900/95 to-slate-950/95 p-5 backdrop-blur">
+      <p className="text-[11px] font-semibold uppercase tracking-[0.2em] text-rose-200/90">
+        Support, right now
+      </p>
+      <h3 className="mt-1 text-lg font-semibold text-slate-50">{heading}</h3>
+      <p className="mt-1 text-sm text-slate-200/90">
+        Trained counselors are free, confidential, and there any time. If you might act on
+        these thoughts or are in danger, call{' '}
+        <a href={`tel:${crisis.emergencyNumber}`} className="font-semibold text-rose-200 underline">
+          {crisis.emergencyNumber}
+        </a>{' '}
+        now.
+      </p>
+
+      <div className="mt-4 space-y-3">
+        {crisis.hotlines.map(h => (
+          <div
+            key={h.name}
+            className="rounded-2xl border border-slate-600/80 bg-slate-900/80 p-3 text-sm text-slate-100"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-semibold">{h.name}</span>
+              <span className="text-[11px] text-slate-300/90">{h.hours}</span>
+            </div>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {h.phone && (
+                <a
+                  href={`tel:${h.phone.replace(/\s/g, '')}`}
+                  className="rounded-full bg-rose-500/90 px-3 py-1 text-xs font-semibold text-white hover:bg-rose-500"
+                >
+                  Call {h.phone}
+                </a>
+              )}
+              {h.text && (
+                <a
+                  href={`sms:${h.text.number.replace(/\s/g, '')}${
+                    h.text.keyword ? `?body=${encodeURIComponent(h.text.keyword)}` : ''
+                  }`}
+                  className="rounded-full border border-slate-500/80 px-3 py-1 text-xs font-semibold text-slate-100 hover:bg-slate-800/90"
+                >
+                  Text {h.text.keyword ? `${h.text.keyword} to ` : ''}
+                  {h.text.number}
+                </a>
+              )}
+              {h.url && (
+                <a
+                  href={h.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="rounded-full border border-slate-500/80 px-3 py-1 text-xs text-slate-200 hover:bg-slate-800/90"
+                >
+                  Chat / website
+                </a>
+              )}
+            </div>
+            {h.note && <p className="mt-1.5 text-[11px] text-slate-300/90">{h.note}</p>}
+          </div>
+        ))}
+      </div>
+
+      <p className="mt-4 text-[11px] text-slate-400">
+        Stella will keep talking with you here, but it is not a crisis service. Care cards
+        and follow-ups are paused for this conversation.
+      </p>
     </div>
   )
 }
@@ -2444,7 +2763,7 @@ function PlanPanel({
   const latest = insights.length ? insights[insights.length - 1] : undefined
   const understanding = latest?.why?.slice(0, 3) || []
   const nextSteps = latest?.next?.slice(0, 3) || []
-  const openTasks = tasks.filter(t => !t.done)
+  const openTasks = tasks.filter(t => t.status !== 'done')
   const doneCount = tasks.length - openTasks.length
 
   let riskLine: string
@@ -2547,11 +2866,13 @@ function LiveCallBubble({
   status,
   transcript,
   placeName,
+  onHangUp,
   onClose,
 }: {
   status: 'idle' | 'calling' | 'ok' | 'failed'
   transcript: string[]
   placeName?: string
+  onHangUp?: () => void
   onClose: () => void
 }) {
   const label =
@@ -2589,6 +2910,352 @@ function LiveCallBubble({
             <div className="h-full w-1/2 animate-pulse bg-slate-50" />
           </div>
         )}
+        {status === 'calling' && onHangUp && (
+          <button onClick={onHangUp} className="mt-2 text-[11px] text-red-200 hover:underline">
+            Hang up
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/* ============================== Call Review ============================== */
+/** Shows the exact script before dialing; the user can edit it and must consent. */
+function CallReviewDialog({
+  session,
+  onDial,
+  onCancel,
+}: {
+  session: CallSession
+  onDial: (script: CallScript, shareHealthInfo: boolean) => void
+  onCancel: () => void
+}) {
+  const [opening, setOpening] = useState(session.script.opening)
+  const [questions, setQuestions] = useState(session.script.questions.join('\n'))
+  const [shareHealth, setShareHealth] = useState(false)
+  const [agreed, setAgreed] = useState(false)
+  const lines = questions
+    .split('\n')
+    .map(q => q.trim())
+    .filter(Boolean)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60" onClick={onCancel} />
+      <div className="relative w-full max-w-lg rounded-2xl border-[2px] border-slate-600/80 bg-slate-950 p-5 shadow-2xl">
+        <h3 className="text-lg font-semibold text-slate-50">Review the call to {session.place.name}</h3>
+        <p className="mt-1 text-xs text-slate-300/90">
+          This is what we’ll say. Edit anything you like — nothing is dialed until you agree below.
+        </p>
+
+        <label className="mt-3 block text-xs text-slate-300/90">Opening</label>
+        <textarea
+          value={opening}
+          onChange={e => setOpening(e.target.value)}
+          rows={3}
+          className="mt-1 w-full rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-2 text-sm text-slate-50"
+        />
+
+        <label className="mt-3 block text-xs text-slate-300/90">Questions (one per line)</label>
+        <textarea
+          value={questions}
+          onChange={e => setQuestions(e.target.value)}
+          rows={5}
+          className="mt-1 w-full rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-2 text-sm text-slate-50"
+        />
+
+        <p className="mt-3 text-xs text-slate-300/90">
+          If asked who is calling: <span className="text-slate-100">{session.script.disclosure}</span>
+        </p>
+
+        {session.script.healthDetails.length > 0 && (
+          <div className="mt-3 rounded-lg border-[2px] border-amber-400/35 bg-amber-500/10 p-2 text-xs text-amber-100">
+            <label className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                className="mt-0.5 h-3.5 w-3.5 rounded border-slate-600/80 bg-transparent"
+                checked={shareHealth}
+                onChange={e => setShareHealth(e.target.checked)}
+              />
+              <span>
+                Share these health details with the clinic:
+                <ul className="mt-1 list-disc pl-4">
+                  {session.script.healthDetails.map((d, i) => (
+                    <li key={i}>{d}</li>
+                  ))}
+                </ul>
+              </span>
+            </label>
+          </div>
+        )}
+
+        <label className="mt-3 flex items-center gap-2 text-xs text-slate-200/90">
+          <input
+            type="checkbox"
+            className="h-3.5 w-3.5 rounded border-slate-600/80 bg-transparent"
+            checked={agreed}
+            onChange={e => setAgreed(e.target.checked)}
+          />
+          I agree to No Trek calling {session.place.name} on my behalf with this script.
+        </label>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="rounded-xl border-[2px] border-slate-600/80 bg-slate-900/80 px-3 py-1.5 text-sm font-semibold text-slate-100 hover:bg-slate-800/90"
+          >
+            Cancel
+          </button>
+          <button
+            disabled={!agreed || !lines.length}
+            onClick={() =>
+              onDial(
+                {
+                  ...session.script,
+                  opening: opening.trim() || session.script.opening,
+                  questions: lines,
+                },
+                shareHealth,
+              )
+            }
+            className="rounded-xl border-[2px] border-slate-600/80 bg-slate-50 px-3 py-1.5 text-sm font-semibold text-slate-900 hover:bg-white disabled:opacity-40"
+          >
+            Dial
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/* ============================== Cost Estimate ============================== */
+const dollarRange = (lo: number, hi: number) => (lo === hi ? `$${lo}` : `$${lo}–$${hi}`)
+
+/** The visit's priced lines and the assumptions behind them (server: lib/costs) */
+function CostEstimateSection({ place, estimate }: { place: Place; estimate: CostEstimate }) {
+  const quoted =
+    place.callReport &&
+    typeof place.est_cost_min === 'number' &&
+    (place.est_cost_min !== estimate.min || place.est_cost_max !== estimate.max)
+  return (
+    <section className="rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-3">
+      <header className="text-xs text-slate-300/90">Cost estimate</header>
+      <table className="mt-1 w-full text-sm text-slate-50">
+        <tbody>
+          {estimate.lines.map(l => (
+            <tr key={l.id}>
+              <td className="py-0.5">{l.label}</td>
+              <td className="py-0.5 text-right tabular-nums">{dollarRange(l.min, l.max)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-slate-700/80 font-semibold">
+            <td className="pt-1">Before insurance</td>
+            <td className="pt-1 text-right tabular-nums">{dollarRange(estimate.min, estimate.max)}</td>
+          </tr>
+          {place.outOfPocket && (
+            <tr className="font-semibold">
+              <td>You’d likely pay</td>
+              <td className="text-right tabular-nums">
+                {dollarRange(place.outOfPocket.min, place.outOfPocket.max)}
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+      {quoted && (
+        <p className="mt-1 text-xs text-sky-100">
+          The front desk quoted {dollarRange(place.est_cost_min!, place.est_cost_max ?? place.est_cost_min!)}{' '}
+          by phone; rankings use that instead.
+        </p>
+      )}
+      <ul className="mt-2 list-disc pl-4 text-[11px] text-slate-400">
+        {estimate.assumptions.map((a, i) => (
+          <li key={i}>{a}</li>
+        ))}
+        {place.outOfPocket && <li>{place.outOfPocket.note}</li>}
+      </ul>
+    </section>
+  )
+}
+
+/* ============================== Insurance ============================== */
+const PLAN_TYPE_LABEL: Record<PlanType, string> = {
+  hmo: 'HMO',
+  ppo: 'PPO',
+  epo: 'EPO',
+  pos: 'POS',
+  hdhp: 'High-deductible (HDHP)',
+  medicare: 'Medicare',
+  medicaid: 'Medicaid',
+}
+
+const COPAY_LEVELS: CareLevel[] = ['primary_care', 'urgent_care', 'er', 'mental_health', 'telehealth']
+
+/** Carrier, plan and cost sharing; stays on this device and prices places on the server. */
+function InsuranceDialog({
+  profile,
+  onSave,
+  onCancel,
+}: {
+  profile: InsuranceProfile | null
+  onSave: (p: InsuranceProfile | null) => void
+  onCancel: () => void
+}) {
+  const [carrier, setCarrier] = useState(profile?.carrier || '')
+  const [planType, setPlanType] = useState<PlanType | ''>(profile?.planType || '')
+  const [planName, setPlanName] = useState(profile?.planName || '')
+  const [deductible, setDeductible] = useState(profile?.deductible.status || 'unknown')
+  const [remaining, setRemaining] = useState(profile?.deductible.remaining?.toString() || '')
+  const [coinsurance, setCoinsurance] = useState(
+    typeof profile?.coinsurance === 'number' ? String(Math.round(profile.coinsurance * 100)) : '',
+  )
+  const [copays, setCopays] = useState<Partial<Record<CareLevel, string>>>(
+    Object.fromEntries(Object.entries(profile?.copays || {}).map(([k, v]) => [k, String(v)])),
+  )
+  const [known, setKnown] = useState<string[]>([])
+
+  useEffect(() => {
+    fetch('/api/no-trek/insurance')
+      .then(r => r.json())
+      .then(j => setKnown(Array.isArray(j.carriers) ? j.carriers : []))
+      .catch(() => {})
+  }, [])
+
+  const num = (v: string) => (v.trim() && Number.isFinite(Number(v)) && Number(v) >= 0 ? Number(v) : undefined)
+  function save() {
+    const c = num(coinsurance)
+    onSave({
+      carrier: carrier.trim(),
+      ...(planType ? { planType } : {}),
+      ...(planName.trim() ? { planName: planName.trim() } : {}),
+      deductible: {
+        status: deductible,
+        ...(deductible === 'partial' && num(remaining) !== undefined ? { remaining: num(remaining) } : {}),
+      },
+      copays: Object.fromEntries(
+        Object.entries(copays)
+          .map(([k, v]) => [k, num(v || '')])
+          .filter(([, v]) => v !== undefined),
+      ),
+      ...(c !== undefined && c <= 100 ? { coinsurance: c / 100 } : {}),
+    })
+  }
+
+  const field =
+    'mt-1 w-full rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-2 text-sm text-slate-50'
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60" onClick={onCancel} />
+      <div className="relative max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-2xl border-[2px] border-slate-600/80 bg-slate-950 p-5 shadow-2xl">
+        <h3 className="text-lg font-semibold text-slate-50">Your insurance</h3>
+        <p className="mt-1 text-xs text-slate-300/90">
+          Used to check which places are in your network and estimate what a visit would cost you.
+          It stays on this device and is sent only with your searches.
+        </p>
+
+        <label className="mt-3 block text-xs text-slate-300/90">Carrier</label>
+        <input
+          value={carrier}
+          onChange={e => setCarrier(e.target.value)}
+          list="nt-carriers"
+          placeholder="e.g. Aetna"
+          className={field}
+        />
+        <datalist id="nt-carriers">
+          {known.map(c => (
+            <option key={c} value={c} />
+          ))}
+        </datalist>
+
+        <div className="mt-3 grid grid-cols-2 gap-3">
+          <label className="block text-xs text-slate-300/90">
+            Plan type
+            <select value={planType} onChange={e => setPlanType(e.target.value as PlanType | '')} className={field}>
+              <option value="">Not sure</option>
+              {(Object.keys(PLAN_TYPE_LABEL) as PlanType[]).map(t => (
+                <option key={t} value={t}>
+                  {PLAN_TYPE_LABEL[t]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-xs text-slate-300/90">
+            Plan name (optional)
+            <input value={planName} onChange={e => setPlanName(e.target.value)} className={field} />
+          </label>
+          <label className="block text-xs text-slate-300/90">
+            Deductible this year
+            <select
+              value={deductible}
+              onChange={e => setDeductible(e.target.value as InsuranceProfile['deductible']['status'])}
+              className={field}
+            >
+              <option value="unknown">Not sure</option>
+              <option value="not_met">Not met yet</option>
+              <option value="partial">Partly met</option>
+              <option value="met">Met</option>
+            </select>
+          </label>
+          {deductible === 'partial' ? (
+            <label className="block text-xs text-slate-300/90">
+              Left to pay ($)
+              <input value={remaining} onChange={e => setRemaining(e.target.value)} inputMode="decimal" className={field} />
+            </label>
+          ) : (
+            <div />
+          )}
+          <label className="block text-xs text-slate-300/90">
+            Coinsurance (%)
+            <input
+              value={coinsurance}
+              onChange={e => setCoinsurance(e.target.value)}
+              inputMode="decimal"
+              placeholder="20"
+              className={field}
+            />
+          </label>
+        </div>
+
+        <p className="mt-3 text-xs text-slate-300/90">Copays ($ per visit, from your card)</p>
+        <div className="mt-1 grid grid-cols-2 gap-2">
+          {COPAY_LEVELS.map(l => (
+            <label key={l} className="block text-[11px] text-slate-400">
+              {CARE_LEVEL_LABEL[l]}
+              <input
+                value={copays[l] || ''}
+                onChange={e => setCopays(c => ({ ...c, [l]: e.target.value }))}
+                inputMode="decimal"
+                className={field}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="mt-4 flex justify-between gap-2">
+          {profile ? (
+            <button onClick={() => onSave(null)} className="text-xs text-red-200 hover:underline">
+              Remove insurance
+            </button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={onCancel}
+              className="rounded-xl border-[2px] border-slate-600/80 bg-slate-900/80 px-3 py-1.5 text-sm font-semibold text-slate-100 hover:bg-slate-800/90"
+            >
+              Cancel
+            </button>
+            <button
+              disabled={!carrier.trim()}
+              onClick={save}
+              className="rounded-xl border-[2px] border-slate-600/80 bg-slate-50 px-3 py-1.5 text-sm font-semibold text-slate-900 hover:bg-white disabled:opacity-40"
+            >
+              Save
+            </button>
+          </div>
+        </div>
       </div>
     </div>
   )
@@ -2648,14 +3315,20 @@ function ChatBubble({ msg }: { msg: ChatMessage }) {
         )}
         style={{ animation: 'sectionIn 240ms ease-out both' }}
       >
-        <p className="whitespace-pre-wrap break-words text-[15px] leading-6">{msg.text}</p>
+        <p className="whitespace-pre-wrap break-words text-[15px] leading-6">
+          {!isUser && msg.claims?.length ? (
+            <ClaimText text={msg.text} claims={msg.claims} citations={msg.citations || []} />
+          ) : (
+            msg.text
+          )}
+        </p>
 
         {!isUser && (
           <>
             {msg.citations && msg.citations.length > 0 ? (
               <div className="mt-2 flex flex-wrap gap-1.5">
                 {msg.citations.map((c, i) => (
-                  <CitationChip key={i} c={c} />
+                  <CitationChip key={i} c={c} n={msg.claims?.length ? i + 1 : undefined} />
                 ))}
               </div>
             ) : needsSources ? (
@@ -2663,6 +3336,11 @@ function ChatBubble({ msg }: { msg: ChatMessage }) {
                 Collecting details — citations will appear with the next synthesis.
               </div>
             ) : null}
+            {msg.claims?.some(c => c.unsupported) && (
+              <div className="mt-1.5 text-[11px] text-amber-200/90">
+                Dotted underlines mark statements no source was found for.
+              </div>
+            )}
           </>
         )}
 
@@ -2683,6 +3361,58 @@ function ChatBubble({ msg }: { msg: ChatMessage }) {
   )
 }
 
+/** Reply text with footnote markers after each cited claim and unsupported claims flagged. */
+function ClaimText({
+  text,
+  claims,
+  citations,
+}: {
+  text: string
+  claims: Claim[]
+  citations: Citation[]
+}) {
+  const out: ReactNode[] = []
+  let pos = 0
+  for (const cl of [...claims].sort((a, b) => a.start - b.start)) {
+    if (cl.start < pos || cl.end > text.length) continue
+    if (cl.start > pos) out.push(text.slice(pos, cl.start))
+    const body = text.slice(cl.start, cl.end)
+    out.push(
+      cl.unsupported ? (
+        <span
+          key={`c${cl.index}`}
+          className="underline decoration-amber-300/80 decoration-dotted underline-offset-4"
+          title="No source found for this statement"
+        >
+          {body}
+        </span>
+      ) : (
+        body
+      ),
+    )
+    for (const n of cl.citations) {
+      const c = citations[n - 1]
+      if (!c) continue
+      out.push(
+        <sup key={`c${cl.index}-${n}`} className="ml-0.5">
+          <a
+            href={c.url}
+            target="_blank"
+            rel="noreferrer"
+            title={c.title}
+            className="text-[10px] font-semibold text-sky-300 hover:underline"
+          >
+            [{n}]
+          </a>
+        </sup>,
+      )
+    }
+    pos = cl.end
+  }
+  if (pos < text.length) out.push(text.slice(pos))
+  return <>{out}</>
+}
+
 function RefImageStrip({ images }: { images: RefImage[] }) {
   return (
     <div className="mt-2 ml-2 flex gap-2">
@@ -2741,15 +3471,26 @@ function TypingDots() {
   )
 }
 
-function CitationChip({ c }: { c: Citation }) {
+function CitationChip({ c, n }: { c: Citation; n?: number }) {
   const d = domainOf(c.url)
   return (
     <a
       href={c.url}
       target="_blank"
       rel="noreferrer"
-      className="inline-flex items-center gap-1 rounded-md border-[2px] border-slate-600/80 bg-slate-900/80 px-2 py-0.5 text-[11px] text-slate-100 hover:bg-slate-800/90"
-      title={c.title}
+      className={cx(
+        'inline-flex items-center gap-1 rounded-md border-[2px] bg-slate-900/80 px-2 py-0.5 text-[11px] hover:bg-slate-800/90',
+        c.stale
+          ? 'border-amber-400/50 text-amber-100/80 line-through decoration-amber-300/60'
+          : 'border-slate-600/80 text-slate-100',
+      )}
+      title={
+        c.stale
+          ? `${c.title} — this link failed its last check`
+          : c.unchecked
+          ? `${c.title} — this link couldn't be re-checked`
+          : c.title
+      }
     >
       <svg width="12" height="12" viewBox="0 0 24 24" aria-hidden>
         <path
@@ -2757,6 +3498,7 @@ function CitationChip({ c }: { c: Citation }) {
           d="M14 3v2h3.59L7 15.59 8.41 17 19 6.41V10h2V3z"
         />
       </svg>
+      {n !== undefined && <span className="font-semibold text-sky-300">[{n}]</span>}
       {c.source || d || c.title}
     </a>
   )
@@ -3147,7 +3889,7 @@ function SessionFile({
                         {typeof p.rating === 'number'
                           ? `${p.rating.toFixed(1)}★`
                           : ''}{' '}
-                        {p.distance_km ? `· ${p.distance_km.toFixed(1)} km` : ''}
+                        {travelLabel(p) ? `· ${travelLabel(p)}` : ''}
                       </div>
                     </div>
                   </div>
@@ -3167,21 +3909,37 @@ function PlaceRow({
   onOpen,
   onCall,
   onFollowUp,
+  mode = 'drive',
   showWhy = false,
 }: {
   p: Place
   onOpen: () => void
   onCall: () => void
   onFollowUp: () => void
+  mode?: TravelMode
   showWhy?: boolean
 }) {
   return (
-    <div className="hover-card w-full overflow-hidden rounded-2xl border-[2px] border-slate-700/80 bg-gradient-to-b from-slate-900/90 to-slate-900/60">
+    <div
+      className={cx(
+        'hover-card w-full overflow-hidden rounded-2xl border-[2px] bg-gradient-to-b from-slate-900/90 to-slate-900/60',
+        p.virtual ? 'border-violet-400/50' : 'border-slate-700/80',
+      )}
+    >
       <div className="flex items-start gap-3 p-3">
         <div className="min-w-0 flex-1">
           <div className="flex flex-wrap items-center gap-2">
-            <span className="rounded-full border border-slate-600/80 bg-slate-900/90 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.16em] text-slate-200/90">
-              Care option
+            <span
+              className={cx(
+                'rounded-full border bg-slate-900/90 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-[0.16em]',
+                p.careLevel === 'er'
+                  ? 'border-red-400/60 text-red-200'
+                  : p.virtual
+                  ? 'border-violet-400/60 text-violet-200'
+                  : 'border-slate-600/80 text-slate-200/90',
+              )}
+            >
+              {p.virtual ? 'Virtual visit' : p.careLevel ? CARE_LEVEL_LABEL[p.careLevel] : 'Care option'}
             </span>
             <p className="truncate font-medium text-slate-50">{p.name}</p>
             {typeof p.rating === 'number' && <Stars value={p.rating} />}
@@ -3193,11 +3951,63 @@ function PlaceRow({
                 NT score {p.score.overall.toFixed(1)}/5
               </span>
             )}
+            {p.openNow !== undefined && (
+              <span
+                className={cx(
+                  'rounded-full border px-2 py-0.5 text-[10px] font-semibold',
+                  p.openNow
+                    ? 'border-emerald-400/50 text-emerald-200'
+                    : 'border-amber-400/50 text-amber-100',
+                )}
+              >
+                {openLabel(p)}
+              </span>
+            )}
+            {p.callReport && (
+              <span className="rounded-full border border-sky-400/50 px-2 py-0.5 text-[10px] font-semibold text-sky-100">
+                {callReportLabel(p)}
+              </span>
+            )}
+            {p.in_network !== undefined && (
+              <span
+                title={p.networkNote}
+                className={cx(
+                  'rounded-full border px-2 py-0.5 text-[10px] font-semibold',
+                  p.in_network
+                    ? 'border-emerald-400/50 text-emerald-200'
+                    : 'border-amber-400/50 text-amber-100',
+                )}
+              >
+                {networkLabel(p)}
+              </span>
+            )}
+            {p.outOfPocket && (
+              <span className="text-[11px] text-slate-300" title={p.outOfPocket.note}>
+                {outOfPocketLabel(p)}
+              </span>
+            )}
+            {p.telehealth && (
+              <span
+                className={cx(
+                  'rounded-full border px-2 py-0.5 text-[10px] font-semibold',
+                  p.telehealth.licensedHere
+                    ? 'border-emerald-400/50 text-emerald-200'
+                    : 'border-amber-400/50 text-amber-100',
+                )}
+              >
+                {licenseLabel(p.telehealth)}
+              </span>
+            )}
           </div>
-          <p className="truncate text-xs text-slate-400">
-            {p.address || ''}{' '}
-            {p.distance_km ? `· ${p.distance_km.toFixed(1)} km` : ''}
-          </p>
+          {p.virtual ? (
+            <p className="truncate text-xs text-violet-200/80">{virtualLabel(p)} · no trip needed</p>
+          ) : (
+            <p className="truncate text-xs text-slate-400">
+              {p.address || ''}{' '}
+              {travelLabel(p, mode) ? `· ${travelLabel(p, mode)}` : ''}
+            </p>
+          )}
+          {!p.virtual && <RatingSource p={p} />}
           <p className="mt-1 line-clamp-2 text-xs text-slate-100">
             {p.blurb || placeBlurb(p)}
           </p>
@@ -3238,12 +4048,14 @@ function AllPlacesPanel({
   onOpenPlace,
   onCallPlace,
   onFollowUpPlace,
+  mode = 'drive',
 }: {
   places: Place[]
   onClose: () => void
   onOpenPlace: (p: Place) => void
   onCallPlace: (p: Place) => void
   onFollowUpPlace: (p: Place) => void
+  mode?: TravelMode
 }) {
   return (
     <div className="fixed inset-0 z-50">
@@ -3289,7 +4101,7 @@ function AllPlacesPanel({
                   </div>
                   <p className="truncate text-xs text-slate-400">
                     {p.address || ''}{' '}
-                    {p.distance_km ? `· ${p.distance_km.toFixed(1)} km` : ''}
+                    {travelLabel(p, mode) ? `· ${travelLabel(p, mode)}` : ''}
                   </p>
                   <p className="mt-1 text-xs text-slate-100">
                     {p.blurb || placeBlurb(p)}
@@ -3298,32 +4110,7 @@ function AllPlacesPanel({
                     <p className="mt-1 text-xs text-slate-200/90">{p.scoreNotes}</p>
                   )}
 
-                  {p.reviewCite?.url && (
-                    <div className="mt-2 rounded-lg border-[2px] border-slate-700/80 bg-slate-900/80 p-2">
-                      {p.reviewCite.quote && (
-                        <p className="text-xs text-slate-50">
-                          “{p.reviewCite.quote}”
-                        </p>
-                      )}
-                      <div className="mt-1 flex flex-wrap items-center gap-2 text-[11px] text-slate-300/90">
-                        {typeof p.reviewCite.rating === 'number' && (
-                          <span title={`${p.reviewCite.rating.toFixed(1)}★`}>
-                            ★ {p.reviewCite.rating.toFixed(1)}
-                          </span>
-                        )}
-                        {p.reviewCite.author && <span>— {p.reviewCite.author}</span>}
-                        <a
-                          className="underline hover:text-slate-50"
-                          href={p.reviewCite.url}
-                          target="_blank"
-                          rel="noreferrer"
-                        >
-                          {p.reviewCite.source || domainOf(p.reviewCite.url)}
-                        </a>
-                        {p.reviewCite.date && <span>({p.reviewCite.date})</span>}
-                      </div>
-                    </div>
-                  )}
+                  <RatingSource p={p} />
 
                   {p.scoreSources?.length ? (
                     <div className="mt-2 flex flex-wrap gap-1.5">
@@ -3362,6 +4149,122 @@ function AllPlacesPanel({
   )
 }
 
+/* ============================== Directions ============================== */
+/** Step-by-step directions from the ZIP centre plus links that open the trip in a map app. */
+function DirectionsSection({
+  place,
+  zip,
+  initialMode,
+}: {
+  place: Place
+  zip?: string
+  initialMode: TravelMode
+}) {
+  const [mode, setMode] = useState<TravelMode>(initialMode)
+  const canRoute = typeof place.lat === 'number' && typeof place.lon === 'number' && !!zip
+  // Results are keyed by the request, so a stale answer never shows for a new mode
+  const reqKey = `${place.lat},${place.lon}|${mode}|${zip}`
+  const [result, setResult] = useState<{ key: string; route?: RouteView; failed?: boolean } | null>(
+    null,
+  )
+  const route = result?.key === reqKey ? result.route : undefined
+  const failed = result?.key === reqKey && !!result.failed
+
+  useEffect(() => {
+    if (!canRoute) return
+    const ctrl = new AbortController()
+    const q = new URLSearchParams({
+      to: `${place.lat},${place.lon}`,
+      mode,
+      zip: zip!,
+      name: place.name,
+    })
+    fetch(`/api/no-trek/route?${q}`, { signal: ctrl.signal })
+      .then(r => (r.ok ? r.json() : Promise.reject(new Error(`HTTP ${r.status}`))))
+      .then(j => setResult({ key: reqKey, route: j.route }))
+      .catch(() => {
+        if (!ctrl.signal.aborted) setResult({ key: reqKey, failed: true })
+      })
+    return () => ctrl.abort()
+  }, [canRoute, reqKey, place.lat, place.lon, place.name, mode, zip])
+
+  const links = mapLinks(place, mode)
+  if (!canRoute && !links.length) return null
+
+  return (
+    <section className="rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <header className="text-xs text-slate-300/90">Directions</header>
+        <div className="flex gap-1">
+          {(['drive', 'transit', 'walk'] as TravelMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={cx(
+                'rounded-full border px-2 py-0.5 text-[10px] font-semibold',
+                m === mode
+                  ? 'border-slate-50 bg-slate-50 text-slate-900'
+                  : 'border-slate-600/80 text-slate-200 hover:bg-slate-800/90',
+              )}
+            >
+              {TRAVEL_MODE_LABEL[m]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {canRoute && !route && !failed && (
+        <p className="mt-1 text-xs text-slate-300/90">Working out the route…</p>
+      )}
+      {failed && (
+        <p className="mt-1 text-xs text-amber-100">
+          Couldn’t get directions here — the map links below still work.
+        </p>
+      )}
+      {route && (
+        <>
+          <p className="mt-1 text-sm text-slate-50">
+            About {route.minutes} min {TRAVEL_MODE_LABEL[route.mode]} ·{' '}
+            {route.distanceKm.toFixed(1)} km from the centre of {zip}
+          </p>
+          {route.engine === 'local' && (
+            <p className="text-[11px] text-slate-400">
+              Estimated without live traffic or schedules; your map app will have the exact
+              route.
+            </p>
+          )}
+          <ol className="mt-2 list-decimal space-y-0.5 pl-5 text-sm text-slate-50">
+            {route.steps.map((st, i) => (
+              <li key={i}>
+                {st.instruction}
+                {st.minutes > 0 && (
+                  <span className="text-[11px] text-slate-400"> · {st.minutes} min</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {links.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1.5">
+          {links.map(l => (
+            <a
+              key={l.app}
+              href={l.url}
+              target="_blank"
+              rel="noreferrer"
+              className="rounded-full border border-slate-600/80 bg-slate-900/80 px-2.5 py-1 text-[11px] font-semibold text-slate-100 hover:bg-slate-800/90"
+            >
+              Open in {l.label}
+            </a>
+          ))}
+        </div>
+      )}
+    </section>
+  )
+}
+
 /* ============================== Place Drawer ============================== */
 function PlaceDrawer({
   place,
@@ -3370,6 +4273,8 @@ function PlaceDrawer({
   onClose,
   onCall,
   onFollowUp,
+  zip,
+  mode = 'drive',
 }: {
   place: Place
   fullscreen: boolean
@@ -3377,22 +4282,34 @@ function PlaceDrawer({
   onClose: () => void
   onCall: () => void
   onFollowUp: () => void
+  zip?: string
+  mode?: TravelMode
 }) {
   const bullets: string[] = []
+  if (place.careLevel) bullets.push(CARE_LEVEL_LABEL[place.careLevel])
   if (typeof place.rating === 'number')
     bullets.push(
       `${place.rating.toFixed(1)}★ ${
         place.reviews ? `(${place.reviews} reviews)` : ''
       }`,
     )
-  if (typeof place.distance_km === 'number')
-    bullets.push(`${place.distance_km.toFixed(1)} km away`)
+  if (travelLabel(place, mode)) bullets.push(`${travelLabel(place, mode)} from your ZIP`)
+  if (place.virtual) bullets.push(virtualLabel(place))
+  if (place.telehealth) {
+    bullets.push(licenseLabel(place.telehealth))
+    if (place.telehealth.matched.length) bullets.push(`treats ${place.telehealth.matched.join(', ')}`)
+  }
+  if (place.openNow !== undefined) bullets.push(openLabel(place))
+  if (place.hours) bullets.push(`posted hours: ${place.hours}`)
+  if (place.callReport) bullets.push(callReportLabel(place))
   if (place.price) bullets.push(`price band ${place.price}`)
   if (place.est_cost_min || place.est_cost_max) {
     const lo = place.est_cost_min ?? place.est_cost_max
     const hi = place.est_cost_max ?? place.est_cost_min
     bullets.push(`est. cost $${Math.round(lo!)}–$${Math.round(hi!)}`)
   }
+  if (place.outOfPocket) bullets.push(`${outOfPocketLabel(place)} (${place.outOfPocket.note})`)
+  if (place.in_network !== undefined) bullets.push(networkLabel(place))
   if (place.reason) bullets.push(place.reason)
 
   return (
@@ -3411,7 +4328,7 @@ function PlaceDrawer({
                 <h3 className="text-lg font-semibold text-slate-50">{place.name}</h3>
                 <p className="mt-0.5 text-sm text-slate-200/90">
                   {place.address || ''}{' '}
-                  {place.distance_km ? `· ${place.distance_km.toFixed(1)} km` : ''}
+                  {travelLabel(place, mode) ? `· ${travelLabel(place, mode)}` : ''}
                 </p>
               </div>
               <div className="flex items-center gap-2">
@@ -3454,47 +4371,108 @@ function PlaceDrawer({
                 </section>
               )}
 
-              {place.reviewCite?.url && (
-                <section className="rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-3">
-                  <header className="text-xs text-slate-300/90">
-                    Recent review (citation)
-                  </header>
-                  {place.reviewCite.quote && (
-                    <p className="mt-1 text-sm text-slate-50">
-                      “{place.reviewCite.quote}”
+              {place.virtual ? (
+                <section className="rounded-lg border-[2px] border-violet-400/40 bg-slate-900/85 p-3">
+                  <header className="text-xs text-slate-300/90">Virtual visit</header>
+                  <p className="mt-1 text-sm text-slate-50">
+                    {virtualLabel(place)}. Nothing to travel to; you’ll need a phone or a device with
+                    a camera.
+                  </p>
+                  {place.telehealth && !place.telehealth.licensedHere && (
+                    <p className="mt-1 text-xs text-amber-100">
+                      We couldn’t confirm it’s licensed where you are. Clinicians can only see
+                      patients located in a state they’re licensed in.
                     </p>
                   )}
-                  <div className="mt-1 flex flex-wrap items-center gap-2 text-[11px] text-slate-300/90">
-                    {typeof place.reviewCite.rating === 'number' && (
-                      <span title={`${place.reviewCite.rating.toFixed(1)}★`}>
-                        ★ {place.reviewCite.rating.toFixed(1)}
-                      </span>
-                    )}
-                    {place.reviewCite.author && <span>— {place.reviewCite.author}</span>}
+                  {place.url && (
                     <a
-                      className="underline hover:text-slate-50"
-                      href={place.reviewCite.url}
+                      href={place.url}
                       target="_blank"
                       rel="noreferrer"
+                      className="mt-2 inline-flex items-center justify-center rounded-full border border-violet-400/60 bg-slate-900/80 px-3 py-1.5 text-[11px] font-semibold text-violet-100 hover:bg-slate-800/90"
                     >
-                      {place.reviewCite.source || domainOf(place.reviewCite.url)}
+                      Start a visit
                     </a>
-                    {place.reviewCite.date && (
-                      <span>({place.reviewCite.date})</span>
-                    )}
-                  </div>
+                  )}
+                </section>
+              ) : (
+                <DirectionsSection place={place} zip={zip} initialMode={mode} />
+              )}
+
+              {place.costEstimate && <CostEstimateSection place={place} estimate={place.costEstimate} />}
+
+              {(place.in_network !== undefined || place.outOfPocket) && (
+                <section className="rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-3">
+                  <header className="text-xs text-slate-300/90">Coverage</header>
+                  {place.in_network !== undefined && (
+                    <p className="mt-1 text-sm text-slate-50">
+                      {networkLabel(place)}
+                      {typeof place.network_confidence === 'number' &&
+                        ` · ${Math.round(place.network_confidence * 100)}% confidence`}
+                    </p>
+                  )}
+                  {place.networkNote && (
+                    <p className="mt-0.5 text-xs text-slate-400">{place.networkNote}</p>
+                  )}
+                  {place.outOfPocket && (
+                    <p className="mt-1 text-sm text-slate-50">
+                      {outOfPocketLabel(place)} · {place.outOfPocket.note}
+                    </p>
+                  )}
+                  <p className="mt-1 text-[11px] text-slate-400">
+                    An estimate from your profile and a provider directory. Your insurer has the final say.
+                  </p>
+                </section>
+              )}
+
+              {!place.virtual && (
+                <section className="rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-3">
+                  <header className="text-xs text-slate-300/90">Rating source</header>
+                  {place.verified && place.reviewSource ? (
+                    <p className="mt-1 text-sm text-slate-50">
+                      {place.reviewSource.rating.toFixed(1)}★ from{' '}
+                      {place.reviewSource.count} reviews on{' '}
+                      {REVIEW_PROVIDER_LABEL[place.reviewSource.provider]}, fetched{' '}
+                      {new Date(place.reviewSource.fetchedAt).toLocaleString()}.{' '}
+                      {place.reviewSource.url && (
+                        <a
+                          className="underline hover:text-slate-300"
+                          href={place.reviewSource.url}
+                          target="_blank"
+                          rel="noreferrer"
+                        >
+                          See the listing
+                        </a>
+                      )}
+                    </p>
+                  ) : (
+                    <p className="mt-1 text-sm text-slate-50">
+                      We couldn’t match this place to a listing on a review site we trust, so
+                      it has no rating here. That says nothing about its quality either way.
+                    </p>
+                  )}
                 </section>
               )}
 
               {place.score && (
                 <section className="rounded-lg border-[2px] border-slate-700/80 bg-slate-900/85 p-3">
                   <header className="text-xs text-slate-300/90">Scores</header>
-                  <div className="mt-2 grid grid-cols-2 gap-3 text-sm text-slate-50">
+                  <div className="mt-2 text-sm text-slate-50">
                     <ScoreBar label="Overall" value={place.score.overall} />
-                    <ScoreBar label="Bedside" value={place.score.bedside} />
-                    <ScoreBar label="Cost" value={place.score.cost} />
-                    <ScoreBar label="Wait" value={place.score.wait} />
-                    <ScoreBar label="Distance" value={place.score.distance} />
+                  </div>
+                  <div className="mt-3 grid grid-cols-2 gap-3 text-sm text-slate-50">
+                    {place.score.factors
+                      .filter(f => f.weight > 0)
+                      .map(f => (
+                        <ScoreBar
+                          key={f.factor}
+                          label={f.label}
+                          value={f.value}
+                          weight={f.weight}
+                          detail={f.detail}
+                          known={f.known}
+                        />
+                      ))}
                   </div>
                   {place.scoreNotes && (
                     <p className="mt-2 text-xs text-slate-300/90">
@@ -3540,7 +4518,7 @@ function PlaceDrawer({
                   target="_blank"
                   rel="noreferrer"
                 >
-                  Directions
+                  View on map
                 </a>
               )}
               {place.url && (
@@ -3561,6 +4539,27 @@ function PlaceDrawer({
   )
 }
 
+/** One line under a place saying where its rating came from (or that it has none). */
+function RatingSource({ p }: { p: Place }) {
+  const url = p.verified ? p.reviewSource?.url : undefined
+  return (
+    <p
+      className={cx(
+        'truncate text-[11px]',
+        p.verified ? 'text-slate-300/90' : 'text-amber-200/80',
+      )}
+    >
+      {url ? (
+        <a className="underline hover:text-slate-50" href={url} target="_blank" rel="noreferrer">
+          {ratingSourceLabel(p)}
+        </a>
+      ) : (
+        ratingSourceLabel(p)
+      )}
+    </p>
+  )
+}
+
 function Stars({ value }: { value: number }) {
   const v = clamp(value, 0, 5)
   const pct = `${(v / 5) * 100}%`
@@ -3581,22 +4580,158 @@ function Stars({ value }: { value: number }) {
   )
 }
 
-function ScoreBar({ label, value }: { label: string; value?: number }) {
+/** One score on a 0–5 bar; factor bars also show their weight and the data behind them */
+function ScoreBar({
+  label,
+  value,
+  weight,
+  detail,
+  known = true,
+}: {
+  label: string
+  value?: number
+  weight?: number
+  detail?: string
+  known?: boolean
+}) {
   if (typeof value !== 'number') return null
   const pct = `${clamp(value, 0, 5) * 20}%`
   return (
     <div>
       <div className="mb-1 flex items-center justify-between text-xs text-slate-300/90">
-        <span>{label}</span>
-        <span>{value.toFixed(1)}/5</span>
+        <span>
+          {label}
+          {typeof weight === 'number' && (
+            <span className="text-slate-400"> · {Math.round(weight * 100)}% of score</span>
+          )}
+        </span>
+        <span>{known ? `${value.toFixed(1)}/5` : 'n/a'}</span>
       </div>
       <div className="h-1.5 overflow-hidden rounded-full bg-slate-700/80">
-        <div className="h-full bg-slate-50" style={{ width: pct }} />
+        <div
+          className={cx('h-full', known ? 'bg-slate-50' : 'bg-slate-500/70')}
+          style={{ width: pct }}
+        />
       </div>
+      {detail && <p className="mt-1 text-[11px] text-slate-400">{detail}</p>}
     </div>
   )
 }
 
+const EMPHASIS_LABEL: Record<'rating' | 'travel' | 'cost' | 'wait', string> = {
+  rating: 'Ratings',
+  travel: 'Travel time',
+  cost: 'Cost',
+  wait: 'Short wait',
+}
+
+const FACTOR_SUMMARY: Record<RankingFactor, string> = {
+  rating: 'reviews',
+  volume: 'review volume',
+  travel: 'travel time',
+  cost: 'cost',
+  open: 'open now',
+  wait: 'wait',
+}
+
+/** The three factors carrying the most weight, e.g. "travel time, open now, wait" */
+function rankingSummary(weights: Record<RankingFactor, number>) {
+  return (Object.entries(weights) as [RankingFactor, number][])
+    .filter(([, w]) => w > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([f]) => FACTOR_SUMMARY[f])
+    .join(', ')
+}
+
+/* ============================== Ranking Preferences ============================== */
+// Sliders scale the risk preset's weights (middle = as preset); limits drop places outright
+function RankingPrefsPanel({
+  prefs,
+  onChange,
+}: {
+  prefs: RankingPrefs
+  onChange: (next: RankingPrefs) => void
+}) {
+  const emphasis = prefs.emphasis || {}
+  const setEmphasis = (k: keyof typeof EMPHASIS_LABEL, v: number) =>
+    onChange({ ...prefs, emphasis: { ...emphasis, [k]: v } })
+  const changed =
+    Object.keys(emphasis).length > 0 || prefs.maxTravelMinutes !== undefined || prefs.maxCost !== undefined
+  return (
+    <details className="rounded-lg border border-slate-700/80 bg-slate-900/60 px-3 py-2 text-[11px] text-slate-200">
+      <summary className="cursor-pointer select-none text-slate-300">What matters to you</summary>
+      <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-2">
+        {(Object.keys(EMPHASIS_LABEL) as (keyof typeof EMPHASIS_LABEL)[]).map(k => {
+          const v = emphasis[k] ?? 0.5
+          return (
+            <label key={k} className="flex flex-col gap-0.5">
+              <span className="flex justify-between">
+                {EMPHASIS_LABEL[k]}
+                <span className="text-slate-400">
+                  {v === 0 ? 'ignore' : v < 0.5 ? 'less' : v > 0.5 ? 'more' : 'normal'}
+                </span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.25}
+                value={v}
+                onChange={e => setEmphasis(k, Number(e.target.value))}
+              />
+            </label>
+          )
+        })}
+        <label className="flex items-center justify-between gap-2">
+          Max travel
+          <select
+            value={prefs.maxTravelMinutes ?? ''}
+            onChange={e =>
+              onChange({ ...prefs, maxTravelMinutes: e.target.value ? Number(e.target.value) : undefined })
+            }
+            className="rounded border border-slate-600/80 bg-slate-900/80 px-1 py-0.5 text-slate-100"
+          >
+            <option value="">Any</option>
+            {[15, 30, 45, 60].map(m => (
+              <option key={m} value={m}>
+                {m} min
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2">
+          Max cost
+          <select
+            value={prefs.maxCost ?? ''}
+            onChange={e => onChange({ ...prefs, maxCost: e.target.value ? Number(e.target.value) : undefined })}
+            className="rounded border border-slate-600/80 bg-slate-900/80 px-1 py-0.5 text-slate-100"
+          >
+            <option value="">Any</option>
+            {[100, 250, 500].map(c => (
+              <option key={c} value={c}>
+                ${c}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="mt-2 text-slate-400">
+        Emergency rooms are never hidden by these limits, and at severe risk the fastest one
+        always comes first.
+      </p>
+      {changed && (
+        <button
+          onClick={() => onChange({ travelMode: prefs.travelMode })}
+          className="mt-2 rounded-full border border-slate-600/80 px-2 py-0.5 text-slate-100 hover:bg-slate-800/90"
+        >
+          Reset
+        </button>
+      )}
+    </details>
+  )
+}
+
 /* ============================== Sources Panel ============================== */
 function SourcesPanel({
   sources,
@@ -3712,7 +4847,7 @@ function FollowUpsPanel({
                     <div className="flex items-center gap-2">
                       <input
                         type="checkbox"
-                        checked={!!t.done}
+                        checked={t.status === 'done'}
                         onChange={() => onToggleDone(t.id)}
                         className="h-4 w-4"
                       />
@@ -3739,13 +4874,13 @@ function FollowUpsPanel({
                     )}
                     <div className="mt-2 text-[11px] text-slate-400">
                       Created{' '}
-                      {new Date(t.createdAt || Date.now()).toLocaleString()}
+                      {new Date(t.createdAt).toLocaleString()}
                     </div>
                   </div>
                   <div className="flex flex-col items-end gap-2">
                     <input
                       type="datetime-local"
-                      value={t.due ? new Date(t.due).toISOString().slice(0, 16) : ''}
+                      value={t.dueAt ? new Date(t.dueAt).toISOString().slice(0, 16) : ''}
                       onChange={e =>
                         onUpdateDue(
                           t.id,
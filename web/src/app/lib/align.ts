@@ -0,0 +1,177 @@
+// File: src/app/lib/align.ts
+// Claim-level citation alignment. A reply is split into sentence-sized claims; each
+// factual claim gets zero or more footnote numbers pointing into the citation list.
+// Claims that need a source but got none are marked unsupported so the UI can flag
+// them. The model (cite route) only picks among the given sources — it can't add URLs.
+
+import type { Citation } from './cite'
+import { complete, hasProvider, parseJsonLoose } from './llm'
+
+export type Claim = {
+  /** 0-based position in the reply */
+  index: number
+  text: string
+  /** Character offsets into the original reply, so clients can place markers */
+  start: number
+  end: number
+  /** False for questions and empathy/transition lines */
+  needsCitation: boolean
+  /** 1-based footnote numbers into the citations array */
+  citations: number[]
+  /** needsCitation && no citations */
+  unsupported: boolean
+}
+
+export type Alignment = {
+  claims: Claim[]
+  citations: Citation[]
+  method: 'model' | 'lexical' | 'none'
+}
+
+/* ============================== Claim splitting ============================== */
+
+// Lines that are about the person, not about medicine — no source required
+const NON_FACTUAL =
+  /^(i['’]?m sorry|sorry|that sounds|it sounds|i hear|i['’]?m here|you['’]?re not alone|thanks|thank you|good question|okay|ok|got it|let['’]?s|i can help|happy to help)\b/i
+
+// Words whose trailing period doesn't end a sentence ("e.g. Dr. Lee")
+const ABBREVIATION = /(?:^|[\s(])(?:e\.g|i\.e|etc|vs|approx|dr|mr|mrs|ms|prof|st|no|fig|al)$/i
+
+/**
+ * Offsets where claims end: a newline, "!" or "?" before a space, or "." before a space and
+ * a capital letter. So "100.4" and "e.g. ibuprofen" stay inside their sentence.
+ */
+function claimEnds(text: string): number[] {
+  const ends: number[] = []
+  for (const m of text.matchAll(/[.!?]+["”’')\]]*(?=\s)|\n/g)) {
+    const end = m.index! + m[0].length
+    if (m[0] !== '\n' && !/[!?]/.test(m[0])) {
+      if (!/^\s+["“‘(]?[A-Z]/.test(text.slice(end))) continue
+      if (ABBREVIATION.test(text.slice(0, m.index))) continue
+    }
+    ends.push(end)
+  }
+  return [...ends, text.length]
+}
+
+export function splitClaims(text: string): Omit<Claim, 'citations' | 'unsupported'>[] {
+  const out: Omit<Claim, 'citations' | 'unsupported'>[] = []
+  const t = text || ''
+  let from = 0
+  for (const to of claimEnds(t)) {
+    const raw = t.slice(from, to)
+    const lead = raw.length - raw.trimStart().length
+    const body = raw.trim()
+    const start = from + lead
+    from = to
+    if (!body) continue
+    const isQuestion = body.endsWith('?')
+    const needsCitation =
+      !isQuestion && body.length >= 25 && /[a-z]/i.test(body) && !NON_FACTUAL.test(body)
+    out.push({ index: out.length, text: body, start, end: start + body.length, needsCitation })
+  }
+  return out
+}
+
+/* ============================== Matching ============================== */
+
+const STOPWORDS = new Set(
+  'about above after again also because been before being below between both could does doing down during each from further have having here into itself just more most once only other over same should some such than that their them then there these they this those through under until very what when where which while will with would your you yours'.split(
+    ' ',
+  ),
+)
+
+function terms(s: string): Set<string> {
+  return new Set(
+    (s || '')
+      .toLowerCase()
+      .replace(/https?:\/\/[^/]+/g, ' ')
+      .split(/[^a-z0-9]+/)
+      .filter(w => w.length >= 4 && !STOPWORDS.has(w))
+      // crude stemming so "sprains" matches "sprained"
+      .map(w => w.replace(/(ing|ed|es|s)$/, '')),
+  )
+}
+
+/** Keyword overlap between claim and citation title/URL path; up to two links per claim. */
+function lexicalLinks(claims: { text: string; needsCitation: boolean }[], citations: Citation[]) {
+  const cites = citations.map(c => terms(`${c.title} ${c.url}`))
+  return claims.map(cl => {
+    if (!cl.needsCitation) return []
+    const ct = terms(cl.text)
+    return cites
+      .map((t, i) => ({ n: i + 1, score: [...ct].filter(w => t.has(w)).length }))
+      .filter(x => x.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 2)
+      .map(x => x.n)
+  })
+}
+
+async function modelLinks(
+  claims: { text: string; needsCitation: boolean }[],
+  citations: Citation[],
+): Promise<number[][]> {
+  const sys = `
+You align claims to sources. You get numbered claims and numbered sources (title + URL).
+Return JSON ONLY: {"links":[{"claim":<claim number>,"sources":[<source numbers>]}]}.
+Rules:
+- Link a source only if that page would plausibly support the claim as written.
+- Use only the given source numbers; never invent sources. An empty list is fine.
+- Skip claims that are questions or emotional support.`
+  const user = [
+    'Claims:',
+    ...claims.map((c, i) => `${i + 1}. ${c.text}`),
+    '',
+    'Sources:',
+    ...citations.map((c, i) => `${i + 1}. ${c.title} — ${c.url}`),
+  ].join('\n')
+
+  const result = await complete('cite', {
+    system: sys,
+    messages: [{ role: 'user', content: user }],
+    temperature: 0,
+    json: true,
+  })
+  const parsed = parseJsonLoose<{ links?: { claim?: number; sources?: number[] }[] }>(result.text)
+  const links: number[][] = claims.map(() => [])
+  for (const l of parsed.links || []) {
+    const ci = Number(l?.claim) - 1
+    if (!claims[ci]?.needsCitation) continue
+    links[ci] = [...new Set((l.sources || []).map(Number))]
+      .filter(n => Number.isInteger(n) && n >= 1 && n <= citations.length)
+      .slice(0, 3)
+  }
+  return links
+}
+
+/* ============================== Public API ============================== */
+
+/** Align a reply's claims to an existing citation list. Never adds or reorders citations. */
+export async function alignClaims(text: string, citations: Citation[]): Promise<Alignment> {
+  const split = splitClaims(text)
+  let method: Alignment['method'] = 'none'
+  let links: number[][] = split.map(() => [])
+
+  if (citations.length && split.some(c => c.needsCitation)) {
+    if (hasProvider('cite')) {
+      try {
+        links = await modelLinks(split, citations)
+        method = 'model'
+      } catch (err) {
+        console.error('[align] model alignment failed, using keyword overlap:', err)
+      }
+    }
+    if (method === 'none') {
+      links = lexicalLinks(split, citations)
+      method = 'lexical'
+    }
+  }
+
+  const claims: Claim[] = split.map((c, i) => ({
+    ...c,
+    citations: links[i] || [],
+    unsupported: c.needsCitation && !(links[i] || []).length,
+  }))
+  return { claims, citations, method }
+}
@@ -0,0 +1,155 @@
+// File: src/app/lib/call/index.ts
+// "Call for me" sessions. A session starts as a draft holding a script built from the
+// intake context; nothing is dialed until the user has reviewed that script and given
+// explicit consent (including whether health details may be shared). The telephony
+// adapter then reports transcript lines, and a finished call yields an outcome, fields
+// for the Place and follow-up tasks.
+//
+// Config (all optional):
+//   NT_CALL_BACKEND=simulator      telephony adapter (only the simulator ships today)
+//   NT_CALL_MAX_SESSIONS=200       sessions kept in memory; oldest are dropped first
+
+import { randomUUID } from 'crypto'
+import { followUpsFrom, parseOutcome, placeUpdateFrom } from './outcome'
+import { buildCallScript, sanitizeScript } from './script'
+import { simulatorAdapter } from './simulator'
+import {
+  CallStateError,
+  type CallConsent,
+  type CallContext,
+  type CallEvent,
+  type CallSession,
+  type TelephonyAdapter,
+} from './types'
+
+export * from './types'
+export { buildCallScript } from './script'
+export { parseOutcome } from './outcome'
+
+const ADAPTERS: Record<string, TelephonyAdapter> = {
+  simulator: simulatorAdapter,
+}
+
+export function telephony(): TelephonyAdapter {
+  const name = (process.env.NT_CALL_BACKEND || 'simulator').trim().toLowerCase()
+  const adapter = ADAPTERS[name]
+  if (!adapter) throw new Error(`Unknown call backend "${name}"`)
+  return adapter
+}
+
+/** The backend a session was created on, even if config changed since */
+const adapterFor = (s: CallSession) => ADAPTERS[s.backend] ?? telephony()
+
+const maxSessions = () => Number(process.env.NT_CALL_MAX_SESSIONS) || 200
+
+/* ============================== Store ============================== */
+
+declare global {
+  var __callSessions: Map<string, CallSession> | undefined
+}
+
+function sessions(): Map<string, CallSession> {
+  if (!globalThis.__callSessions) globalThis.__callSessions = new Map()
+  return globalThis.__callSessions
+}
+
+function save(s: CallSession) {
+  s.updatedAt = new Date().toISOString()
+  const map = sessions()
+  map.set(s.id, s)
+  // Map keeps insertion order, so the first keys are the oldest sessions
+  for (const id of map.keys()) {
+    if (map.size <= maxSessions()) break
+    map.delete(id)
+  }
+  return s
+}
+
+export function getCall(id: string): CallSession | undefined {
+  return sessions().get(id)
+}
+
+/* ============================== Lifecycle ============================== */
+
+export function createCall(place: CallSession['place'], context: CallContext): CallSession {
+  const now = new Date().toISOString()
+  return save({
+    id: randomUUID(),
+    status: 'draft',
+    backend: telephony().name,
+    place,
+    context,
+    script: buildCallScript(place, context),
+    transcript: [],
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+function onEvent(id: string, e: CallEvent) {
+  const s = getCall(id)
+  // A canceled call may still have a line in flight; drop it
+  if (!s || s.status === 'canceled' || s.status === 'completed' || s.status === 'failed') return
+  switch (e.type) {
+    case 'status':
+      s.status = e.status
+      break
+    case 'line':
+      s.transcript.push({ at: new Date().toISOString(), speaker: e.speaker, text: e.text })
+      break
+    case 'error':
+      s.status = 'failed'
+      s.error = e.error
+      break
+    case 'ended': {
+      s.status = 'completed'
+      s.updatedAt = new Date().toISOString()
+      const outcome = parseOutcome(s.transcript)
+      s.outcome = outcome
+      s.placeUpdate = placeUpdateFrom(s, outcome)
+      s.followUps = followUpsFrom(s, outcome)
+      break
+    }
+  }
+  save(s)
+}
+
+/**
+ * Dial a draft. `script` is the user-reviewed version (falls back to the draft where
+ * missing); consent must say `agreed: true`. Health details are dropped from the script
+ * unless the user also agreed to share them.
+ */
+export async function startCall(
+  id: string,
+  input: { script?: unknown; consent: Omit<CallConsent, 'at'> },
+): Promise<CallSession | undefined> {
+  const s = getCall(id)
+  if (!s) return undefined
+  if (s.status !== 'draft') throw new CallStateError(id, s.status, 'start')
+
+  const script = sanitizeScript(input.script, s.script)
+  if (!input.consent.shareHealthInfo) script.healthDetails = []
+  s.script = script
+  s.consent = { ...input.consent, at: new Date().toISOString() }
+  s.status = 'dialing'
+  save(s)
+
+  try {
+    await adapterFor(s).dial(s, e => onEvent(id, e))
+  } catch (e) {
+    onEvent(id, { type: 'error', error: e instanceof Error ? e.message : String(e) })
+  }
+  return getCall(id)
+}
+
+export function cancelCall(id: string): CallSession | undefined {
+  const s = getCall(id)
+  if (!s) return undefined
+  if (s.status === 'completed' || s.status === 'failed' || s.status === 'canceled') {
+    throw new CallStateError(id, s.status, 'cancel')
+  }
+  if (s.status !== 'draft') adapterFor(s).hangUp(id)
+  s.status = 'canceled'
+  s.transcript.push({ at: new Date().toISOString(), speaker: 'system', text: 'Call canceled.' })
+  return save(s)
+}
@@ -0,0 +1,131 @@
+// File: src/app/lib/call/outcome.ts
+// Turn a finished call's transcript into structured answers, then into what the intake
+// page acts on: fields merged into the Place and follow-up tasks. Works on any backend's
+// transcript — each clinic reply is read against the question the agent just asked.
+
+import type { Place } from '../places/types'
+import type { CallFollowUp, CallOutcome, CallSession, TranscriptLine } from './types'
+
+type Topic = 'availability' | 'wait' | 'cost' | 'insurance' | 'prep' | 'other'
+
+function topicOf(question: string): Topic {
+  const q = question.toLowerCase()
+  if (/\bwait\b/.test(q)) return 'wait'
+  if (/price|cost|self-pay|how much/.test(q)) return 'cost'
+  if (/insurance|\bplans?\b|\baccept\b/.test(q)) return 'insurance'
+  if (/\bbring\b|before coming/.test(q)) return 'prep'
+  if (/today|walk-?in|available|appointment|opening/.test(q)) return 'availability'
+  return 'other'
+}
+
+/** "45 minutes" → 45, "an hour and a half"-style answers are left alone */
+function minutesIn(text: string) {
+  const m = /(\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|hrs?)\b/i.exec(text)
+  if (!m) return undefined
+  const n = Number(m[1])
+  return /^h/i.test(m[2]) ? Math.round(n * 60) : Math.round(n)
+}
+
+function dollarsIn(text: string): [number, number] | undefined {
+  const m = /\$\s?(\d[\d,]*)(?:\s*(?:to|-|–)\s*\$?\s?(\d[\d,]*))?/.exec(text)
+  if (!m) return undefined
+  const lo = Number(m[1].replace(/,/g, ''))
+  const hi = m[2] ? Number(m[2].replace(/,/g, '')) : lo
+  return [Math.min(lo, hi), Math.max(lo, hi)]
+}
+
+const NEGATIVE = /\b(no|not|don't|do not|doesn't|can't|cannot|full|booked)\b/i
+
+export function parseOutcome(transcript: TranscriptLine[]): CallOutcome {
+  const out: CallOutcome = { notes: [] }
+  let asked: Topic | null = null
+  for (const line of transcript) {
+    if (line.speaker === 'agent') {
+      // Statements (the opening, shared health details) aren't questions to answer; a line
+      // that ends in one (health details asking about the plan) is read by that question
+      const last = line.text.trim().split(/(?<=[.!])\s+/).at(-1) ?? ''
+      asked = last.endsWith('?') ? topicOf(last) : null
+      continue
+    }
+    if (line.speaker !== 'clinic' || !asked) continue
+    const text = line.text
+    switch (asked) {
+      case 'availability': {
+        const next = /next (?:opening|available(?: appointment)?) is ([^.]+)/i.exec(text)?.[1]
+        if (next) out.nextAvailable = next.trim()
+        out.availableToday = next
+          ? /^today\b/i.test(next.trim())
+          : /\btoday\b/i.test(text) && !NEGATIVE.test(text)
+        break
+      }
+      case 'wait':
+        out.waitMinutes = minutesIn(text) ?? out.waitMinutes
+        break
+      case 'cost': {
+        const d = dollarsIn(text)
+        if (d) [out.quotedCostMin, out.quotedCostMax] = d
+        break
+      }
+      case 'insurance':
+        out.acceptsInsurance = !NEGATIVE.test(text)
+        break
+      case 'prep':
+        out.notes.push(text)
+        break
+    }
+    // Only the first reply answers the question; later chatter is not an answer
+    asked = null
+  }
+  return out
+}
+
+/** Fields to merge into the Place the call was about. A quoted price replaces the estimate. */
+export function placeUpdateFrom(session: CallSession, outcome: CallOutcome): Partial<Place> {
+  return {
+    callReport: {
+      sessionId: session.id,
+      at: session.updatedAt,
+      availableToday: outcome.availableToday,
+      nextAvailable: outcome.nextAvailable,
+      waitMinutes: outcome.waitMinutes,
+      acceptsInsurance: outcome.acceptsInsurance,
+    },
+    ...(outcome.quotedCostMin !== undefined
+      ? { est_cost_min: outcome.quotedCostMin, est_cost_max: outcome.quotedCostMax }
+      : {}),
+  }
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+export function followUpsFrom(session: CallSession, outcome: CallOutcome): CallFollowUp[] {
+  const name = session.place.name
+  const details = [
+    outcome.waitMinutes !== undefined ? `Wait quoted: about ${outcome.waitMinutes} min` : '',
+    outcome.quotedCostMin !== undefined
+      ? `Self-pay quoted: $${outcome.quotedCostMin}${
+          outcome.quotedCostMax !== outcome.quotedCostMin ? `–$${outcome.quotedCostMax}` : ''
+        }`
+      : '',
+    ...outcome.notes,
+    session.place.phone ? `Phone: ${session.place.phone}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  const tasks: CallFollowUp[] = []
+  if (outcome.availableToday) {
+    tasks.push({ title: `Go to ${name} today`, notes: details, due: today() })
+  } else if (outcome.nextAvailable) {
+    tasks.push({ title: `Book ${name}: next opening ${outcome.nextAvailable}`, notes: details })
+  } else {
+    tasks.push({ title: `Call ${name} back — availability wasn't confirmed`, notes: details })
+  }
+  if (outcome.acceptsInsurance === false) {
+    tasks.push({
+      title: `Check coverage before visiting ${name}`,
+      notes: 'The front desk said they may not take your plan. Ask your insurer for in-network options.',
+    })
+  }
+  return tasks
+}
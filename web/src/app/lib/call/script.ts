@@ -0,0 +1,62 @@
+// File: src/app/lib/call/script.ts
+// The call script the user reviews before we dial. Built from the intake context with a
+// template rather than a model, so what the user approves is exactly what gets said.
+// Health details sit in their own list and are only spoken under consent.
+
+import { CARE_LEVELS } from '../places/careLevels'
+import type { CallContext, CallScript, CallSession } from './types'
+
+const clip = (s: string, n: number) => (s.length > n ? `${s.slice(0, n - 1).trimEnd()}…` : s)
+
+export function buildCallScript(place: CallSession['place'], ctx: CallContext): CallScript {
+  const setting = place.careLevel ? CARE_LEVELS[place.careLevel].label.toLowerCase() : 'visit'
+  const soon = ctx.risk === 'moderate' || ctx.risk === 'severe'
+
+  const questions = [
+    soon
+      ? 'Could someone be seen today, either as a walk-in or with an appointment?'
+      : 'When is the next available appointment for a new patient?',
+    'About how long is the wait right now?',
+    `What is the self-pay price for a basic ${setting === 'visit' ? 'visit' : `${setting} visit`}?`,
+    // The plan itself is a health detail: it's asked about below, only under consent
+    'Do you accept most major insurance plans?',
+    'Is there anything the patient should bring or do before coming in?',
+  ]
+
+  const healthDetails = [
+    ctx.concern ? `The visit is about: ${clip(ctx.concern.trim(), 200)}` : '',
+    ctx.insurance ? `Their insurance is ${clip(ctx.insurance, 60)}. Do you accept that plan?` : '',
+  ].filter(Boolean)
+
+  return {
+    opening: `Hi, I'm calling on behalf of a patient who is looking for care near ${
+      ctx.zip || 'your area'
+    }. I have a few quick questions about availability and cost.`,
+    questions,
+    healthDetails,
+    disclosure:
+      "I'm an automated assistant from No Trek calling with the patient's permission. I won't book anything or share more than they approved.",
+  }
+}
+
+/** Keep a user-edited script within sane bounds; anything missing falls back to the draft. */
+export function sanitizeScript(input: unknown, draft: CallScript): CallScript {
+  const s = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof CallScript, unknown>>
+  const lines = (v: unknown, fallback: string[], max: number) =>
+    Array.isArray(v)
+      ? v
+          .map(x => String(x ?? '').trim())
+          .filter(Boolean)
+          .slice(0, max)
+          .map(x => clip(x, 300))
+      : fallback
+  const text = (v: unknown, fallback: string) =>
+    typeof v === 'string' && v.trim() ? clip(v.trim(), 500) : fallback
+  return {
+    opening: text(s.opening, draft.opening),
+    questions: lines(s.questions, draft.questions, 8),
+    healthDetails: lines(s.healthDetails, draft.healthDetails, 4),
+    // The disclosure is not user-editable: the clinic must always be told who is calling
+    disclosure: draft.disclosure,
+  }
+}
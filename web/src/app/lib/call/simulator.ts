@@ -0,0 +1,131 @@
+// File: src/app/lib/call/simulator.ts
+// Local telephony backend: plays a scripted clinic phone tree (menu, hold, front desk)
+// and answers the agent's questions. Answers vary per place but are stable for a given
+// place id, so the same clinic always "says" the same thing. No audio, no network.
+//
+// Config (all optional):
+//   NT_CALL_SIM_STEP_MS=900      pause between transcript lines
+
+import { CARE_LEVELS, TYPICAL_SELF_PAY } from '../places/careLevels'
+import type { CallEvent, CallSession, TelephonyAdapter } from './types'
+
+const stepMs = () => {
+  const v = Number(process.env.NT_CALL_SIM_STEP_MS)
+  return Number.isFinite(v) && v >= 0 ? v : 900
+}
+
+/** Small stable hash so each place gets its own, repeatable answers. */
+function seed(s: string) {
+  let h = 2166136261
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619)
+  return h >>> 0
+}
+
+type Line = { speaker: 'agent' | 'clinic' | 'system'; text: string }
+
+function clinicAnswer(question: string, session: CallSession, h: number): string {
+  const q = question.toLowerCase()
+  const full = h % 4 === 0
+  if (/today|walk-?in|next available|appointment/.test(q)) {
+    return full
+      ? `We're full today, sorry. The next opening is ${['tomorrow at 9:15', 'Thursday at 10:30', 'Monday at 8:45'][h % 3]}.`
+      : /today|walk-?in/.test(q)
+      ? 'Yes, we can see them today. Walk-ins are welcome until closing.'
+      : `The next opening is today at ${['3:40', '4:15', '5:00'][h % 3]}.`
+  }
+  if (/wait/.test(q)) {
+    return `The wait is about ${[20, 35, 45, 60, 90][h % 5]} minutes right now.`
+  }
+  if (/price|cost|self-pay|how much/.test(q)) {
+    const band = session.place.careLevel ? CARE_LEVELS[session.place.careLevel].price : '$$'
+    const [lo, hi] = TYPICAL_SELF_PAY[band]
+    const bump = (h % 5) * 5
+    return `Self-pay for a basic visit is $${lo + bump} to $${hi + bump}, before any tests.`
+  }
+  if (/insurance|accept|plan/.test(q)) {
+    return h % 7 === 0
+      ? "We don't take that plan, sorry. Self-pay is an option."
+      : 'Yes, we take most major plans. Have the card ready at check-in.'
+  }
+  if (/bring|before coming/.test(q)) {
+    return 'Please bring a photo ID, your insurance card and a list of current medications.'
+  }
+  return "I'm not sure about that one. The office manager could tell you."
+}
+
+/** The whole conversation, decided up front; the adapter just paces it out. */
+export function simulatedConversation(session: CallSession): Line[] {
+  const h = seed(session.place.id || session.place.name)
+  const name = session.place.name
+  const { script } = session
+  const lines: Line[] = [
+    {
+      speaker: 'system',
+      text: `Dialing ${name}${session.place.phone ? ` at ${session.place.phone}` : ''} (simulated line)…`,
+    },
+    {
+      speaker: 'clinic',
+      text: `Thank you for calling ${name}. If this is a medical emergency, hang up and dial 911. For appointments, press 1. For billing, press 2. For prescription refills, press 3.`,
+    },
+    { speaker: 'system', text: 'Pressed 1 (appointments).' },
+    { speaker: 'clinic', text: 'All of our staff are helping other callers. Please stay on the line.' },
+    { speaker: 'system', text: `On hold for ${1 + (h % 4)} min.` },
+    { speaker: 'clinic', text: 'Front desk, how can I help you?' },
+    { speaker: 'agent', text: script.opening },
+    { speaker: 'clinic', text: 'Sure. May I ask who is calling?' },
+    { speaker: 'agent', text: script.disclosure },
+  ]
+  if (session.consent?.shareHealthInfo && script.healthDetails.length) {
+    const details = script.healthDetails.join(' ')
+    // The details end in a question when they carry the insurance plan
+    lines.push(
+      { speaker: 'agent', text: details },
+      { speaker: 'clinic', text: details.endsWith('?') ? clinicAnswer(details, session, h) : 'Okay, noted.' },
+    )
+  } else {
+    lines.push({ speaker: 'clinic', text: 'Okay, go ahead.' })
+  }
+  for (const q of script.questions) {
+    lines.push({ speaker: 'agent', text: q }, { speaker: 'clinic', text: clinicAnswer(q, session, h) })
+  }
+  lines.push(
+    { speaker: 'agent', text: "Thank you, that's everything I needed." },
+    { speaker: 'clinic', text: 'You are welcome. Goodbye.' },
+    { speaker: 'system', text: 'Call ended.' },
+  )
+  return lines
+}
+
+declare global {
+  var __callSimTimers: Map<string, ReturnType<typeof setTimeout>> | undefined
+}
+
+function timers() {
+  if (!globalThis.__callSimTimers) globalThis.__callSimTimers = new Map()
+  return globalThis.__callSimTimers
+}
+
+export const simulatorAdapter: TelephonyAdapter = {
+  name: 'simulator',
+  available: () => true,
+  async dial(session, emit: (e: CallEvent) => void) {
+    const lines = simulatedConversation(session)
+    let i = 0
+    const next = () => {
+      if (i === 1) emit({ type: 'status', status: 'in_progress' })
+      if (i >= lines.length) {
+        timers().delete(session.id)
+        emit({ type: 'ended' })
+        return
+      }
+      emit({ type: 'line', ...lines[i++] })
+      timers().set(session.id, setTimeout(next, stepMs()))
+    }
+    next()
+  },
+  hangUp(sessionId) {
+    const t = timers().get(sessionId)
+    if (t) clearTimeout(t)
+    timers().delete(sessionId)
+  },
+}
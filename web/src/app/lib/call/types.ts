@@ -0,0 +1,118 @@
+// Shapes for "call for me" sessions (server-side; the intake page mirrors what it renders).
+
+import type { CareLevel, Place } from '../places/types'
+
+/**
+ * draft → (user reviews script + consents) → dialing → in_progress → completed | failed.
+ * A draft can be canceled; so can a live call.
+ */
+export type CallStatus = 'draft' | 'dialing' | 'in_progress' | 'completed' | 'failed' | 'canceled'
+
+/** Who said a transcript line; `system` is our own narration (dialing, menu choices) */
+export type CallSpeaker = 'agent' | 'clinic' | 'system'
+
+export type TranscriptLine = {
+  at: string
+  speaker: CallSpeaker
+  text: string
+}
+
+/** What the caller knows about the person, shared with the clinic only under consent */
+export type CallContext = {
+  /** What the visit is about, in the person's own words or Stella's summary */
+  concern?: string
+  risk?: 'low' | 'moderate' | 'severe'
+  zip?: string
+  careLevel?: CareLevel
+  /** e.g. "Aetna PPO"; read out only when the user shares health details */
+  insurance?: string
+}
+
+export type CallScript = {
+  /** Said once the clinic picks up; never contains health details */
+  opening: string
+  /** Asked in order; each one maps to an outcome field */
+  questions: string[]
+  /** Health details the agent may read out — only if consent.shareHealthInfo */
+  healthDetails: string[]
+  /** Said if asked who is calling */
+  disclosure: string
+}
+
+export type CallConsent = {
+  /** The user agreed to us calling on their behalf */
+  agreed: true
+  /** The user agreed to share `script.healthDetails` with the clinic */
+  shareHealthInfo: boolean
+  at: string
+}
+
+/** Structured answers pulled from the transcript */
+export type CallOutcome = {
+  /** Can be seen today (walk-in or appointment) */
+  availableToday?: boolean
+  /** Next opening the clinic quoted, as they said it */
+  nextAvailable?: string
+  waitMinutes?: number
+  /** Self-pay price quoted for the visit */
+  quotedCostMin?: number
+  quotedCostMax?: number
+  acceptsInsurance?: boolean
+  /** Anything else worth keeping, e.g. "bring photo ID" */
+  notes: string[]
+}
+
+/** A task the call suggests; the page adds these to its follow-ups */
+export type CallFollowUp = {
+  title: string
+  notes?: string
+  /** ISO date */
+  due?: string
+}
+
+export type CallSession = {
+  id: string
+  status: CallStatus
+  backend: string
+  place: Pick<Place, 'id' | 'name' | 'phone' | 'careLevel' | 'address'>
+  context: CallContext
+  script: CallScript
+  consent?: CallConsent
+  transcript: TranscriptLine[]
+  outcome?: CallOutcome
+  /** Fields to merge into the Place the call was about */
+  placeUpdate?: Partial<Place>
+  followUps?: CallFollowUp[]
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+/** What an adapter reports while a call runs */
+export type CallEvent =
+  | { type: 'status'; status: 'in_progress' }
+  | { type: 'line'; speaker: CallSpeaker; text: string }
+  | { type: 'ended' }
+  | { type: 'error'; error: string }
+
+/**
+ * A way to place calls. `dial` returns once the call is under way and reports everything
+ * through `emit`; `hangUp` ends it early. The simulator is the only built-in backend.
+ */
+export interface TelephonyAdapter {
+  name: string
+  available(): boolean
+  dial(session: CallSession, emit: (e: CallEvent) => void): Promise<void>
+  hangUp(sessionId: string): void
+}
+
+export class CallStateError extends Error {
+  constructor(
+    public sessionId: string,
+    public status: CallStatus,
+    action: string,
+  ) {
+    super(`Can't ${action} a call that is ${status.replace('_', ' ')}`)
+    this.name = 'CallStateError'
+  }
+}
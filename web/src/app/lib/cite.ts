@@ -0,0 +1,262 @@
+// File: src/app/lib/cite.ts
+// Citation search + validation shared by /api/no-trek/cite and the chat route's
+// server-side backfill. Providers run in order until there are enough candidates;
+// every URL is checked against the domain policy (lib/domainPolicy) and for liveness
+// through the URL-health cache (curated corpus pages excepted).
+//
+// Order: NT_CITE_PROVIDERS=corpus,tavily,bing,google,model — otherwise web search
+// first when any search key is set, and the offline corpus first when none are.
+
+import { CORPUS, isCuratedUrl, searchCorpus } from './corpus'
+import {
+  allowedDomains,
+  domainPolicy,
+  domainWeight,
+  hostOf,
+  isAllowedUrl,
+  type DomainScope,
+} from './domainPolicy'
+import { complete, hasProvider, parseJsonLoose } from './llm'
+import { checkUrls, isDead } from './urlHealth'
+
+export type Citation = {
+  title: string
+  url: string
+  source?: string
+  /** Matching passage, when the provider has one (corpus) */
+  snippet?: string
+  /** YYYY-MM-DD the page was last reviewed, for curated corpus entries */
+  lastReviewed?: string
+}
+
+/* ============================== URL helpers ============================== */
+
+export const domainOf = hostOf
+
+/** Domains a scope can cite from — what prompts and search filters are told. */
+export function scopeDomains(scope: DomainScope = {}) {
+  const policy = domainPolicy()
+  const all = allowedDomains(policy, scope.tier)
+  if (!scope.within?.length) return all
+  // A requested subdomain (nimh.nih.gov) stays as-is as long as the policy allows it
+  return scope.within.filter(d => isAllowedUrl(policy, `https://${d}/`, { tier: scope.tier }))
+}
+
+/** Keep only http(s) URLs the domain policy allows, deduped by URL; fills in a title/source. */
+export function filterAllowed(list: unknown, scope: DomainScope = {}): Citation[] {
+  const policy = domainPolicy()
+  const xs: Partial<Citation>[] = Array.isArray(list) ? list : []
+  const seen = new Set<string>()
+  const out: Citation[] = []
+  for (const c of xs) {
+    const url = typeof c?.url === 'string' ? c.url.trim() : ''
+    if (!isAllowedUrl(policy, url, scope)) continue
+    const d = domainOf(url)
+    if (seen.has(url)) continue
+    seen.add(url)
+    out.push({
+      title: String(c.title || url),
+      url,
+      source: c.source ? String(c.source) : d,
+      ...(c.snippet ? { snippet: String(c.snippet) } : {}),
+      ...(c.lastReviewed ? { lastReviewed: String(c.lastReviewed) } : {}),
+    })
+  }
+  return out
+}
+
+/* ============================== Search providers ============================== */
+
+type SearchProvider = (query: string, scope: DomainScope) => Promise<Citation[]>
+
+type ProviderKey = 'corpus' | 'tavily' | 'bing' | 'google' | 'model'
+
+/** Offline BM25 over the vetted corpus — no keys, no network. */
+const usingCorpus: SearchProvider = async (query, scope) => {
+  const policy = domainPolicy()
+  const hits = searchCorpus(query, {
+    allowed: url => isAllowedUrl(policy, url, scope),
+  })
+  return hits.map(h => ({
+    title: h.entry.title,
+    url: h.entry.url,
+    source: h.entry.source,
+    snippet: h.section.text,
+    lastReviewed: h.entry.lastReviewed,
+  }))
+}
+
+const usingTavily: SearchProvider = async (query, scope) => {
+  const key = process.env.TAVILY_API_KEY
+  if (!key) return []
+  const r = await fetch('https://api.tavily.com/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      api_key: key,
+      query,
+      include_domains: scopeDomains(scope),
+      search_depth: 'basic',
+      max_results: 8,
+    }),
+  })
+  if (!r.ok) return []
+  const j = await r.json()
+  const items: Citation[] = (j.results || []).map((it: any) => ({
+    title: it.title,
+    url: it.url,
+    source: domainOf(it.url),
+  }))
+  return filterAllowed(items, scope)
+}
+
+const usingBing: SearchProvider = async (query, scope) => {
+  const key = process.env.BING_SEARCH_V7_SUBSCRIPTION_KEY
+  if (!key) return []
+  const r = await fetch(
+    `https://api.bing.microsoft.com/v7.0/search?q=${encodeURIComponent(query)}&count=10&responseFilter=Webpages`,
+    { headers: { 'Ocp-Apim-Subscription-Key': key } },
+  )
+  if (!r.ok) return []
+  const j = await r.json()
+  const items: Citation[] = (j.webPages?.value || []).map((v: any) => ({
+    title: v.name,
+    url: v.url,
+    source: domainOf(v.url),
+  }))
+  return filterAllowed(items, scope)
+}
+
+const usingGoogleCSE: SearchProvider = async (query, scope) => {
+  const key = process.env.GOOGLE_API_KEY
+  const cx = process.env.GOOGLE_CSE_ID
+  if (!key || !cx) return []
+  const r = await fetch(
+    `https://www.googleapis.com/customsearch/v1?key=${key}&cx=${cx}&num=10&q=${encodeURIComponent(query)}`,
+  )
+  if (!r.ok) return []
+  const j = await r.json()
+  const items: Citation[] = (j.items || []).map((it: any) => ({
+    title: it.title,
+    url: it.link,
+    source: domainOf(it.link),
+  }))
+  return filterAllowed(items, scope)
+}
+
+/** Last resort: ask the configured model for links (may guess, so results are HEAD-checked) */
+const usingModel: SearchProvider = async (query, scope) => {
+  if (!hasProvider('cite')) return []
+  const sys = `
+Return 3–6 citations as JSON ONLY with keys: title, url, source.
+Rules:
+- URLs must be real pages from these domains ONLY: ${scopeDomains(scope).join(', ')}.
+- Prefer patient-facing guidance or evidence summaries.
+- No homepages; pick the most specific page.
+- If unsure, do not invent links.`
+  const result = await complete('cite', {
+    system: sys,
+    messages: [{ role: 'user', content: `Provide citations for: "${query}"` }],
+    temperature: 0.2,
+    json: true,
+  })
+  let payload: any = {}
+  try {
+    payload = parseJsonLoose(result.text)
+  } catch {}
+  return filterAllowed(payload.citations || payload.items || payload.results || [], scope)
+}
+
+const PROVIDERS: Record<ProviderKey, SearchProvider> = {
+  corpus: usingCorpus,
+  tavily: usingTavily,
+  bing: usingBing,
+  google: usingGoogleCSE,
+  model: usingModel,
+}
+
+const hasSearchKeys = () =>
+  !!process.env.TAVILY_API_KEY ||
+  !!process.env.BING_SEARCH_V7_SUBSCRIPTION_KEY ||
+  (!!process.env.GOOGLE_API_KEY && !!process.env.GOOGLE_CSE_ID)
+
+export function citeProviderOrder(): ProviderKey[] {
+  const fromEnv = (process.env.NT_CITE_PROVIDERS || '')
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter((s): s is ProviderKey => s in PROVIDERS)
+  if (fromEnv.length) return fromEnv
+  return hasSearchKeys()
+    ? ['tavily', 'bing', 'google', 'corpus', 'model']
+    : ['corpus', 'model']
+}
+
+/** Which providers are configured, for status endpoints. */
+export function citeProviders() {
+  return {
+    order: citeProviderOrder(),
+    corpus: CORPUS.length,
+    tavily: !!process.env.TAVILY_API_KEY,
+    bing: !!process.env.BING_SEARCH_V7_SUBSCRIPTION_KEY,
+    googleCSE: !!process.env.GOOGLE_API_KEY && !!process.env.GOOGLE_CSE_ID,
+    modelFallback: hasProvider('cite'),
+  }
+}
+
+/* ============================== Validation / ranking ============================== */
+
+/**
+ * Drop dead links, swap in the canonical URL after redirects (rejecting redirects that
+ * leave the policy), then order by the policy's domain weights. Links the check couldn't
+ * reach are kept as they are, so an offline server doesn't lose every citation.
+ */
+export async function validateAndRank(
+  list: Citation[],
+  max = 6,
+  scope: DomainScope = {},
+): Promise<Citation[]> {
+  const policy = domainPolicy()
+
+  // Corpus pages are vetted offline; checking them would defeat the point when the network is down
+  const live = list.filter(c => !isCuratedUrl(c.url))
+  const health = new Map((await checkUrls(live.map(c => c.url))).map((h, i) => [live[i].url, h]))
+
+  const checked: Citation[] = []
+  const seen = new Set<string>()
+  for (const c of list) {
+    const h = health.get(c.url)
+    if (h && isDead(h)) continue
+    const url = h?.finalUrl || c.url
+    if (!isAllowedUrl(policy, url, scope) || seen.has(url)) continue
+    seen.add(url)
+    checked.push({ ...c, url, title: c.title === c.url && h?.title ? h.title : c.title })
+  }
+  return checked
+    .sort((a, b) => domainWeight(policy, b.url) - domainWeight(policy, a.url))
+    .slice(0, max)
+}
+
+/** Search providers in order until there are enough candidates, then validate. */
+export async function findCitations(query: string, scope: DomainScope = {}): Promise<Citation[]> {
+  const q = String(query || '').trim()
+  if (!q) return []
+
+  let citations: Citation[] = []
+  for (const key of citeProviderOrder()) {
+    try {
+      citations = citations.concat(await PROVIDERS[key](q, scope))
+    } catch {
+      // ignore and continue
+    }
+    if (citations.length >= 4) break
+  }
+
+  return validateAndRank(filterAllowed(citations, scope), 6, scope)
+}
+
+/** A reply that states things (not just asks) needs evidence under evidence lock. */
+export function isDeclarative(t?: string) {
+  if (!t) return false
+  const s = t.trim()
+  return s.length > 0 && (!s.endsWith('?') || /[.!] /.test(s))
+}
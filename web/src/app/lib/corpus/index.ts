@@ -0,0 +1,115 @@
+// File: src/app/lib/corpus/index.ts
+// Offline reference corpus: vetted patient-education pages from the allowed domains,
+// indexed per section with BM25. Works with no network and no keys, so evidence lock
+// still has sources when search APIs are down. Entries live in ./entries.json; bump
+// `lastReviewed` whenever a page is re-checked against its snippets.
+
+import ENTRIES from './entries.json'
+
+export type CorpusSection = { heading: string; text: string }
+
+export type CorpusEntry = {
+  id: string
+  title: string
+  url: string
+  source: string
+  /** Date a No Trek reviewer last checked the page against these snippets (YYYY-MM-DD) */
+  lastReviewed: string
+  sections: CorpusSection[]
+}
+
+export type CorpusHit = {
+  entry: CorpusEntry
+  section: CorpusSection
+  score: number
+}
+
+export const CORPUS: CorpusEntry[] = ENTRIES as CorpusEntry[]
+
+/* ============================== Tokenizing ============================== */
+
+const STOPWORDS = new Set(
+  'a about after also an and any are as at be been but by can could do does feel for from get got had has have how i if im in into is it its just like may me might more most my no not of on one or other our over really should so some such than that the their them then there these they this to too up us very was we were what when where which while who why will with you your'.split(
+    ' ',
+  ),
+)
+
+/** Lowercase word tokens with a light suffix strip so "sprained" ≈ "sprain". */
+export function tokenize(s: string): string[] {
+  return (s || '')
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length > 1 && !STOPWORDS.has(w))
+    .map(w => (w.length > 4 ? w.replace(/(ing|ed|es|s)$/, '') : w))
+}
+
+/* ============================== BM25 index ============================== */
+
+const K1 = 1.2
+const B = 0.75
+
+type Doc = { entry: CorpusEntry; section: CorpusSection; tf: Map<string, number>; len: number }
+
+function buildIndex(entries: CorpusEntry[]) {
+  const docs: Doc[] = []
+  const df = new Map<string, number>()
+  for (const entry of entries) {
+    for (const section of entry.sections) {
+      // Title counts for every section so topic words match even if the snippet omits them
+      const toks = tokenize(`${entry.title} ${section.heading} ${section.text}`)
+      const tf = new Map<string, number>()
+      for (const t of toks) tf.set(t, (tf.get(t) || 0) + 1)
+      for (const t of tf.keys()) df.set(t, (df.get(t) || 0) + 1)
+      docs.push({ entry, section, tf, len: toks.length })
+    }
+  }
+  const avgLen = docs.reduce((n, d) => n + d.len, 0) / Math.max(1, docs.length)
+  return { docs, df, avgLen }
+}
+
+let index: ReturnType<typeof buildIndex> | null = null
+const getIndex = () => (index ??= buildIndex(CORPUS))
+
+function idf(term: string) {
+  const { docs, df } = getIndex()
+  const n = df.get(term) || 0
+  return Math.log(1 + (docs.length - n + 0.5) / (n + 0.5))
+}
+
+/**
+ * Best section per page for a free-text query, highest score first. `minScore` drops
+ * weak single-word overlaps so unrelated replies get no citation rather than a bad one.
+ */
+export function searchCorpus(
+  query: string,
+  opts: { limit?: number; minScore?: number; allowed?: (url: string) => boolean } = {},
+): CorpusHit[] {
+  const { limit = 6, minScore = 2.5, allowed } = opts
+  const q = [...new Set(tokenize(query))]
+  if (!q.length) return []
+
+  const { docs, avgLen } = getIndex()
+  const best = new Map<string, CorpusHit>()
+  for (const d of docs) {
+    if (allowed && !allowed(d.entry.url)) continue
+    let score = 0
+    for (const t of q) {
+      const f = d.tf.get(t)
+      if (!f) continue
+      score += idf(t) * ((f * (K1 + 1)) / (f + K1 * (1 - B + (B * d.len) / avgLen)))
+    }
+    if (score < minScore) continue
+    const prev = best.get(d.entry.id)
+    if (!prev || score > prev.score) best.set(d.entry.id, { entry: d.entry, section: d.section, score })
+  }
+  // Drop the long tail: pages scoring far below the best match are usually incidental overlaps
+  const ranked = [...best.values()].sort((a, b) => b.score - a.score)
+  const floor = (ranked[0]?.score ?? 0) * 0.35
+  return ranked.filter(h => h.score >= floor).slice(0, limit)
+}
+
+const CURATED_URLS = new Set(CORPUS.map(e => e.url))
+
+/** True for URLs that came from the vetted corpus (no live link check needed). */
+export const isCuratedUrl = (url: string) => CURATED_URLS.has(url)
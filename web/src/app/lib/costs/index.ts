@@ -0,0 +1,111 @@
+// File: src/app/lib/costs/index.ts
+// What a visit is likely to cost before insurance: the setting's visit fee plus the services
+// triage suggests (an X-ray for a swollen ankle, a strep test for a sore throat), priced
+// from a bundled reference table (reference-prices.json) and scaled for the state the ZIP
+// is in. Every estimate lists its assumptions. lib/insurance then turns the range into
+// what the user would pay.
+
+import { lookupZip } from '../geo'
+import type { Place } from '../places/types'
+import reference from './reference-prices.json'
+import { inferServices } from './services'
+import type { CostEstimate, CostLine, ReferencePrices, ServiceId, VisitQuery } from './types'
+
+export * from './types'
+export { inferServices } from './services'
+
+const PRICES = reference as unknown as ReferencePrices
+
+const round5 = (n: number) => Math.round(n / 5) * 5
+
+export function regionFactor(state?: string): number {
+  return (state && PRICES.regions[state.toUpperCase()]) || 1
+}
+
+export function estimateVisit({ careLevel, services, state }: VisitQuery): CostEstimate {
+  const visit = PRICES.visits[careLevel]
+  const regional = visit.regional !== false
+  const factor = regional ? regionFactor(state) : 1
+  const scale = ([lo, hi]: [number, number]): [number, number] => [round5(lo * factor), round5(hi * factor)]
+
+  const lines: CostLine[] = []
+  const assumptions: string[] = []
+  const [vLo, vHi] = scale(visit.range)
+  lines.push({ id: 'visit', label: visit.label, min: vLo, max: vHi })
+
+  const skipped: string[] = []
+  for (const id of services) {
+    const svc = PRICES.services[id]
+    const range = svc?.settings[careLevel]
+    if (!range) {
+      if (svc) skipped.push(svc.label)
+      continue
+    }
+    const [lo, hi] = scale(range)
+    lines.push({ id, label: svc.label, min: lo, max: hi })
+  }
+
+  if (lines.length > 1) {
+    assumptions.push(
+      `Assumes ${lines
+        .slice(1)
+        .map(l => l.label.replace(/^[A-Z](?=[a-z])/, c => c.toLowerCase()))
+        .join(', ')}, based on what you described`,
+    )
+  } else {
+    assumptions.push('Visit fee only; tests or procedures would add to it')
+  }
+  if (skipped.length) {
+    assumptions.push(
+      `${skipped.join(', ')} usually ${skipped.length > 1 ? "aren't" : "isn't"} done here; you may be sent elsewhere`,
+    )
+  }
+  if (!regional) assumptions.push('Priced nationally; location doesn’t change it')
+  else if (state && factor !== 1) {
+    const pct = Math.round(Math.abs(factor - 1) * 100)
+    assumptions.push(
+      `Prices in ${state.toUpperCase()} run about ${pct}% ${factor > 1 ? 'above' : 'below'} the national typical`,
+    )
+  } else if (!state) {
+    assumptions.push('National typical prices; we couldn’t place your ZIP')
+  }
+  assumptions.push(`Self-pay before insurance, from reference prices as of ${PRICES.asOf}`)
+
+  return {
+    min: lines.reduce((sum, l) => sum + l.min, 0),
+    max: lines.reduce((sum, l) => sum + l.max, 0),
+    lines,
+    ...(regional && state ? { region: { state: state.toUpperCase(), factor } } : {}),
+    assumptions,
+  }
+}
+
+/**
+ * Estimates for each place at its own care level, from the services in `triageText`.
+ * Sets `costEstimate` and, unless the place already has a quote, `est_cost_min/max`.
+ * Places that already carry an estimate are left as they are.
+ */
+export function estimatePlaceCosts<T extends Place>(
+  places: T[],
+  opts: { zip?: string; triageText?: string; services?: ServiceId[] },
+): T[] {
+  if (!places.length) return places
+  const services = opts.services ?? inferServices(opts.triageText || '')
+  const state = opts.zip ? lookupZip(opts.zip)?.state : undefined
+  const byLevel = new Map<string, CostEstimate>()
+  return places.map(p => {
+    // Virtual providers arrive with their posted price already
+    if (!p.careLevel || p.costEstimate) return p
+    let est = byLevel.get(p.careLevel)
+    if (!est) {
+      est = estimateVisit({ careLevel: p.careLevel, services, state })
+      byLevel.set(p.careLevel, est)
+    }
+    const quoted = typeof p.est_cost_min === 'number'
+    return {
+      ...p,
+      costEstimate: est,
+      ...(quoted ? {} : { est_cost_min: est.min, est_cost_max: est.max }),
+    }
+  })
+}
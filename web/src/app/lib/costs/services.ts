@@ -0,0 +1,24 @@
+// Likely services for a visit, read from what the person said during triage. Deliberately
+// coarse: each rule names a common test or procedure a clinician would probably order,
+// so the estimate covers more than the bare visit fee. Unmatched text means visit only.
+
+import type { ServiceId } from './types'
+
+const RULES: { services: ServiceId[]; re: RegExp }[] = [
+  { services: ['xray', 'splint'], re: /\b(broke|broken|fracture|sprain(ed)?|twist(ed)?|rolled)\b.*\b(ankle|wrist|arm|leg|foot|hand|finger|toe)s?\b|\b(ankle|wrist|foot)\b.*\b(swollen|swelling|can'?t (walk|put weight))\b/i },
+  { services: ['xray'], re: /\b(x-?ray|chest (cold|congestion)|pneumonia|cough(ing)? for (weeks|a week))\b/i },
+  { services: ['stitches'], re: /\b(deep cut|laceration|gash|stitches|sliced|won'?t stop bleeding)\b/i },
+  { services: ['strep_test'], re: /\b(sore throat|strep|swollen tonsils?|throat (pain|hurts))\b/i },
+  { services: ['flu_test', 'covid_test'], re: /\b(flu|influenza|covid|body aches?|fever\b.*\bcough|cough\b.*\bfever)\b/i },
+  { services: ['urinalysis'], re: /\b(uti|urinary|burn(s|ing)? when (i )?pee|pee(ing)? (a lot|often)|bladder infection)\b/i },
+  { services: ['ekg', 'blood_work'], re: /\b(chest (pain|pressure|tightness)|palpitations|heart (racing|pounding)|fainted|passed out)\b/i },
+  { services: ['iv_fluids'], re: /\b(dehydrat\w*|can'?t keep (anything|fluids|water) down|vomit\w* (all day|for hours|nonstop))\b/i },
+  { services: ['ct_scan'], re: /\b(head injury|hit my head|concussion|worst headache)\b/i },
+  { services: ['dental_xray'], re: /\b(tooth|teeth|molar|cavity|gum)\b.*\b(pain|ache|hurts|swollen|broke|cracked)\b|\btoothache\b/i },
+]
+
+export function inferServices(text: string): ServiceId[] {
+  const out = new Set<ServiceId>()
+  for (const r of RULES) if (r.re.test(text)) r.services.forEach(s => out.add(s))
+  return [...out]
+}
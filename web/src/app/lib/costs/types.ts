@@ -0,0 +1,37 @@
+// Shapes for visit cost estimates (server-side; the intake page mirrors CostEstimate).
+
+import type { CareLevel } from '../places/types'
+
+export type { CostEstimate, CostLine } from '../places/types'
+
+/** Services the reference table prices; triage text suggests which are likely */
+export type ServiceId =
+  | 'xray'
+  | 'splint'
+  | 'stitches'
+  | 'strep_test'
+  | 'flu_test'
+  | 'covid_test'
+  | 'urinalysis'
+  | 'blood_work'
+  | 'ekg'
+  | 'iv_fluids'
+  | 'ct_scan'
+  | 'dental_xray'
+
+/** reference-prices.json */
+export type ReferencePrices = {
+  asOf: string
+  visits: Record<CareLevel, { label: string; range: [number, number]; regional?: boolean }>
+  /** Per service, the settings that usually offer it and their price there */
+  services: Record<ServiceId, { label: string; settings: Partial<Record<CareLevel, [number, number]>> }>
+  /** State → price multiplier; missing states are 1 */
+  regions: Record<string, number>
+}
+
+export type VisitQuery = {
+  careLevel: CareLevel
+  services: ServiceId[]
+  /** Two-letter state for the regional adjustment */
+  state?: string
+}
@@ -0,0 +1,246 @@
+// File: src/app/lib/crisis.ts
+// Mental-health crisis pathway. Built on the suicidality red-flag rules: when one fires,
+// the chat route attaches a crisis block with hotlines for the user's region and tells
+// clients to drop places, tasks and upsell content for the rest of the turn. An overdose or
+// poisoning without intent (poisoning rule set alone) is not a crisis-line matter: it gets
+// the region's poison information line and emergency number instead.
+
+import type { RedFlagResult } from './redflags'
+
+/* ============================== Types ============================== */
+
+export type CrisisType = 'suicide_plan' | 'suicidal_ideation' | 'self_harm'
+
+export type CrisisRegion = 'US' | 'CA' | 'GB' | 'IE' | 'AU' | 'NZ' | 'IN' | 'INTL'
+
+export type Hotline = {
+  name: string
+  /** Dialable number (tel: link) */
+  phone?: string
+  /** SMS number and optional keyword to send */
+  text?: { number: string; keyword?: string }
+  url?: string
+  hours: string
+  languages?: string[]
+  note?: string
+}
+
+export type CrisisBlock = {
+  type: CrisisType
+  region: CrisisRegion
+  /** Number to call when someone is in immediate danger */
+  emergencyNumber: string
+  hotlines: Hotline[]
+  /** Clients must hide places, tasks and upsell content while this is set */
+  suppress: true
+  /** Red-flag rule ids that triggered the pathway, for audit */
+  ruleIds: string[]
+}
+
+/* ============================== Resources ============================== */
+
+const EMERGENCY_NUMBERS: Record<CrisisRegion, string> = {
+  US: '911',
+  CA: '911',
+  GB: '999',
+  IE: '112',
+  AU: '000',
+  NZ: '111',
+  IN: '112',
+  INTL: '112',
+}
+
+const HOTLINES: Record<CrisisRegion, Hotline[]> = {
+  US: [
+    {
+      name: '988 Suicide & Crisis Lifeline',
+      phone: '988',
+      text: { number: '988' },
+      url: 'https://988lifeline.org',
+      hours: '24/7',
+      languages: ['en', 'es'],
+      note: 'Veterans: dial 988 then press 1.',
+    },
+    {
+      name: 'Crisis Text Line',
+      text: { number: '741741', keyword: 'HOME' },
+      url: 'https://www.crisistextline.org',
+      hours: '24/7',
+      languages: ['en', 'es'],
+    },
+    {
+      name: 'The Trevor Project (LGBTQ+ young people)',
+      phone: '1-866-488-7386',
+      text: { number: '678678', keyword: 'START' },
+      url: 'https://www.thetrevorproject.org',
+      hours: '24/7',
+    },
+  ],
+  CA: [
+    {
+      name: '9-8-8 Suicide Crisis Helpline',
+      phone: '988',
+      text: { number: '988' },
+      url: 'https://988.ca',
+      hours: '24/7',
+      languages: ['en', 'fr'],
+    },
+  ],
+  GB: [
+    {
+      name: 'Samaritans',
+      phone: '116 123',
+      url: 'https://www.samaritans.org',
+      hours: '24/7',
+    },
+    {
+      name: 'Shout',
+      text: { number: '85258', keyword: 'SHOUT' },
+      url: 'https://giveusashout.org',
+      hours: '24/7',
+    },
+  ],
+  IE: [
+    {
+      name: 'Samaritans Ireland',
+      phone: '116 123',
+      url: 'https://www.samaritans.org/ireland',
+      hours: '24/7',
+    },
+    {
+      name: '50808 text service',
+      text: { number: '50808', keyword: 'HELLO' },
+      url: 'https://text50808.ie',
+      hours: '24/7',
+    },
+  ],
+  AU: [
+    {
+      name: 'Lifeline Australia',
+      phone: '13 11 14',
+      text: { number: '0477 13 11 14' },
+      url: 'https://www.lifeline.org.au',
+      hours: '24/7',
+    },
+  ],
+  NZ: [
+    {
+      name: 'Need to talk? 1737',
+      phone: '1737',
+      text: { number: '1737' },
+      url: 'https://1737.org.nz',
+      hours: '24/7',
+    },
+  ],
+  IN: [
+    {
+      name: 'Tele-MANAS',
+      phone: '14416',
+      url: 'https://telemanas.mohfw.gov.in',
+      hours: '24/7',
+      languages: ['en', 'hi'],
+    },
+  ],
+  INTL: [
+    {
+      name: 'Find A Helpline',
+      url: 'https://findahelpline.com',
+      hours: 'Directory of free, confidential lines by country',
+    },
+    {
+      name: '988 (United States and Canada)',
+      phone: '988',
+      text: { number: '988' },
+      hours: '24/7',
+    },
+  ],
+}
+
+// National poison information lines; regions without one fall back to the emergency number
+const POISON_LINES: Partial<Record<CrisisRegion, Hotline>> = {
+  US: { name: 'Poison Help', phone: '1-800-222-1222', url: 'https://www.poison.org', hours: '24/7' },
+  GB: { name: 'NHS 111', phone: '111', url: 'https://111.nhs.uk', hours: '24/7' },
+  IE: {
+    name: 'National Poisons Information Centre',
+    phone: '01 809 2166',
+    url: 'https://www.poisons.ie',
+    hours: '8am–10pm',
+  },
+  AU: { name: 'Poisons Information Centre', phone: '13 11 26', hours: '24/7' },
+  NZ: { name: 'National Poisons Centre', phone: '0800 764 766', url: 'https://www.poisons.co.nz', hours: '24/7' },
+}
+
+/* ============================== Region ============================== */
+
+const LOCALE_REGIONS: Record<string, CrisisRegion> = {
+  US: 'US',
+  CA: 'CA',
+  GB: 'GB',
+  UK: 'GB',
+  IE: 'IE',
+  AU: 'AU',
+  NZ: 'NZ',
+  IN: 'IN',
+}
+
+/**
+ * Postal code wins over locale: a US ZIP means US resources even if the browser says
+ * en-GB. Locale is a BCP 47 tag or a raw Accept-Language header.
+ */
+export function crisisRegion(where: { zip?: string | null; locale?: string | null }): CrisisRegion {
+  const zip = (where.zip || '').trim()
+  if (/^\d{5}(-\d{4})?$/.test(zip)) return 'US'
+  if (/^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i.test(zip)) return 'CA'
+  if (/^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i.test(zip)) return 'GB'
+
+  // First tag of "en-US,en;q=0.9" → "US"
+  const tag = (where.locale || '').split(',')[0].split(';')[0].trim()
+  const sub = tag.split(/[-_]/)[1]?.toUpperCase()
+  return (sub && LOCALE_REGIONS[sub]) || 'INTL'
+}
+
+/* ============================== Detection ============================== */
+
+/** Where to turn after an overdose or poisoning that isn't a mental-health crisis */
+export type PoisonHelp = {
+  region: CrisisRegion
+  emergencyNumber: string
+  line?: Hotline
+  ruleIds: string[]
+}
+
+/** Crisis block for a red-flag result, or null when no suicidality rule fired. */
+export function crisisFromRedFlags(
+  flags: RedFlagResult,
+  where: { zip?: string | null; locale?: string | null },
+): CrisisBlock | null {
+  const ruleIds = flags.fired.filter(h => h.ruleSet === 'suicidality').map(h => h.id)
+  if (!ruleIds.length) return null
+
+  const type: CrisisType = ruleIds.includes('suicidality.plan_or_means')
+    ? 'suicide_plan'
+    : ruleIds.includes('suicidality.ideation')
+      ? 'suicidal_ideation'
+      : 'self_harm'
+
+  const region = crisisRegion(where)
+  return {
+    type,
+    region,
+    emergencyNumber: EMERGENCY_NUMBERS[region],
+    hotlines: HOTLINES[region],
+    suppress: true,
+    ruleIds,
+  }
+}
+
+/** Poison line for a poisoning red flag, or null. Check crisisFromRedFlags first: intent wins. */
+export function poisonHelpFromRedFlags(
+  flags: RedFlagResult,
+  where: { zip?: string | null; locale?: string | null },
+): PoisonHelp | null {
+  const ruleIds = flags.fired.filter(h => h.ruleSet === 'poisoning').map(h => h.id)
+  if (!ruleIds.length) return null
+  const region = crisisRegion(where)
+  return { region, emergencyNumber: EMERGENCY_NUMBERS[region], line: POISON_LINES[region], ruleIds }
+}
@@ -0,0 +1,156 @@
+// File: src/app/lib/domainPolicy.ts
+// The one citation domain policy: which sites Stella may cite, how strongly each is
+// preferred, and whether it is written for patients or for clinicians. Routes enforce
+// it server-side; pages fetch it from GET /api/no-trek/cite/policy instead of keeping
+// their own lists. Safe to import from client code (no Node APIs).
+//
+// Config (server, all optional):
+//   NT_CITE_ALLOW=example.org:6:professional,...   add or re-weight domains (domain[:weight[:tier]])
+//   NT_CITE_DENY=pubmed.ncbi.nlm.nih.gov,...       never cite these (beats allow, subdomains included)
+
+/** patient = written for the public; professional = clinician-facing (guidelines, reviews) */
+export type DomainTier = 'patient' | 'professional'
+
+export type DomainRule = {
+  domain: string
+  /** Ranking preference; higher sorts first */
+  weight: number
+  tier: DomainTier
+  label?: string
+}
+
+export type DomainPolicy = {
+  version: string
+  allow: DomainRule[]
+  deny: string[]
+  /** Weight for an allowed host with no more specific rule (not reachable with the defaults) */
+  defaultWeight: number
+}
+
+export const DEFAULT_DOMAIN_POLICY: DomainPolicy = {
+  version: '1.0.0',
+  allow: [
+    { domain: 'medlineplus.gov', weight: 9, tier: 'patient', label: 'MedlinePlus' },
+    { domain: 'nih.gov', weight: 8.5, tier: 'patient', label: 'NIH' },
+    // PubMed/PMC abstracts are written for clinicians, unlike the NIH institutes' pages
+    { domain: 'ncbi.nlm.nih.gov', weight: 7, tier: 'professional', label: 'NCBI' },
+    { domain: 'cdc.gov', weight: 8.2, tier: 'patient', label: 'CDC' },
+    { domain: 'who.int', weight: 7.9, tier: 'patient', label: 'WHO' },
+    { domain: 'nice.org.uk', weight: 7.7, tier: 'professional', label: 'NICE' },
+    { domain: 'mayoclinic.org', weight: 7.4, tier: 'patient', label: 'Mayo Clinic' },
+    { domain: 'aafp.org', weight: 7.2, tier: 'professional', label: 'AAFP' },
+    { domain: 'cochranelibrary.com', weight: 7.1, tier: 'professional', label: 'Cochrane' },
+  ],
+  deny: [],
+  defaultWeight: 5,
+}
+
+/* ============================== Matching ============================== */
+
+export function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '')
+  } catch {
+    return ''
+  }
+}
+
+/** Exact host or a true subdomain: `nimh.nih.gov` matches `nih.gov`, `evilnih.gov` does not. */
+export function matchesDomain(host: string, domain: string) {
+  const d = domain.toLowerCase()
+  return host === d || host.endsWith(`.${d}`)
+}
+
+export const matchesAny = (host: string, domains: string[]) =>
+  domains.some(d => matchesDomain(host, d))
+
+/** Most specific allow rule for a host (so a subdomain rule can override its parent). */
+export function ruleFor(policy: DomainPolicy, host: string): DomainRule | undefined {
+  return policy.allow
+    .filter(r => matchesDomain(host, r.domain))
+    .sort((a, b) => b.domain.length - a.domain.length)[0]
+}
+
+export type DomainScope = {
+  /** Narrow further to these domains (e.g. a client-requested list); can't widen the policy */
+  within?: string[]
+  /** Only domains of this tier; omit for every tier */
+  tier?: DomainTier
+}
+
+export function isAllowedHost(policy: DomainPolicy, host: string, scope: DomainScope = {}) {
+  if (!host || matchesAny(host, policy.deny)) return false
+  const rule = ruleFor(policy, host)
+  if (!rule) return false
+  if (scope.tier && rule.tier !== scope.tier) return false
+  return !scope.within?.length || matchesAny(host, scope.within)
+}
+
+export function isAllowedUrl(policy: DomainPolicy, url: string, scope: DomainScope = {}) {
+  return /^https?:\/\//i.test(url) && isAllowedHost(policy, hostOf(url), scope)
+}
+
+export function domainWeight(policy: DomainPolicy, url: string) {
+  return ruleFor(policy, hostOf(url))?.weight ?? policy.defaultWeight
+}
+
+/** Domain list for prompts and search-provider filters. */
+export function allowedDomains(policy: DomainPolicy, tier?: DomainTier) {
+  return policy.allow.filter(r => !tier || r.tier === tier).map(r => r.domain)
+}
+
+/** Client-side guard: allowed by the policy and deduped by URL. */
+export function keepAllowed<T extends { url?: string }>(
+  list: T[] | undefined,
+  policy: DomainPolicy | null,
+): T[] {
+  const seen = new Set<string>()
+  return (list || []).filter(c => {
+    if (!c?.url || seen.has(c.url)) return false
+    // Until the policy has loaded, trust the server — it already filtered
+    if (policy && !isAllowedUrl(policy, c.url)) return false
+    seen.add(c.url)
+    return true
+  })
+}
+
+/* ============================== Server config ============================== */
+
+const isTier = (x: string): x is DomainTier => x === 'patient' || x === 'professional'
+
+function parseAllow(raw: string | undefined, base: DomainPolicy): DomainRule[] {
+  const rules = new Map(base.allow.map(r => [r.domain, r]))
+  for (const item of (raw || '').split(',')) {
+    const [domain, w, t] = item.trim().toLowerCase().split(':')
+    if (!domain) continue
+    const prev = rules.get(domain)
+    const weight = Number(w)
+    rules.set(domain, {
+      ...prev,
+      domain,
+      weight: Number.isFinite(weight) && w ? weight : prev?.weight ?? base.defaultWeight,
+      tier: t && isTier(t) ? t : prev?.tier ?? 'professional',
+    })
+  }
+  return [...rules.values()]
+}
+
+declare global {
+  var __domainPolicy: DomainPolicy | undefined
+}
+
+/** Effective policy: defaults plus NT_CITE_ALLOW / NT_CITE_DENY. Server-side only. */
+export function domainPolicy(): DomainPolicy {
+  if (globalThis.__domainPolicy) return globalThis.__domainPolicy
+  const base = DEFAULT_DOMAIN_POLICY
+  const deny = (process.env.NT_CITE_DENY || '')
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean)
+  globalThis.__domainPolicy = {
+    ...base,
+    allow: parseAllow(process.env.NT_CITE_ALLOW, base),
+    deny: [...base.deny, ...deny],
+  }
+  return globalThis.__domainPolicy
+}
@@ -0,0 +1,13 @@
+// File: src/app/lib/fixtures.ts
+// Shape of a fixture corpus: cases plus what each one should and does produce. Corpora sit
+// next to the code they pin down (lib/*/fixtures.ts); `npm test` runs every suite
+// (test/fixtures.test.ts). Nothing at request time imports them.
+
+export type FixtureSuite<T> = {
+  name: string
+  cases: T[]
+  /** How a case is named in the test report */
+  label: (c: T) => string
+  /** What the case must produce and what it did; the test compares the two */
+  run: (c: T) => { expected: unknown; got: unknown }
+}
@@ -0,0 +1,53 @@
+// Fixture place source for development and tests: synthetic places (fixture-places.json)
+// laid out at fixed offsets from the search centre, filtered with the same tag filters
+// Overpass would get. No network, and the same query always returns the same places.
+
+import fixtures from './fixture-places.json'
+import type { PlaceQuery, PlaceSource, RawPlace } from './types'
+
+type Fixture = { id: string; north_km: number; east_km: number; tags: Record<string, string> }
+
+const KM_PER_DEG_LAT = 111.32
+
+/* ---------- Overpass filter matching (the subset lib/places uses) ---------- */
+
+type Condition = { key: string; op: 'has' | '=' | '!=' | '~'; value?: string; flags?: string }
+
+function parseFilter(f: string): Condition[] {
+  const out: Condition[] = []
+  const re = /\["([^"]+)"(?:(=|!=|~)"([^"]*)"(,i)?)?\]/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(f))) {
+    out.push({ key: m[1], op: (m[2] as Condition['op']) || 'has', value: m[3], flags: m[4] ? 'i' : '' })
+  }
+  return out
+}
+
+function matches(tags: Record<string, string>, conds: Condition[]) {
+  return conds.every(c => {
+    const v = tags[c.key]
+    if (c.op === 'has') return v !== undefined
+    if (c.op === '=') return v === c.value
+    if (c.op === '!=') return v !== c.value
+    return v !== undefined && new RegExp(c.value || '', c.flags).test(v)
+  })
+}
+
+/* ---------- Source ---------- */
+
+function place(f: Fixture, center: PlaceQuery['center']): RawPlace {
+  const lat = center.lat + f.north_km / KM_PER_DEG_LAT
+  const lon = center.lon + f.east_km / (KM_PER_DEG_LAT * Math.cos((center.lat * Math.PI) / 180))
+  return { id: `fixture-${f.id}`, lat, lon, tags: f.tags }
+}
+
+export const fixtureSource: PlaceSource = {
+  name: 'fixture',
+  async search(q) {
+    const filters = q.filters.map(parseFilter)
+    return (fixtures.places as unknown as Fixture[])
+      .filter(f => Math.hypot(f.north_km, f.east_km) <= q.radiusKm)
+      .filter(f => filters.some(conds => matches(f.tags, conds)))
+      .map(f => place(f, q.center))
+  },
+}
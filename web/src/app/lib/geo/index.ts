@@ -0,0 +1,77 @@
+// File: src/app/lib/geo/index.ts
+// Pluggable geo backend for place search. Geocoders are tried in order until one answers;
+// one place source is used per deployment. Nothing here invents places: when every
+// backend fails the caller gets an empty list, never another city's hospitals.
+//
+// Config (all optional):
+//   NT_GEO_GEOCODERS=nominatim,table   geocoder order (table = bundled ZIP centroids, offline)
+//   NT_GEO_PLACES=overpass             place source: overpass (cached) | fixture (dev/tests)
+
+import { fixtureSource } from './fixtures'
+import { nominatimGeocoder } from './nominatim'
+import { overpassSource } from './overpass'
+import type { Geocoder, GeoPoint, PlaceQuery, PlaceSource, RawPlace } from './types'
+import { tableGeocoder } from './zipTable'
+
+export * from './types'
+export { lookupZip } from './zipTable'
+
+const GEOCODERS: Record<string, Geocoder> = {
+  nominatim: nominatimGeocoder,
+  table: tableGeocoder,
+}
+
+const SOURCES: Record<string, PlaceSource> = {
+  overpass: overpassSource,
+  fixture: fixtureSource,
+}
+
+const list = (raw: string | undefined) =>
+  (raw || '')
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter(Boolean)
+
+export function geocoderOrder(): string[] {
+  const names = list(process.env.NT_GEO_GEOCODERS).filter(n => n in GEOCODERS)
+  return names.length ? names : ['nominatim', 'table']
+}
+
+export function placeSourceName(): string {
+  const name = list(process.env.NT_GEO_PLACES)[0]
+  return name && name in SOURCES ? name : 'overpass'
+}
+
+/** First geocoder with an answer; a failing one (offline, rate-limited) just passes to the next. */
+export async function geocodeZip(zip: string): Promise<GeoPoint | null> {
+  for (const name of geocoderOrder()) {
+    try {
+      const hit = await GEOCODERS[name].geocode(zip)
+      if (hit) return hit
+    } catch (e) {
+      console.warn(`[geo] ${name} geocoder failed, trying next:`, e instanceof Error ? e.message : e)
+    }
+  }
+  return null
+}
+
+export function findRawPlaces(q: PlaceQuery): Promise<RawPlace[]> {
+  return SOURCES[placeSourceName()].search(q)
+}
+
+/** Which backends are active, for status endpoints. */
+export function geoStatus() {
+  return { geocoders: geocoderOrder(), places: placeSourceName() }
+}
+
+export function haversineKm(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
+  const R = 6371
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180
+  const dLon = ((b.lon - a.lon) * Math.PI) / 180
+  const lat1 = (a.lat * Math.PI) / 180
+  const lat2 = (b.lat * Math.PI) / 180
+  const x =
+    Math.sin(dLat / 2) ** 2 +
+    Math.sin(dLon / 2) ** 2 * Math.cos(lat1) * Math.cos(lat2)
+  return 2 * R * Math.asin(Math.sqrt(x))
+}
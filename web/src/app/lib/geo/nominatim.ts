@@ -0,0 +1,25 @@
+import type { Geocoder } from './types'
+
+const USER_AGENT = 'no-trek/1.0 (care triage)'
+
+/** Online geocoder (OpenStreetMap Nominatim); more precise than the table, needs network. */
+export const nominatimGeocoder: Geocoder = {
+  name: 'nominatim',
+  async geocode(zip) {
+    const r = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=jsonv2&postalcode=${encodeURIComponent(
+        zip,
+      )}&countrycodes=us&limit=1`,
+      {
+        headers: { 'User-Agent': USER_AGENT },
+        cache: 'no-store',
+        signal: AbortSignal.timeout(Number(process.env.NT_GEO_TIMEOUT_MS) || 8000),
+      },
+    )
+    if (!r.ok) return null
+    const arr = await r.json()
+    const hit = Array.isArray(arr) ? arr[0] : null
+    if (!hit) return null
+    return { lat: Number(hit.lat), lon: Number(hit.lon), source: 'nominatim', precision: 'zip5' }
+  },
+}
@@ -0,0 +1,120 @@
+// Overpass (OpenStreetMap) place source with a response cache. Results are keyed by the
+// query (filters, centre rounded to ~100 m, radius) and kept in memory and on disk, so a
+// repeat search in the same area doesn't hit overpass-api.de again until the TTL passes.
+//
+// Config (all optional):
+//   NT_GEO_OVERPASS_URL=https://overpass-api.de/api/interpreter
+//   NT_GEO_CACHE_FILE=.data/overpass-cache.json   ("" = memory only)
+//   NT_GEO_CACHE_TTL_MS=86400000                  re-query after a day
+//   NT_GEO_TIMEOUT_MS=8000
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import type { PlaceQuery, PlaceSource, RawPlace } from './types'
+
+const USER_AGENT = 'no-trek/1.0 (care triage)'
+
+const overpassUrl = () => process.env.NT_GEO_OVERPASS_URL || 'https://overpass-api.de/api/interpreter'
+const cacheFile = () => process.env.NT_GEO_CACHE_FILE ?? '.data/overpass-cache.json'
+const ttlMs = () => Number(process.env.NT_GEO_CACHE_TTL_MS) || 24 * 3600_000
+const timeoutMs = () => Number(process.env.NT_GEO_TIMEOUT_MS) || 8000
+
+type CacheRow = { at: number; places: RawPlace[] }
+
+/* ============================== Cache ============================== */
+
+declare global {
+  var __overpassCache: Map<string, CacheRow> | undefined
+  var __overpassFlush: ReturnType<typeof setTimeout> | undefined
+}
+
+function cache(): Map<string, CacheRow> {
+  if (globalThis.__overpassCache) return globalThis.__overpassCache
+  const map = new Map<string, CacheRow>()
+  const file = cacheFile()
+  if (file) {
+    try {
+      const rows: Record<string, CacheRow> = JSON.parse(readFileSync(file, 'utf8'))
+      for (const [k, v] of Object.entries(rows)) map.set(k, v)
+    } catch {
+      // first run or unreadable cache — start empty
+    }
+  }
+  globalThis.__overpassCache = map
+  return map
+}
+
+function scheduleFlush() {
+  const file = cacheFile()
+  if (!file || globalThis.__overpassFlush) return
+  globalThis.__overpassFlush = setTimeout(() => {
+    globalThis.__overpassFlush = undefined
+    const now = Date.now()
+    const live = [...cache()].filter(([, v]) => now - v.at < ttlMs())
+    try {
+      mkdirSync(dirname(file), { recursive: true })
+      writeFileSync(file, JSON.stringify(Object.fromEntries(live)))
+    } catch (e) {
+      console.error('[geo/overpass] could not persist cache:', e)
+    }
+  }, 1000)
+}
+
+const cacheKey = (q: PlaceQuery) =>
+  [q.center.lat.toFixed(3), q.center.lon.toFixed(3), q.radiusKm, ...[...q.filters].sort()].join('|')
+
+/* ============================== Query ============================== */
+
+function buildQuery(q: PlaceQuery) {
+  const around = `(around:${Math.round(q.radiusKm * 1000)},${q.center.lat},${q.center.lon})`
+  return `
+    [out:json][timeout:25];
+    (
+      ${q.filters.map(f => `nwr${f}${around};`).join('\n      ')}
+    );
+    out center tags 40;`
+}
+
+async function fetchOverpass(q: PlaceQuery): Promise<RawPlace[]> {
+  const res = await fetch(overpassUrl(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded; charset=UTF-8',
+      'User-Agent': USER_AGENT,
+    },
+    body: new URLSearchParams({ data: buildQuery(q) }).toString(),
+    cache: 'no-store',
+    signal: AbortSignal.timeout(timeoutMs()),
+  })
+  if (!res.ok) throw new Error(`Overpass ${res.status}`)
+  const j = await res.json().catch(() => ({ elements: [] as any[] }))
+  const elements: any[] = Array.isArray(j?.elements) ? j.elements : []
+  return elements
+    .map(e => {
+      const c = e.center || e
+      if (typeof c?.lat !== 'number' || typeof c?.lon !== 'number') return null
+      return { id: `osm-${e.id}`, lat: c.lat, lon: c.lon, tags: e.tags || {} }
+    })
+    .filter(Boolean) as RawPlace[]
+}
+
+export const overpassSource: PlaceSource = {
+  name: 'overpass',
+  async search(q) {
+    if (!q.filters.length) return []
+    const key = cacheKey(q)
+    const hit = cache().get(key)
+    if (hit && Date.now() - hit.at < ttlMs()) return hit.places
+    let places: RawPlace[]
+    try {
+      places = await fetchOverpass(q)
+    } catch (e) {
+      // An expired answer beats none; otherwise let the caller tell "nothing nearby" from "couldn't ask"
+      if (hit) return hit.places
+      throw e
+    }
+    cache().set(key, { at: Date.now(), places })
+    scheduleFlush()
+    return places
+  },
+}
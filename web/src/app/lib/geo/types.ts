@@ -0,0 +1,35 @@
+// Shapes for the pluggable geo backend (server-only): ZIP → point, point → raw OSM-style places.
+
+export type GeoPoint = {
+  lat: number
+  lon: number
+  /** Which geocoder answered, and how precise it is */
+  source: string
+  precision: 'zip5' | 'zip3' | 'address'
+  state?: string
+}
+
+export interface Geocoder {
+  name: string
+  geocode(zip: string): Promise<GeoPoint | null>
+}
+
+/** A place as OpenStreetMap describes it; lib/places turns these into `Place`s. */
+export type RawPlace = {
+  id: string
+  lat: number
+  lon: number
+  tags: Record<string, string>
+}
+
+export type PlaceQuery = {
+  /** Overpass tag filters, e.g. `["amenity"="pharmacy"]`; a place matching any one is returned */
+  filters: string[]
+  center: { lat: number; lon: number }
+  radiusKm: number
+}
+
+export interface PlaceSource {
+  name: string
+  search(q: PlaceQuery): Promise<RawPlace[]>
+}
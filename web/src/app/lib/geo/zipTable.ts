@@ -0,0 +1,58 @@
+// Offline geocoder over the bundled ZIP-centroid table (zip-centroids.json, keyed by
+// 3-digit prefix). NT_GEO_ZIP_FILE can point at a finer table in the same shape — its
+// entries (5-digit keys allowed) are layered over the bundled ones.
+
+import { readFileSync } from 'fs'
+import bundled from './zip-centroids.json'
+import type { Geocoder, GeoPoint } from './types'
+
+type Row = [lat: number, lon: number, city: string, state: string]
+type Table = { entries: Record<string, Row> }
+
+declare global {
+  var __zipTable: Record<string, Row> | undefined
+}
+
+function table(): Record<string, Row> {
+  if (globalThis.__zipTable) return globalThis.__zipTable
+  const rows = { ...(bundled as unknown as Table).entries }
+  const file = process.env.NT_GEO_ZIP_FILE
+  if (file) {
+    try {
+      const extra: Table = JSON.parse(readFileSync(file, 'utf8'))
+      Object.assign(rows, extra.entries)
+    } catch (e) {
+      console.error('[geo] could not read NT_GEO_ZIP_FILE, using the bundled table:', e)
+    }
+  }
+  globalThis.__zipTable = rows
+  return rows
+}
+
+/** Most specific row for a ZIP: exact 5-digit match, else its 3-digit prefix. */
+export function lookupZip(zip: string): (GeoPoint & { city: string }) | null {
+  const z = String(zip || '').slice(0, 5)
+  if (!/^\d{5}$/.test(z)) return null
+  const rows = table()
+  const exact = rows[z]
+  const row = exact || rows[z.slice(0, 3)]
+  if (!row) return null
+  return {
+    lat: row[0],
+    lon: row[1],
+    city: row[2],
+    state: row[3],
+    source: 'table',
+    precision: exact ? 'zip5' : 'zip3',
+  }
+}
+
+export const tableGeocoder: Geocoder = {
+  name: 'table',
+  async geocode(zip) {
+    const hit = lookupZip(zip)
+    return hit
+      ? { lat: hit.lat, lon: hit.lon, state: hit.state, source: hit.source, precision: hit.precision }
+      : null
+  },
+}
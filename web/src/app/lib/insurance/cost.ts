@@ -0,0 +1,64 @@
+// What a visit is likely to cost the user once their plan applies: a copay, coinsurance
+// after the deductible, the deductible itself, or the full price out of network. Works
+// from a price range (quoted, estimated or the setting's typical self-pay) — an estimate
+// to rank and plan with, never a promise of what the bill will say.
+
+import { CARE_LEVELS } from '../places/careLevels'
+import type { CareLevel } from '../places/types'
+import type { InsuranceProfile, NetworkStatus, PatientCost } from './types'
+
+/** Coinsurance assumed when the profile doesn't give one */
+const DEFAULT_COINSURANCE = 0.2
+
+/** Plans that generally pay nothing outside their network */
+const CLOSED_NETWORK = new Set(['hmo', 'epo', 'medicaid'])
+
+const pct = (c: number) => `${Math.round(c * 100)}%`
+
+export function patientCost(
+  base: [number, number],
+  careLevel: CareLevel | undefined,
+  profile: InsuranceProfile | undefined,
+  network?: NetworkStatus,
+): PatientCost {
+  const [lo, hi] = [Math.min(...base), Math.max(...base)]
+  const out = (min: number, max: number, basis: PatientCost['basis'], note: string): PatientCost => ({
+    min: Math.round(min),
+    max: Math.round(max),
+    basis,
+    note,
+  })
+  if (!profile) return out(lo, hi, 'self_pay', 'Self-pay estimate')
+
+  // Emergency care is billed at in-network cost sharing wherever it happens (No Surprises Act)
+  const outOfNetwork = network?.inNetwork === false && careLevel !== 'er'
+  if (outOfNetwork) {
+    return profile.planType && CLOSED_NETWORK.has(profile.planType)
+      ? out(lo, hi, 'out_of_network', `Out of network: ${profile.planType.toUpperCase()} plans usually pay nothing`)
+      : out(lo * 0.4, hi, 'out_of_network', 'Out of network: expect to pay 40% or more, maybe all of it')
+  }
+
+  const unconfirmed = network?.inNetwork === undefined ? ' (network not confirmed)' : ''
+  const c = profile.coinsurance ?? DEFAULT_COINSURANCE
+  const d = profile.deductible
+  const copay = careLevel ? profile.copays[careLevel] : undefined
+  // High-deductible plans only switch to copays once the deductible is met
+  if (typeof copay === 'number' && (profile.planType !== 'hdhp' || d.status === 'met')) {
+    const label = careLevel ? CARE_LEVELS[careLevel].label.toLowerCase() : 'visit'
+    return out(copay, copay, 'copay', `$${copay} ${label} copay${unconfirmed}`)
+  }
+
+  switch (d.status) {
+    case 'met':
+      return out(lo * c, hi * c, 'coinsurance', `${pct(c)} coinsurance, deductible met${unconfirmed}`)
+    case 'not_met':
+      return out(lo, hi, 'deductible', `Deductible not met: you pay the full rate${unconfirmed}`)
+    case 'partial': {
+      const r = d.remaining ?? hi
+      const pay = (x: number) => (x <= r ? x : r + c * (x - r))
+      return out(pay(lo), pay(hi), 'deductible', `$${Math.round(r)} left on your deductible, then ${pct(c)}${unconfirmed}`)
+    }
+    default:
+      return out(lo * c, hi, 'deductible', `Between ${pct(c)} and the full rate, depending on your deductible${unconfirmed}`)
+  }
+}
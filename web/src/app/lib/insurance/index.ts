@@ -0,0 +1,108 @@
+// File: src/app/lib/insurance/index.ts
+// The user's insurance applied to places: a provider directory says whether each place is
+// in network (and how sure it is), and the visit's price becomes what the user would pay
+// after copay, coinsurance or deductible. Ranking reads that instead of the sticker price.
+//
+// Config (all optional):
+//   NT_NETWORK_DIRECTORY=local     provider directory (only the local JSON one ships today)
+
+import { isCareLevel, TYPICAL_SELF_PAY } from '../places/careLevels'
+import type { Place } from '../places/types'
+import { patientCost } from './cost'
+import { localDirectory } from './local'
+import type {
+  DeductibleStatus,
+  InsuranceProfile,
+  NetworkDirectory,
+  NetworkStatus,
+  PlanType,
+} from './types'
+
+export * from './types'
+export { patientCost } from './cost'
+export { carrierFor } from './local'
+
+const DIRECTORIES: Record<string, NetworkDirectory> = {
+  local: localDirectory,
+}
+
+export function networkDirectory(): NetworkDirectory {
+  const name = (process.env.NT_NETWORK_DIRECTORY || 'local').trim().toLowerCase()
+  const dir = DIRECTORIES[name]
+  if (!dir) throw new Error(`Unknown network directory "${name}"`)
+  return dir
+}
+
+export const PLAN_TYPES: PlanType[] = ['hmo', 'ppo', 'epo', 'pos', 'hdhp', 'medicare', 'medicaid']
+const DEDUCTIBLE: DeductibleStatus[] = ['met', 'partial', 'not_met', 'unknown']
+
+const dollars = (v: unknown) =>
+  typeof v === 'number' && Number.isFinite(v) && v >= 0 ? Math.round(v * 100) / 100 : undefined
+
+/** A profile from a request body, or undefined when there's no carrier to go on. */
+export function sanitizeProfile(input: unknown): InsuranceProfile | undefined {
+  if (!input || typeof input !== 'object') return undefined
+  const p = input as Record<string, unknown>
+  const carrier = typeof p.carrier === 'string' ? p.carrier.trim().slice(0, 80) : ''
+  if (!carrier) return undefined
+  const planType = PLAN_TYPES.find(t => t === p.planType)
+  const d = (p.deductible && typeof p.deductible === 'object' ? p.deductible : {}) as Record<string, unknown>
+  const copays: InsuranceProfile['copays'] = {}
+  if (p.copays && typeof p.copays === 'object') {
+    for (const [k, v] of Object.entries(p.copays)) {
+      const n = dollars(v)
+      if (n !== undefined && isCareLevel(k)) copays[k] = n
+    }
+  }
+  const coinsurance =
+    typeof p.coinsurance === 'number' && p.coinsurance >= 0 && p.coinsurance <= 1 ? p.coinsurance : undefined
+  return {
+    carrier,
+    ...(planType ? { planType } : {}),
+    ...(typeof p.planName === 'string' && p.planName.trim() ? { planName: p.planName.trim().slice(0, 80) } : {}),
+    deductible: {
+      status: DEDUCTIBLE.find(s => s === d.status) ?? 'unknown',
+      ...(dollars(d.remaining) !== undefined ? { remaining: dollars(d.remaining) } : {}),
+    },
+    copays,
+    ...(coinsurance !== undefined ? { coinsurance } : {}),
+  }
+}
+
+/** "Aetna PPO", for scripts and labels */
+export function profileLabel(p: InsuranceProfile) {
+  return [p.carrier, p.planType?.toUpperCase(), p.planName].filter(Boolean).join(' ')
+}
+
+/**
+ * Places with network status and out-of-pocket cost for `profile`. The price starts from a
+ * quote or estimate on the place, else the setting's typical self-pay. A directory failure
+ * leaves network status unknown; costs are still worked out.
+ */
+export async function applyInsurance<T extends Place>(places: T[], profile?: InsuranceProfile): Promise<T[]> {
+  if (!profile || !places.length) return places
+  let statuses = new Map<string, NetworkStatus>()
+  try {
+    statuses = await networkDirectory().lookup(profile, places)
+  } catch (e) {
+    console.warn('[insurance] network lookup failed:', e instanceof Error ? e.message : e)
+  }
+  return places.map(p => {
+    const status = statuses.get(p.id)
+    const lo = p.est_cost_min ?? p.est_cost_max
+    const hi = p.est_cost_max ?? p.est_cost_min
+    const base: [number, number] | undefined =
+      typeof lo === 'number' && typeof hi === 'number'
+        ? [lo, hi]
+        : p.price
+        ? TYPICAL_SELF_PAY[p.price]
+        : undefined
+    return {
+      ...p,
+      in_network: status?.inNetwork,
+      network_confidence: status?.confidence,
+      networkNote: status ? [status.source, status.note].filter(Boolean).join(' · ') : undefined,
+      outOfPocket: base ? patientCost(base, p.careLevel, profile, status) : undefined,
+    }
+  })
+}
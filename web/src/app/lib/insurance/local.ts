@@ -0,0 +1,110 @@
+// Local provider directory: a JSON list of carriers and the places in their networks.
+// Bundled with sample listings for the fixture places; point NT_NETWORK_DIRECTORY_FILE at
+// a file in the same shape to try other data. Matches by place id first, then by name.
+// It only answers for places it lists: anything else is "can't say", never out of network.
+//
+// Config (all optional):
+//   NT_NETWORK_DIRECTORY_FILE=path    JSON directory to use instead of directory.json
+
+import { readFileSync } from 'fs'
+import bundled from './directory.json'
+import type { InsuranceProfile, NetworkDirectory, NetworkStatus, PlanType } from './types'
+
+type Listing = { id?: string; name: string; plans?: string[] }
+type Carrier = { id: string; name: string; aliases: string[]; providers: Listing[] }
+type Directory = { carriers: Carrier[] }
+
+declare global {
+  var __networkDirectory: { file: string; dir: Directory } | undefined
+}
+
+function directory(): Directory {
+  const file = process.env.NT_NETWORK_DIRECTORY_FILE?.trim() || ''
+  if (!file) return bundled as Directory
+  const cached = globalThis.__networkDirectory
+  if (cached?.file === file) return cached.dir
+  try {
+    const dir = JSON.parse(readFileSync(file, 'utf8')) as Directory
+    if (!Array.isArray(dir.carriers)) throw new Error('missing "carriers"')
+    globalThis.__networkDirectory = { file, dir }
+    return dir
+  } catch (e) {
+    console.warn(
+      `[insurance] can't read ${file}, using the bundled directory:`,
+      e instanceof Error ? e.message : e,
+    )
+    return bundled as Directory
+  }
+}
+
+const norm = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/\(sample\)/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+/** "Aetna PPO", "blue cross of illinois" → the carrier whose alias appears in it */
+export function carrierFor(name: string): Carrier | undefined {
+  const n = ` ${norm(name)} `
+  return directory().carriers.find(c =>
+    [c.name, ...c.aliases].some(a => n.includes(` ${norm(a)} `)),
+  )
+}
+
+const planLabel = (p: string) => p.toUpperCase()
+
+function statusFor(
+  carrier: Carrier,
+  planType: PlanType | undefined,
+  place: { id: string; name: string },
+): NetworkStatus {
+  const source = `local directory (${carrier.name})`
+  const byId = carrier.providers.find(l => l.id === place.id)
+  const listing = byId ?? carrier.providers.find(l => norm(l.name) === norm(place.name))
+  // The directory covers only the places it lists; silence about a place isn't a "no"
+  if (!listing) {
+    return {
+      confidence: 0,
+      source,
+      note: `Not in the directory for ${carrier.name}; ask the front desk whether they take your plan`,
+    }
+  }
+  // A name match could be another branch of the same business
+  const confidence = byId ? 0.9 : 0.7
+  if (listing.plans && planType && !listing.plans.includes(planType)) {
+    return {
+      inNetwork: false,
+      confidence,
+      source,
+      note: `Listed for ${listing.plans.map(planLabel).join('/')} plans only`,
+    }
+  }
+  return {
+    inNetwork: true,
+    // Without a plan type we can't rule out a plan-specific network
+    confidence: listing.plans && !planType ? confidence - 0.2 : confidence,
+    source,
+    ...(listing.plans && !planType
+      ? { note: `Listed for ${listing.plans.map(planLabel).join('/')} plans` }
+      : {}),
+  }
+}
+
+export const localDirectory: NetworkDirectory = {
+  name: 'local',
+  carriers: () => directory().carriers.map(c => c.name),
+  async lookup(profile: InsuranceProfile, places) {
+    const out = new Map<string, NetworkStatus>()
+    const carrier = carrierFor(profile.carrier)
+    for (const p of places) {
+      out.set(
+        p.id,
+        carrier
+          ? statusFor(carrier, profile.planType, p)
+          : { confidence: 0, source: 'local directory', note: `${profile.carrier} isn't in the directory` },
+      )
+    }
+    return out
+  },
+}
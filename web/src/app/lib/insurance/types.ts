@@ -0,0 +1,52 @@
+// Shapes for insurance profiles and network lookups (server-side; the intake page mirrors
+// InsuranceProfile).
+
+import type { CareLevel, OutOfPocket, Place } from '../places/types'
+
+export type { CostBasis } from '../places/types'
+
+export type PlanType = 'hmo' | 'ppo' | 'epo' | 'pos' | 'hdhp' | 'medicare' | 'medicaid'
+
+export type DeductibleStatus = 'met' | 'partial' | 'not_met' | 'unknown'
+
+/** What the user told us about their coverage; every field but `carrier` is optional */
+export type InsuranceProfile = {
+  /** e.g. "Aetna", matched loosely against the directory */
+  carrier: string
+  planType?: PlanType
+  /** As printed on the card, e.g. "Open Access Select" */
+  planName?: string
+  deductible: {
+    status: DeductibleStatus
+    /** Dollars left before coinsurance kicks in; used when status is `partial` */
+    remaining?: number
+  }
+  /** Flat copay per visit by setting, in dollars */
+  copays: Partial<Record<CareLevel, number>>
+  /** Share the user pays after the deductible, 0–1 (e.g. 0.2 for 20%) */
+  coinsurance?: number
+}
+
+/** One place against one profile. `inNetwork` undefined = the directory can't say. */
+export type NetworkStatus = {
+  inNetwork?: boolean
+  /** 0–1: how far to trust `inNetwork`; directories lag and names match loosely */
+  confidence: number
+  /** Which directory answered */
+  source: string
+  note?: string
+}
+
+/** The parts of a Place a directory can match on */
+export type NetworkQuery = Pick<Place, 'id' | 'name' | 'careLevel' | 'address'>
+
+/** A provider directory. `lookup` returns a status for every place it was asked about. */
+export interface NetworkDirectory {
+  name: string
+  /** Carrier names it has listings for, for the profile form */
+  carriers(): string[]
+  lookup(profile: InsuranceProfile, places: NetworkQuery[]): Promise<Map<string, NetworkStatus>>
+}
+
+/** What the user would likely pay for one visit */
+export type PatientCost = OutOfPocket
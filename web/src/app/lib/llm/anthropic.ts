@@ -0,0 +1,72 @@
+import Anthropic from '@anthropic-ai/sdk'
+import { parseDataUrl, type LLMProvider, type LLMRequest } from './types'
+
+const apiKey = () => process.env.ANTHROPIC_API_KEY
+
+type ImageMime = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp'
+const IMAGE_MIMES: ImageMime[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+
+let client: Anthropic | null = null
+function getClient() {
+  const key = apiKey()
+  if (!key) throw new Error('ANTHROPIC_API_KEY missing')
+  if (!client) client = new Anthropic({ apiKey: key })
+  return client
+}
+
+function toMessages(req: LLMRequest): Anthropic.MessageParam[] {
+  return req.messages.map(m => {
+    const images = (m.images || [])
+      .map(parseDataUrl)
+      .filter((d): d is { mime: ImageMime; data: string } =>
+        !!d && IMAGE_MIMES.includes(d.mime as ImageMime),
+      )
+    if (m.role !== 'user' || !images.length) return { role: m.role, content: m.content }
+    return {
+      role: 'user',
+      content: [
+        ...images.map(img => ({
+          type: 'image' as const,
+          source: { type: 'base64' as const, media_type: img.mime, data: img.data },
+        })),
+        { type: 'text' as const, text: m.content },
+      ],
+    }
+  })
+}
+
+function params(req: LLMRequest) {
+  // No native JSON mode: ask for it in the system prompt; callers parse loosely
+  const system = [req.system, req.json ? 'Respond with a single JSON object only — no prose, no code fences.' : '']
+    .filter(Boolean)
+    .join('\n\n')
+  return {
+    model: req.model,
+    max_tokens: req.maxTokens ?? 2048,
+    temperature: req.temperature ?? 0.2,
+    system: system || undefined,
+    messages: toMessages(req),
+  }
+}
+
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  available: () => !!apiKey(),
+
+  async complete(req) {
+    const msg = await getClient().messages.create(params(req), { signal: req.signal })
+    return msg.content.map(b => (b.type === 'text' ? b.text : '')).join('')
+  },
+
+  async *stream(req) {
+    const events = await getClient().messages.create(
+      { ...params(req), stream: true },
+      { signal: req.signal },
+    )
+    for await (const ev of events) {
+      if (ev.type === 'content_block_delta' && ev.delta.type === 'text_delta') {
+        yield ev.delta.text
+      }
+    }
+  },
+}
@@ -0,0 +1,54 @@
+import { GoogleGenerativeAI, type Content, type Part } from '@google/generative-ai'
+import { parseDataUrl, type LLMProvider, type LLMRequest } from './types'
+
+// GOOGLE_API_KEY is already taken by Custom Search in the cite route
+const apiKey = () => process.env.GEMINI_API_KEY || process.env.GOOGLE_GENERATIVE_AI_API_KEY
+
+function getModel(req: LLMRequest) {
+  const key = apiKey()
+  if (!key) throw new Error('GEMINI_API_KEY missing')
+  return new GoogleGenerativeAI(key).getGenerativeModel({
+    model: req.model,
+    systemInstruction: req.system || undefined,
+    generationConfig: {
+      temperature: req.temperature ?? 0.2,
+      maxOutputTokens: req.maxTokens,
+      ...(req.json ? { responseMimeType: 'application/json' } : {}),
+    },
+  })
+}
+
+function toContents(req: LLMRequest): Content[] {
+  return req.messages.map(m => {
+    const parts: Part[] = [{ text: m.content }]
+    for (const url of m.images || []) {
+      const d = parseDataUrl(url)
+      if (d) parts.push({ inlineData: { mimeType: d.mime, data: d.data } })
+    }
+    return { role: m.role === 'assistant' ? 'model' : 'user', parts }
+  })
+}
+
+export const geminiProvider: LLMProvider = {
+  name: 'gemini',
+  available: () => !!apiKey(),
+
+  async complete(req) {
+    const res = await getModel(req).generateContent(
+      { contents: toContents(req) },
+      { signal: req.signal },
+    )
+    return res.response.text()
+  },
+
+  async *stream(req) {
+    const res = await getModel(req).generateContentStream(
+      { contents: toContents(req) },
+      { signal: req.signal },
+    )
+    for await (const chunk of res.stream) {
+      const piece = chunk.text()
+      if (piece) yield piece
+    }
+  },
+}
@@ -0,0 +1,203 @@
+// File: src/app/lib/llm/index.ts
+// One entry point for every route that talks to a model. Providers are tried in the
+// configured order; a provider that errors is benched for a cooldown so the next
+// request goes straight to a healthy one.
+//
+// Config (all optional):
+//   NT_LLM_PROVIDERS=openai,anthropic,gemini      global failover order ("mock" opt-in)
+//   NT_LLM_<ROUTE>_PROVIDERS=anthropic,openai     per-route order (ROUTE = CHAT|EXTRACT|CITE|COACH)
+//   NT_LLM_<PROVIDER>_MODEL=...                   per-provider default model
+//   NT_LLM_<ROUTE>_<PROVIDER>_MODEL=...           per-route, per-provider model
+//   NT_LLM_COOLDOWN_MS=60000                      how long a failing provider is benched
+
+import { anthropicProvider } from './anthropic'
+import { geminiProvider } from './gemini'
+import { mockProvider } from './mock'
+import { openaiProvider } from './openai'
+import {
+  LLMUnavailableError,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResult,
+  type LLMRoute,
+  type ProviderName,
+} from './types'
+
+export * from './types'
+
+const PROVIDERS: Record<ProviderName, LLMProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+}
+
+const DEFAULT_ORDER: ProviderName[] = ['openai', 'anthropic', 'gemini']
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: 'gpt-4.1-mini',
+  anthropic: 'claude-haiku-4-5',
+  gemini: 'gemini-2.5-flash',
+  mock: 'mock-1',
+}
+
+// Env vars the routes read before this layer existed; still honored for OpenAI
+const LEGACY_OPENAI_MODEL: Partial<Record<LLMRoute, string | undefined>> = {
+  cite: process.env.OPENAI_MODEL_CITE,
+  extract: process.env.OPENAI_MODEL_EXTRACT,
+  coach: process.env.OPENAI_MODEL,
+}
+
+const env = (k: string) => {
+  const v = process.env[k]
+  return v && v.trim() ? v.trim() : undefined
+}
+
+function parseOrder(raw?: string): ProviderName[] | undefined {
+  if (!raw) return undefined
+  const names = raw
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter((s): s is ProviderName => s in PROVIDERS)
+  return names.length ? names : undefined
+}
+
+export function providerOrder(route: LLMRoute): ProviderName[] {
+  return (
+    parseOrder(env(`NT_LLM_${route.toUpperCase()}_PROVIDERS`)) ||
+    parseOrder(env('NT_LLM_PROVIDERS')) ||
+    DEFAULT_ORDER
+  )
+}
+
+export function modelFor(route: LLMRoute, provider: ProviderName): string {
+  const R = route.toUpperCase()
+  const P = provider.toUpperCase()
+  return (
+    env(`NT_LLM_${R}_${P}_MODEL`) ||
+    (provider === 'openai' ? LEGACY_OPENAI_MODEL[route] : undefined) ||
+    env(`NT_LLM_${P}_MODEL`) ||
+    DEFAULT_MODELS[provider]
+  )
+}
+
+/* ---------- Health / cooldown ---------- */
+
+const cooldownMs = () => Number(env('NT_LLM_COOLDOWN_MS')) || 60_000
+
+declare global {
+  var __llmBenched: Map<ProviderName, number> | undefined
+}
+function benched(): Map<ProviderName, number> {
+  if (!globalThis.__llmBenched) globalThis.__llmBenched = new Map()
+  return globalThis.__llmBenched
+}
+
+function markFailed(p: ProviderName) {
+  benched().set(p, Date.now() + cooldownMs())
+}
+function markHealthy(p: ProviderName) {
+  benched().delete(p)
+}
+
+/** Available providers for a route, healthy ones first (benched ones kept as a last resort). */
+function candidates(route: LLMRoute): LLMProvider[] {
+  const now = Date.now()
+  const avail = providerOrder(route)
+    .map(n => PROVIDERS[n])
+    .filter(p => p.available())
+  const healthy = avail.filter(p => (benched().get(p.name) ?? 0) <= now)
+  const cooling = avail.filter(p => (benched().get(p.name) ?? 0) > now)
+  return [...healthy, ...cooling]
+}
+
+const isAbort = (e: unknown, signal?: AbortSignal) =>
+  !!signal?.aborted || (e instanceof Error && e.name === 'AbortError')
+
+const errStr = (e: unknown) => (e instanceof Error ? e.message : String(e))
+
+/* ---------- Public API ---------- */
+
+type CallOptions = Omit<LLMRequest, 'model'>
+
+export function hasProvider(route: LLMRoute) {
+  return candidates(route).length > 0
+}
+
+/** Snapshot for status endpoints: which providers are configured and which are benched. */
+export function providerStatus(route: LLMRoute) {
+  const now = Date.now()
+  return providerOrder(route).map(name => ({
+    name,
+    model: modelFor(route, name),
+    available: PROVIDERS[name].available(),
+    benchedUntil:
+      (benched().get(name) ?? 0) > now
+        ? new Date(benched().get(name)!).toISOString()
+        : undefined,
+  }))
+}
+
+export async function complete(route: LLMRoute, opts: CallOptions): Promise<LLMResult> {
+  const attempts: { provider: ProviderName; error: string }[] = []
+  for (const p of candidates(route)) {
+    const model = modelFor(route, p.name)
+    try {
+      const text = await p.complete({ ...opts, model })
+      markHealthy(p.name)
+      return { text, provider: p.name, model }
+    } catch (e) {
+      if (isAbort(e, opts.signal)) throw e
+      console.error(`[llm/${route}] ${p.name} failed, trying next provider:`, errStr(e))
+      markFailed(p.name)
+      attempts.push({ provider: p.name, error: errStr(e) })
+    }
+  }
+  throw new LLMUnavailableError(route, attempts)
+}
+
+/**
+ * Streamed completion. Failover only happens before the first chunk — once text has
+ * reached the caller, switching vendors mid-reply would produce a spliced answer.
+ * `onStart` reports which provider/model is answering.
+ */
+export async function* stream(
+  route: LLMRoute,
+  opts: CallOptions,
+  onStart?: (info: { provider: ProviderName; model: string }) => void,
+): AsyncGenerator<string> {
+  const attempts: { provider: ProviderName; error: string }[] = []
+  for (const p of candidates(route)) {
+    const model = modelFor(route, p.name)
+    let started = false
+    try {
+      for await (const piece of p.stream({ ...opts, model })) {
+        if (!started) {
+          started = true
+          onStart?.({ provider: p.name, model })
+        }
+        yield piece
+      }
+      markHealthy(p.name)
+      return
+    } catch (e) {
+      if (started || isAbort(e, opts.signal)) throw e
+      console.error(`[llm/${route}] ${p.name} stream failed, trying next provider:`, errStr(e))
+      markFailed(p.name)
+      attempts.push({ provider: p.name, error: errStr(e) })
+    }
+  }
+  throw new LLMUnavailableError(route, attempts)
+}
+
+/** Parse a JSON object from model output, tolerating code fences or stray prose. */
+export function parseJsonLoose<T = Record<string, unknown>>(raw: string): T {
+  const s = (raw || '').trim().replace(/^```(?:json)?\s*|\s*```$/g, '')
+  try {
+    return JSON.parse(s || '{}')
+  } catch {
+    const match = s.match(/\{[\s\S]*\}/)
+    if (!match) throw new Error('Could not parse JSON from model response.')
+    return JSON.parse(match[0])
+  }
+}
@@ -0,0 +1,50 @@
+import type { LLMProvider, LLMRequest } from './types'
+
+/**
+ * Deterministic local stand-in for development and demos without vendor keys.
+ * Only used when listed explicitly in NT_LLM_PROVIDERS — never as a silent fallback,
+ * since its answers are canned and not medical guidance.
+ */
+
+function lastUserText(req: LLMRequest) {
+  return req.messages.filter(m => m.role === 'user').slice(-1)[0]?.content || ''
+}
+
+function mockReply(req: LLMRequest): string {
+  const said = lastUserText(req).replace(/\s+/g, ' ').trim()
+  const echo = said.length > 120 ? `${said.slice(0, 117)}…` : said
+  const text = echo
+    ? `(Local mock engine) I heard: “${echo}”. This is a canned development reply — no model was called.`
+    : '(Local mock engine) This is a canned development reply — no model was called.'
+
+  if (!req.json) return text
+
+  // One object that satisfies every route's expected keys (chat, extract, cite, coach)
+  return JSON.stringify({
+    text,
+    risk: 'low',
+    insights: [],
+    citations: [],
+    facts: null,
+    rationale: 'Mock rationale for local development.',
+    steps: ['Mock step one', 'Mock step two'],
+    solutionSteps: [],
+  })
+}
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  available: () => true,
+
+  async complete(req) {
+    return mockReply(req)
+  },
+
+  async *stream(req) {
+    const full = mockReply(req)
+    for (let i = 0; i < full.length; i += 24) {
+      if (req.signal?.aborted) return
+      yield full.slice(i, i + 24)
+    }
+  },
+}
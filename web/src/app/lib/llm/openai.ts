@@ -0,0 +1,64 @@
+import OpenAI from 'openai'
+import type { LLMProvider, LLMRequest } from './types'
+
+const apiKey = () => process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_1
+
+let client: OpenAI | null = null
+function getClient() {
+  const key = apiKey()
+  if (!key) throw new Error('OPENAI_API_KEY missing')
+  if (!client) client = new OpenAI({ apiKey: key })
+  return client
+}
+
+function toMessages(req: LLMRequest) {
+  const out: OpenAI.Chat.ChatCompletionMessageParam[] = []
+  if (req.system) out.push({ role: 'system', content: req.system })
+  for (const m of req.messages) {
+    if (m.role === 'user' && m.images?.length) {
+      out.push({
+        role: 'user',
+        content: [
+          { type: 'text', text: m.content },
+          ...m.images.map(url => ({ type: 'image_url' as const, image_url: { url } })),
+        ],
+      })
+    } else {
+      out.push({ role: m.role, content: m.content })
+    }
+  }
+  return out
+}
+
+function params(req: LLMRequest) {
+  return {
+    model: req.model,
+    temperature: req.temperature ?? 0.2,
+    max_tokens: req.maxTokens,
+    messages: toMessages(req),
+    ...(req.json ? { response_format: { type: 'json_object' as const } } : {}),
+  }
+}
+
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+  available: () => !!apiKey(),
+
+  async complete(req) {
+    const completion = await getClient().chat.completions.create(params(req), {
+      signal: req.signal,
+    })
+    return completion.choices?.[0]?.message?.content || ''
+  },
+
+  async *stream(req) {
+    const completion = await getClient().chat.completions.create(
+      { ...params(req), stream: true },
+      { signal: req.signal },
+    )
+    for await (const chunk of completion) {
+      const piece = chunk.choices?.[0]?.delta?.content
+      if (piece) yield piece
+    }
+  },
+}
@@ -0,0 +1,61 @@
+// Shared shapes for the LLM provider layer (server-only).
+
+export type ProviderName = 'openai' | 'anthropic' | 'gemini' | 'mock'
+
+/** Routes that talk to a model; each picks its own providers and models from config. */
+export type LLMRoute = 'chat' | 'extract' | 'cite' | 'coach'
+
+export type LLMMessage = {
+  role: 'user' | 'assistant'
+  content: string
+  /** data: URLs (base64) attached to this turn */
+  images?: string[]
+}
+
+export type LLMRequest = {
+  system?: string
+  messages: LLMMessage[]
+  model: string
+  temperature?: number
+  /** Ask the provider for a single JSON object back */
+  json?: boolean
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+export interface LLMProvider {
+  name: ProviderName
+  /** True when the provider has credentials and can be called */
+  available(): boolean
+  complete(req: LLMRequest): Promise<string>
+  stream(req: LLMRequest): AsyncIterable<string>
+}
+
+/** Result of a (possibly failed-over) call, so routes can report what answered. */
+export type LLMResult = {
+  text: string
+  provider: ProviderName
+  model: string
+}
+
+export class LLMUnavailableError extends Error {
+  constructor(
+    public route: LLMRoute,
+    public attempts: { provider: ProviderName; error: string }[],
+  ) {
+    super(
+      attempts.length
+        ? `All LLM providers failed for ${route}: ${attempts
+            .map(a => `${a.provider} (${a.error})`)
+            .join('; ')}`
+        : `No LLM provider is configured for ${route}`,
+    )
+    this.name = 'LLMUnavailableError'
+  }
+}
+
+/** Split a data: URL into mime type + base64 payload. */
+export function parseDataUrl(url: string): { mime: string; data: string } | null {
+  const m = /^data:([^;,]+);base64,([\s\S]*)$/.exec(url)
+  return m ? { mime: m[1], data: m[2] } : null
+}
@@ -0,0 +1,131 @@
+// Care levels → OpenStreetMap tags, and the rules that pick a level for a chat turn.
+
+import type { CareLevel, CareLevelChoice, CareLevelInfo } from './types'
+
+type Risk = 'low' | 'moderate' | 'severe'
+
+export const CARE_LEVELS: Record<CareLevel, CareLevelInfo> = {
+  er: {
+    level: 'er',
+    label: 'Emergency room',
+    osm: ['["amenity"="hospital"]["emergency"!="no"]', '["emergency"="yes"]["healthcare"]'],
+    radiusKm: 25,
+    price: '$$$$',
+    reason: 'Emergency-capable facility near you',
+  },
+  urgent_care: {
+    level: 'urgent_care',
+    label: 'Urgent care',
+    osm: [
+      '["healthcare"="urgent_care"]',
+      '["amenity"="clinic"]["urgent_care"="yes"]',
+      '["healthcare"="clinic"]["urgent_care"="yes"]',
+      '["amenity"="clinic"]["name"~"urgent|walk-?in|immediate care",i]',
+    ],
+    radiusKm: 20,
+    price: '$$',
+    reason: 'Walk-in urgent care for same-day problems that aren’t emergencies',
+  },
+  primary_care: {
+    level: 'primary_care',
+    label: 'Primary care / clinic',
+    osm: ['["amenity"="doctors"]', '["amenity"="clinic"]', '["healthcare"="doctor"]', '["healthcare"="clinic"]'],
+    radiusKm: 15,
+    price: '$$',
+    reason: 'Doctor’s office or clinic for a scheduled visit',
+  },
+  mental_health: {
+    level: 'mental_health',
+    label: 'Mental health',
+    osm: [
+      '["healthcare"="psychotherapist"]',
+      '["healthcare"="counselling"]',
+      '["healthcare:speciality"~"psychiatry"]',
+    ],
+    radiusKm: 25,
+    price: '$$',
+    reason: 'Counselling, therapy or psychiatry',
+  },
+  dental: {
+    level: 'dental',
+    label: 'Dental',
+    osm: ['["amenity"="dentist"]', '["healthcare"="dentist"]'],
+    radiusKm: 15,
+    price: '$$',
+    reason: 'Dentist for tooth and gum problems',
+  },
+  pharmacy: {
+    level: 'pharmacy',
+    label: 'Pharmacy',
+    osm: ['["amenity"="pharmacy"]', '["healthcare"="pharmacy"]'],
+    radiusKm: 10,
+    price: '$',
+    reason: 'Pharmacist advice and over-the-counter options',
+  },
+  telehealth: {
+    level: 'telehealth',
+    label: 'Telehealth',
+    osm: [],
+    radiusKm: 0,
+    price: '$',
+    reason: 'Video or phone visit from home',
+  },
+}
+
+/** Typical self-pay range for a basic visit in each price band, in dollars — a proxy, not a quote */
+export const TYPICAL_SELF_PAY: Record<CareLevelInfo['price'], [number, number]> = {
+  $: [25, 60],
+  $$: [110, 180],
+  $$$: [180, 300],
+  $$$$: [750, 2200],
+}
+
+export const isCareLevel = (x: unknown): x is CareLevel =>
+  typeof x === 'string' && x in CARE_LEVELS
+
+/** The level a place fits, read from its own tags (a query can return neighbours of its level). */
+export function levelOfTags(tags: Record<string, string>, fallback: CareLevel): CareLevel {
+  const hc = tags.healthcare || ''
+  if (tags.amenity === 'hospital' && tags.emergency !== 'no') return 'er'
+  if (tags.emergency === 'yes') return 'er'
+  if (hc === 'urgent_care' || tags.urgent_care === 'yes') return 'urgent_care'
+  if (tags.amenity === 'pharmacy' || hc === 'pharmacy') return 'pharmacy'
+  if (tags.amenity === 'dentist' || hc === 'dentist') return 'dental'
+  if (hc === 'psychotherapist' || hc === 'counselling' || /psychiatry/.test(tags['healthcare:speciality'] || '')) {
+    return 'mental_health'
+  }
+  if (tags.amenity === 'doctors' || tags.amenity === 'clinic' || hc === 'doctor' || hc === 'clinic') {
+    return fallback === 'urgent_care' ? 'urgent_care' : 'primary_care'
+  }
+  return fallback
+}
+
+// Topic cues that point to a specific kind of care regardless of risk (below severe)
+const TOPIC_LEVELS: [RegExp, CareLevel][] = [
+  [/\b(tooth|teeth|toothache|dental|dentist|gum|gums|molar|filling|crown)\b/i, 'dental'],
+  [/\b(pharmacy|pharmacist|prescription refill|refill|over[- ]the[- ]counter|otc)\b/i, 'pharmacy'],
+  [/\b(therapist|therapy|counsel(l)?or|counsel(l)?ing|psychiatrist|anxiety|depress(ed|ion)|panic attacks?)\b/i, 'mental_health'],
+  [/\b(telehealth|telemedicine|video visit|virtual visit|online doctor)\b/i, 'telehealth'],
+]
+
+/**
+ * Pick where to look: severe risk always means the ER; otherwise an explicit request or
+ * a clear topic (tooth pain, refills, therapy) wins, then moderate → urgent care and
+ * low → primary care.
+ */
+export function chooseCareLevel(opts: {
+  risk: Risk
+  text?: string
+  requested?: unknown
+}): CareLevelChoice {
+  const pick = (level: CareLevel, why: CareLevelChoice['why']): CareLevelChoice => ({
+    level,
+    label: CARE_LEVELS[level].label,
+    why,
+  })
+  if (opts.risk === 'severe') return pick('er', 'risk')
+  if (isCareLevel(opts.requested)) return pick(opts.requested, 'requested')
+  const topic = TOPIC_LEVELS.find(([re]) => re.test(opts.text || ''))
+  if (topic) return pick(topic[1], 'topic')
+  return pick(opts.risk === 'moderate' ? 'urgent_care' : 'primary_care', 'risk')
+}
@@ -0,0 +1,47 @@
+// Fixture corpus for the opening-hours parser. Each case is an OSM `opening_hours` value,
+// a local time in America/New_York and whether the place must be open then (undefined =
+// unknown). Add a case here whenever the parser changes; `npm test` runs them.
+
+import type { FixtureSuite } from '../fixtures'
+import { openStatus, parseOpeningHours } from './hours'
+
+export type HoursFixture = { hours: string; at: string; open: boolean | undefined; note?: string }
+
+const TZ = 'America/New_York'
+
+// 2024-06-03 is a Monday; EDT is UTC-4
+export const HOURS_FIXTURES: HoursFixture[] = [
+  { hours: 'Mo-Fr 08:00-17:00', at: '2024-06-03T10:00', open: true },
+  { hours: 'Mo-Fr 08:00-17:00', at: '2024-06-08T10:00', open: false, note: 'Saturday' },
+  { hours: 'Mo-Fr 08:00-12:00,13:00-17:00', at: '2024-06-03T12:30', open: false, note: 'lunch break' },
+
+  /* ---------- Day lists ---------- */
+  { hours: 'Mo,We,Fr 08:00-17:00', at: '2024-06-03T10:00', open: true },
+  { hours: 'Mo,We,Fr 08:00-17:00', at: '2024-06-03T07:00', open: false, note: 'a listed day is not open all day' },
+  { hours: 'Mo,We,Fr 08:00-17:00', at: '2024-06-05T20:00', open: false },
+  { hours: 'Mo,We,Fr 08:00-17:00', at: '2024-06-04T10:00', open: false, note: 'Tuesday is not listed' },
+  { hours: 'Sa,Su 10:00-14:00', at: '2024-06-08T03:00', open: false, note: 'Saturday 3am' },
+  { hours: 'Sa,Su 10:00-14:00', at: '2024-06-08T15:00', open: false },
+  { hours: 'Sa,Su 10:00-14:00', at: '2024-06-09T11:00', open: true },
+
+  /* ---------- Rule separators ---------- */
+  { hours: 'Mo-Fr 08:00-17:00; Sa 09:00-12:00', at: '2024-06-08T10:00', open: true },
+  { hours: 'Mo-Fr 08:00-17:00, Sa 09:00-12:00', at: '2024-06-08T10:00', open: true, note: '"," after a time ends a rule' },
+  { hours: 'Mo-Fr 08:00-17:00, Sa 09:00-12:00', at: '2024-06-08T13:00', open: false },
+  { hours: 'Mo-Sa 09:00-18:00, Su off', at: '2024-06-09T12:00', open: false },
+
+  /* ---------- Overnight, 24/7, unknown ---------- */
+  { hours: 'Fr 22:00-02:00', at: '2024-06-08T01:00', open: true, note: 'Friday night runs into Saturday' },
+  { hours: '24/7', at: '2024-06-08T03:00', open: true },
+  { hours: 'Mo-Fr 08:00-17:00; Jan off', at: '2024-06-03T07:00', open: undefined, note: 'months make it partial' },
+]
+
+/** Local wall time in TZ → the UTC instant, for the June (EDT) dates above */
+const instant = (local: string) => new Date(`${local}:00-04:00`)
+
+export const hoursSuite: FixtureSuite<HoursFixture> = {
+  name: 'opening hours',
+  cases: HOURS_FIXTURES,
+  label: f => `${f.hours} at ${f.at}${f.note ? ` (${f.note})` : ''}`,
+  run: f => ({ expected: f.open, got: openStatus(parseOpeningHours(f.hours), instant(f.at), TZ).openNow }),
+}
@@ -0,0 +1,292 @@
+// File: src/app/lib/places/hours.ts
+// OSM `opening_hours` → weekly schedule, and "open now / closes at" for a moment in a
+// time zone. Covers the syntax clinics actually use (day ranges, split shifts, overnight
+// spans, 24/7, off, public holidays); anything else (months, week numbers, sunrise) makes
+// the schedule `partial` so callers can treat open/closed as unknown. Pure — the intake
+// page imports it to refresh openNow for restored sessions.
+
+/** Minutes from local midnight; an interval may end past 1440 when it runs overnight */
+export type Interval = [start: number, end: number]
+
+export type WeeklyHours = {
+  /** Mo..Su, each a list of open intervals (empty = closed) */
+  days: Interval[][]
+  /** Public holidays: intervals, [] for closed, undefined when the tag doesn't say */
+  holiday?: Interval[]
+  alwaysOpen: boolean
+  /** Some rules couldn't be understood — don't claim a place is closed from this */
+  partial: boolean
+  raw: string
+}
+
+export type OpenStatus = {
+  /** undefined = unknown (no or unparseable hours) */
+  openNow?: boolean
+  /** Local "HH:MM" the current opening ends; absent for 24/7 */
+  closesAt?: string
+  /** Minutes until `closesAt`, so callers needn't redo time-zone math */
+  closesInMin?: number
+  /** Next opening, e.g. "Tu 08:00", when closed */
+  opensAt?: string
+}
+
+const DAY_CODES = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su']
+const DAY_MIN = 24 * 60
+
+/* ============================== Parsing ============================== */
+
+const dayIndex = (code: string) =>
+  DAY_CODES.indexOf(code.slice(0, 1).toUpperCase() + code.slice(1, 2).toLowerCase())
+
+/** "Mo-Fr,Su" → [0,1,2,3,4,6]; wraps ranges like "Sa-Mo". null when not a weekday selector. */
+function parseDays(sel: string): number[] | null {
+  const out = new Set<number>()
+  for (const part of sel.split(',')) {
+    const [a, b] = part.split('-')
+    const i = dayIndex(a)
+    if (i < 0 || a.length !== 2) return null
+    if (b === undefined) {
+      out.add(i)
+      continue
+    }
+    const j = dayIndex(b)
+    if (j < 0 || b.length !== 2) return null
+    for (let k = i; ; k = (k + 1) % 7) {
+      out.add(k)
+      if (k === j) break
+    }
+  }
+  return [...out]
+}
+
+const toMin = (hhmm: string) => {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm)
+  return m ? Number(m[1]) * 60 + Number(m[2]) : NaN
+}
+
+/** "08:00-12:00,13:00-17:30" → intervals; overnight "22:00-02:00" becomes [1320, 1560]. */
+function parseTimes(spec: string): Interval[] | null {
+  const out: Interval[] = []
+  for (const part of spec.split(',')) {
+    const m = /^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\+?$/.exec(part.trim())
+    if (!m) return null
+    const start = toMin(m[1])
+    let end = toMin(m[2])
+    if (!Number.isFinite(start) || !Number.isFinite(end)) return null
+    if (end <= start) end += DAY_MIN
+    out.push([start, end])
+  }
+  return out
+}
+
+/**
+ * Split on ";", and on OSM's "," between rules only where one rule has ended (after a time
+ * or "off"): "Mo,We,Fr 08:00-17:00" is one rule, "Mo-Fr 08:00-17:00, Sa 09:00-12:00" two.
+ */
+function splitRules(raw: string): string[] {
+  return raw
+    .split(';')
+    .flatMap(r => r.split(/(?<=\d|\+|\b(?:off|closed))\s*,\s*(?=(?:Mo|Tu|We|Th|Fr|Sa|Su|PH)\b)/i))
+    .map(r => r.trim())
+    .filter(Boolean)
+}
+
+export function parseOpeningHours(raw?: string | null): WeeklyHours | null {
+  const text = (raw || '').replace(/"[^"]*"/g, '').trim()
+  if (!text) return null
+  const hours: WeeklyHours = {
+    days: DAY_CODES.map(() => []),
+    alwaysOpen: false,
+    partial: false,
+    raw: raw!.trim(),
+  }
+
+  for (const rule of splitRules(text)) {
+    if (rule === '24/7') {
+      hours.days = DAY_CODES.map(() => [[0, DAY_MIN]])
+      continue
+    }
+    const m = /^((?:(?:Mo|Tu|We|Th|Fr|Sa|Su|PH)(?:-(?:Mo|Tu|We|Th|Fr|Sa|Su))?,?)+)?\s*(.*)$/.exec(rule)
+    const selector = (m?.[1] || '').replace(/,$/, '')
+    const rest = (m?.[2] || '').trim()
+
+    const parts = selector ? selector.split(',') : []
+    const holiday = parts.includes('PH')
+    const weekdaySel = parts.filter(p => p !== 'PH').join(',')
+    const days = weekdaySel ? parseDays(weekdaySel) : holiday ? [] : DAY_CODES.map((_, i) => i)
+
+    const off = /^(off|closed)$/i.test(rest)
+    // "Sa" alone or "Sa 24/7" means open all day
+    const allDay = rest === '24/7' || (rest === '' && !!selector)
+    const times = off ? [] : allDay ? [[0, DAY_MIN] as Interval] : parseTimes(rest)
+
+    if (!days || !times) {
+      hours.partial = true
+      continue
+    }
+    // Later rules override earlier ones for the days they name (OSM semantics)
+    for (const d of days) hours.days[d] = times
+    if (holiday) hours.holiday = times
+  }
+
+  hours.alwaysOpen =
+    hours.days.every(d => d.some(([s, e]) => s <= 0 && e >= DAY_MIN)) && hours.holiday?.length !== 0
+  return hours
+}
+
+/* ============================== Holidays ============================== */
+
+/** nth weekday (0=Sun) of a month; n = -1 for the last one */
+function nthWeekday(year: number, month: number, weekday: number, n: number) {
+  if (n > 0) {
+    const first = new Date(Date.UTC(year, month, 1)).getUTCDay()
+    return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7
+  }
+  const lastDate = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  const lastDay = new Date(Date.UTC(year, month, lastDate)).getUTCDay()
+  return lastDate - ((lastDay - weekday + 7) % 7)
+}
+
+/** US federal holidays (what `PH` means for the ZIP-based search); month is 0-based. */
+export function isUsHoliday(year: number, month: number, date: number) {
+  const fixed = [
+    [0, 1],
+    [5, 19],
+    [6, 4],
+    [10, 11],
+    [11, 25],
+  ]
+  if (fixed.some(([m, d]) => m === month && d === date)) return true
+  const floating: [number, number, number][] = [
+    [0, 1, 3], // MLK Day: 3rd Monday of January
+    [1, 1, 3], // Presidents' Day
+    [4, 1, -1], // Memorial Day
+    [8, 1, 1], // Labor Day
+    [9, 1, 2], // Columbus / Indigenous Peoples' Day
+    [10, 4, 4], // Thanksgiving
+  ]
+  return floating.some(([m, wd, n]) => m === month && nthWeekday(year, m, wd, n) === date)
+}
+
+/* ============================== Open now ============================== */
+
+type LocalDay = { weekday: number; minutes: number; holiday: boolean }
+
+/** An unknown zone from the client falls back to the runtime's own. */
+function validZone(tz?: string) {
+  if (!tz) return undefined
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz })
+    return tz
+  } catch {
+    return undefined
+  }
+}
+
+/** Weekday (Mo=0), minutes since midnight and holiday flag for `at` in `timeZone`. */
+function localParts(at: Date, timeZone?: string): LocalDay & { y: number; m: number; d: number } {
+  const fmt = new Intl.DateTimeFormat('en-US', {
+    timeZone: validZone(timeZone),
+    weekday: 'short',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  })
+  const p = Object.fromEntries(fmt.formatToParts(at).map(x => [x.type, x.value]))
+  const y = Number(p.year)
+  const m = Number(p.month) - 1
+  const d = Number(p.day)
+  return {
+    weekday: dayIndex(String(p.weekday)),
+    minutes: (Number(p.hour) % 24) * 60 + Number(p.minute),
+    holiday: isUsHoliday(y, m, d),
+    y,
+    m,
+    d,
+  }
+}
+
+const hhmm = (min: number) => {
+  const m = ((min % DAY_MIN) + DAY_MIN) % DAY_MIN
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`
+}
+
+/** Whether a day is a holiday, `offset` days from the local date. */
+function holidayAt(base: { y: number; m: number; d: number }, offset: number) {
+  const dt = new Date(Date.UTC(base.y, base.m, base.d + offset))
+  return isUsHoliday(dt.getUTCFullYear(), dt.getUTCMonth(), dt.getUTCDate())
+}
+
+function intervalsFor(h: WeeklyHours, weekday: number, holiday: boolean): Interval[] {
+  return holiday && h.holiday ? h.holiday : h.days[weekday]
+}
+
+export function openStatus(h: WeeklyHours | null, at = new Date(), timeZone?: string): OpenStatus {
+  if (!h) return {}
+  if (h.alwaysOpen) return { openNow: true }
+
+  const now = localParts(at, timeZone)
+  const today = intervalsFor(h, now.weekday, now.holiday)
+  const yWeekday = (now.weekday + 6) % 7
+  const yesterday = intervalsFor(h, yWeekday, holidayAt(now, -1))
+
+  const current =
+    today.find(([s, e]) => now.minutes >= s && now.minutes < e) ||
+    yesterday
+      .filter(([, e]) => e > DAY_MIN)
+      .map(([s, e]) => [s - DAY_MIN, e - DAY_MIN] as Interval)
+      .find(([s, e]) => now.minutes >= s && now.minutes < e)
+  if (current) {
+    // A span that ends at midnight and picks up again at 00:00 is not a real close
+    const end = current[1]
+    const tomorrow = intervalsFor(h, (now.weekday + 1) % 7, holidayAt(now, 1))
+    const rollsOver = end % DAY_MIN === 0 && tomorrow.some(([s]) => s === 0)
+    return {
+      openNow: true,
+      ...(rollsOver ? {} : { closesAt: hhmm(end), closesInMin: end - now.minutes }),
+    }
+  }
+  if (h.partial) return {}
+
+  for (let offset = 0; offset < 8; offset++) {
+    const wd = (now.weekday + offset) % 7
+    const next = intervalsFor(h, wd, holidayAt(now, offset))
+      .filter(([s]) => offset > 0 || s > now.minutes)
+      .sort((a, b) => a[0] - b[0])[0]
+    if (next) {
+      const when = offset === 0 ? hhmm(next[0]) : `${DAY_CODES[wd]} ${hhmm(next[0])}`
+      return { openNow: false, opensAt: when }
+    }
+  }
+  return { openNow: false }
+}
+
+/**
+ * Open status for hours posted in another zone (a virtual clinic's), told in the viewer's:
+ * `closesAt` is re-expressed in `viewerTimeZone` and `opensAt` carries the place's zone name.
+ */
+export function openStatusIn(
+  h: WeeklyHours | null,
+  at: Date,
+  placeTimeZone: string,
+  viewerTimeZone?: string,
+): OpenStatus {
+  const s = openStatus(h, at, placeTimeZone)
+  const zone = validZone(placeTimeZone)
+  if (!zone) return s
+  const out: OpenStatus = { ...s }
+  if (typeof s.closesInMin === 'number') {
+    const p = localParts(new Date(at.getTime() + s.closesInMin * 60000), viewerTimeZone)
+    out.closesAt = hhmm(p.minutes)
+  }
+  if (s.opensAt) {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+      .formatToParts(at)
+      .find(x => x.type === 'timeZoneName')?.value
+    if (name) out.opensAt = `${s.opensAt} ${name}`
+  }
+  return out
+}
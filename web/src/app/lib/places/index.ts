@@ -0,0 +1,85 @@
+// File: src/app/lib/places/index.ts
+// Nearby care for a target care level: ZIP → coordinates and tag-filtered places come
+// from the geo backend (lib/geo). Each place says which level it fits, read from its own
+// tags, whether it is open in the user's time zone, and — for the nearest few — a rating
+// with its provenance from a recognized review provider (lib/places/reviews). Travel
+// times by car, transit and on foot come from lib/routing. Results are nearest first;
+// callers rank them with lib/places/ranking.
+
+import { findRawPlaces, geocodeZip, haversineKm } from '../geo'
+import { travelTimes } from '../routing'
+import { CARE_LEVELS, levelOfTags } from './careLevels'
+import { openStatus, parseOpeningHours } from './hours'
+import { isVerifiedReview, lookupReviews } from './reviews'
+import type { CareLevel, Place } from './types'
+
+export * from './types'
+export { CARE_LEVELS, chooseCareLevel, isCareLevel } from './careLevels'
+export { openStatus, openStatusIn, parseOpeningHours } from './hours'
+export { isVerifiedReview, REVIEW_PROVIDERS } from './reviews'
+export { policyFor, rankPlaces, RISK_PRESETS, sanitizePrefs, scorePlace } from './ranking'
+
+export function toGoogleReviewSearch(name: string, zip?: string) {
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(
+    `${name} ${zip || ''}`.trim(),
+  )}`
+}
+
+/**
+ * Places near a ZIP for a care level, nearest first. Telehealth returns none, and so does
+ * a ZIP no geocoder knows. `timeZone` (IANA, from the browser) is where "open now" is judged.
+ */
+export async function searchPlaces(
+  zip: string,
+  level: CareLevel,
+  opts: { timeZone?: string; now?: Date } = {},
+): Promise<Place[]> {
+  const { osm, radiusKm } = CARE_LEVELS[level]
+  if (!osm.length) return []
+  const geo = await geocodeZip(zip)
+  if (!geo) return []
+  const raw = (await findRawPlaces({ filters: osm, center: geo, radiusKm }))
+    .map(p => ({ p, km: haversineKm(geo, p) }))
+    .sort((a, b) => a.km - b.km)
+
+  // Only named places can be matched to a review listing
+  const reviews = await lookupReviews(
+    raw
+      .filter(({ p }) => p.tags.name)
+      .map(({ p }) => ({ name: p.tags.name, lat: p.lat, lon: p.lon, raw: p })),
+  )
+
+  const travel = await travelTimes(geo, raw.map(({ p }) => p))
+
+  return raw.map(({ p, km }, i) => {
+    const tags = p.tags
+    const fits = levelOfTags(tags, level)
+    const name = tags.name || tags.operator || CARE_LEVELS[fits].label
+    const address = [tags['addr:housenumber'], tags['addr:street'], tags['addr:city']]
+      .filter(Boolean)
+      .join(' ')
+    const hours = tags.opening_hours || undefined
+    const source = reviews.get(p.id)
+    const verified = isVerifiedReview(source)
+    const place: Place = {
+      id: p.id,
+      name,
+      careLevel: fits,
+      address: address || undefined,
+      phone: tags.phone || tags['contact:phone'] || undefined,
+      url: tags.website || tags['contact:website'] || undefined,
+      maps: toGoogleReviewSearch(name, zip),
+      distance_km: km,
+      lat: p.lat,
+      lon: p.lon,
+      travel: travel[i],
+      price: CARE_LEVELS[fits].price,
+      reason: CARE_LEVELS[fits].reason,
+      verified,
+      ...(verified ? { rating: source.rating, reviews: source.count, reviewSource: source } : {}),
+      hours,
+      ...openStatus(parseOpeningHours(hours), opts.now, opts.timeZone),
+    }
+    return place
+  })
+}
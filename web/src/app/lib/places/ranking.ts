@@ -0,0 +1,336 @@
+// File: src/app/lib/places/ranking.ts
+// Rank places under a policy: per-factor weights, hard filters and a travel mode, starting
+// from a preset for the person's risk level and adjusted by what they say matters to them.
+// Every score comes with its factors so the page can show why a place landed where it did.
+// Pure — the chat route ranks with it and the intake page re-ranks when preferences move.
+
+import type { TravelMode } from '../routing/types'
+import type {
+  FactorScore,
+  Place,
+  PlaceScore,
+  RankingFactor,
+  RankingPolicy,
+  RankingPrefs,
+  RankingWeights,
+} from './types'
+
+/** The fields ranking reads; the intake page's own Place mirror satisfies it too */
+export type Rankable = Pick<
+  Place,
+  | 'careLevel'
+  | 'rating'
+  | 'reviews'
+  | 'price'
+  | 'distance_km'
+  | 'travel'
+  | 'est_cost_min'
+  | 'est_cost_max'
+  | 'openNow'
+  | 'closesAt'
+  | 'closesInMin'
+  | 'callReport'
+  | 'outOfPocket'
+  | 'typicalWaitMinutes'
+  | 'virtual'
+  | 'reason'
+  | 'score'
+  | 'scoreNotes'
+> & { verified?: boolean }
+
+export type Risk = RankingPolicy['preset']
+
+export const RANKING_FACTORS: RankingFactor[] = ['rating', 'volume', 'travel', 'cost', 'open', 'wait']
+
+export const FACTOR_LABEL: Record<RankingFactor, string> = {
+  rating: 'Patient rating',
+  volume: 'Review volume',
+  travel: 'Travel time',
+  cost: 'Cost',
+  open: 'Open now',
+  wait: 'Wait',
+}
+
+const MODE_LABEL: Record<TravelMode, string> = {
+  drive: 'by car',
+  transit: 'by transit',
+  walk: 'on foot',
+}
+
+/**
+ * Starting weights by risk. Low risk can shop on reviews and price; moderate needs a place
+ * that is open and quick to reach today; severe is about minutes, so emergency rooms lead.
+ */
+export const RISK_PRESETS: Record<Risk, Omit<RankingPolicy, 'travelMode'>> = {
+  low: {
+    preset: 'low',
+    weights: { rating: 0.4, volume: 0.1, travel: 0.2, cost: 0.2, open: 0.05, wait: 0.05 },
+    filters: {},
+    fastestErFirst: false,
+  },
+  moderate: {
+    preset: 'moderate',
+    weights: { rating: 0.25, volume: 0.05, travel: 0.25, cost: 0.1, open: 0.2, wait: 0.15 },
+    filters: {},
+    fastestErFirst: false,
+  },
+  severe: {
+    preset: 'severe',
+    weights: { rating: 0.05, volume: 0, travel: 0.6, cost: 0, open: 0.2, wait: 0.15 },
+    filters: {},
+    fastestErFirst: true,
+  },
+}
+
+/* ============================== Policy ============================== */
+
+const positive = (n: unknown) => (typeof n === 'number' && Number.isFinite(n) && n > 0 ? n : undefined)
+
+function normalize(w: RankingWeights): RankingWeights {
+  const total = RANKING_FACTORS.reduce((sum, f) => sum + Math.max(0, w[f]), 0)
+  const out = {} as RankingWeights
+  for (const f of RANKING_FACTORS) out[f] = total > 0 ? Math.max(0, w[f]) / total : 1 / RANKING_FACTORS.length
+  return out
+}
+
+/** Keep prefs from a request body within bounds; anything malformed is dropped. */
+export function sanitizePrefs(input: unknown): RankingPrefs {
+  const p = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const e = (p.emphasis && typeof p.emphasis === 'object' ? p.emphasis : {}) as Record<string, unknown>
+  const emphasis: RankingPrefs['emphasis'] = {}
+  for (const k of ['rating', 'travel', 'cost', 'wait'] as const) {
+    const v = e[k]
+    if (typeof v === 'number' && Number.isFinite(v)) emphasis[k] = Math.max(0, Math.min(1, v))
+  }
+  const mode = p.travelMode
+  return {
+    emphasis,
+    travelMode: mode === 'drive' || mode === 'transit' || mode === 'walk' ? mode : undefined,
+    maxTravelMinutes: positive(p.maxTravelMinutes),
+    maxCost: positive(p.maxCost),
+  }
+}
+
+/**
+ * The preset for `risk` with the user's prefs applied. Emphasis scales a factor's weight
+ * (review volume follows rating); weights are renormalized afterwards. At severe risk the
+ * fastest-ER-first rule stays on whatever the sliders say.
+ */
+export function policyFor(risk: Risk | null | undefined, prefs: RankingPrefs = {}): RankingPolicy {
+  const preset = RISK_PRESETS[risk ?? 'low']
+  const scale = (k: keyof NonNullable<RankingPrefs['emphasis']>) => {
+    const v = prefs.emphasis?.[k]
+    return typeof v === 'number' ? v * 2 : 1
+  }
+  const w = preset.weights
+  return {
+    preset: preset.preset,
+    weights: normalize({
+      rating: w.rating * scale('rating'),
+      volume: w.volume * scale('rating'),
+      travel: w.travel * scale('travel'),
+      cost: w.cost * scale('cost'),
+      open: w.open,
+      wait: w.wait * scale('wait'),
+    }),
+    filters: {
+      ...preset.filters,
+      ...(prefs.maxTravelMinutes ? { maxTravelMinutes: prefs.maxTravelMinutes } : {}),
+      ...(prefs.maxCost ? { maxCost: prefs.maxCost } : {}),
+    },
+    travelMode: prefs.travelMode ?? 'drive',
+    fastestErFirst: preset.fastestErFirst,
+  }
+}
+
+/* ============================== Factors ============================== */
+
+const clamp = (n: number, a: number, b: number) => Math.max(a, Math.min(b, n))
+
+/** Minutes to reach a place by `mode`; the straight line at city speed when there is no estimate */
+export function travelMinutes(p: Rankable, mode: TravelMode): number | undefined {
+  const t = p.travel?.[mode]?.minutes
+  if (typeof t === 'number') return t
+  return typeof p.distance_km === 'number' ? Math.round(p.distance_km * 2 + 4) : undefined
+}
+
+/** Fastest way there, across every mode with an estimate */
+export function fastestMinutes(p: Rankable): number | undefined {
+  const known = Object.values(p.travel || {})
+    .map(t => t?.minutes)
+    .filter((m): m is number => typeof m === 'number')
+  return known.length ? Math.min(...known) : travelMinutes(p, 'drive')
+}
+
+/** Upper end of the cost we know of: the user's share, else quoted or estimated dollars */
+function costCeiling(p: Rankable) {
+  return p.outOfPocket?.max ?? p.est_cost_max ?? p.est_cost_min
+}
+
+/** 45 → "45 min", 240 → "4 h", 2880 → "2 days" */
+function waitLabel(min: number) {
+  if (min < 90) return `${min} min`
+  if (min < 24 * 60) return `${Math.round(min / 60)} h`
+  const days = Math.round(min / (24 * 60))
+  return `${days} day${days === 1 ? '' : 's'}`
+}
+
+const PRICE_BAND = { $: 1, $$: 2, $$$: 3, $$$$: 4 } as const
+
+/** Each factor as 0–1 plus what it was read from; `known: false` scores a neutral 0.5 */
+function factorValue(
+  f: RankingFactor,
+  p: Rankable,
+  mode: TravelMode,
+): { value: number; known: boolean; detail: string } {
+  const unknown = (detail: string) => ({ value: 0.5, known: false, detail })
+  switch (f) {
+    case 'rating':
+      return typeof p.rating === 'number'
+        ? { value: clamp(p.rating, 0, 5) / 5, known: true, detail: `${p.rating.toFixed(1)}★` }
+        : unknown('No verified rating')
+    case 'volume':
+      return typeof p.reviews === 'number' && p.reviews > 0
+        ? {
+            value: Math.min(1, Math.log10(p.reviews + 1) / 2.3),
+            known: true,
+            detail: `${p.reviews} review${p.reviews === 1 ? '' : 's'}`,
+          }
+        : unknown('No verified reviews')
+    case 'travel': {
+      if (p.virtual) return { value: 1, known: true, detail: 'No trip: video or phone' }
+      const m = travelMinutes(p, mode)
+      // Full marks within 10 minutes, nothing past an hour
+      return typeof m === 'number'
+        ? { value: 1 - clamp((m - 10) / 50, 0, 1), known: true, detail: `${m} min ${MODE_LABEL[mode]}` }
+        : unknown('Travel time not known')
+    }
+    case 'cost': {
+      // What the user pays once their plan applies beats the sticker price
+      const oop = p.outOfPocket
+      if (oop) {
+        return {
+          value: clamp(1 - (oop.min + oop.max) / 2 / 450, 0, 1),
+          known: true,
+          detail: `$${oop.min}${oop.max !== oop.min ? `–$${oop.max}` : ''} for you · ${oop.note}`,
+        }
+      }
+      const lo = p.est_cost_min ?? p.est_cost_max
+      const hi = p.est_cost_max ?? p.est_cost_min
+      if (typeof lo === 'number' && typeof hi === 'number') {
+        const mid = (lo + hi) / 2
+        return {
+          value: clamp(1 - mid / 450, 0, 1),
+          known: true,
+          detail: `$${Math.round(lo)}${hi !== lo ? `–$${Math.round(hi)}` : ''}${
+            p.callReport ? ' quoted' : ' estimated'
+          }`,
+        }
+      }
+      return p.price
+        ? {
+            value: clamp(1 - (PRICE_BAND[p.price] - 1) / 3, 0, 1),
+            known: true,
+            detail: `Price band ${p.price} (typical for the setting)`,
+          }
+        : unknown('Cost not known')
+    }
+    case 'open':
+      if (p.openNow === true) {
+        const soon = typeof p.closesInMin === 'number' && p.closesInMin < 90
+        return {
+          value: soon ? 0.6 : 1,
+          known: true,
+          detail: p.closesAt ? `${soon ? 'Closes soon' : 'Open'} · until ${p.closesAt}` : 'Open 24/7',
+        }
+      }
+      return p.openNow === false ? { value: 0, known: true, detail: 'Closed now' } : unknown('Hours not listed')
+    case 'wait': {
+      const quoted = p.callReport?.waitMinutes
+      const w = quoted ?? p.typicalWaitMinutes
+      // A two-hour wait or longer scores nothing
+      return typeof w === 'number'
+        ? {
+            value: 1 - clamp(w / 120, 0, 1),
+            known: true,
+            detail: quoted !== undefined ? `About ${w} min, per the front desk` : `Typically ${waitLabel(w)}`,
+          }
+        : unknown('Not known — a call can ask')
+    }
+  }
+}
+
+const round = (n: number) => Number(n.toFixed(2))
+
+export function scorePlace(p: Rankable, policy: RankingPolicy): PlaceScore {
+  const factors: FactorScore[] = RANKING_FACTORS.map(f => {
+    const v = factorValue(f, p, policy.travelMode)
+    return {
+      factor: f,
+      label: FACTOR_LABEL[f],
+      value: round(v.value * 5),
+      weight: round(policy.weights[f]),
+      known: v.known,
+      detail: v.detail,
+    }
+  })
+  const overall = factors.reduce((sum, x) => sum + x.value * policy.weights[x.factor], 0)
+  return { overall: round(overall), factors }
+}
+
+/** "Mostly travel time (12 min by car) and patient rating (4.6★)." from the biggest known parts */
+export function explainScore(score: PlaceScore): string {
+  const top = score.factors
+    .filter(f => f.known && f.weight > 0)
+    .sort((a, b) => b.value * b.weight - a.value * a.weight)
+    .slice(0, 2)
+    .map(f => `${f.label.toLowerCase()} (${f.detail})`)
+  return top.length ? `Mostly ${top.join(' and ')}.` : ''
+}
+
+/* ============================== Ranking ============================== */
+
+/** Why a place fails the policy's hard filters, or null when it passes */
+export function excludedBy(p: Rankable, policy: RankingPolicy): string | null {
+  const f = policy.filters
+  // Virtual providers come from a curated catalog, not map data, so there's nothing to verify
+  if (f.verifiedOnly && p.verified !== true && !p.virtual) return 'no verified rating'
+  if (f.openOnly && p.openNow === false) return 'closed now'
+  // ERs are never dropped for distance or price: at severe risk the nearest one has to show
+  if (p.careLevel === 'er') return null
+  const m = travelMinutes(p, policy.travelMode)
+  if (f.maxTravelMinutes && typeof m === 'number' && m > f.maxTravelMinutes) {
+    return `over ${f.maxTravelMinutes} min away`
+  }
+  const cost = costCeiling(p)
+  if (f.maxCost && typeof cost === 'number' && cost > f.maxCost) return `over $${f.maxCost}`
+  return null
+}
+
+export function filterPlaces<T extends Rankable>(places: T[], policy: RankingPolicy): T[] {
+  return places.filter(p => !excludedBy(p, policy))
+}
+
+const byScore = (a: Rankable, b: Rankable) => (b.score?.overall ?? 0) - (a.score?.overall ?? 0)
+
+/** Filter, score and sort. Each place comes back with `score` and `scoreNotes` set. */
+export function rankPlaces<T extends Rankable>(places: T[], policy: RankingPolicy): T[] {
+  const scored = filterPlaces(places, policy).map(p => {
+    const score = scorePlace(p, policy)
+    return { ...p, score, scoreNotes: explainScore(score) }
+  })
+  if (!policy.fastestErFirst) return scored.sort(byScore)
+
+  // Minutes matter more than ratings: the fastest-reachable ER leads, whatever its stars
+  const er = scored
+    .filter(p => p.careLevel === 'er')
+    .sort((a, b) => (fastestMinutes(a) ?? 999) - (fastestMinutes(b) ?? 999))
+    .map((p, i) => {
+      const m = fastestMinutes(p)
+      return i === 0 && typeof m === 'number'
+        ? { ...p, reason: `Fastest emergency room to reach (~${m} min)` }
+        : p
+    })
+  const rest = scored.filter(p => p.careLevel !== 'er').sort(byScore)
+  return [...er, ...rest]
+}
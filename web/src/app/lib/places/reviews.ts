@@ -0,0 +1,218 @@
+// File: src/app/lib/places/reviews.ts
+// Review provenance for places. A place is `verified` only when a recognized review
+// provider returned a rating and a review count for it, and we recorded where and when.
+// A search link is not a review; neither is a rating we can't trace to a source.
+//
+// Config (all optional):
+//   NT_REVIEW_PROVIDERS=google,yelp      lookup order (default: every provider with a key;
+//                                        "fixture" is opt-in, for dev with NT_GEO_PLACES=fixture)
+//   GOOGLE_PLACES_API_KEY=...            Google Places API (New)
+//   YELP_API_KEY=...                     Yelp Fusion
+//   NT_REVIEW_TTL_MS=604800000           reuse a lookup for 7 days
+//   NT_REVIEW_MAX_LOOKUPS=10             nearest N places get looked up per search
+
+import { hostOf, matchesAny } from '../domainPolicy'
+import type { RawPlace } from '../geo'
+import type { ReviewProvider, ReviewSource } from './types'
+
+export const REVIEW_PROVIDERS: Record<ReviewProvider, { label: string; hosts: string[] }> = {
+  google: { label: 'Google', hosts: ['google.com'] },
+  yelp: { label: 'Yelp', hosts: ['yelp.com'] },
+  fixture: { label: 'Sample data', hosts: [] },
+}
+
+type Candidate = { name: string; lat: number; lon: number; raw: RawPlace }
+
+type ReviewLookup = {
+  provider: ReviewProvider
+  available(): boolean
+  lookup(c: Candidate): Promise<ReviewSource | null>
+}
+
+const timeoutMs = () => Number(process.env.NT_GEO_TIMEOUT_MS) || 8000
+const ttlMs = () => Number(process.env.NT_REVIEW_TTL_MS) || 7 * 24 * 3600_000
+const maxLookups = () => Number(process.env.NT_REVIEW_MAX_LOOKUPS) || 10
+
+/* ============================== Verification ============================== */
+
+const hostOk = (url: string, hosts: string[]) =>
+  /^https:\/\//i.test(url) && matchesAny(hostOf(url), hosts)
+
+/** The only test the UI relies on: recognized provider, real numbers, traceable source. */
+export function isVerifiedReview(s?: ReviewSource | null): s is ReviewSource {
+  if (!s || !(s.provider in REVIEW_PROVIDERS)) return false
+  const { hosts } = REVIEW_PROVIDERS[s.provider]
+  return (
+    Number.isFinite(s.rating) &&
+    s.rating > 0 &&
+    s.rating <= 5 &&
+    Number.isInteger(s.count) &&
+    s.count > 0 &&
+    !Number.isNaN(Date.parse(s.fetchedAt)) &&
+    (s.provider === 'fixture' || hostOk(s.url, hosts))
+  )
+}
+
+/* ============================== Name matching ============================== */
+
+const tokens = (s: string) =>
+  new Set(
+    s
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(t => t.length > 1 && !['the', 'of', 'and', 'at', 'inc', 'llc'].includes(t)),
+  )
+
+/** A provider's best hit must look like the same business, or we'd borrow a neighbour's rating. */
+function sameBusiness(a: string, b: string) {
+  const x = tokens(a)
+  const y = tokens(b)
+  if (!x.size || !y.size) return false
+  const shared = [...x].filter(t => y.has(t)).length
+  return shared / Math.min(x.size, y.size) >= 0.6
+}
+
+/* ============================== Providers ============================== */
+
+const google: ReviewLookup = {
+  provider: 'google',
+  available: () => !!process.env.GOOGLE_PLACES_API_KEY,
+  async lookup(c) {
+    const r = await fetch('https://places.googleapis.com/v1/places:searchText', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': process.env.GOOGLE_PLACES_API_KEY!,
+        'X-Goog-FieldMask': 'places.id,places.displayName,places.rating,places.userRatingCount,places.googleMapsUri',
+      },
+      body: JSON.stringify({
+        textQuery: c.name,
+        maxResultCount: 1,
+        locationBias: { circle: { center: { latitude: c.lat, longitude: c.lon }, radius: 500 } },
+      }),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(timeoutMs()),
+    })
+    if (!r.ok) throw new Error(`Google Places ${r.status}`)
+    const hit = (await r.json())?.places?.[0]
+    if (!hit || !sameBusiness(c.name, hit.displayName?.text || '')) return null
+    return {
+      provider: 'google',
+      providerId: hit.id,
+      url: hit.googleMapsUri,
+      rating: Number(hit.rating),
+      count: Number(hit.userRatingCount),
+      fetchedAt: new Date().toISOString(),
+    }
+  },
+}
+
+const yelp: ReviewLookup = {
+  provider: 'yelp',
+  available: () => !!process.env.YELP_API_KEY,
+  async lookup(c) {
+    const q = new URLSearchParams({
+      term: c.name,
+      latitude: String(c.lat),
+      longitude: String(c.lon),
+      radius: '500',
+      limit: '1',
+    })
+    const r = await fetch(`https://api.yelp.com/v3/businesses/search?${q}`, {
+      headers: { Authorization: `Bearer ${process.env.YELP_API_KEY}` },
+      cache: 'no-store',
+      signal: AbortSignal.timeout(timeoutMs()),
+    })
+    if (!r.ok) throw new Error(`Yelp ${r.status}`)
+    const hit = (await r.json())?.businesses?.[0]
+    if (!hit || !sameBusiness(c.name, hit.name || '')) return null
+    return {
+      provider: 'yelp',
+      providerId: hit.id,
+      url: String(hit.url || '').split('?')[0],
+      rating: Number(hit.rating),
+      count: Number(hit.review_count),
+      fetchedAt: new Date().toISOString(),
+    }
+  },
+}
+
+/** Ratings carried on fixture places (tags fixture:rating / fixture:review_count). */
+const fixture: ReviewLookup = {
+  provider: 'fixture',
+  available: () => true,
+  async lookup(c) {
+    const rating = Number(c.raw.tags['fixture:rating'])
+    const count = Number(c.raw.tags['fixture:review_count'])
+    if (!rating || !count) return null
+    return {
+      provider: 'fixture',
+      providerId: c.raw.id,
+      url: '',
+      rating,
+      count,
+      fetchedAt: new Date().toISOString(),
+    }
+  },
+}
+
+const LOOKUPS: Record<ReviewProvider, ReviewLookup> = { google, yelp, fixture }
+
+export function reviewProviderOrder(): ReviewProvider[] {
+  const fromEnv = (process.env.NT_REVIEW_PROVIDERS || '')
+    .split(',')
+    .map(s => s.trim().toLowerCase())
+    .filter((s): s is ReviewProvider => s in LOOKUPS)
+  return fromEnv.length ? fromEnv : (['google', 'yelp'] as ReviewProvider[])
+}
+
+/* ============================== Lookup with cache ============================== */
+
+declare global {
+  var __reviewCache: Map<string, { at: number; source: ReviewSource | null }> | undefined
+}
+
+function cache() {
+  if (!globalThis.__reviewCache) globalThis.__reviewCache = new Map()
+  return globalThis.__reviewCache
+}
+
+async function reviewFor(c: Candidate): Promise<ReviewSource | null> {
+  const key = `${c.raw.id}|${c.name}`
+  const hit = cache().get(key)
+  if (hit && Date.now() - hit.at < ttlMs()) return hit.source
+
+  let failed = false
+  for (const p of reviewProviderOrder()) {
+    const lookup = LOOKUPS[p]
+    if (!lookup.available()) continue
+    try {
+      const source = await lookup.lookup(c)
+      if (isVerifiedReview(source)) {
+        cache().set(key, { at: Date.now(), source })
+        return source
+      }
+    } catch (e) {
+      console.warn(`[places/reviews] ${p} lookup failed:`, e instanceof Error ? e.message : e)
+      failed = true
+    }
+  }
+  // Don't cache a "none" a failed provider might have answered: the next search can try again
+  if (!failed) cache().set(key, { at: Date.now(), source: null })
+  return null
+}
+
+/**
+ * Review sources for the first `NT_REVIEW_MAX_LOOKUPS` candidates (callers pass them
+ * nearest first), keyed by raw place id. Places without one stay unverified.
+ */
+export async function lookupReviews(candidates: Candidate[]): Promise<Map<string, ReviewSource>> {
+  const out = new Map<string, ReviewSource>()
+  if (!reviewProviderOrder().some(p => LOOKUPS[p].available())) return out
+  const picked = candidates.slice(0, maxLookups())
+  const found = await Promise.all(picked.map(reviewFor))
+  found.forEach((s, i) => {
+    if (s) out.set(picked[i].raw.id, s)
+  })
+  return out
+}
@@ -0,0 +1,223 @@
+// Shapes for nearby-care search (server-side; the intake page mirrors Place).
+
+import type { TravelMode } from '../routing/types'
+
+/** Where someone should go, from most to least acute. Telehealth has no physical places. */
+export type CareLevel =
+  | 'er'
+  | 'urgent_care'
+  | 'primary_care'
+  | 'mental_health'
+  | 'dental'
+  | 'pharmacy'
+  | 'telehealth'
+
+export type CareLevelInfo = {
+  level: CareLevel
+  label: string
+  /** Overpass tag filters, e.g. `["amenity"="pharmacy"]`; empty = nothing to search on the map */
+  osm: string[]
+  /** Search radius around the ZIP centroid */
+  radiusKm: number
+  /** Typical price band for the setting — a proxy, not a quote from the facility */
+  price: '$' | '$$' | '$$$' | '$$$$'
+  /** Shown on each place as why it was suggested */
+  reason: string
+}
+
+/** The level chosen for a turn and what drove it, returned alongside places. */
+export type CareLevelChoice = {
+  level: CareLevel
+  label: string
+  why: 'risk' | 'topic' | 'requested'
+}
+
+/** Review services whose ratings we accept; `fixture` is sample data for dev */
+export type ReviewProvider = 'google' | 'yelp' | 'fixture'
+
+/** Where a place's rating came from, as returned by the provider at `fetchedAt`. */
+export type ReviewSource = {
+  provider: ReviewProvider
+  /** The provider's own id for the business */
+  providerId?: string
+  /** The business's page on the provider; empty for fixtures */
+  url: string
+  rating: number
+  count: number
+  /** ISO timestamp of the lookup */
+  fetchedAt: string
+}
+
+/** What a "call for me" session heard from the place (lib/call) */
+export type PlaceCallReport = {
+  sessionId: string
+  /** ISO time the call finished */
+  at: string
+  availableToday?: boolean
+  /** Next opening as the front desk said it, e.g. "Thursday at 10:30" */
+  nextAvailable?: string
+  waitMinutes?: number
+  acceptsInsurance?: boolean
+}
+
+/** How a virtual provider sees people, and whether it can see this user (lib/telehealth) */
+export type TelehealthInfo = {
+  modes: ('video' | 'phone' | 'chat')[]
+  /** Two-letter states it's licensed in; ["*"] = all 50 + DC */
+  states: string[]
+  /** The user's state, from their ZIP */
+  userState?: string
+  /** undefined when the user's state is unknown */
+  licensedHere?: boolean
+  /** Conditions it treats that match what the user described */
+  matched: string[]
+}
+
+/** How an out-of-pocket estimate was reached (lib/insurance) */
+export type CostBasis = 'copay' | 'coinsurance' | 'deductible' | 'out_of_network' | 'self_pay'
+
+export type OutOfPocket = {
+  min: number
+  max: number
+  basis: CostBasis
+  /** One line on how it was worked out, e.g. "$40 urgent care copay" */
+  note: string
+}
+
+/** One priced item in a visit estimate: the visit itself or a likely service */
+export type CostLine = {
+  id: string
+  label: string
+  min: number
+  max: number
+}
+
+/** What a visit here is likely to cost before insurance (lib/costs) */
+export type CostEstimate = {
+  min: number
+  max: number
+  lines: CostLine[]
+  /** State price adjustment, when the ZIP is known */
+  region?: { state: string; factor: number }
+  /** Said next to the numbers, e.g. "Assumes an X-ray of one area" */
+  assumptions: string[]
+}
+
+/* ============================== Ranking ============================== */
+
+/** What a place is scored on (lib/places/ranking) */
+export type RankingFactor = 'rating' | 'volume' | 'travel' | 'cost' | 'open' | 'wait'
+
+/** Relative weights; normalized to sum to 1 before use */
+export type RankingWeights = Record<RankingFactor, number>
+
+/** Hard limits: a place that fails one is dropped, whatever its score */
+export type RankingFilters = {
+  maxTravelMinutes?: number
+  /** Upper end of the estimated or quoted cost, in dollars */
+  maxCost?: number
+  verifiedOnly?: boolean
+  /** Drop places known to be closed (unknown hours pass) */
+  openOnly?: boolean
+}
+
+/** The weights, filters and travel mode a list is ranked by */
+export type RankingPolicy = {
+  /** The risk preset it started from */
+  preset: 'low' | 'moderate' | 'severe'
+  weights: RankingWeights
+  filters: RankingFilters
+  travelMode: TravelMode
+  /** Emergency rooms lead, fastest first, before anything scored */
+  fastestErFirst: boolean
+}
+
+/**
+ * What the user said matters to them. `emphasis` is 0–1 per factor with 0.5 meaning "as
+ * the preset has it"; 0 drops the factor, 1 doubles it.
+ */
+export type RankingPrefs = {
+  emphasis?: Partial<Record<'rating' | 'travel' | 'cost' | 'wait', number>>
+  travelMode?: TravelMode
+  maxTravelMinutes?: number
+  maxCost?: number
+}
+
+/** One factor's part in a place's score */
+export type FactorScore = {
+  factor: RankingFactor
+  label: string
+  /** 0–5; unknown data scores a neutral 2.5 */
+  value: number
+  /** Normalized weight, 0–1 */
+  weight: number
+  known: boolean
+  /** The data behind the value, e.g. "12 min by car" */
+  detail: string
+}
+
+export type PlaceScore = {
+  /** Weighted mean of the factors, 0–5 */
+  overall: number
+  factors: FactorScore[]
+}
+
+export type Place = {
+  id: string
+  name: string
+  /** Video or phone care with no physical location: no lat/lon, distance or travel */
+  virtual?: boolean
+  telehealth?: TelehealthInfo
+  /** The care level this place fits, from its OSM tags */
+  careLevel?: CareLevel
+  /** Copied from `reviewSource` — never set without one */
+  rating?: number
+  reviews?: number
+  /** True only when `reviewSource` passed isVerifiedReview; the client gate trusts this alone */
+  verified: boolean
+  reviewSource?: ReviewSource
+  price?: '$' | '$$' | '$$$' | '$$$$'
+  address?: string
+  /** Straight-line distance from the ZIP centre; rank on `travel` instead */
+  distance_km?: number
+  lat?: number
+  lon?: number
+  /** One-way travel time from the ZIP centre by mode */
+  travel?: Partial<Record<TravelMode, { minutes: number; distanceKm: number; engine: string }>>
+  image?: string
+  phone?: string
+  url?: string
+  maps?: string
+  reason?: string
+  /** Self-pay range: a phone quote when there is one, else `costEstimate` */
+  est_cost_min?: number
+  est_cost_max?: number
+  costEstimate?: CostEstimate
+  /** OSM `opening_hours` as tagged, e.g. "Mo-Fr 08:00-17:00; PH off" */
+  hours?: string
+  /** IANA zone `hours` are posted in; absent = judged in the user's own zone */
+  hoursTimeZone?: string
+  /** At search time in the user's time zone; absent when hours are unknown */
+  openNow?: boolean
+  /** Local "HH:MM" the current opening ends */
+  closesAt?: string
+  closesInMin?: number
+  /** Next opening when closed, e.g. "Tu 08:00" */
+  opensAt?: string
+  /** Latest call outcome; its quoted price, if any, is in est_cost_min/max */
+  callReport?: PlaceCallReport
+  /** Wait the provider typically reports, in minutes; a call's quoted wait wins */
+  typicalWaitMinutes?: number
+  /** From the provider directory for the user's plan (lib/insurance); undefined = unknown */
+  in_network?: boolean
+  /** 0–1: how far to trust `in_network` */
+  network_confidence?: number
+  /** Which directory answered and any caveat */
+  networkNote?: string
+  /** The visit's cost after the user's copay, coinsurance or deductible; ranking prefers it */
+  outOfPocket?: OutOfPocket
+  /** Set by rankPlaces under the policy it was given */
+  score?: PlaceScore
+  /** One line on what drove the score */
+  scoreNotes?: string
+}
@@ -0,0 +1,153 @@
+// File: src/app/lib/plans/diff.ts
+// What changed between two versions of a plan, as data (diffPlans) and as a sentence a
+// person can read at a glance (describeRevision: "Stella added 2 tasks and raised urgency
+// on 1"). Pure, so the tasks page can word changes the same way the API does.
+
+import type { Plan, PlanAuthor, Step, Task, Urgency } from './schema'
+import type { FieldChange, FieldValue, PlanDiff, TaskChange } from './types'
+
+const TASK_FIELDS = [
+  'title',
+  'status',
+  'dueAt',
+  'urgency',
+  'rationale',
+  'notes',
+  'linkedPlaceId',
+  'linkedInsightId',
+] as const satisfies readonly (keyof Task)[]
+
+const PLAN_FIELDS = ['title', 'risk', 'evidenceLock'] as const satisfies readonly (keyof Plan)[]
+
+const URGENCY_RANK: Record<Urgency, number> = { info: 0, elevated: 1, severe: 2 }
+
+const AUTHOR_LABEL: Record<PlanAuthor, string> = { user: 'You', stella: 'Stella', coach: 'The coach' }
+
+const value = (v: string | boolean | null | undefined): FieldValue => v ?? null
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((x, i) => x === b[i])
+
+function fieldChanges<T, K extends keyof T>(before: T, after: T, fields: readonly K[]): FieldChange[] {
+  return fields.flatMap(field => {
+    const from = value(before[field] as string | boolean | null | undefined)
+    const to = value(after[field] as string | boolean | null | undefined)
+    return from === to ? [] : [{ field: String(field), from, to }]
+  })
+}
+
+function stepChanges(before: Step[], after: Step[]): TaskChange['steps'] {
+  const was = new Map(before.map(s => [s.id, s]))
+  const now = new Set(after.map(s => s.id))
+  const counts = { added: 0, removed: before.filter(s => !now.has(s.id)).length, checked: 0, unchecked: 0, edited: 0 }
+  for (const s of after) {
+    const prev = was.get(s.id)
+    if (!prev) counts.added++
+    else {
+      if (prev.done !== s.done) counts[s.done ? 'checked' : 'unchecked']++
+      if (prev.text !== s.text) counts.edited++
+    }
+  }
+  return Object.values(counts).some(Boolean) ? counts : undefined
+}
+
+function taskChange(before: Task, after: Task): TaskChange | undefined {
+  const fields = fieldChanges(before, after, TASK_FIELDS)
+  const urls = (t: Task) => t.citations.map(c => c.url)
+  if (!sameList(urls(before), urls(after))) fields.push({ field: 'citations', from: urls(before), to: urls(after) })
+  const steps = stepChanges(before.steps, after.steps)
+  if (!fields.length && !steps) return undefined
+  return { id: after.id, title: after.title, fields, ...(steps && { steps }) }
+}
+
+/** `before` is undefined for a plan being created */
+export function diffPlans(before: Plan | undefined, after: Plan): PlanDiff {
+  const was = new Map((before?.tasks ?? []).map(t => [t.id, t]))
+  const now = new Set(after.tasks.map(t => t.id))
+  const ref = (t: Task) => ({ id: t.id, title: t.title })
+
+  const plan = before ? fieldChanges(before, after, PLAN_FIELDS) : []
+  if (before && !sameList(before.solutionSteps, after.solutionSteps)) {
+    plan.push({ field: 'solutionSteps', from: before.solutionSteps, to: after.solutionSteps })
+  }
+
+  const kept = (before?.tasks ?? []).filter(t => now.has(t.id)).map(t => t.id)
+  return {
+    added: after.tasks.filter(t => !was.has(t.id)).map(ref),
+    removed: (before?.tasks ?? []).filter(t => !now.has(t.id)).map(ref),
+    changed: after.tasks.flatMap(t => {
+      const prev = was.get(t.id)
+      const c = prev && taskChange(prev, t)
+      return c ? [c] : []
+    }),
+    reordered: !sameList(kept, after.tasks.filter(t => was.has(t.id)).map(t => t.id)),
+    plan,
+  }
+}
+
+export const isEmptyDiff = (d: PlanDiff) =>
+  !d.added.length && !d.removed.length && !d.changed.length && !d.reordered && !d.plan.length
+
+/* ============================== Wording ============================== */
+
+const tasks = (n: number) => `${n} task${n === 1 ? '' : 's'}`
+
+function joinPhrases(parts: string[]): string {
+  if (parts.length <= 1) return parts[0] ?? ''
+  return `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+}
+
+/** "added 2 tasks", "raised urgency on 1", …; empty when nothing changed */
+export function describeDiff(d: PlanDiff): string[] {
+  const count = (pred: (c: TaskChange) => boolean) => d.changed.filter(pred).length
+  const changeOf = (c: TaskChange, field: string) => c.fields.find(f => f.field === field)
+  const urgencyMoved = (c: TaskChange, dir: 1 | -1) => {
+    const f = changeOf(c, 'urgency')
+    const rank = (v: FieldValue) => (typeof v === 'string' ? URGENCY_RANK[v as Urgency] ?? 0 : 0)
+    return !!f && Math.sign(rank(f.to) - rank(f.from)) === dir
+  }
+  const stepsCount = (key: keyof NonNullable<TaskChange['steps']>) =>
+    d.changed.reduce((n, c) => n + (c.steps?.[key] ?? 0), 0)
+
+  const completed = count(c => changeOf(c, 'status')?.to === 'done')
+  const reopened = count(c => changeOf(c, 'status')?.from === 'done')
+  const started = count(c => changeOf(c, 'status')?.to === 'doing' && changeOf(c, 'status')?.from !== 'done')
+  const raised = count(c => urgencyMoved(c, 1))
+  const lowered = count(c => urgencyMoved(c, -1))
+  const rescheduled = count(c => !!changeOf(c, 'dueAt'))
+  const checked = stepsCount('checked')
+  const stepsAdded = stepsCount('added')
+  // Anything the phrases above don't already cover
+  const edited = count(
+    c =>
+      c.fields.some(f => !['status', 'urgency', 'dueAt'].includes(f.field)) ||
+      !!(c.steps && (c.steps.removed || c.steps.unchecked || c.steps.edited)),
+  )
+  const risk = d.plan.find(f => f.field === 'risk')
+
+  return [
+    d.added.length && `added ${tasks(d.added.length)}`,
+    d.removed.length && `removed ${tasks(d.removed.length)}`,
+    completed && `completed ${completed}`,
+    reopened && `reopened ${reopened}`,
+    started && `started ${started}`,
+    raised && `raised urgency on ${raised}`,
+    lowered && `lowered urgency on ${lowered}`,
+    rescheduled && `rescheduled ${rescheduled}`,
+    checked && `checked off ${checked} step${checked === 1 ? '' : 's'}`,
+    stepsAdded && `added ${stepsAdded} step${stepsAdded === 1 ? '' : 's'}`,
+    edited && `edited ${edited}`,
+    d.reordered && 'reordered the tasks',
+    risk && (risk.to ? `changed the risk to ${risk.to}` : 'cleared the risk'),
+    d.plan.some(f => f.field === 'title') && 'renamed the plan',
+    d.plan.some(f => f.field === 'solutionSteps') && 'updated the summary',
+    d.plan.some(f => f.field === 'evidenceLock') && 'changed the evidence lock',
+  ].filter((p): p is string => !!p)
+}
+
+/** "Stella added 2 tasks and raised urgency on 1" */
+export function describeRevision(r: { author: PlanAuthor; diff: PlanDiff; restoredFrom?: number }): string {
+  const who = AUTHOR_LABEL[r.author]
+  if (r.restoredFrom !== undefined) return `${who} restored version ${r.restoredFrom}`
+  const phrases = describeDiff(r.diff)
+  return `${who} ${phrases.length ? joinPhrases(phrases) : 'made no changes'}`
+}
@@ -0,0 +1,65 @@
+// Fixture sessions for intake → plan. Each lists the task titles (in order) and the
+// urgency of the first task the session must export to. Add a session here whenever the
+// insight shape changes; `npm test` runs them.
+
+import type { FixtureSuite } from '../fixtures'
+import { parseIntakeSession, planFromSession } from './fromSession'
+import type { Urgency } from './schema'
+
+export type PlanFixture = {
+  note: string
+  session: unknown
+  tasks: string[]
+  urgency?: Urgency
+}
+
+export const PLAN_FIXTURES: PlanFixture[] = [
+  {
+    note: 'each next[] step of an insight, as the chat route returns it, becomes a task',
+    session: {
+      sessionId: 'fixture-next-steps',
+      // Low risk alone would make the tasks "info"; the card's urgency must win
+      risk: 'low',
+      insights: [
+        {
+          id: 'uti',
+          title: 'Possible urinary infection',
+          body: 'Burning and frequency for two days without fever.',
+          urgency: 'elevated',
+          why: ['Burning when peeing', 'No fever or back pain'],
+          next: ['Book a same-week visit with your GP', 'Drink plenty of water'],
+          citations: [{ title: 'UTI', url: 'https://medlineplus.gov/urinarytractinfections.html' }],
+        },
+      ],
+      places: [],
+      tasks: [],
+    },
+    tasks: ['Book a same-week visit with your GP', 'Drink plenty of water'],
+    urgency: 'elevated',
+  },
+  {
+    note: 'a card without next[] adds nothing; missing details and follow-ups still do',
+    session: {
+      sessionId: 'fixture-no-next',
+      risk: 'low',
+      insights: [{ id: 'cold', title: 'Common cold', body: 'Runny nose, no fever.' }],
+      facts: { missing: ['How long it has lasted'] },
+      places: [],
+      tasks: [{ id: 't1', title: 'Check temperature tonight' }],
+    },
+    tasks: ['Have these details ready for the clinician', 'Check temperature tonight'],
+  },
+]
+
+export const planSuite: FixtureSuite<PlanFixture> = {
+  name: 'intake → plan',
+  cases: PLAN_FIXTURES,
+  label: f => f.note,
+  run: f => {
+    const tasks = planFromSession(parseIntakeSession(f.session)).tasks
+    return {
+      expected: { tasks: f.tasks, urgency: f.urgency },
+      got: { tasks: tasks.map(t => t.title), urgency: f.urgency && tasks[0]?.urgency },
+    }
+  },
+}
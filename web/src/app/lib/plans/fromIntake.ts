@@ -0,0 +1,37 @@
+import { newId, PLAN_SCHEMA_VERSION, type IntakeSnapshot, type Plan, type Risk, type Task, type Urgency } from './schema'
+
+/** Triage rates the episode; each task carries the matching urgency unless it says otherwise */
+const URGENCY_FOR_RISK: Record<Risk, Urgency> = { low: 'info', moderate: 'elevated', severe: 'severe' }
+
+export function buildPlanFromIntake(s: IntakeSnapshot): Plan {
+  const now = new Date().toISOString()
+  const tasks: Task[] = s.recommendations.map(r => ({
+    id: newId(),
+    title: r.title,
+    status: 'todo',
+    dueAt: r.dueAt ?? null,
+    createdAt: now,
+    updatedAt: now,
+    urgency: r.urgency ?? URGENCY_FOR_RISK[s.risk],
+    requiresEvidence: !!r.requiresEvidence || !!s.evidenceLock,
+    steps: r.steps?.filter(text => text.trim()).map(text => ({ id: newId(), text, done: false })) ?? [],
+    actions: r.actions ?? [],
+    citations: r.citations ?? [],
+    rationale: r.rationale,
+    linkedPlaceId: r.relatedVenueId,
+    fromIntake: true,
+  }))
+
+  return {
+    schemaVersion: PLAN_SCHEMA_VERSION,
+    id: newId(),
+    title: 'Care Plan',
+    createdAt: now,
+    risk: s.risk,
+    tasks,
+    citations: s.citations,
+    solutionSteps: s.summarySteps,
+    evidenceLock: !!s.evidenceLock,
+    sourceSessionId: s.sessionId,
+  }
+}
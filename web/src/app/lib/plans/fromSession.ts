@@ -0,0 +1,222 @@
+// File: src/app/lib/plans/fromSession.ts
+// An intake session as the page holds it (messages, insight cards, extracted facts, ranked
+// places, follow-ups) → the IntakeSnapshot buildPlanFromIntake turns into a plan. Each
+// insight's `next[]` item becomes a recommendation carrying that insight's urgency,
+// reasoning and citations; actions and the linked place are read off the wording.
+//
+// The session schema is lenient: cards from older intake builds lack fields, so only what a
+// plan can't do without (the risk and a session id) is required.
+
+import { z } from 'zod'
+import { buildPlanFromIntake } from './fromIntake'
+import {
+  CitationSchema,
+  describeIssues,
+  parseIntakeSnapshot,
+  parseTasks,
+  PlanSchemaError,
+  RiskSchema,
+  UrgencySchema,
+  type Citation,
+  type IntakeSnapshot,
+  type Plan,
+  type TaskAction,
+} from './schema'
+
+const MAX_RECOMMENDATIONS = 12
+const MAX_SUMMARY_STEPS = 6
+const MAX_CITATIONS = 30
+
+const Strings = z.array(z.string()).catch([])
+const Citations = z.array(CitationSchema.extend({ stale: z.boolean().optional() })).catch([])
+
+export const IntakeSessionSchema = z.object({
+  sessionId: z.string().trim().min(1).max(128),
+  risk: RiskSchema,
+  evidenceLock: z.boolean().optional(),
+  messages: z
+    .array(z.object({ role: z.string(), text: z.string().catch(''), citations: Citations.optional() }))
+    .catch([]),
+  insights: z
+    .array(
+      z.object({
+        title: z.string(),
+        body: z.string().catch(''),
+        urgency: UrgencySchema.optional().catch(undefined),
+        citations: Citations.optional(),
+        why: Strings.optional(),
+        next: Strings.optional(),
+      }),
+    )
+    .catch([]),
+  /** From api/no-trek/extract; only what bears on the plan is read */
+  facts: z
+    .object({
+      missing: Strings.optional(),
+      redFlags: z.array(z.object({ name: z.string(), value: z.boolean().nullable() })).catch([]).optional(),
+    })
+    .nullable()
+    .optional()
+    .catch(undefined),
+  /** Ranked best first, as the page shows them */
+  places: z.array(z.object({ id: z.string(), name: z.string(), virtual: z.boolean().optional() })).catch([]),
+  /** Follow-ups the user added during intake; any task shape lib/plans/schema can migrate */
+  tasks: z.array(z.unknown()).catch([]),
+})
+
+export type IntakeSession = z.output<typeof IntakeSessionSchema>
+
+/** Throws PlanSchemaError when the session has no id or risk */
+export function parseIntakeSession(input: unknown): IntakeSession {
+  const r = IntakeSessionSchema.safeParse(input)
+  if (!r.success) throw new PlanSchemaError(describeIssues(r.error))
+  return r.data
+}
+
+/* ============================== Recommendations ============================== */
+
+const ACTION_HINTS: [TaskAction, RegExp][] = [
+  ['call_ai', /\b(call|phone|ring)\b/i],
+  ['book', /\b(book|appointment|schedul\w*|see (a|your) (doctor|clinician|provider|dentist))\b/i],
+  ['directions', /\b(go to|head to|urgent care|emergency (room|department)|the ER)\b/i],
+  ['message', /\b(message|portal|email)\b/i],
+  ['upload', /\b(upload|photo|picture)\b/i],
+]
+
+/** Actions that need somewhere to do them at */
+const PLACE_ACTIONS = new Set<TaskAction>(['call_ai', 'book', 'directions'])
+
+const actionsFor = (text: string): TaskAction[] => ACTION_HINTS.filter(([, re]) => re.test(text)).map(([a]) => a)
+
+const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim()
+
+/** The place the step names, else the top-ranked one when the step has to happen somewhere */
+function placeFor(text: string, actions: TaskAction[], places: IntakeSession['places']): string | undefined {
+  const lower = text.toLowerCase()
+  const named = places.find(p => p.name.trim() && lower.includes(p.name.trim().toLowerCase()))
+  if (named) return named.id
+  if (!actions.some(a => PLACE_ACTIONS.has(a))) return undefined
+  // A virtual visit has no address to give directions to
+  return places.find(p => !(actions.includes('directions') && p.virtual))?.id
+}
+
+function dedupeCitations(lists: Citation[][]): Citation[] {
+  const byUrl = new Map<string, Citation>()
+  for (const c of lists.flat()) if (!byUrl.has(c.url)) byUrl.set(c.url, c)
+  return [...byUrl.values()].slice(0, MAX_CITATIONS)
+}
+
+/** Citations that failed their latest link check aren't worth carrying into a plan */
+const fresh = (cs: (Citation & { stale?: boolean })[] = []): Citation[] =>
+  cs.filter(c => !c.stale).map(c => CitationSchema.parse(c))
+
+export function snapshotFromSession(s: IntakeSession): IntakeSnapshot {
+  const seen = new Set<string>()
+  const recommendations: IntakeSnapshot['recommendations'] = []
+  for (const card of s.insights) {
+    const citations = fresh(card.citations)
+    const rationale = (card.why?.length ? card.why.join(' ') : `${card.title}: ${card.body}`).slice(0, 2000)
+    for (const step of card.next ?? []) {
+      const title = step.trim().slice(0, 200)
+      if (!title || seen.has(normalize(title))) continue
+      seen.add(normalize(title))
+      const actions = actionsFor(title)
+      recommendations.push({
+        title,
+        rationale,
+        citations,
+        actions,
+        urgency: card.urgency,
+        relatedVenueId: placeFor(title, actions, s.places),
+      })
+    }
+  }
+
+  const nextSteps = recommendations.slice(0, MAX_SUMMARY_STEPS).map(r => r.title)
+
+  const missing = (s.facts?.missing ?? []).map(m => m.trim()).filter(Boolean)
+  if (missing.length) {
+    recommendations.push({
+      title: 'Have these details ready for the clinician',
+      rationale: "Intake couldn't pin these down; expect to be asked.",
+      steps: missing.slice(0, 8),
+      urgency: 'info',
+    })
+  }
+
+  const redFlags = (s.facts?.redFlags ?? []).filter(f => f.value === true).map(f => f.name)
+  const summarySteps = redFlags.length ? [`Mention first: ${redFlags.join(', ')}`, ...nextSteps] : nextSteps
+
+  return parseIntakeSnapshot({
+    sessionId: s.sessionId,
+    risk: s.risk,
+    recommendations: recommendations.slice(0, MAX_RECOMMENDATIONS),
+    summarySteps,
+    citations: dedupeCitations([
+      ...s.insights.map(i => fresh(i.citations)),
+      ...s.messages.filter(m => m.role === 'assistant').map(m => fresh(m.citations)),
+    ]),
+    evidenceLock: s.evidenceLock,
+  })
+}
+
+/** The plan for a session: its recommendations, then the user's own follow-ups not already covered */
+export function planFromSession(s: IntakeSession): Plan {
+  const plan = buildPlanFromIntake(snapshotFromSession(s))
+  const titles = new Set(plan.tasks.map(t => normalize(t.title)))
+  const ids = new Set(plan.tasks.map(t => t.id))
+  const followUps = parseTasks(s.tasks)
+    .filter(t => !titles.has(normalize(t.title)) && !ids.has(t.id))
+    .map(t => ({ ...t, fromIntake: true }))
+  return { ...plan, tasks: [...plan.tasks, ...followUps] }
+}
+
+/**
+ * A fresh plan for the session folded into the one already made from it. New
+ * recommendations are added; ones already there take the new urgency, reasoning, sources
+ * and any new steps. Nothing the user did (status, notes, ticked steps, their own tasks,
+ * the order) is undone, and nothing is removed.
+ */
+export function replan(current: Plan, fresh: Plan): Plan {
+  const now = new Date().toISOString()
+  const freshByTitle = new Map(fresh.tasks.map(t => [normalize(t.title), t]))
+  const matched = new Set<string>()
+
+  const tasks = current.tasks.map(t => {
+    const next = freshByTitle.get(normalize(t.title))
+    if (!next) return t
+    matched.add(normalize(t.title))
+    if (!t.fromIntake) return t
+    const texts = new Set(t.steps.map(s => normalize(s.text)))
+    const newSteps = next.steps.filter(s => !texts.has(normalize(s.text)))
+    const citations = next.citations.length ? next.citations : t.citations
+    const same =
+      t.urgency === next.urgency &&
+      (next.rationale ?? t.rationale) === t.rationale &&
+      citations.map(c => c.url).join() === t.citations.map(c => c.url).join() &&
+      !newSteps.length
+    if (same) return t
+    return {
+      ...t,
+      urgency: next.urgency,
+      rationale: next.rationale ?? t.rationale,
+      citations,
+      actions: next.actions ?? t.actions,
+      requiresEvidence: next.requiresEvidence,
+      steps: [...t.steps, ...newSteps],
+      updatedAt: now,
+    }
+  })
+
+  const ids = new Set(current.tasks.map(t => t.id))
+  const added = fresh.tasks.filter(t => !matched.has(normalize(t.title)) && !ids.has(t.id))
+
+  return {
+    ...current,
+    risk: fresh.risk,
+    solutionSteps: fresh.solutionSteps,
+    citations: fresh.citations,
+    evidenceLock: fresh.evidenceLock,
+    tasks: [...tasks, ...added],
+  }
+}
@@ -0,0 +1,92 @@
+// Plan history: every write to a plan leaves a revision (author, time, diff, and the plan
+// as it stood after) in the "plan-history" collection, one record per plan holding its
+// newest MAX_REVISIONS. History is written after the plan; if that loses a race repeatedly
+// the plan write still stands and the gap is logged, since a missing revision only costs
+// an entry in the change list.
+
+import { collection, VersionConflictError } from '../storage'
+import { describeRevision, diffPlans, isEmptyDiff } from './diff'
+import type { Plan, PlanAuthor } from './schema'
+import type { PlanRevision, RevisionSummary, StoredPlan } from './types'
+
+const MAX_REVISIONS = 50
+const RECORD_ATTEMPTS = 3
+
+type History = { id: string; revisions: PlanRevision[] }
+
+const histories = () => collection<History>('plan-history')
+
+/** The plan without its storage stamp, as a revision keeps it */
+export function unstamped(p: StoredPlan): Plan {
+  const plan: Plan & Partial<StoredPlan> = { ...p }
+  delete plan.version
+  delete plan.updatedAt
+  return plan
+}
+
+/** Records the write that took `before` (undefined: a new plan) to `after`; no-ops are skipped */
+export async function recordRevision(
+  before: Plan | undefined,
+  after: StoredPlan,
+  author: PlanAuthor,
+  restoredFrom?: number,
+): Promise<void> {
+  const plan = unstamped(after)
+  const diff = diffPlans(before, plan)
+  if (isEmptyDiff(diff) && restoredFrom === undefined) return
+  const revision: PlanRevision = {
+    version: after.version,
+    at: after.updatedAt,
+    author,
+    diff,
+    plan,
+    ...(restoredFrom !== undefined && { restoredFrom }),
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    const current = await histories().get(after.id)
+    // A plan recreated under an old id starts a fresh history. Writes racing each other can
+    // record out of order, so revisions are kept sorted by the version they produced.
+    const kept = before ? (current?.revisions ?? []).filter(r => r.version !== after.version) : []
+    const revisions = [...kept, revision].sort((a, b) => a.version - b.version).slice(-MAX_REVISIONS)
+    try {
+      await histories().put({ id: after.id, revisions }, current?.version ?? 0)
+      return
+    } catch (e) {
+      if (!(e instanceof VersionConflictError) || attempt >= RECORD_ATTEMPTS) {
+        console.warn(`[plans] no revision recorded for ${after.id} v${after.version}:`, e instanceof Error ? e.message : e)
+        return
+      }
+    }
+  }
+}
+
+const summarize = (r: PlanRevision): RevisionSummary => ({
+  version: r.version,
+  at: r.at,
+  author: r.author,
+  diff: r.diff,
+  ...(r.restoredFrom !== undefined && { restoredFrom: r.restoredFrom }),
+  summary: describeRevision(r),
+})
+
+/** Newest first; `since` keeps only revisions after that plan version */
+export async function listRevisions(planId: string, since = 0): Promise<RevisionSummary[]> {
+  const h = await histories().get(planId)
+  return (h?.revisions ?? [])
+    .filter(r => r.version > since)
+    .reverse()
+    .map(summarize)
+}
+
+/**
+ * The plan as of `version`: its revision, or the last one before it when that write
+ * changed nothing and so left none
+ */
+export async function getRevision(planId: string, version: number): Promise<PlanRevision | undefined> {
+  return (await histories().get(planId))?.revisions.filter(r => r.version <= version).at(-1)
+}
+
+export async function dropHistory(planId: string): Promise<void> {
+  await histories().delete(planId)
+}
@@ -0,0 +1,280 @@
+// File: src/app/lib/plans/index.ts
+// Care plans and their tasks, kept in the "plans" storage collection (lib/storage). Every
+// change is a read-modify-write of the whole plan at the version that was read, so two
+// edits racing on one plan can't silently drop each other; the loser gets a 409. Callers
+// may also pass the version they last saw to refuse edits made on a stale copy. Each write
+// also names its author and is kept as a revision (./history) that can be listed or restored.
+
+import { collection, isValidId, VersionConflictError, type Versioned } from '../storage'
+import { parsePlan, PlanSchemaError, type Plan, type Step, type Task } from './schema'
+import { dropHistory, getRevision, recordRevision, unstamped } from './history'
+import { applyTaskPatch } from './validate'
+import {
+  PlanError,
+  type PlanFilters,
+  type PlanPatch,
+  type PlanSummary,
+  type PlanWrite,
+  type StepPatch,
+  type StoredPlan,
+  type TaskPatch,
+} from './types'
+
+export * from './schema'
+export * from './types'
+export { describeDiff, describeRevision, diffPlans, isEmptyDiff } from './diff'
+export { getRevision, listRevisions, unstamped } from './history'
+export { buildPlanFromIntake } from './fromIntake'
+export {
+  IntakeSessionSchema,
+  parseIntakeSession,
+  planFromSession,
+  replan,
+  snapshotFromSession,
+  type IntakeSession,
+} from './fromSession'
+export {
+  normalizePlan,
+  parseFilters,
+  parseNewStep,
+  parseNewTask,
+  parsePlanPatch,
+  parseStepPatch,
+  parseTaskPatch,
+  versionOf,
+  writeOf,
+} from './validate'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+const plans = () => collection<Plan>('plans')
+
+const notFound = (what: string) => new PlanError(`${what} not found`, 404)
+
+/** The HTTP status and body for an error the plan routes know, else undefined (rethrow it) */
+export function planError(e: unknown): { status: number; body: { error: string; version?: number } } | undefined {
+  if (e instanceof PlanError) return { status: e.status, body: { error: e.message } }
+  if (e instanceof PlanSchemaError) return { status: 400, body: { error: e.message } }
+  if (e instanceof VersionConflictError) {
+    return { status: 409, body: { error: e.message, ...(e.actual ? { version: e.actual } : {}) } }
+  }
+  return undefined
+}
+
+/* ============================== Plans ============================== */
+
+/** A stored record brought up to the current schema; it's rewritten that way on its next save */
+function upgrade(rec: Versioned<Plan>): StoredPlan {
+  return { ...parsePlan(rec), version: rec.version, updatedAt: rec.updatedAt }
+}
+
+export async function getPlan(id: string): Promise<StoredPlan | undefined> {
+  const rec = isValidId(id) ? await plans().get(id) : undefined
+  return rec && upgrade(rec)
+}
+
+function summarize(p: StoredPlan): PlanSummary {
+  return {
+    id: p.id,
+    title: p.title,
+    createdAt: p.createdAt,
+    updatedAt: p.updatedAt,
+    version: p.version,
+    risk: p.risk,
+    sourceSessionId: p.sourceSessionId,
+    taskCount: p.tasks.length,
+    doneCount: p.tasks.filter(t => t.status === 'done').length,
+  }
+}
+
+/** Most recently updated first */
+export async function listPlans(f: PlanFilters = {}): Promise<PlanSummary[]> {
+  const q = f.q?.toLowerCase()
+  return (await plans().list())
+    .flatMap(rec => {
+      try {
+        return [summarize(upgrade(rec))]
+      } catch (e) {
+        console.warn(`[plans] skipping unreadable plan ${rec.id}:`, e instanceof Error ? e.message : e)
+        return []
+      }
+    })
+    .filter(
+      p =>
+        (!f.risk || p.risk === f.risk) &&
+        (!f.sourceSessionId || p.sourceSessionId === f.sourceSessionId) &&
+        (!f.status || (f.status === 'done') === (p.doneCount === p.taskCount)) &&
+        (!q || p.title.toLowerCase().includes(q)) &&
+        (!f.updatedSince || p.updatedAt >= f.updatedSince),
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, Math.min(f.limit ?? DEFAULT_LIMIT, MAX_LIMIT))
+}
+
+/** Creates the plan, or replaces it when `version` is the one stored */
+export async function savePlan(plan: Plan, w: PlanWrite = {}): Promise<StoredPlan> {
+  if (!isValidId(plan.id)) throw new PlanError('id must be 1-128 letters, digits, - or _', 400)
+  // Only a replace has a before; if it changed since, the put below refuses anyway
+  const before = w.version ? await getPlan(plan.id) : undefined
+  const saved = await plans().put(plan, w.version ?? 0)
+  await recordRevision(before && unstamped(before), saved, w.author ?? 'user')
+  return saved
+}
+
+/** Removes the plan and its history */
+export async function deletePlan(id: string, version?: number): Promise<void> {
+  if (!(await getPlan(id))) throw notFound('Plan')
+  await plans().delete(id, version)
+  await dropHistory(id)
+}
+
+/** The plan as stored, refusing when it's missing or not at `version` (when given) */
+async function current(id: string, version: number | undefined): Promise<StoredPlan> {
+  const plan = await getPlan(id)
+  if (!plan) throw notFound('Plan')
+  if (version !== undefined && version !== plan.version) {
+    throw new VersionConflictError('plans', id, version, plan.version)
+  }
+  return plan
+}
+
+/**
+ * Applies `change` to the plan and writes it back at the version read. `w.version`, when
+ * given, must match that too.
+ */
+async function mutate<R>(id: string, w: PlanWrite, change: (plan: Plan) => R): Promise<{ plan: StoredPlan; result: R }> {
+  const read = await current(id, w.version)
+  const before = unstamped(read)
+  const plan: Plan = { ...before, tasks: [...before.tasks] }
+  const result = change(plan)
+  const saved = await plans().put(plan, read.version)
+  await recordRevision(before, saved, w.author ?? 'user')
+  return { plan: saved, result }
+}
+
+/** Puts the plan back as revision `revision` left it, as a new write */
+export async function restoreRevision(id: string, revision: number, w: PlanWrite = {}): Promise<StoredPlan> {
+  const read = await current(id, w.version)
+  const rev = await getRevision(id, revision)
+  if (!rev) throw notFound('Revision')
+  // Re-parsed in case the schema moved on since it was recorded
+  const saved = await plans().put({ ...parsePlan(rev.plan), id }, read.version)
+  await recordRevision(unstamped(read), saved, w.author ?? 'user', revision)
+  return saved
+}
+
+export async function updatePlan(id: string, patch: PlanPatch, w: PlanWrite = {}): Promise<StoredPlan> {
+  const { plan } = await mutate(id, w, p => {
+    if (patch.title !== undefined) p.title = patch.title
+    if (patch.risk !== undefined) p.risk = patch.risk
+    if (patch.solutionSteps) p.solutionSteps = patch.solutionSteps
+    if (patch.taskOrder) {
+      const byId = new Map(p.tasks.map(t => [t.id, t]))
+      const order = patch.taskOrder
+      if (order.length !== byId.size || new Set(order).size !== order.length || order.some(t => !byId.has(t))) {
+        throw new PlanError('taskOrder must list every task id exactly once', 400)
+      }
+      p.tasks = order.map(t => byId.get(t)!)
+    }
+  })
+  return plan
+}
+
+/* ============================== Tasks ============================== */
+
+function findTask(p: Plan, taskId: string): Task {
+  const task = p.tasks.find(t => t.id === taskId)
+  if (!task) throw notFound('Task')
+  return task
+}
+
+type TaskResult = { task: Task; version: number; updatedAt: string }
+
+const taskResult = ({ plan, result }: { plan: StoredPlan; result: Task }): TaskResult => ({
+  task: result,
+  version: plan.version,
+  updatedAt: plan.updatedAt,
+})
+
+/** Adds a task at `index` (default: the end) */
+export async function addTask(
+  planId: string,
+  task: Task,
+  opts: PlanWrite & { index?: number } = {},
+): Promise<TaskResult> {
+  return taskResult(
+    await mutate(planId, opts, p => {
+      if (p.tasks.some(t => t.id === task.id)) throw new PlanError(`Task ${task.id} already exists`, 409)
+      const at = opts.index === undefined ? p.tasks.length : Math.max(0, Math.min(opts.index, p.tasks.length))
+      p.tasks.splice(at, 0, task)
+      return task
+    }),
+  )
+}
+
+export async function updateTask(
+  planId: string,
+  taskId: string,
+  patch: TaskPatch,
+  w: PlanWrite = {},
+): Promise<TaskResult> {
+  return taskResult(
+    await mutate(planId, w, p => {
+      const next = applyTaskPatch(findTask(p, taskId), patch)
+      p.tasks = p.tasks.map(t => (t.id === taskId ? next : t))
+      return next
+    }),
+  )
+}
+
+export async function removeTask(planId: string, taskId: string, w: PlanWrite = {}): Promise<StoredPlan> {
+  const { plan } = await mutate(planId, w, p => {
+    findTask(p, taskId)
+    p.tasks = p.tasks.filter(t => t.id !== taskId)
+  })
+  return plan
+}
+
+/* ============================== Steps ============================== */
+
+export async function addStep(
+  planId: string,
+  taskId: string,
+  step: Step,
+  w: PlanWrite = {},
+): Promise<TaskResult> {
+  return taskResult(
+    await mutate(planId, w, p => {
+      const task = findTask(p, taskId)
+      if (task.steps.some(s => s.id === step.id)) throw new PlanError(`Step ${step.id} already exists`, 409)
+      const next = { ...task, steps: [...task.steps, step], updatedAt: new Date().toISOString() }
+      p.tasks = p.tasks.map(t => (t.id === taskId ? next : t))
+      return next
+    }),
+  )
+}
+
+/** Edits or ticks a step; `done` alone is the usual toggle */
+export async function updateStep(
+  planId: string,
+  taskId: string,
+  stepId: string,
+  patch: StepPatch,
+  w: PlanWrite = {},
+): Promise<TaskResult> {
+  return taskResult(
+    await mutate(planId, w, p => {
+      const task = findTask(p, taskId)
+      if (!task.steps.some(s => s.id === stepId)) throw notFound('Step')
+      const steps = task.steps.map(s =>
+        s.id === stepId
+          ? { ...s, ...(patch.text !== undefined && { text: patch.text }), ...(patch.done !== undefined && { done: patch.done }) }
+          : s,
+      )
+      const next = { ...task, steps, updatedAt: new Date().toISOString() }
+      p.tasks = p.tasks.map(t => (t.id === taskId ? next : t))
+      return next
+    }),
+  )
+}
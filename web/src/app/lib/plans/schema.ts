@@ -0,0 +1,258 @@
+// File: src/app/lib/plans/schema.ts
+// The one definition of a care plan and its tasks. Routes, the intake page and the tasks
+// page all parse through here, so a plan written by one reads the same on the others.
+// Types are inferred from the schemas rather than declared beside them.
+//
+// Plans carry `schemaVersion` (not to be confused with the storage `version`, which counts
+// writes). Anything older, including unversioned plans and the task shapes used before
+// this module existed, is migrated step by step up to PLAN_SCHEMA_VERSION before parsing.
+// Changing the shape means bumping the version and adding a migration to MIGRATIONS.
+//
+// Pure: no server imports, so pages can use it too.
+
+import { z } from 'zod'
+import { isValidId } from '../storage/version'
+
+export const PLAN_SCHEMA_VERSION = 2
+
+/* ============================== Fields ============================== */
+
+export const newId = (): string =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+
+const nowIso = () => new Date().toISOString()
+
+const Id = z.string().refine(isValidId, 'must be 1-128 letters, digits, - or _')
+const IsoDate = z.iso.datetime({ offset: true })
+const Title = z.string().trim().min(1, "can't be empty").max(200)
+const Text = z.string().max(2000)
+
+export const TaskStatusSchema = z.enum(['todo', 'doing', 'done'])
+/** How pressing one task is */
+export const UrgencySchema = z.enum(['info', 'elevated', 'severe'])
+/** How serious the whole episode is, as triage rates it */
+export const RiskSchema = z.enum(['low', 'moderate', 'severe'])
+export const TaskActionSchema = z.enum(['call_ai', 'book', 'directions', 'message', 'upload'])
+/** Who made a change to a plan: the user, Stella re-planning from intake, or the task coach */
+export const PlanAuthorSchema = z.enum(['user', 'stella', 'coach'])
+
+export const CitationSchema = z.object({
+  id: z.string().optional(),
+  title: z.string(),
+  url: z.string(),
+  source: z.string().optional(),
+  publishedAt: z.string().optional(),
+})
+
+export const StepSchema = z.preprocess(
+  v => (typeof v === 'string' ? { text: v } : v),
+  z.object({
+    id: Id.default(newId),
+    text: z.string().trim().min(1, "can't be empty").max(500),
+    done: z.boolean().default(false),
+  }),
+)
+
+/* ============================== Task & plan ============================== */
+
+export const TaskSchema = z.object({
+  id: Id.default(newId),
+  title: Title,
+  status: TaskStatusSchema.default('todo'),
+  dueAt: IsoDate.nullable().default(null),
+  urgency: UrgencySchema.optional(),
+  createdAt: IsoDate.default(nowIso),
+  updatedAt: IsoDate.default(nowIso),
+  rationale: Text.optional(),
+  notes: Text.optional(),
+  steps: z.array(StepSchema).default([]),
+  citations: z.array(CitationSchema).default([]),
+  actions: z.array(TaskActionSchema).optional(),
+  /** Must be done with a cited source in hand (intake's evidence lock) */
+  requiresEvidence: z.boolean().optional(),
+  linkedPlaceId: z.string().optional(),
+  linkedInsightId: z.string().optional(),
+  /** Came from the intake export rather than being added on the tasks page */
+  fromIntake: z.boolean().optional(),
+})
+
+export const PlanSchema = z.object({
+  schemaVersion: z.literal(PLAN_SCHEMA_VERSION),
+  id: Id.default(newId),
+  title: z.string().max(200).default(''),
+  createdAt: IsoDate.default(nowIso),
+  sourceSessionId: z.string().optional(),
+  risk: RiskSchema.optional(),
+  /** The "solution steps" summary from intake */
+  solutionSteps: z.array(z.string()).default([]),
+  citations: z.array(CitationSchema).default([]),
+  evidenceLock: z.boolean().optional(),
+  /** In the order the user arranged them */
+  tasks: z
+    .array(TaskSchema)
+    .default([])
+    .refine(ts => new Set(ts.map(t => t.id)).size === ts.length, 'task ids must be unique'),
+})
+
+/** What intake hands over to become a plan (see buildPlanFromIntake) */
+export const IntakeSnapshotSchema = z.object({
+  sessionId: z.string().min(1),
+  risk: RiskSchema,
+  recommendations: z.array(
+    z.object({
+      title: Title,
+      rationale: Text.optional(),
+      citations: z.array(CitationSchema).optional(),
+      actions: z.array(TaskActionSchema).optional(),
+      steps: z.array(z.string()).optional(),
+      urgency: UrgencySchema.optional(),
+      requiresEvidence: z.boolean().optional(),
+      relatedVenueId: z.string().optional(),
+      dueAt: IsoDate.nullable().optional(),
+    }),
+  ),
+  summarySteps: z.array(z.string()).default([]),
+  citations: z.array(CitationSchema).default([]),
+  evidenceLock: z.boolean().optional(),
+})
+
+export type TaskStatus = z.infer<typeof TaskStatusSchema>
+export type Urgency = z.infer<typeof UrgencySchema>
+export type Risk = z.infer<typeof RiskSchema>
+export type TaskAction = z.infer<typeof TaskActionSchema>
+export type PlanAuthor = z.infer<typeof PlanAuthorSchema>
+export type Citation = z.infer<typeof CitationSchema>
+export type Step = z.output<typeof StepSchema>
+export type Task = z.output<typeof TaskSchema>
+export type Plan = z.output<typeof PlanSchema>
+export type IntakeSnapshot = z.output<typeof IntakeSnapshotSchema>
+
+/* ============================== Migrations ============================== */
+
+type Obj = Record<string, unknown>
+const asObj = (v: unknown): Obj => (v && typeof v === 'object' && !Array.isArray(v) ? (v as Obj) : {})
+const str = (v: unknown) => (typeof v === 'string' ? v : undefined)
+
+/** A timestamp in any of the old forms (ISO string, epoch millis) as ISO, else undefined */
+function isoFrom(v: unknown): string | undefined {
+  const t = typeof v === 'number' ? v : typeof v === 'string' ? Date.parse(v) : NaN
+  return Number.isNaN(t) ? undefined : new Date(t).toISOString()
+}
+
+/** Risk used to come in two vocabularies; elevated/info were the task-urgency words */
+const LEGACY_RISK: Record<string, Risk> = { info: 'low', elevated: 'moderate' }
+
+/**
+ * Any task shape from before the schema: lib/types in_progress, the intake page's
+ * done/due/numeric createdAt, relatedVenueId for the linked place. Lenient by design —
+ * whatever can't be read falls back to a default rather than failing the whole plan.
+ */
+function upgradeTask(input: unknown): Obj {
+  const t = asObj(input)
+  const status = t.status === 'in_progress' ? 'doing' : t.done === true ? 'done' : t.status
+  const valid = <S extends z.ZodType>(schema: S, v: unknown) => (schema.safeParse(v).success ? v : undefined)
+  return {
+    id: isValidId(t.id) ? t.id : newId(),
+    title: str(t.title)?.trim().slice(0, 200) || 'Untitled task',
+    status: valid(TaskStatusSchema, status) ?? 'todo',
+    dueAt: isoFrom(t.dueAt ?? t.due) ?? null,
+    urgency: valid(UrgencySchema, t.urgency),
+    createdAt: isoFrom(t.createdAt),
+    updatedAt: isoFrom(t.updatedAt),
+    rationale: str(t.rationale)?.slice(0, 2000),
+    notes: str(t.notes)?.slice(0, 2000),
+    steps: Array.isArray(t.steps)
+      ? t.steps
+          .map(s => (typeof s === 'string' ? { text: s } : asObj(s)))
+          .filter(s => str(s.text)?.trim())
+          .map(s => ({ id: isValidId(s.id) ? s.id : newId(), text: str(s.text)!.slice(0, 500), done: s.done === true }))
+      : [],
+    citations: Array.isArray(t.citations) ? t.citations.filter(c => CitationSchema.safeParse(c).success) : [],
+    actions: Array.isArray(t.actions) ? t.actions.filter(a => TaskActionSchema.safeParse(a).success) : undefined,
+    requiresEvidence: typeof t.requiresEvidence === 'boolean' ? t.requiresEvidence : undefined,
+    linkedPlaceId: str(t.linkedPlaceId) ?? str(t.relatedVenueId),
+    linkedInsightId: str(t.linkedInsightId),
+    fromIntake: t.fromIntake === true ? true : undefined,
+  }
+}
+
+/** MIGRATIONS[n] takes a version-n plan to version n + 1 */
+const MIGRATIONS: Record<number, (plan: Obj) => Obj> = {
+  // 1: everything before schemaVersion existed
+  1: p => {
+    const risk = str(p.risk)
+    const tasks = Array.isArray(p.tasks) ? p.tasks.map(upgradeTask) : []
+    const seen = new Set<unknown>()
+    for (const t of tasks) {
+      if (seen.has(t.id)) t.id = newId()
+      seen.add(t.id)
+    }
+    return {
+      schemaVersion: 2,
+      id: isValidId(p.id) ? p.id : newId(),
+      title: str(p.title)?.slice(0, 200) ?? '',
+      createdAt: isoFrom(p.createdAt),
+      sourceSessionId: str(p.sourceSessionId),
+      risk: risk && (LEGACY_RISK[risk] ?? (RiskSchema.safeParse(risk).success ? risk : undefined)),
+      solutionSteps: Array.isArray(p.solutionSteps) ? p.solutionSteps.map(String) : [],
+      citations: Array.isArray(p.citations) ? p.citations.filter(c => CitationSchema.safeParse(c).success) : [],
+      evidenceLock: typeof p.evidenceLock === 'boolean' ? p.evidenceLock : undefined,
+      tasks,
+    }
+  },
+}
+
+/** The plan at PLAN_SCHEMA_VERSION, not yet validated; no schemaVersion means version 1 */
+export function migratePlan(input: unknown): unknown {
+  let plan = asObj(input)
+  const given = plan.schemaVersion
+  let v = given === undefined || given === null ? 1 : given
+  if (typeof v !== 'number' || !Number.isInteger(v) || v < 1) {
+    throw new PlanSchemaError(`schemaVersion must be a whole number from 1 to ${PLAN_SCHEMA_VERSION}`)
+  }
+  if (v > PLAN_SCHEMA_VERSION) {
+    throw new PlanSchemaError(`schemaVersion ${v} is newer than this app understands (${PLAN_SCHEMA_VERSION})`)
+  }
+  while (v < PLAN_SCHEMA_VERSION) plan = MIGRATIONS[v++](plan)
+  return plan
+}
+
+/* ============================== Parsing ============================== */
+
+export class PlanSchemaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PlanSchemaError'
+  }
+}
+
+/** "tasks.2.title: can't be empty" — the first problem, for a 400 or a console line */
+export function describeIssues(e: z.ZodError): string {
+  const first = e.issues[0]
+  if (!first) return 'Invalid plan'
+  const path = first.path.join('.')
+  return path ? `${path}: ${first.message}` : first.message
+}
+
+function parseWith<S extends z.ZodType>(schema: S, input: unknown): z.output<S> {
+  const r = schema.safeParse(input)
+  if (!r.success) throw new PlanSchemaError(describeIssues(r.error))
+  return r.data
+}
+
+/** Any plan, of any schema version, as a current one; throws PlanSchemaError */
+export const parsePlan = (input: unknown): Plan => parseWith(PlanSchema, migratePlan(input))
+
+/** A task in the current shape, defaults filled in; throws PlanSchemaError */
+export const parseTask = (input: unknown): Task => parseWith(TaskSchema, input)
+
+/** Tasks in any old or current shape, e.g. from localStorage; unreadable ones are dropped */
+export function parseTasks(input: unknown): Task[] {
+  if (!Array.isArray(input)) return []
+  return input.flatMap(t => {
+    const r = TaskSchema.safeParse(upgradeTask(t))
+    return r.success ? [r.data] : []
+  })
+}
+
+export const parseIntakeSnapshot = (input: unknown): IntakeSnapshot => parseWith(IntakeSnapshotSchema, input)
@@ -0,0 +1,93 @@
+import type { Versioned } from '../storage/types'
+import type { Plan, PlanAuthor, Risk, Task } from './schema'
+
+export type StoredPlan = Versioned<Plan>
+
+/** What GET /plan lists: enough to pick a plan without loading every task */
+export type PlanSummary = Pick<
+  StoredPlan,
+  'id' | 'title' | 'createdAt' | 'updatedAt' | 'version' | 'risk' | 'sourceSessionId'
+> & { taskCount: number; doneCount: number }
+
+export type PlanFilters = {
+  risk?: Risk
+  sourceSessionId?: string
+  /** open: some task isn't done; done: every task is */
+  status?: 'open' | 'done'
+  /** Case-insensitive match on the title */
+  q?: string
+  updatedSince?: string
+  limit?: number
+}
+
+export type PlanPatch = {
+  title?: string
+  risk?: Risk
+  solutionSteps?: string[]
+  /** Every task id, in the new order */
+  taskOrder?: string[]
+}
+
+export type TaskPatch = Partial<Pick<Task, 'title' | 'status' | 'dueAt' | 'urgency' | 'rationale'>> & {
+  /** null clears the field */
+  notes?: string | null
+  linkedPlaceId?: string | null
+  linkedInsightId?: string | null
+}
+
+export type StepPatch = { text?: string; done?: boolean }
+
+/** How a write is made: the plan `version` it's conditional on, and who is making it */
+export type PlanWrite = { version?: number; author?: PlanAuthor }
+
+/* ============================== Revisions ============================== */
+
+export type FieldValue = string | boolean | null | string[]
+
+export type FieldChange = { field: string; from: FieldValue; to: FieldValue }
+
+export type TaskRef = Pick<Task, 'id' | 'title'>
+
+export type TaskChange = TaskRef & {
+  fields: FieldChange[]
+  /** Step counts, when the checklist changed */
+  steps?: { added: number; removed: number; checked: number; unchecked: number; edited: number }
+}
+
+/** What one write did to a plan (see ./diff) */
+export type PlanDiff = {
+  added: TaskRef[]
+  removed: TaskRef[]
+  changed: TaskChange[]
+  /** The surviving tasks are in a different order */
+  reordered: boolean
+  /** Title, risk, summary steps, evidence lock */
+  plan: FieldChange[]
+}
+
+/** One write to a plan, kept so it can be shown or rolled back to (see ./history) */
+export type PlanRevision = {
+  /** The plan version this write produced */
+  version: number
+  at: string
+  author: PlanAuthor
+  diff: PlanDiff
+  /** The plan as this write left it */
+  plan: Plan
+  /** Set when the write restored an earlier revision */
+  restoredFrom?: number
+}
+
+/** A revision as GET .../revisions lists it: no snapshot, plus a sentence for people */
+export type RevisionSummary = Omit<PlanRevision, 'plan'> & { summary: string }
+
+/** A request the plan API can't carry out, with the HTTP status that says why */
+export class PlanError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409,
+  ) {
+    super(message)
+    this.name = 'PlanError'
+  }
+}
@@ -0,0 +1,109 @@
+// Request bodies → plan values, through the canonical schema (./schema). Whole plans may
+// be any schema version and are migrated first; patches are for the current version only,
+// and a field of the wrong type is a 400 naming that field rather than a silent default.
+
+import { z } from 'zod'
+import {
+  describeIssues,
+  parsePlan,
+  parseTask,
+  PlanAuthorSchema,
+  RiskSchema,
+  StepSchema,
+  TaskStatusSchema,
+  UrgencySchema,
+  type Plan,
+  type Step,
+  type Task,
+} from './schema'
+import { PlanError, type PlanFilters, type PlanPatch, type PlanWrite, type StepPatch, type TaskPatch } from './types'
+
+const IsoDate = z.iso.datetime({ offset: true })
+
+function parseWith<S extends z.ZodType>(schema: S, input: unknown): z.output<S> {
+  const r = schema.safeParse(input)
+  if (!r.success) throw new PlanError(describeIssues(r.error), 400)
+  return r.data
+}
+
+/* ============================== Whole plans ============================== */
+
+/** POST /plan: any schema version in, a current plan out */
+export const normalizePlan = (input: unknown): Plan => parsePlan(input)
+
+/** POST /plan/[id]/tasks: a current-shape task (title required); steps may be plain strings */
+export const parseNewTask = (input: unknown): Task => parseTask(input)
+
+export const parseNewStep = (input: unknown): Step => parseWith(StepSchema, input)
+
+/** Optional `version` a write is conditional on (body field or ?version=) */
+export function versionOf(v: unknown): number | undefined {
+  if (v === undefined || v === null || v === '') return undefined
+  return parseWith(z.coerce.number().int().positive(), v)
+}
+
+/** `version` and `author` of a write (body fields, or ?version= and ?author=); author defaults to the user */
+export function writeOf(version: unknown, author: unknown): PlanWrite {
+  return {
+    version: versionOf(version),
+    author: author === undefined || author === null || author === '' ? 'user' : parseWith(PlanAuthorSchema, author),
+  }
+}
+
+/* ============================== Patches ============================== */
+
+const PlanPatchSchema = z.object({
+  title: z.string().max(200).optional(),
+  risk: RiskSchema.optional(),
+  solutionSteps: z.array(z.string()).optional(),
+  taskOrder: z.array(z.string()).optional(),
+})
+
+/** null clears notes and links; omitted fields are left alone */
+const TaskPatchSchema = z.object({
+  title: z.string().trim().min(1, "can't be empty").max(200).optional(),
+  status: TaskStatusSchema.optional(),
+  dueAt: IsoDate.nullable().optional(),
+  urgency: UrgencySchema.optional(),
+  rationale: z.string().max(2000).optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  linkedPlaceId: z.string().nullable().optional(),
+  linkedInsightId: z.string().nullable().optional(),
+})
+
+const StepPatchSchema = z
+  .object({
+    text: z.string().trim().min(1, "can't be empty").max(500).optional(),
+    done: z.boolean().optional(),
+  })
+  .refine(p => p.text !== undefined || p.done !== undefined, 'Nothing to change: send text or done')
+
+export const parsePlanPatch = (body: unknown): PlanPatch => parseWith(PlanPatchSchema, body)
+export const parseTaskPatch = (body: unknown): TaskPatch => parseWith(TaskPatchSchema, body)
+export const parseStepPatch = (body: unknown): StepPatch => parseWith(StepPatchSchema, body)
+
+/** The task with `patch` applied; undefined fields are left alone, null ones removed */
+export function applyTaskPatch(task: Task, patch: TaskPatch, now = new Date().toISOString()): Task {
+  const next: Record<string, unknown> = { ...task }
+  for (const [k, v] of Object.entries(patch)) {
+    if (v === null && k !== 'dueAt') delete next[k]
+    else if (v !== undefined) next[k] = v
+  }
+  return { ...(next as Task), updatedAt: now }
+}
+
+/* ============================== Filters ============================== */
+
+const FiltersSchema = z.object({
+  risk: RiskSchema.optional(),
+  sourceSessionId: z.string().optional(),
+  status: z.enum(['open', 'done']).optional(),
+  q: z.string().optional(),
+  updatedSince: IsoDate.optional(),
+  limit: z.coerce.number().int().positive().optional(),
+})
+
+export function parseFilters(params: URLSearchParams): PlanFilters {
+  const given = Object.fromEntries([...params].map(([k, v]) => [k, v.trim()]).filter(([, v]) => v))
+  return parseWith(FiltersSchema, given)
+}
@@ -0,0 +1,53 @@
+// File: src/app/lib/prompts/index.ts
+// Server-owned system prompts. Clients name a mode; the server picks the prompt text,
+// so nobody can change Stella's instructions by editing a request body. Every rendered
+// prompt carries a stamp (id, version, hash) that routes attach to their responses.
+
+import { createHash } from 'crypto'
+import { billsPrompt } from './bills'
+import { coachPrompt } from './coach'
+import { formsPrompt } from './forms'
+import { triagePrompt } from './triage'
+import type { PromptContext, PromptDefinition, PromptMode, PromptStamp } from './types'
+
+export * from './types'
+
+const REGISTRY: Record<PromptMode, PromptDefinition> = {
+  triage: triagePrompt,
+  coach: coachPrompt,
+  bills: billsPrompt,
+  forms: formsPrompt,
+}
+
+export const DEFAULT_MODE: PromptMode = 'triage'
+
+export const PROMPT_MODES = Object.keys(REGISTRY) as PromptMode[]
+
+export function isPromptMode(x: unknown): x is PromptMode {
+  return typeof x === 'string' && x in REGISTRY
+}
+
+/** Unknown or missing modes fall back to triage rather than failing the request. */
+export function resolveMode(x: unknown): PromptMode {
+  const m = typeof x === 'string' ? x.trim().toLowerCase() : ''
+  return isPromptMode(m) ? m : DEFAULT_MODE
+}
+
+const hashOf = (text: string) => createHash('sha256').update(text).digest('hex').slice(0, 12)
+
+export function renderPrompt(
+  mode: PromptMode,
+  ctx: PromptContext,
+): { text: string; stamp: PromptStamp } {
+  const def = REGISTRY[mode]
+  const text = def.build(ctx)
+  return {
+    text,
+    stamp: { mode, id: def.id, version: def.version, hash: hashOf(text) },
+  }
+}
+
+/** Catalog for status/debug endpoints — ids and versions only, never the prompt text. */
+export function listPrompts(): Omit<PromptStamp, 'hash'>[] {
+  return PROMPT_MODES.map(mode => ({ mode, id: REGISTRY[mode].id, version: REGISTRY[mode].version }))
+}
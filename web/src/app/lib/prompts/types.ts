@@ -0,0 +1,27 @@
+// Shapes for the server-owned system prompt registry (server-only).
+
+/** What the client asks for; the server decides which prompt text that means. */
+export type PromptMode = 'triage' | 'coach' | 'bills' | 'forms'
+
+/** Values the server fills into a prompt at request time. */
+export type PromptContext = {
+  allowedDomains: string[]
+}
+
+export type PromptDefinition = {
+  mode: PromptMode
+  /** Stable name for the prompt, independent of mode routing */
+  id: string
+  /** Bump whenever the wording changes so audits can tell answers apart */
+  version: string
+  build: (ctx: PromptContext) => string
+}
+
+/** Recorded on every chat response so an answer can be traced to the exact prompt. */
+export type PromptStamp = {
+  mode: PromptMode
+  id: string
+  version: string
+  /** sha256 (first 12 hex chars) of the rendered prompt, catches edits without a version bump */
+  hash: string
+}
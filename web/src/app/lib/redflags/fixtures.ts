@@ -0,0 +1,157 @@
+// Fixture corpus for the red-flag engine. Each phrase lists the exact rule ids it must
+// fire; an empty list means nothing may fire. Add a phrase here whenever a rule changes;
+// `npm test` runs them.
+
+import type { FixtureSuite } from '../fixtures'
+import { evaluateRedFlags } from './index'
+import type { RedFlagFixture } from './types'
+
+export const RED_FLAG_FIXTURES: RedFlagFixture[] = [
+  /* ---------- Chest pain / breathing ---------- */
+  { text: 'I have crushing chest pain', fires: ['chest_pain.severe'] },
+  { text: 'chest pain that is severe and not going away', fires: ['chest_pain.severe'] },
+  {
+    text: 'My chest feels tight and the pain is going down my left arm',
+    fires: ['chest_pain.cardiac_features'],
+  },
+  {
+    text: 'Chest pressure, sweaty and short of breath',
+    fires: ['chest_pain.cardiac_features'],
+  },
+  { text: 'cheast pian and I cant breth', fires: ['chest_pain.cardiac_features', 'breathing.cant_breathe'], note: 'misspellings' },
+  { text: "I can't breathe", fires: ['breathing.cant_breathe'] },
+  { text: 'he is choking and his lips are turning blue', fires: ['breathing.cant_breathe'] },
+  { text: 'No chest pain, just a cough', fires: [], note: 'negation' },
+  { text: 'I am not having chest pain or trouble breathing', fires: [], note: 'negation' },
+  { text: 'no one is answering and I cant breathe', fires: ['breathing.cant_breathe'], note: '"no one" is not a negation' },
+  { text: 'I deny any chest pain or shortness of breath', fires: [], note: 'negation carries over "or"' },
+  { text: 'Not sure if this is chest pain but I am short of breath and sweaty', fires: ['chest_pain.cardiac_features'], note: 'pseudo-negation' },
+  { text: 'no fever but crushing chest pain since this morning', fires: ['chest_pain.severe'], note: '"but" ends negation scope' },
+  { text: 'I have never had crushing chest pain like this', fires: ['chest_pain.severe'], note: '"never … like this" is emphasis' },
+  { text: 'sore muscles in my chest after the gym', fires: [] },
+
+  /* ---------- Stroke (FAST) ---------- */
+  { text: 'her face is drooping on the left', fires: ['stroke.face'] },
+  { text: "Dad suddenly can't lift his arm", fires: ['stroke.arm'] },
+  { text: 'numbness on one side of my body', fires: ['stroke.arm'] },
+  { text: 'his speech is slurred', fires: ['stroke.speech'] },
+  { text: 'I suddenly lost vision in my right eye', fires: ['stroke.vision'] },
+  { text: 'worst headache of my life came on all at once', fires: ['stroke.thunderclap'] },
+  { text: 'I think I am having a stroke', fires: ['stroke.named'] },
+  { text: 'my mom had a stroke two years ago', fires: [] },
+  { text: 'no facial droop and no slurred speech', fires: [], note: 'negation' },
+  { text: 'my leg fell asleep and feels tingly', fires: [] },
+
+  /* ---------- Anaphylaxis ---------- */
+  { text: 'my throat is closing up', fires: ['anaphylaxis.airway_swelling'] },
+  { text: 'swollen lips after eating shrimp', fires: ['anaphylaxis.airway_swelling'] },
+  {
+    text: 'I got stung by a bee and now I am wheezing',
+    fires: ['anaphylaxis.allergic_systemic'],
+  },
+  { text: 'I ate peanuts and feel dizzy', fires: ['anaphylaxis.allergic_systemic'] },
+  { text: 'we used her EpiPen ten minutes ago', fires: ['anaphylaxis.epinephrine_used'] },
+  { text: 'seasonal allergies, itchy eyes, no trouble breathing', fires: [], note: 'negation' },
+
+  /* ---------- Sepsis ---------- */
+  { text: 'fever and chills and now she is confused', fires: ['sepsis.infection_with_systemic_signs'] },
+  { text: 'infected wound, mottled skin and my heart is racing', fires: ['sepsis.infection_with_systemic_signs'] },
+  { text: 'could this be sepsis?', fires: ['sepsis.named'] },
+  { text: 'mild fever, not confused, eating fine', fires: [], note: 'negation' },
+
+  /* ---------- Suicidality ---------- */
+  { text: 'I want to kill myself', fires: ['suicidality.ideation'] },
+  { text: "sometimes I think I'd be better off dead", fires: ['suicidality.ideation'] },
+  { text: "I don't want to live anymore", fires: ['suicidality.ideation'] },
+  { text: 'i have been cutting myself again', fires: ['suicidality.self_harm'] },
+  { text: 'I want to hurt myself', fires: ['suicidality.self_harm'] },
+  { text: 'I feel sucidal', fires: ['suicidality.ideation'], note: 'misspelling' },
+  {
+    text: "I've saved up pills so I can end it",
+    fires: ['suicidality.plan_or_means'],
+  },
+  { text: "I can't stop cutting myself", fires: ['suicidality.self_harm'] },
+  { text: 'I have been self harming', fires: ['suicidality.self_harm'] },
+  {
+    text: "I took too many pills so I won't wake up",
+    fires: ['suicidality.plan_or_means', 'suicidality.intentional_overdose', 'poisoning.overdose'],
+  },
+  { text: 'nobody would care if I killed myself', fires: ['suicidality.ideation'], note: 'past tense' },
+  { text: 'I overdosed on purpose', fires: ['suicidality.intentional_overdose', 'poisoning.overdose'] },
+  {
+    text: 'I swallowed bleach to end it',
+    fires: ['suicidality.intentional_overdose', 'poisoning.overdose'],
+  },
+  { text: 'I deliberately took all my tablets', fires: ['suicidality.intentional_overdose'] },
+  /* Accident words elsewhere in the message must not silence intent */
+  { text: 'I want to cut myself while my parents are out', fires: ['suicidality.self_harm'] },
+  { text: 'I want to hurt myself, I fell into a dark place', fires: ['suicidality.self_harm'] },
+  {
+    text: 'I am going to take all my pills so I never wake up while everyone is at work',
+    fires: ['suicidality.plan_or_means', 'suicidality.intentional_overdose'],
+  },
+  {
+    text: 'I took a bunch of pills to end it all while my wife was at work',
+    fires: ['suicidality.ideation', 'suicidality.plan_or_means', 'suicidality.intentional_overdose', 'poisoning.overdose'],
+  },
+  { text: 'I keep cutting myself shaving', fires: [], note: 'accident cue right after the verb clause' },
+  { text: "I'm not suicidal, just exhausted", fires: [], note: 'negation' },
+  { text: 'I hurt myself playing soccer', fires: [], note: 'accident, not self-harm' },
+  { text: 'I cut myself chopping onions', fires: [], note: 'accident, not self-harm' },
+  { text: 'burned myself on the stove while cooking', fires: [], note: 'accident, not self-harm' },
+  {
+    text: 'I accidentally took too many pills, will I die?',
+    fires: ['poisoning.overdose'],
+    note: 'accidental overdose: poison control or the ER, not a crisis line',
+  },
+  { text: 'am I going to die from this cold?', fires: [], note: 'fear is not intent' },
+  { text: 'this bill is killing me', fires: [] },
+
+  /* ---------- Obstetric ---------- */
+  { text: "I'm 30 weeks pregnant and bleeding", fires: ['obstetric.pregnancy_bleeding_or_pain'] },
+  {
+    text: 'pregnant with a pounding headache and seeing spots',
+    fires: ['obstetric.preeclampsia_signs'],
+  },
+  {
+    text: "I'm 34 weeks pregnant and the baby stopped moving",
+    fires: ['obstetric.reduced_fetal_movement'],
+  },
+  { text: 'gave birth last week and I am soaking a pad every hour', fires: ['obstetric.postpartum_hemorrhage'] },
+  { text: 'pregnant, no bleeding, mild nausea', fires: [], note: 'negation' },
+
+  /* ---------- Pediatric fever ---------- */
+  { text: 'my 6 week old has a fever of 100.6', fires: ['pediatric_fever.young_infant'] },
+  { text: 'newborn feels hot', fires: ['pediatric_fever.young_infant'] },
+  { text: 'my 3 year old has a fever of 104.5', fires: ['pediatric_fever.very_high'] },
+  {
+    text: 'toddler with a fever and a stiff neck',
+    fires: ['pediatric_fever.danger_signs'],
+  },
+  {
+    text: 'my son has a fever and is hard to wake',
+    fires: ['pediatric_fever.danger_signs', 'sepsis.infection_with_systemic_signs'],
+  },
+  { text: 'room 104 is cold and my kid has a fever', fires: [], note: 'number must sit next to the fever' },
+  { text: 'my 4 year old has a fever of 101, playing normally', fires: [] },
+  { text: 'my daughter has no fever, just a runny nose', fires: [], note: 'negation' },
+
+  /* ---------- Poisoning ---------- */
+  { text: 'my toddler swallowed a button battery', fires: ['poisoning.overdose'] },
+  { text: 'I think I took a double dose of my blood pressure pills', fires: ['poisoning.overdose'] },
+  { text: 'I took my pills this morning', fires: [] },
+
+  /* ---------- Everyday text must stay quiet ---------- */
+  { text: 'I twisted my ankle playing soccer', fires: [] },
+  { text: 'how do I read this EOB from my insurance?', fires: [] },
+]
+
+export const redFlagSuite: FixtureSuite<RedFlagFixture> = {
+  name: 'red flags',
+  cases: RED_FLAG_FIXTURES,
+  label: f => (f.note ? `${f.text} (${f.note})` : f.text),
+  run: f => ({
+    expected: [...f.fires].sort(),
+    got: evaluateRedFlags(f.text).fired.map(h => h.id).sort(),
+  }),
+}
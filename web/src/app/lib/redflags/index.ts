@@ -0,0 +1,181 @@
+// File: src/app/lib/redflags/index.ts
+// Deterministic red-flag screen that runs next to the model. If any rule fires, the
+// caller must report risk as severe no matter what the model said. Pure functions,
+// no I/O — the fixture corpus (./fixtures) proves which phrases escalate.
+
+import { RULE_SETS } from './rules'
+import type { RedFlagHit, RedFlagResult, RedFlagRule, RedFlagRuleSet } from './types'
+
+export * from './types'
+export { RULE_SETS }
+
+/* ============================== Normalization ============================== */
+
+// Misspellings seen in real intake text; applied per word after lowercasing
+const SPELLING: Record<string, string> = {
+  chestpain: 'chest pain',
+  cheast: 'chest',
+  chset: 'chest',
+  chets: 'chest',
+  pian: 'pain',
+  brethe: 'breathe',
+  breth: 'breathe',
+  breate: 'breathe',
+  brething: 'breathing',
+  breating: 'breathing',
+  stroek: 'stroke',
+  sucide: 'suicide',
+  suicde: 'suicide',
+  suiside: 'suicide',
+  sucidal: 'suicidal',
+  suicdal: 'suicidal',
+  suisidal: 'suicidal',
+  alergic: 'allergic',
+  allergick: 'allergic',
+  anaphalaxis: 'anaphylaxis',
+  anaphylaxsis: 'anaphylaxis',
+  pregant: 'pregnant',
+  preganant: 'pregnant',
+  pregnet: 'pregnant',
+  feaver: 'fever',
+  fevr: 'fever',
+  fver: 'fever',
+  siezure: 'seizure',
+  seizer: 'seizure',
+  sezure: 'seizure',
+  sepsus: 'sepsis',
+  numbess: 'numbness',
+  slured: 'slurred',
+  sluring: 'slurring',
+  droping: 'drooping',
+  epipen: 'epi pen',
+  thoat: 'throat',
+  throught: 'throat',
+  swolen: 'swollen',
+  sweling: 'swelling',
+}
+
+/** Lowercase, drop apostrophes ("can't" → "cant"), fix known typos, keep clause punctuation. */
+export function normalizeText(raw: string): string {
+  return (raw || '')
+    .toLowerCase()
+    .replace(/[’‘`']/g, '')
+    .replace(/[^a-z0-9.,;:!?/\s-]/g, ' ')
+    .replace(/-/g, ' ')
+    .split(/(\s+)/)
+    .map(w => SPELLING[w] ?? w)
+    .join('')
+    .replace(/[ \t]+/g, ' ')
+    .trim()
+}
+
+/* ============================== Negation ============================== */
+
+// NegEx-style: a cue negates a match when it sits a few words before it in the same clause
+const NEGATION_CUES = new Set([
+  'no',
+  'not',
+  'never',
+  'without',
+  'denies',
+  'denied',
+  'deny',
+  'dont',
+  'doesnt',
+  'didnt',
+  'isnt',
+  'arent',
+  'wasnt',
+  'werent',
+  'havent',
+  'hasnt',
+  'hadnt',
+  'nor',
+])
+const NEGATION_PHRASES = /\b(negative for|free of|ruled out|absence of)\b/
+
+// Phrases that contain a cue but express doubt or emphasis, not denial
+const PSEUDO_NEGATIONS =
+  /\b(not sure|not certain|no idea|not only|not just|dont know|doesnt know|not going away|no better|not better|not improving|cant tell|no one|nobody)\b/g
+
+const CLAUSE_BREAK = /[.;!?,\n:]|\b(but|however|although|though|except|yet)\b/g
+const NEGATION_WINDOW = 5
+
+function isNegated(text: string, start: number, end: number): boolean {
+  // Clause = everything since the last break before the match
+  const before = text.slice(0, start)
+  let clauseStart = 0
+  for (const m of before.matchAll(CLAUSE_BREAK)) clauseStart = m.index! + m[0].length
+  const clause = before.slice(clauseStart).replace(PSEUDO_NEGATIONS, ' ')
+
+  if (NEGATION_PHRASES.test(clause)) return true
+
+  const words = clause.trim().split(/\s+/).filter(Boolean).slice(-NEGATION_WINDOW)
+  const cue = words.find(w => NEGATION_CUES.has(w))
+  if (!cue) return false
+
+  // "never had chest pain like this" is emphasis, not denial
+  if (cue === 'never') {
+    const rest = text.slice(end).split(CLAUSE_BREAK)[0] || ''
+    if (/\b(like (this|that)|this (bad|severe)|before)\b/.test(rest)) return false
+  }
+  return true
+}
+
+/* ============================== Matching ============================== */
+
+/** First non-negated match for any pattern in the group, or null. */
+function matchGroup(text: string, group: RegExp[], negatable: boolean): string | null {
+  for (const pattern of group) {
+    const re = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`)
+    for (const m of text.matchAll(re)) {
+      const start = m.index!
+      if (!negatable || !isNegated(text, start, start + m[0].length)) return m[0].trim()
+    }
+  }
+  return null
+}
+
+function evaluateRule(text: string, rule: RedFlagRule, set: RedFlagRuleSet): RedFlagHit | null {
+  const matched: string[] = []
+  for (const group of rule.all) {
+    const hit = matchGroup(text, group, rule.negatable !== false)
+    if (hit === null) return null
+    matched.push(hit)
+  }
+  return { id: rule.id, ruleSet: set.id, label: rule.label, matched }
+}
+
+/* ============================== Public API ============================== */
+
+export const RULE_SET_VERSIONS = RULE_SETS.map(s => `${s.id}@${s.version}`)
+
+/**
+ * Screen one or more user messages. Each message is evaluated on its own so a rule's
+ * groups must co-occur in the same message; hits are merged across messages.
+ */
+export function evaluateRedFlags(input: string | string[]): RedFlagResult {
+  const texts = (Array.isArray(input) ? input : [input]).map(normalizeText).filter(Boolean)
+  const fired = new Map<string, RedFlagHit>()
+
+  for (const text of texts) {
+    for (const set of RULE_SETS) {
+      for (const rule of set.rules) {
+        if (fired.has(rule.id)) continue
+        const hit = evaluateRule(text, rule, set)
+        if (hit) fired.set(rule.id, hit)
+      }
+    }
+  }
+
+  const hits = [...fired.values()]
+  return { escalate: hits.length > 0, fired: hits, ruleSets: RULE_SET_VERSIONS }
+}
+
+export function listRules() {
+  return RULE_SETS.map(s => ({
+    id: s.id,
+    version: s.version,
+    rules: s.rules.map(r => ({ id: r.id, label: r.label })),
+  }))
+}
@@ -0,0 +1,366 @@
+import type { RedFlagRuleSet } from './types'
+
+/* ============================== Shared vocab ============================== */
+
+const CHEST = /\b(chest (pain|pressure|tightness|is tight|feels tight|hurts)|pain in (my|his|her|the) chest|(tight|heavy|crushing|squeezing) chest)\b/
+const CANT_BREATHE =
+  /\b(cant|cannot|can barely|struggling to|hard to|trouble|difficulty) (breathe?|breathing|catch (my|his|her) breath)\b/
+const SHORT_OF_BREATH = /\b(short(ness)? of breath|out of breath|gasping|wheezing badly)\b/
+const FEVER = /\b(fever|febrile|temp(erature)? (of|is|was|at)|running a temp|burning up)\b/
+const CHILD =
+  /\b(baby|infant|newborn|toddler|child|kid|son|daughter|\d+ ?(year|yr|month|week)s? ?old)\b/
+const PREGNANT =
+  /\b(pregnant|pregnancy|weeks along|expecting|(first|second|third) trimester|\d+ weeks (pregnant|gestation))\b/
+const POSTPARTUM = /\b(postpartum|gave birth|after (the )?delivery|just had (a|my|the) baby|just delivered)\b/
+// "keep cutting myself shaving": an injury, not self-harm. Only read straight after the
+// verb clause, so the rest of the message ("while my parents are out") can't silence it.
+const NOT_ACCIDENTAL =
+  /(?! (by accident|accidentally|by mistake|(while )?(cooking|chopping|slicing|shaving|playing|working out)\b))/
+// Overdose or poisoning words, for intent said right next to them
+const INGESTION =
+  /(overdos(e|ed|ing)( on [\w\s]{1,30}?)?|(took|take|taking|swallowed|swallow|ate|drank) [\w\s]{0,30}?(pills|tablets|meds|medication|bleach|antifreeze|poison))/
+
+/* ============================== Rule sets ============================== */
+
+export const RULE_SETS: RedFlagRuleSet[] = [
+  {
+    id: 'chest_pain',
+    version: '1.0.0',
+    rules: [
+      {
+        id: 'chest_pain.severe',
+        label: 'Severe or crushing chest pain',
+        all: [
+          [
+            /\b(severe|crushing|squeezing|unbearable|worst|elephant on)\b[\w\s]{0,30}\bchest\b/,
+            /\bchest (pain|pressure|tightness)\b[\w\s]{0,30}\b(severe|crushing|unbearable|10 out of 10|10\/10)\b/,
+          ],
+        ],
+      },
+      {
+        id: 'chest_pain.cardiac_features',
+        label: 'Chest pain with breathlessness, sweating or radiation',
+        all: [
+          [CHEST],
+          [
+            CANT_BREATHE,
+            SHORT_OF_BREATH,
+            /\b(sweating|sweaty|clammy|cold sweat)\b/,
+            /\b(left arm|down (my|his|her) arm|into (my|his|her) (jaw|arm|back)|jaw)\b/,
+            /\b(pass(ed|ing)? out|faint(ed|ing)?|about to faint)\b/,
+          ],
+        ],
+      },
+    ],
+  },
+  {
+    id: 'breathing',
+    version: '1.0.0',
+    rules: [
+      {
+        id: 'breathing.cant_breathe',
+        label: 'Cannot breathe or struggling for air',
+        all: [[CANT_BREATHE, /\b(choking|lips (are |turning )?blue|blue lips)\b/]],
+      },
+    ],
+  },
+  {
+    id: 'stroke',
+    version: '1.0.0',
+    rules: [
+      {
+        id: 'stroke.face',
+        label: 'Face drooping (FAST)',
+        all: [
+          [
+            /\b(face|mouth|smile)\b[\w\s]{0,20}\b(droop(ing|y|s|ed)?|crooked|uneven|lopsided)\b/,
+            /\b(droop(ing|y)?|crooked|lopsided)\b[\w\s]{0,15}\b(face|mouth|smile)\b/,
+          ],
+        ],
+      },
+      {
+        id: 'stroke.arm',
+        label: 'Sudden one-sided weakness or numbness (FAST)',
+        all: [
+          [
+            /\b(numb(ness)?|weak(ness)?|cant (move|feel|lift)|paralyzed|tingling)\b/,
+          ],
+          [
+            /\b(one side|left side|right side|half (of )?(my|his|her) (body|face))\b/,
+            /\bsudden(ly)?\b[\w\s]{0,25}\b(numb(ness)?|weak(ness)?|cant (move|feel|lift))\b/,
+            /\bcant (move|feel|lift) (my|his|her) (arm|leg|hand)\b/,
+          ],
+        ],
+      },
+      {
+        id: 'stroke.speech',
+        label: 'Slurred or garbled speech (FAST)',
+        all: [
+          [
+            /\b(slurr(ed|ing)|garbled) (speech|words|talking)\b/,
+            /\b(speech|words|talking) (is |are |was |were )?(slurr(ed|ing)|garbled|jumbled|coming out wrong)\b/,
+            /\b(slurring|cant (speak|talk|get (the )?words out)) (suddenly|all of a sudden)\b/,
+          ],
+        ],
+      },
+      {
+        id: 'stroke.vision',
+        label: 'Sudden loss of vision',
+        all: [
+          [
+            /\b(sudden(ly)?|lost|losing) (vision|sight)\b/,
+            /\b(sudden(ly)?|lost|losing)\b[\w\s]{0,10}\b(vision|sight)\b/,
+            /\bcant see out of (one|my left|my right|his left|his right|her left|her right) eye\b/,
+          ],
+        ],
+      },
+      {
+        id: 'stroke.named',
+        label: 'Person thinks a stroke is happening now',
+        all: [[/\b(having a|think (its|it is|this is) a|might be a|is this a|is (he|she) having a) stroke\b/]],
+      },
+      {
+        id: 'stroke.thunderclap',
+        label: 'Sudden worst-ever headache',
+        all: [
+          [
+            /\bworst headache( of (my|his|her) life)?\b/,
+            /\bthunderclap\b/,
+            /\bsudden(ly)?\b[\w\s]{0,10}\bsevere headache\b/,
+          ],
+        ],
+      },
+    ],
+  },
+  {
+    id: 'anaphylaxis',
+    version: '1.0.0',
+    rules: [
+      {
+        id: 'anaphylaxis.airway_swelling',
+        label: 'Throat, tongue or lip swelling',
+        all: [
+          [
+            /\b(throat|tongue|lips?)\b[\w\s]{0,20}\b(swell(ing|ed)?|swollen|closing( up)?|tight)\b/,
+            /\b(swell(ing|ed)?|swollen)\b[\w\s]{0,15}\b(throat|tongue|lips?)\b/,
+          ],
+        ],
+      },
+      {
+        id: 'anaphylaxis.allergic_systemic',
+        label: 'Allergic reaction with breathing or circulation symptoms',
+        all: [
+          [
+            /\b(allergic|allergy|allergies|anaphylaxis|anaphylactic|stung|bee sting|wasp sting)\b/,
+            /\bate (a |some )?(peanuts?|nuts|shellfish|shrimp)\b/,
+          ],
+          [
+            CANT_BREATHE,
+            SHORT_OF_BREATH,
+            /\b(wheez(e|ing)|hives all over|dizzy|faint(ing)?|pass(ed|ing)? out|throat)\b/,
+          ],
+        ],
+      },
+      {
+        id: 'anaphylaxis.epinephrine_used',
+        label: 'Epinephrine auto-injector was needed',
+        negatable: false,
+        all: [[/\b(used|gave|give|giving|needed) (an |my |his |her |the )?(epi ?pen|epinephrine|auvi q)\b/]],
+      },
+    ],
+  },
+  {
+    id: 'sepsis',
+    version: '1.0.0',
+    rules: [
+      {
+        id: 'sepsis.infection_with_systemic_signs',
+        label: 'Infection or fever with confusion, mottled skin or fast breathing',
+        all: [
+          [FEVER, /\b(infection|infected|chills|shaking|shivering|uti|cellulitis|pneumonia)\b/],
+          [
+            /\b(confused|confusion|disoriented|not making sense|hard to wake|wont wake)\b/,
+            /\b(mottled|blotchy|blue|grey|gray) (skin|hands|feet|lips)\b/,
+            /\b(breathing (really |very )?fast|fast breathing|heart (is )?racing|racing heart)\b/,
+            /\b(not peed|hasnt peed|no urine|not peeing)\b/,
+            /\b(feel|feels|feeling) like (i am|im|he is|hes|she is|shes) dying\b/,
+          ],
+        ],
+      },
+      {
+        id: 'sepsis.named',
+        label: 'Sepsis mentioned',
+        all: [[/\bseps(is|tic)\b/]],
+      },
+    ],
+  },
+  {
+    id: 'suicidality',
+    version: '1.3.0',
+    rules: [
+      {
+        id: 'suicidality.ideation',
+        label: 'Suicidal thoughts',
+        all: [
+          [
+            /\b(kill(ed|ing)? myself|end(ing)? (my|it all|my own) life|end it all|take my (own )?life)\b/,
+            /\b(suicide|suicidal|unalive)\b/,
+            /\b(want(ed)? to die|wanna die|better off dead|no reason to live|dont want to (live|be alive|be here anymore))\b/,
+          ],
+        ],
+      },
+      {
+        id: 'suicidality.self_harm',
+        label: 'Self-harm',
+        all: [
+          [
+            /\b(want(ed)?|wanna|going|trying|tried|urge|tempted|need) to (hurt|harm|cut|burn) myself\b/,
+            new RegExp(`\\b(been|keep|kept|started) (hurting|harming|cutting|burning) myself\\b${NOT_ACCIDENTAL.source}`),
+            /\b(stop|thinking about|thought about) (hurting|harming|cutting|burning) myself\b/,
+            /\b(hurt|harm|cut|burn)(ing)? myself on purpose\b/,
+            /\bself ?harm(ing)?\b/,
+          ],
+        ],
+      },
+      {
+        id: 'suicidality.plan_or_means',
+        label: 'Plan or means for self-harm',
+        negatable: false,
+        all: [
+          [/\b(pills|gun|rope|bridge|overdos(e|ed|ing)|hang myself|jump off)\b/],
+          [
+            /\b(kill myself|end it( all)?|end my life|take my (own )?life|(not|never|dont|wont) wake up|suicide)\b/,
+            /\b(want(ed)?|wanna|going|planning|plan|trying|tried) to die\b/,
+            /\bso (i|that i) (can|could|would|will) die\b/,
+          ],
+        ],
+      },
+      {
+        // Intent said next to an overdose or poisoning: the crisis path, not poison help
+        id: 'suicidality.intentional_overdose',
+        label: 'Deliberate overdose or poisoning',
+        negatable: false,
+        all: [
+          [
+            new RegExp(
+              `\\b${INGESTION.source} (on purpose|intentionally|deliberately|to (end it( all)?|die|kill myself)|so (i|that i) (never|wont|dont|would not|will not|wouldnt) wake up)\\b`,
+            ),
+            new RegExp(`\\b(on purpose|intentionally|deliberately) ${INGESTION.source}`),
+          ],
+        ],
+      },
+    ],
+  },
+  {
+    id: 'obstetric',
+    version: '1.0.0',
+    rules: [
+      {
+        id: 'obstetric.pregnancy_bleeding_or_pain',
+        label: 'Bleeding or severe pain in pregnancy',
+        all: [
+          [PREGNANT],
+          [
+            /\b(bleeding|bleed|spotting heavily|passing clots)\b/,
+            /\b(severe|sharp|bad|intense) (abdominal |belly |stomach |pelvic )?(pain|cramp(s|ing)?)\b/,
+          ],
+        ],
+      },
+      {
+        id: 'obstetric.preeclampsia_signs',
+        label: 'Headache, vision change or seizure in pregnancy or after birth',
+        all: [
+          [PREGNANT, POSTPARTUM],
+          [
+            /\b(severe|bad|pounding) headache\b/,
+            /\b(blurry|blurred|double) vision|seeing (spots|stars)|vision changes?\b/,
+            /\bswollen (face|hands)|(face|hands) (are |is )?swollen\b/,
+            /\bseizure\b/,
+          ],
+        ],
+      },
+      {
+        id: 'obstetric.reduced_fetal_movement',
+        label: 'Baby moving less or not at all',
+        all: [
+          [PREGNANT, /\b(fetal|the baby|my baby)\b/],
+          [/\b(not moving|stopped moving|moving less|less movement|no movement|havent felt (the baby|him|her|it) move)\b/],
+        ],
+      },
+      {
+        id: 'obstetric.postpartum_hemorrhage',
+        label: 'Heavy bleeding after birth',
+        all: [
+          [POSTPARTUM],
+          [/\b(soak(ing|ed)? (through )?(a |one )?pad|heavy bleeding|bleeding (heavily|a lot)|large clots|clots (the size of|bigger than))\b/],
+        ],
+      },
+    ],
+  },
+  {
+    id: 'pediatric_fever',
+    version: '1.0.0',
+    rules: [
+      {
+        id: 'pediatric_fever.young_infant',
+        label: 'Fever in a baby under 3 months',
+        all: [
+          [FEVER, /\b(feels|felt) (hot|warm)\b/],
+          [
+            /\bnewborn\b/,
+            /\b([1-9]|1[0-2]|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve) ?(day|week|wk)s? ?old\b/,
+            /\b(1|2|one|two) ?months? ?old\b/,
+          ],
+        ],
+      },
+      {
+        id: 'pediatric_fever.very_high',
+        label: 'Very high fever in a child',
+        all: [
+          [CHILD],
+          [
+            /\b(fever|temp(erature)?)\b[\w\s.]{0,20}\b(10[4-7](\.\d)?|4[0-2]\.\d|4[1-2])\b/,
+            /\b(10[4-7](\.\d)?|4[0-2]\.\d|4[1-2]) ?(degree|degrees|f|c)? fever\b/,
+          ],
+        ],
+      },
+      {
+        id: 'pediatric_fever.danger_signs',
+        label: 'Child with fever and danger signs',
+        all: [
+          [CHILD],
+          [FEVER],
+          [
+            /\bstiff neck\b/,
+            /\b(rash|spots) (that )?(doesnt|wont|does not) (fade|go away when (i|you) press)\b/,
+            /\b(purple|purplish) (spots|rash)\b/,
+            /\b(hard to wake|wont wake( up)?|limp|floppy|lethargic|unresponsive)\b/,
+            /\b(no wet diapers|not drinking anything|hasnt peed)\b/,
+            /\bseizure\b/,
+            CANT_BREATHE,
+          ],
+        ],
+      },
+    ],
+  },
+  {
+    id: 'poisoning',
+    version: '1.0.0',
+    rules: [
+      {
+        // Intentional overdoses also fire suicidality.plan_or_means or .intentional_overdose,
+        // which take the crisis path
+        id: 'poisoning.overdose',
+        label: 'Overdose or swallowed something harmful',
+        negatable: false,
+        all: [
+          [
+            /\boverdos(e|ed|ing)\b/,
+            /\b(took|taken|swallowed|ate) (too many|too much|a (handful|bunch) of|(a )?double (dose|the dose))\b/,
+            /\b(swallowed|drank|ate) (some )?(bleach|antifreeze|detergent|a detergent pod|drain cleaner|a (button )?battery|button batteries)\b/,
+          ],
+        ],
+      },
+    ],
+  },
+]
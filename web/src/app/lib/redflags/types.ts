@@ -0,0 +1,56 @@
+// Shapes for the deterministic red-flag engine (server-only, no model calls).
+
+export type RedFlagCategory =
+  | 'chest_pain'
+  | 'breathing'
+  | 'stroke'
+  | 'anaphylaxis'
+  | 'sepsis'
+  | 'suicidality'
+  | 'obstetric'
+  | 'pediatric_fever'
+  | 'poisoning'
+
+export type RedFlagRule = {
+  /** Stable id, `<ruleSet>.<name>` — returned to callers and used by fixtures */
+  id: string
+  label: string
+  /**
+   * Every group needs at least one match that is not negated; groups may match
+   * anywhere in the same message. Patterns run against normalized text
+   * (lowercase, apostrophes dropped, common misspellings fixed).
+   */
+  all: RegExp[][]
+  /** Defaults to true; set false for phrases that should escalate even when denied */
+  negatable?: boolean
+}
+
+export type RedFlagRuleSet = {
+  id: RedFlagCategory
+  /** Bump whenever a rule is added, removed or its patterns change */
+  version: string
+  rules: RedFlagRule[]
+}
+
+export type RedFlagHit = {
+  id: string
+  ruleSet: RedFlagCategory
+  label: string
+  /** The phrases that satisfied each group, for audit logs */
+  matched: string[]
+}
+
+export type RedFlagResult = {
+  /** True when any rule fired — callers must treat risk as severe */
+  escalate: boolean
+  fired: RedFlagHit[]
+  /** `<id>@<version>` for every rule set that was evaluated */
+  ruleSets: string[]
+}
+
+/** One phrase in the fixture corpus and the exact rule ids it must fire (empty = none). */
+export type RedFlagFixture = {
+  text: string
+  fires: string[]
+  note?: string
+}
@@ -0,0 +1,72 @@
+// File: src/app/lib/routing/index.ts
+// Travel time and directions from the user's ZIP to a place. The configured engine answers
+// when it can; anything it can't (an unsupported mode, a timeout) comes from the local
+// model, so every place always gets a drive, transit and walk estimate.
+//
+// Config (all optional):
+//   NT_ROUTING_ENGINE=local        local | osrm (osrm also needs NT_ROUTING_OSRM_URL)
+
+import { localEngine } from './local'
+import { osrmEngine } from './osrm'
+import {
+  TRAVEL_MODES,
+  type LatLon,
+  type Route,
+  type RoutingEngine,
+  type TravelEstimate,
+  type TravelMode,
+} from './types'
+
+export * from './types'
+export { mapLinks, type MapLink } from './links'
+export { localEstimate } from './local'
+
+const ENGINES: Record<string, RoutingEngine> = { local: localEngine, osrm: osrmEngine }
+
+export function routingEngine(): RoutingEngine {
+  const name = (process.env.NT_ROUTING_ENGINE || 'local').trim().toLowerCase()
+  const engine = ENGINES[name]
+  return engine && engine.available() ? engine : localEngine
+}
+
+export type TravelTimes = Partial<Record<TravelMode, TravelEstimate>>
+
+/** Drive, transit and walk estimates from one origin to each destination, in input order. */
+export async function travelTimes(from: LatLon, to: LatLon[]): Promise<TravelTimes[]> {
+  const engine = routingEngine()
+  const out: TravelTimes[] = to.map(() => ({}))
+  for (const mode of TRAVEL_MODES) {
+    let rows: (TravelEstimate | null)[] = []
+    if (engine !== localEngine) {
+      try {
+        rows = await engine.table(from, to, mode)
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : e
+        console.warn(`[routing] ${engine.name} ${mode} table failed, using local:`, msg)
+      }
+    }
+    const local = await localEngine.table(from, to, mode)
+    to.forEach((_, i) => {
+      out[i][mode] = rows[i] ?? local[i]!
+    })
+  }
+  return out
+}
+
+export async function directions(
+  from: LatLon,
+  to: LatLon,
+  mode: TravelMode,
+  destName?: string,
+): Promise<Route> {
+  const engine = routingEngine()
+  if (engine !== localEngine) {
+    try {
+      const r = await engine.route(from, to, mode, destName)
+      if (r) return r
+    } catch (e) {
+      console.warn(`[routing] ${engine.name} route failed, using local:`, e instanceof Error ? e.message : e)
+    }
+  }
+  return (await localEngine.route(from, to, mode, destName))!
+}
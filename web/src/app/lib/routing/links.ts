@@ -0,0 +1,47 @@
+// File: src/app/lib/routing/links.ts
+// Deep links that open directions in the user's map app. The origin is left out on
+// purpose: map apps start from the phone's real location, which beats our ZIP centroid.
+// Pure — safe to import from client code.
+
+import type { TravelMode } from './types'
+
+export type MapLink = { app: 'google' | 'apple' | 'waze'; label: string; url: string }
+
+type Dest = { lat?: number; lon?: number; name?: string; address?: string }
+
+const GOOGLE_MODE: Record<TravelMode, string> = { drive: 'driving', transit: 'transit', walk: 'walking' }
+const APPLE_MODE: Record<TravelMode, string> = { drive: 'd', transit: 'r', walk: 'w' }
+
+export function mapLinks(dest: Dest, mode: TravelMode = 'drive'): MapLink[] {
+  const hasPoint = typeof dest.lat === 'number' && typeof dest.lon === 'number'
+  const point = hasPoint ? `${dest.lat},${dest.lon}` : ''
+  const query = [dest.name, dest.address].filter(Boolean).join(', ')
+  if (!point && !query) return []
+  const where = encodeURIComponent(point || query)
+
+  const links: MapLink[] = [
+    {
+      app: 'google',
+      label: 'Google Maps',
+      url: `https://www.google.com/maps/dir/?api=1&destination=${where}&travelmode=${GOOGLE_MODE[mode]}`,
+    },
+    {
+      app: 'apple',
+      label: 'Apple Maps',
+      url: `https://maps.apple.com/?daddr=${where}&dirflg=${APPLE_MODE[mode]}${
+        query ? `&q=${encodeURIComponent(dest.name || query)}` : ''
+      }`,
+    },
+  ]
+  // Waze only drives
+  if (mode === 'drive') {
+    links.push({
+      app: 'waze',
+      label: 'Waze',
+      url: hasPoint
+        ? `https://waze.com/ul?ll=${encodeURIComponent(point)}&navigate=yes`
+        : `https://waze.com/ul?q=${where}&navigate=yes`,
+    })
+  }
+  return links
+}
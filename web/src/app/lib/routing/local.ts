@@ -0,0 +1,95 @@
+// File: src/app/lib/routing/local.ts
+// Offline stand-in for a road router, shaped like OSRM's answers. Distance is the straight
+// line stretched by a per-mode detour factor, time adds typical overheads (parking, waiting
+// for a bus), and "steps" follow a street grid: one north/south leg, one east/west leg.
+// Good enough to rank places and point someone the right way; not turn-by-turn navigation.
+
+import { haversineKm } from '../geo'
+import type { LatLon, RouteStep, RoutingEngine, TravelEstimate, TravelMode } from './types'
+
+/** detour = road distance / straight line; kmh = average moving speed; fixed = minutes added once */
+const MODEL: Record<TravelMode, { detour: number; kmh: number; fixed: number }> = {
+  // Urban driving with lights, plus finding parking
+  drive: { detour: 1.3, kmh: 38, fixed: 4 },
+  // Bus/rail average including stops, plus walking to the stop and waiting
+  transit: { detour: 1.4, kmh: 18, fixed: 12 },
+  walk: { detour: 1.2, kmh: 4.8, fixed: 0 },
+}
+
+export function localEstimate(from: LatLon, to: LatLon, mode: TravelMode): TravelEstimate {
+  const m = MODEL[mode]
+  const distanceKm = haversineKm(from, to) * m.detour
+  const minutes = Math.max(1, Math.round((distanceKm / m.kmh) * 60 + m.fixed))
+  return { mode, minutes, distanceKm: Number(distanceKm.toFixed(2)), engine: 'local' }
+}
+
+const fmtKm = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`)
+
+function gridSteps(
+  from: LatLon,
+  to: LatLon,
+  mode: TravelMode,
+  total: TravelEstimate,
+  destName?: string,
+) {
+  const ns = haversineKm(from, { lat: to.lat, lon: from.lon })
+  const ew = haversineKm({ lat: to.lat, lon: from.lon }, to)
+  const sum = ns + ew || 1
+  const north = to.lat >= from.lat
+  const east = to.lon >= from.lon
+  // Transit starts and ends with a short walk to and from the stop
+  const access = mode === 'transit' ? { km: 0.3, min: 5 } : { km: 0, min: 0 }
+  const rideKm = Math.max(0, total.distanceKm - 2 * access.km)
+  const rideMin = Math.max(1, total.minutes - 2 * access.min)
+  // Share of the trip each leg accounts for, so steps add up to the estimate
+  const leg = (km: number) => ({
+    distanceKm: Number(((km / sum) * rideKm).toFixed(2)),
+    minutes: Math.max(1, Math.round((km / sum) * rideMin)),
+  })
+
+  const steps: RouteStep[] = []
+  if (mode === 'transit') {
+    steps.push({
+      instruction: 'Walk to the nearest bus or rail stop',
+      distanceKm: access.km,
+      minutes: access.min,
+    })
+  }
+  const verb = mode === 'drive' ? 'Drive' : mode === 'walk' ? 'Walk' : 'Ride'
+  if (ns >= 0.05) {
+    steps.push({
+      instruction: `${verb} ${north ? 'north' : 'south'} for about ${fmtKm(leg(ns).distanceKm)}`,
+      ...leg(ns),
+    })
+  }
+  if (ew >= 0.05) {
+    // Heading north, east is a right turn; heading south, east is a left
+    const turn = ns < 0.05 ? '' : north === east ? 'Turn right and ' : 'Turn left and '
+    const dir = east ? 'east' : 'west'
+    steps.push({
+      instruction: `${turn}${turn ? verb.toLowerCase() : verb} ${dir} for about ${fmtKm(leg(ew).distanceKm)}`,
+      ...leg(ew),
+    })
+  }
+  if (mode === 'transit') {
+    steps.push({
+      instruction: 'Get off at the closest stop and walk the rest',
+      distanceKm: access.km,
+      minutes: access.min,
+    })
+  }
+  steps.push({ instruction: `Arrive at ${destName || 'your destination'}`, distanceKm: 0, minutes: 0 })
+  return steps
+}
+
+export const localEngine: RoutingEngine = {
+  name: 'local',
+  available: () => true,
+  async table(from, to, mode) {
+    return to.map(t => localEstimate(from, t, mode))
+  },
+  async route(from, to, mode, destName) {
+    const total = localEstimate(from, to, mode)
+    return { ...total, steps: gridSteps(from, to, mode, total, destName) }
+  },
+}
@@ -0,0 +1,97 @@
+// File: src/app/lib/routing/osrm.ts
+// OSRM HTTP backend (a self-hosted osrm-backend, or any server speaking its API). OSRM has
+// driving and foot profiles but no transit, so transit answers null and the caller falls
+// back to the local model.
+//
+// Config:
+//   NT_ROUTING_OSRM_URL=http://localhost:5000        required to enable this engine
+//   NT_ROUTING_OSRM_FOOT_URL=http://localhost:5001   foot profile, when served separately
+//   NT_ROUTING_TIMEOUT_MS=6000
+
+import type { LatLon, Route, RoutingEngine, TravelEstimate, TravelMode } from './types'
+
+const timeoutMs = () => Number(process.env.NT_ROUTING_TIMEOUT_MS) || 6000
+
+function baseFor(mode: TravelMode): { url: string; profile: string } | null {
+  const main = process.env.NT_ROUTING_OSRM_URL?.replace(/\/+$/, '')
+  if (!main || mode === 'transit') return null
+  if (mode === 'drive') return { url: main, profile: 'driving' }
+  return { url: process.env.NT_ROUTING_OSRM_FOOT_URL?.replace(/\/+$/, '') || main, profile: 'foot' }
+}
+
+const coord = (p: LatLon) => `${p.lon.toFixed(6)},${p.lat.toFixed(6)}`
+
+async function getJson(url: string) {
+  const r = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(timeoutMs()) })
+  if (!r.ok) throw new Error(`OSRM ${r.status}`)
+  const j = await r.json()
+  if (j?.code !== 'Ok') throw new Error(`OSRM ${j?.code || 'error'}: ${j?.message || ''}`.trim())
+  return j
+}
+
+type OsrmStep = {
+  distance: number
+  duration: number
+  name?: string
+  maneuver?: { type?: string; modifier?: string }
+}
+
+/** OSRM maneuvers → short English, e.g. "Turn left onto Elm Street" */
+function instruction(s: OsrmStep, destName?: string) {
+  const type = s.maneuver?.type || 'continue'
+  const mod = s.maneuver?.modifier
+  const onto = s.name ? ` onto ${s.name}` : ''
+  if (type === 'depart') return `Head out${s.name ? ` on ${s.name}` : ''}`
+  if (type === 'arrive') return `Arrive at ${destName || 'your destination'}`
+  if (type === 'roundabout' || type === 'rotary') return `Take the roundabout${onto}`
+  if (['turn', 'end of road', 'fork', 'on ramp', 'off ramp'].includes(type)) {
+    return `${mod ? `Turn ${mod}` : 'Turn'}${onto}`
+  }
+  if (type === 'merge') return `Merge${mod ? ` ${mod}` : ''}${onto}`
+  return `Continue${mod && mod !== 'straight' ? ` ${mod}` : ''}${onto}`
+}
+
+export const osrmEngine: RoutingEngine = {
+  name: 'osrm',
+  available: () => !!process.env.NT_ROUTING_OSRM_URL,
+  async table(from, to, mode) {
+    const base = baseFor(mode)
+    if (!base || !to.length) return to.map(() => null)
+    const coords = [from, ...to].map(coord).join(';')
+    const j = await getJson(
+      `${base.url}/table/v1/${base.profile}/${coords}?sources=0&annotations=duration,distance`,
+    )
+    return to.map((_, i): TravelEstimate | null => {
+      const sec = j.durations?.[0]?.[i + 1]
+      const m = j.distances?.[0]?.[i + 1]
+      if (typeof sec !== 'number') return null
+      return {
+        mode,
+        minutes: Math.max(1, Math.round(sec / 60)),
+        distanceKm: typeof m === 'number' ? Number((m / 1000).toFixed(2)) : 0,
+        engine: 'osrm',
+      }
+    })
+  },
+  async route(from, to, mode, destName): Promise<Route | null> {
+    const base = baseFor(mode)
+    if (!base) return null
+    const j = await getJson(
+      `${base.url}/route/v1/${base.profile}/${coord(from)};${coord(to)}?steps=true&overview=false`,
+    )
+    const r = j.routes?.[0]
+    if (!r) return null
+    const steps = ((r.legs?.[0]?.steps || []) as OsrmStep[]).map(s => ({
+      instruction: instruction(s, destName),
+      distanceKm: Number((s.distance / 1000).toFixed(2)),
+      minutes: Math.round(s.duration / 60),
+    }))
+    return {
+      mode,
+      minutes: Math.max(1, Math.round(r.duration / 60)),
+      distanceKm: Number((r.distance / 1000).toFixed(2)),
+      engine: 'osrm',
+      steps,
+    }
+  },
+}
@@ -0,0 +1,38 @@
+// Shapes for travel time and directions (server-side; links.ts is also used by pages).
+
+export type TravelMode = 'drive' | 'transit' | 'walk'
+
+export const TRAVEL_MODES: TravelMode[] = ['drive', 'transit', 'walk']
+
+export type LatLon = { lat: number; lon: number }
+
+/** How long it takes to get somewhere one way */
+export type TravelEstimate = {
+  mode: TravelMode
+  minutes: number
+  distanceKm: number
+  /** Which engine answered; `local` is a straight-line model, not a road network */
+  engine: string
+}
+
+export type RouteStep = {
+  instruction: string
+  distanceKm: number
+  minutes: number
+}
+
+export type Route = TravelEstimate & {
+  steps: RouteStep[]
+}
+
+/**
+ * A routing backend. `table` answers one origin → many destinations (for ranking);
+ * `route` gives turn-by-turn steps for one trip. Either may throw; callers fall back
+ * to the local engine. Modes an engine can't do are reported as null.
+ */
+export interface RoutingEngine {
+  name: string
+  available(): boolean
+  table(from: LatLon, to: LatLon[], mode: TravelMode): Promise<(TravelEstimate | null)[]>
+  route(from: LatLon, to: LatLon, mode: TravelMode, destName?: string): Promise<Route | null>
+}
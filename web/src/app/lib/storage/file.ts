@@ -0,0 +1,103 @@
+// File backend for self-hosting: one JSON file per record under
+// NT_STORAGE_DIR/<collection>/<id>.json. Every read goes to disk, so instances sharing the
+// directory see each other's writes. A write takes a lock file next to the record, checks
+// the version and replaces the record by rename, so readers never see half a file and two
+// writers can't both win.
+
+import { mkdir, open, readdir, readFile, rename, stat, unlink, writeFile } from 'fs/promises'
+import { join } from 'path'
+import type { Collection, StorageBackend, Versioned } from './types'
+import { assertId, checkVersion, isValidId, stamp } from './version'
+
+const root = () => process.env.NT_STORAGE_DIR?.trim() || '.data/store'
+
+// A lock older than this belongs to a writer that died mid-write
+const STALE_LOCK_MS = 10000
+const LOCK_WAIT_MS = 5000
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms))
+
+async function withLock<R>(file: string, fn: () => Promise<R>): Promise<R> {
+  const lock = `${file}.lock`
+  const deadline = Date.now() + LOCK_WAIT_MS
+  for (;;) {
+    try {
+      await (await open(lock, 'wx')).close()
+      break
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e
+      const age = await stat(lock).then(s => Date.now() - s.mtimeMs, () => 0)
+      if (age > STALE_LOCK_MS) await unlink(lock).catch(() => {})
+      else if (Date.now() > deadline) throw new Error(`Timed out waiting for ${lock}`)
+      else await sleep(15)
+    }
+  }
+  try {
+    return await fn()
+  } finally {
+    await unlink(lock).catch(() => {})
+  }
+}
+
+async function readRecord<T>(file: string): Promise<Versioned<T> | undefined> {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'))
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+    throw e
+  }
+}
+
+function fileCollection<T extends { id: string }>(name: string): Collection<T> {
+  assertId('collections', name)
+  const dir = () => join(root(), name)
+  const fileFor = (id: string) => join(dir(), `${id}.json`)
+
+  return {
+    async get(id) {
+      return isValidId(id) ? readRecord<T>(fileFor(id)) : undefined
+    },
+    async list() {
+      const names = await readdir(dir()).catch(() => [] as string[])
+      const recs: (Versioned<T> | undefined)[] = await Promise.all(
+        names.filter(n => n.endsWith('.json')).map(n => readRecord<T>(join(dir(), n))),
+      )
+      return recs.filter((r): r is Versioned<T> => !!r)
+    },
+    async put(doc, expectedVersion) {
+      assertId(name, doc.id)
+      await mkdir(dir(), { recursive: true })
+      const file = fileFor(doc.id)
+      return withLock(file, async () => {
+        const current = await readRecord<T>(file)
+        checkVersion(name, doc.id, current, expectedVersion)
+        const rec = stamp(doc, current)
+        const tmp = `${file}.${process.pid}.tmp`
+        await writeFile(tmp, JSON.stringify(rec))
+        await rename(tmp, file)
+        return rec
+      })
+    },
+    async delete(id, expectedVersion) {
+      if (!isValidId(id)) return false
+      const file = fileFor(id)
+      const exists = await stat(file).then(() => true, () => false)
+      if (!exists) {
+        checkVersion(name, id, undefined, expectedVersion)
+        return false
+      }
+      return withLock(file, async () => {
+        const current = await readRecord<T>(file)
+        checkVersion(name, id, current, expectedVersion)
+        if (!current) return false
+        await unlink(file)
+        return true
+      })
+    },
+  }
+}
+
+export const fileBackend: StorageBackend = {
+  name: 'file',
+  collection: fileCollection,
+}
@@ -0,0 +1,32 @@
+// File: src/app/lib/storage/index.ts
+// Where records that must outlive a request live (plans and their history). Routes ask for a named
+// collection and never see the backend. Every record carries a version and updatedAt;
+// a write can name the version it read, and loses with a VersionConflictError if someone
+// else wrote in between.
+//
+// Config (all optional):
+//   NT_STORAGE=file                 "file" (JSON files, survives restarts) or "memory"
+//   NT_STORAGE_DIR=.data/store      where the file backend keeps its collections
+
+import { fileBackend } from './file'
+import { memoryBackend } from './memory'
+import type { Collection, StorageBackend } from './types'
+
+export * from './types'
+export { isValidId } from './version'
+
+const BACKENDS: Record<string, StorageBackend> = {
+  file: fileBackend,
+  memory: memoryBackend,
+}
+
+export function storage(): StorageBackend {
+  const name = (process.env.NT_STORAGE || 'file').trim().toLowerCase()
+  const backend = BACKENDS[name]
+  if (!backend) throw new Error(`Unknown storage backend "${name}"`)
+  return backend
+}
+
+export function collection<T extends { id: string }>(name: string): Collection<T> {
+  return storage().collection<T>(name)
+}
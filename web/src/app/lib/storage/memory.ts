@@ -0,0 +1,47 @@
+// In-memory backend: one Map per collection, kept on globalThis so dev reloads don't wipe
+// it. Gone on restart and not shared between instances — for tests and quick local runs.
+
+import type { Collection, StorageBackend, Versioned } from './types'
+import { assertId, checkVersion, stamp } from './version'
+
+declare global {
+  var __memoryStore: Map<string, Map<string, Versioned<{ id: string }>>> | undefined
+}
+
+function records(name: string) {
+  if (!globalThis.__memoryStore) globalThis.__memoryStore = new Map()
+  let map = globalThis.__memoryStore.get(name)
+  if (!map) globalThis.__memoryStore.set(name, (map = new Map()))
+  return map
+}
+
+function memoryCollection<T extends { id: string }>(name: string): Collection<T> {
+  const map = () => records(name) as Map<string, Versioned<T>>
+  return {
+    async get(id) {
+      const rec = map().get(id)
+      return rec && structuredClone(rec)
+    },
+    async list() {
+      return [...map().values()].map(r => structuredClone(r))
+    },
+    async put(doc, expectedVersion) {
+      assertId(name, doc.id)
+      const current = map().get(doc.id)
+      checkVersion(name, doc.id, current, expectedVersion)
+      const rec = stamp(structuredClone(doc), current)
+      map().set(doc.id, rec)
+      return structuredClone(rec)
+    },
+    async delete(id, expectedVersion) {
+      const current = map().get(id)
+      checkVersion(name, id, current, expectedVersion)
+      return map().delete(id)
+    },
+  }
+}
+
+export const memoryBackend: StorageBackend = {
+  name: 'memory',
+  collection: memoryCollection,
+}
@@ -0,0 +1,42 @@
+/** What the store adds to every record: bumped on each write, compared on conditional ones */
+export type VersionStamp = { id: string; version: number; updatedAt: string }
+
+export type Versioned<T> = T & VersionStamp
+
+/**
+ * One named set of records, keyed by `id`. Reads return copies; changing them changes
+ * nothing until they're written back. `expectedVersion` makes a write conditional: the
+ * record must currently be at that version, or 0 for "must not exist yet". Leave it out
+ * to write unconditionally.
+ */
+export interface Collection<T extends { id: string }> {
+  get(id: string): Promise<Versioned<T> | undefined>
+  list(): Promise<Versioned<T>[]>
+  put(doc: T, expectedVersion?: number): Promise<Versioned<T>>
+  delete(id: string, expectedVersion?: number): Promise<boolean>
+}
+
+export interface StorageBackend {
+  name: string
+  collection<T extends { id: string }>(name: string): Collection<T>
+}
+
+/** A conditional write lost a race: someone else wrote the record first */
+export class VersionConflictError extends Error {
+  constructor(
+    public collection: string,
+    public recordId: string,
+    public expected: number,
+    /** 0 when the record doesn't exist */
+    public actual: number,
+  ) {
+    super(
+      actual === 0
+        ? `${collection}/${recordId} doesn't exist`
+        : expected === 0
+        ? `${collection}/${recordId} already exists`
+        : `${collection}/${recordId} is at version ${actual}, not ${expected}`,
+    )
+    this.name = 'VersionConflictError'
+  }
+}
@@ -0,0 +1,30 @@
+// Shared by the backends: id rules and the version check every write goes through.
+
+import { VersionConflictError, type Versioned } from './types'
+
+/** Ids double as file names, so they're kept to a safe alphabet */
+export const isValidId = (id: unknown): id is string =>
+  typeof id === 'string' && /^[A-Za-z0-9_-]{1,128}$/.test(id)
+
+export function assertId(collection: string, id: string) {
+  if (!isValidId(id)) throw new Error(`Invalid id for ${collection}: ${JSON.stringify(id)}`)
+}
+
+export function checkVersion(
+  collection: string,
+  id: string,
+  current: { version: number } | undefined,
+  expected: number | undefined,
+) {
+  if (expected === undefined) return
+  const actual = current?.version ?? 0
+  if (actual !== expected) throw new VersionConflictError(collection, id, expected, actual)
+}
+
+/** The record as it will be written: the caller's fields, a bumped version and a fresh time */
+export function stamp<T extends { id: string }>(
+  doc: T,
+  current: { version: number } | undefined,
+): Versioned<T> {
+  return { ...doc, version: (current?.version ?? 0) + 1, updatedAt: new Date().toISOString() }
+}
@@ -0,0 +1,160 @@
+// Shared helpers for Stella's server-sent event stream.
+// Safe to import from both route handlers and client pages (no Node-only APIs).
+
+export type SSEHandler = (event: string, data: unknown) => void
+
+const encoder = new TextEncoder()
+
+/** Encode one SSE frame. `data` is JSON-serialized so it always fits on one line. */
+export function sseEncode(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+} as const
+
+/**
+ * Read an SSE response body and call `onEvent` per frame.
+ * Resolves when the stream ends; rejects with an AbortError if the fetch signal fires.
+ */
+export async function readSSE(res: Response, onEvent: SSEHandler): Promise<void> {
+  if (!res.body) return
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buf = ''
+
+  const flush = (frame: string) => {
+    let event = 'message'
+    const data: string[] = []
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim()
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+    }
+    if (!data.length) return
+    let parsed: unknown = data.join('\n')
+    try {
+      parsed = JSON.parse(parsed as string)
+    } catch {
+      // plain-text payload; pass through as-is
+    }
+    onEvent(event, parsed)
+  }
+
+  while (true) {
+    const { value, done } = await reader.read()
+    if (done) break
+    buf += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+    let idx = buf.indexOf('\n\n')
+    while (idx !== -1) {
+      flush(buf.slice(0, idx))
+      buf = buf.slice(idx + 2)
+      idx = buf.indexOf('\n\n')
+    }
+  }
+  if (buf.trim()) flush(buf)
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '',
+  b: '',
+  f: '',
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+}
+
+/**
+ * Incrementally pull the value of one top-level string field out of a JSON object
+ * that is still being generated, e.g. `{"text": "Hi the…` → `Hi the…`.
+ * `push(chunk)` returns only the newly decoded characters of that field.
+ */
+export function createJsonFieldExtractor(field: string) {
+  let depth = 0
+  let inStr = false
+  let esc = false
+  let unicode: string | null = null
+  let isKey = false
+  let expectKey = false
+  let expectValue = false
+  let capturing = false
+  let finished = false
+  let keyBuf = ''
+  let lastKey = ''
+
+  function push(chunk: string): string {
+    let out = ''
+    for (const c of chunk) {
+      if (inStr) {
+        if (unicode !== null) {
+          unicode += c
+          if (unicode.length === 4) {
+            if (capturing) out += String.fromCharCode(parseInt(unicode, 16) || 0xfffd)
+            unicode = null
+          }
+          continue
+        }
+        if (esc) {
+          esc = false
+          if (c === 'u') {
+            unicode = ''
+            continue
+          }
+          const ch = ESCAPES[c] ?? c
+          if (capturing) out += ch
+          else if (isKey) keyBuf += ch
+          continue
+        }
+        if (c === '\\') {
+          esc = true
+          continue
+        }
+        if (c === '"') {
+          inStr = false
+          if (isKey) {
+            lastKey = keyBuf
+            isKey = false
+            expectKey = false
+          } else {
+            if (capturing) finished = true
+            capturing = false
+            expectValue = false
+          }
+          continue
+        }
+        if (capturing) out += c
+        else if (isKey) keyBuf += c
+        continue
+      }
+
+      if (c === '{' || c === '[') {
+        depth++
+        if (depth === 1 && c === '{') expectKey = true
+        expectValue = false
+      } else if (c === '}' || c === ']') {
+        depth--
+      } else if (c === '"') {
+        inStr = true
+        if (depth === 1 && expectKey) {
+          isKey = true
+          keyBuf = ''
+        } else if (depth === 1 && expectValue && lastKey === field && !finished) {
+          capturing = true
+        }
+      } else if (c === ':' && depth === 1) {
+        expectValue = true
+      } else if (c === ',' && depth === 1) {
+        expectKey = true
+        expectValue = false
+      }
+    }
+    return out
+  }
+
+  return { push }
+}
@@ -0,0 +1,28 @@
+// Conditions virtual care handles well, as they come up in triage text. A provider is
+// offered only for conditions it lists, so the patterns stay close to everyday wording.
+
+import type { ConditionId } from './types'
+
+export const CONDITIONS: Record<Exclude<ConditionId, 'general'>, { label: string; re: RegExp }> = {
+  cold_flu: { label: 'cold or flu', re: /\b(cold|flu|cough(ing)?|congest(ed|ion)|runny nose|stuffy)\b/i },
+  sore_throat: { label: 'sore throat', re: /\b(sore throat|strep|throat (pain|hurts))\b/i },
+  uti: { label: 'urinary symptoms', re: /\b(uti|urinary|burn(s|ing)? when (i )?pee|bladder infection)\b/i },
+  rash: { label: 'rash', re: /\b(rash|hives|itchy skin|eczema|poison (ivy|oak))\b/i },
+  acne: { label: 'acne', re: /\b(acne|pimples?|breakouts?)\b/i },
+  pink_eye: { label: 'pink eye', re: /\b(pink ?eye|conjunctivitis|(red|itchy|crusty|goopy) eyes?)\b/i },
+  sinus: { label: 'sinus trouble', re: /\b(sinus(itis)?|facial pressure)\b/i },
+  allergies: { label: 'allergies', re: /\b(allerg(y|ies|ic)|hay fever|sneez(e|ing))\b/i },
+  refills: { label: 'prescription refill', re: /\b(refill|ran out of (my )?(meds|medications?|prescriptions?|pills))\b/i },
+  birth_control: { label: 'birth control', re: /\b(birth control|contracepti\w*|the pill)\b/i },
+  mental_health: {
+    label: 'mental health',
+    re: /\b(anxi\w*|depress\w*|panic|stress(ed)?|can'?t sleep|insomnia|therap(y|ist)|counsel\w*|lonely)\b/i,
+  },
+}
+
+export function matchConditions(text: string): ConditionId[] {
+  return (Object.keys(CONDITIONS) as (keyof typeof CONDITIONS)[]).filter(id => CONDITIONS[id].re.test(text))
+}
+
+export const conditionLabel = (id: ConditionId) =>
+  id === 'general' ? 'common minor illness' : CONDITIONS[id].label
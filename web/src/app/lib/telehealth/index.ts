@@ -0,0 +1,134 @@
+// File: src/app/lib/telehealth/index.ts
+// Virtual care as places: providers from a catalog that treat what the person
+// described and are licensed in the state their ZIP is in. They have no location, so no
+// distance or travel; hours are judged in the provider's own zone. Only offered for low
+// and moderate risk — the caller decides that. With no catalog configured there are no
+// virtual options: the bundled catalog.json lists fictional providers and is for dev only.
+//
+// Config (all optional):
+//   NT_TELEHEALTH_CATALOG_FILE=path   JSON catalog of real providers
+//   NT_TELEHEALTH_SAMPLE=1            use the bundled sample catalog (dev; ignored with a file)
+//   NT_TELEHEALTH_MAX=3               virtual options added per search
+
+import { readFileSync } from 'fs'
+import { lookupZip } from '../geo'
+import { CARE_LEVELS } from '../places/careLevels'
+import { openStatusIn, parseOpeningHours } from '../places/hours'
+import type { CareLevel, Place } from '../places/types'
+import bundled from './catalog.json'
+import { conditionLabel, matchConditions } from './conditions'
+import type { ConditionId, TelehealthCatalog, TelehealthProvider } from './types'
+
+export * from './types'
+export { matchConditions } from './conditions'
+
+const SAMPLE = bundled as unknown as TelehealthCatalog
+const EMPTY: TelehealthCatalog = { providers: [] }
+
+const fallback = () => (process.env.NT_TELEHEALTH_SAMPLE === '1' ? SAMPLE : EMPTY)
+
+declare global {
+  var __telehealthCatalog: { file: string; catalog: TelehealthCatalog } | undefined
+}
+
+export function catalog(): TelehealthCatalog {
+  const file = process.env.NT_TELEHEALTH_CATALOG_FILE?.trim() || ''
+  if (!file) return fallback()
+  const cached = globalThis.__telehealthCatalog
+  if (cached?.file === file) return cached.catalog
+  try {
+    const parsed = JSON.parse(readFileSync(file, 'utf8')) as TelehealthCatalog
+    if (!Array.isArray(parsed.providers)) throw new Error('missing "providers"')
+    globalThis.__telehealthCatalog = { file, catalog: parsed }
+    return parsed
+  } catch (e) {
+    console.warn(
+      `[telehealth] can't read ${file}, offering no virtual care:`,
+      e instanceof Error ? e.message : e,
+    )
+    return EMPTY
+  }
+}
+
+const maxResults = () => Number(process.env.NT_TELEHEALTH_MAX) || 3
+
+/** Licensed in `state`? undefined when we don't know the user's state */
+export function licensedIn(p: TelehealthProvider, state?: string): boolean | undefined {
+  if (p.states.includes('*')) return true
+  if (!state) return undefined
+  return p.states.includes(state.toUpperCase())
+}
+
+function toPlace(
+  p: TelehealthProvider,
+  matched: ConditionId[],
+  state: string | undefined,
+  opts: { timeZone?: string; now?: Date },
+): Place {
+  const [lo, hi] = p.selfPay
+  return {
+    id: `tele-${p.id}`,
+    name: p.name,
+    careLevel: 'telehealth',
+    virtual: true,
+    telehealth: {
+      modes: p.modes,
+      states: p.states,
+      userState: state,
+      licensedHere: licensedIn(p, state),
+      matched: matched.map(conditionLabel),
+    },
+    // Curated catalog, not map data: there is no review listing to verify against
+    verified: false,
+    url: p.url,
+    phone: p.phone,
+    price: CARE_LEVELS.telehealth.price,
+    reason: matched.length
+      ? `Virtual visit for ${matched.map(conditionLabel).join(', ')}, no trip needed`
+      : CARE_LEVELS.telehealth.reason,
+    est_cost_min: lo,
+    est_cost_max: hi,
+    costEstimate: {
+      min: lo,
+      max: hi,
+      lines: [{ id: 'visit', label: 'Posted self-pay price', min: lo, max: hi }],
+      assumptions: [
+        'The provider’s posted price for a basic visit',
+        'Prescriptions, lab work and in-person follow-ups are extra',
+      ],
+    },
+    typicalWaitMinutes: p.waitMinutes,
+    hours: p.hours,
+    hoursTimeZone: p.timeZone,
+    ...openStatusIn(parseOpeningHours(p.hours), opts.now ?? new Date(), p.timeZone, opts.timeZone),
+  }
+}
+
+/**
+ * Virtual providers for what the person described. A provider qualifies when it treats a
+ * matched condition, or — when the search is for telehealth or mental health itself — when
+ * it covers that broadly. Providers known not to be licensed in the user's state are left
+ * out; when the state is unknown they're kept and flagged.
+ */
+export function findTelehealth(q: {
+  text: string
+  level: CareLevel
+  zip?: string
+  timeZone?: string
+  now?: Date
+}): Place[] {
+  const wanted = matchConditions(q.text)
+  if (q.level === 'mental_health' && !wanted.includes('mental_health')) wanted.push('mental_health')
+  const state = q.zip ? lookupZip(q.zip)?.state : undefined
+
+  return catalog()
+    .providers.map(p => {
+      const matched = p.conditions.filter(c => wanted.includes(c))
+      const broad = q.level === 'telehealth' && p.conditions.includes('general')
+      return { p, matched, fits: matched.length > 0 || broad }
+    })
+    .filter(({ p, fits }) => fits && licensedIn(p, state) !== false)
+    .sort((a, b) => b.matched.length - a.matched.length)
+    .slice(0, maxResults())
+    .map(({ p, matched }) => toPlace(p, matched, state, q))
+}
@@ -0,0 +1,43 @@
+// Shapes for the virtual-care catalog (server-side; places carry TelehealthInfo).
+
+import type { TelehealthInfo } from '../places/types'
+
+export type { TelehealthInfo } from '../places/types'
+
+/** What a condition id matches in the person's own words */
+export type ConditionId =
+  | 'general'
+  | 'cold_flu'
+  | 'sore_throat'
+  | 'uti'
+  | 'rash'
+  | 'acne'
+  | 'pink_eye'
+  | 'sinus'
+  | 'allergies'
+  | 'refills'
+  | 'birth_control'
+  | 'mental_health'
+
+/** One catalog entry (catalog.json) */
+export type TelehealthProvider = {
+  id: string
+  name: string
+  /** Where a visit starts */
+  url: string
+  phone?: string
+  modes: TelehealthInfo['modes']
+  /** OSM opening_hours, in `timeZone` */
+  hours: string
+  timeZone: string
+  /** Two-letter states it's licensed in; ["*"] = everywhere in the US */
+  states: string[]
+  /** Posted self-pay price range, in dollars */
+  selfPay: [number, number]
+  /** Typical wait to be seen, in minutes */
+  waitMinutes: number
+  /** What it treats; `general` = common minor illness when nothing more specific matched */
+  conditions: ConditionId[]
+}
+
+export type TelehealthCatalog = { providers: TelehealthProvider[] }
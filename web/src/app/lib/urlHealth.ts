@@ -0,0 +1,307 @@
+// File: src/app/lib/urlHealth.ts
+// Persistent URL-health cache for citation links. Each URL is fetched at most once per
+// TTL; results (status, final URL after redirects, page title, check time) are kept in
+// memory and mirrored to a JSON file so restarts don't re-hit every source.
+//
+// Only hosts the citation domain policy allows are fetched, and redirects are followed by
+// hand so every hop is held to the same rule; anything else is never requested. A link
+// that couldn't be reached at all (offline, DNS, timeout) is unknown, not dead.
+//
+// Config (all optional):
+//   NT_URL_HEALTH_FILE=.data/url-health.json   where the cache is persisted ("" = memory only)
+//   NT_URL_HEALTH_TTL_OK_MS=604800000          re-check healthy links after 7 days
+//   NT_URL_HEALTH_TTL_FAIL_MS=3600000          retry failing links after 1 hour
+//   NT_URL_HEALTH_TIMEOUT_MS=4000              per-request timeout
+//   NT_URL_HEALTH_CONCURRENCY=4                parallel checks per call
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { domainPolicy, isAllowedUrl } from './domainPolicy'
+
+export type UrlHealth = {
+  url: string
+  /** False with a null status means the check couldn't reach the site; see isDead */
+  ok: boolean
+  /** HTTP status of the final response; null when the request never completed */
+  status: number | null
+  /** Canonical URL after redirects (tracking params and fragment stripped) */
+  finalUrl: string
+  title?: string
+  /** ISO time of the last check */
+  checkedAt: string
+  /** ISO time the link last checked healthy, if ever */
+  lastOkAt?: string
+  error?: string
+}
+
+export type UrlHealthView = UrlHealth & {
+  /** Was healthy before but is dead as of its latest check, or the cached result is past its TTL */
+  stale: boolean
+}
+
+/* ============================== Config ============================== */
+
+const num = (k: string, d: number) => {
+  const v = Number(process.env[k])
+  return Number.isFinite(v) && v > 0 ? v : d
+}
+const ttlOk = () => num('NT_URL_HEALTH_TTL_OK_MS', 7 * 24 * 3600_000)
+const ttlFail = () => num('NT_URL_HEALTH_TTL_FAIL_MS', 3600_000)
+const timeoutMs = () => num('NT_URL_HEALTH_TIMEOUT_MS', 4000)
+const concurrency = () => Math.max(1, Math.floor(num('NT_URL_HEALTH_CONCURRENCY', 4)))
+const cacheFile = () => process.env.NT_URL_HEALTH_FILE ?? '.data/url-health.json'
+
+// Enough of the page to find <title> without downloading the whole document
+const TITLE_SCAN_BYTES = 64 * 1024
+const MAX_REDIRECTS = 5
+
+/* ============================== Store ============================== */
+
+declare global {
+  var __urlHealth: Map<string, UrlHealth> | undefined
+  var __urlHealthFlush: ReturnType<typeof setTimeout> | undefined
+}
+
+function store(): Map<string, UrlHealth> {
+  if (globalThis.__urlHealth) return globalThis.__urlHealth
+  const map = new Map<string, UrlHealth>()
+  const file = cacheFile()
+  if (file) {
+    try {
+      const rows: UrlHealth[] = JSON.parse(readFileSync(file, 'utf8'))
+      for (const r of rows) if (r?.url) map.set(r.url, r)
+    } catch {
+      // first run or unreadable cache — start empty
+    }
+  }
+  globalThis.__urlHealth = map
+  return map
+}
+
+/** Debounced write so a burst of checks costs one disk write. */
+function scheduleFlush() {
+  const file = cacheFile()
+  if (!file || globalThis.__urlHealthFlush) return
+  globalThis.__urlHealthFlush = setTimeout(() => {
+    globalThis.__urlHealthFlush = undefined
+    try {
+      mkdirSync(dirname(file), { recursive: true })
+      writeFileSync(file, JSON.stringify([...store().values()]))
+    } catch (e) {
+      console.error('[url-health] could not persist cache:', e)
+    }
+  }, 1000)
+}
+
+/* ============================== Helpers ============================== */
+
+const TRACKING_PARAMS = /^(utm_[a-z]+|gclid|fbclid|mc_[a-z]+|_ga)$/i
+
+/** Strip fragment, tracking params and default ports so equivalent links share a cache row. */
+export function canonicalUrl(raw: string): string {
+  try {
+    const u = new URL(raw)
+    u.hash = ''
+    for (const k of [...u.searchParams.keys()]) if (TRACKING_PARAMS.test(k)) u.searchParams.delete(k)
+    u.hostname = u.hostname.toLowerCase()
+    return u.toString()
+  } catch {
+    return raw
+  }
+}
+
+/** Default port, no credentials, and a host the citation policy allows */
+export function isCheckableUrl(url: string): boolean {
+  try {
+    const u = new URL(url)
+    return !u.port && !u.username && !u.password && isAllowedUrl(domainPolicy(), u.toString())
+  } catch {
+    return false
+  }
+}
+
+/** The site answered and the link is broken; an unreachable site says nothing either way */
+export const isDead = (r: UrlHealth) => !r.ok && r.status !== null
+
+function isExpired(r: UrlHealth, now = Date.now()) {
+  const age = now - Date.parse(r.checkedAt)
+  return !(age >= 0) || age > (r.ok ? ttlOk() : ttlFail())
+}
+
+function view(r: UrlHealth): UrlHealthView {
+  return { ...r, stale: isExpired(r) || (isDead(r) && !!r.lastOkAt) }
+}
+
+function decodeEntities(s: string) {
+  return s
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(Number(n)))
+}
+
+async function readTitle(res: Response): Promise<string | undefined> {
+  if (!res.body || !(res.headers.get('content-type') || '').includes('html')) return undefined
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let html = ''
+  try {
+    while (html.length < TITLE_SCAN_BYTES) {
+      const { done, value } = await reader.read()
+      if (done) break
+      html += decoder.decode(value, { stream: true })
+      const m = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)
+      if (m) return decodeEntities(m[1].replace(/\s+/g, ' ').trim()) || undefined
+    }
+  } finally {
+    reader.cancel().catch(() => {})
+  }
+  return undefined
+}
+
+const isRedirect = (status: number) => [301, 302, 303, 307, 308].includes(status)
+
+/**
+ * One GET that captures status, final URL and title. Redirects are followed a hop at a
+ * time; one that leaves the policy ends the check as a failure at that hop.
+ */
+async function probe(url: string, prev?: UrlHealth): Promise<UrlHealth> {
+  const checkedAt = new Date().toISOString()
+  const signal = AbortSignal.timeout(timeoutMs())
+  try {
+    let at = url
+    for (let hops = 0; ; hops++) {
+      const res = await fetch(at, {
+        method: 'GET',
+        redirect: 'manual',
+        cache: 'no-store',
+        headers: { Accept: 'text/html,*/*;q=0.5' },
+        signal,
+      })
+      const location = isRedirect(res.status) ? res.headers.get('location') : null
+      if (location) {
+        res.body?.cancel().catch(() => {})
+        const next = new URL(location, at).toString()
+        const error =
+          hops >= MAX_REDIRECTS
+            ? 'too many redirects'
+            : !isCheckableUrl(next)
+            ? 'redirects outside the citation domain policy'
+            : undefined
+        if (!error) {
+          at = next
+          continue
+        }
+        return {
+          url,
+          ok: false,
+          status: res.status,
+          finalUrl: canonicalUrl(next),
+          title: prev?.title,
+          checkedAt,
+          lastOkAt: prev?.lastOkAt,
+          error,
+        }
+      }
+      const title = res.ok ? await readTitle(res).catch(() => undefined) : undefined
+      if (!res.ok || !title) res.body?.cancel().catch(() => {})
+      return {
+        url,
+        ok: res.ok,
+        status: res.status,
+        finalUrl: canonicalUrl(at),
+        title: title ?? prev?.title,
+        checkedAt,
+        lastOkAt: res.ok ? checkedAt : prev?.lastOkAt,
+      }
+    }
+  } catch (e) {
+    return {
+      url,
+      ok: false,
+      status: null,
+      finalUrl: prev?.finalUrl || url,
+      title: prev?.title,
+      checkedAt,
+      lastOkAt: prev?.lastOkAt,
+      error: e instanceof Error ? e.message : String(e),
+    }
+  }
+}
+
+/** Run `fn` over items with at most `limit` in flight. */
+async function mapLimit<T, R>(items: T[], limit: number, fn: (x: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++
+      out[i] = await fn(items[i])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return out
+}
+
+/* ============================== Public API ============================== */
+
+// Same URL requested twice while a check is in flight shares one fetch
+const inflight = new Map<string, Promise<UrlHealth>>()
+
+/**
+ * Health for each URL, fetching only those missing or past their TTL (or all of them
+ * with `refresh`). Results come back in input order. URLs isCheckableUrl refuses are
+ * never fetched and come back unknown.
+ */
+export async function checkUrls(
+  urls: string[],
+  opts: { refresh?: boolean } = {},
+): Promise<UrlHealthView[]> {
+  const map = store()
+  const keys = urls.map(canonicalUrl)
+  const todo = [...new Set(keys)].filter(k => {
+    if (!isCheckableUrl(k)) return false
+    const r = map.get(k)
+    return opts.refresh || !r || isExpired(r)
+  })
+
+  await mapLimit(todo, concurrency(), async k => {
+    let p = inflight.get(k)
+    if (!p) {
+      p = probe(k, map.get(k)).finally(() => inflight.delete(k))
+      inflight.set(k, p)
+    }
+    map.set(k, await p)
+  })
+  if (todo.length) scheduleFlush()
+
+  return keys.map(k => {
+    const r = map.get(k)
+    if (r) return view(r)
+    const error = 'outside the citation domain policy'
+    return { url: k, ok: false, status: null, finalUrl: k, checkedAt: new Date().toISOString(), error, stale: false }
+  })
+}
+
+/** Cached health only — never hits the network. Unknown URLs are omitted. */
+export function lookupUrls(urls: string[]): UrlHealthView[] {
+  const map = store()
+  return urls
+    .map(u => map.get(canonicalUrl(u)))
+    .filter((r): r is UrlHealth => !!r)
+    .map(view)
+}
+
+export function urlHealthStats() {
+  const rows = [...store().values()]
+  return {
+    entries: rows.length,
+    ok: rows.filter(r => r.ok).length,
+    failing: rows.filter(isDead).length,
+    unreachable: rows.filter(r => !r.ok && !isDead(r)).length,
+    stale: rows.filter(r => view(r).stale).length,
+    file: cacheFile() || null,
+  }
+}
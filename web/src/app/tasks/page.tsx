@@ -1,27 +1,19 @@
 // File: src/app/tasks/page.tsx
 'use client'
 
-import { useEffect, useMemo, useState, type CSSProperties } from 'react'
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react'
 import Link from 'next/link'
+import { keepAllowed, type DomainPolicy } from '../lib/domainPolicy'
+import { parseIntakeSession, planFromSession, replan } from '../lib/plans/fromSession'
+import { parseTask, parseTasks, type Task, type TaskStatus } from '../lib/plans/schema'
+import type { RevisionSummary } from '../lib/plans/types'
+import { mapLinks } from '../lib/routing/links'
+import { readSSE } from '../lib/stream'
 
 /* ============================== Types ============================== */
 
 type RiskTone = 'low' | 'moderate' | 'severe' | string
 
-type TaskStatus = 'todo' | 'doing' | 'done'
-
-type CareTask = {
-  id: string
-  title: string
-  status: TaskStatus
-  dueAt?: string | null
-  notes?: string
-  linkedPlaceId?: string
-  linkedInsightId?: string
-  createdAt?: string
-  fromIntake?: boolean
-}
-
 type TaskCitation = { title: string; url: string; source?: string }
 
 type PlaceSummary = {
@@ -29,9 +21,14 @@ type PlaceSummary = {
   name: string
   address?: string
   distance_km?: number
+  lat?: number
+  lon?: number
+  travel?: { drive?: { minutes: number } }
   est_cost_min?: number
   est_cost_max?: number
   in_network?: boolean
+  /** Telehealth: nothing to give directions to */
+  virtual?: boolean
 }
 
 type InsightSummary = {
@@ -48,17 +45,23 @@ type IntakeExportPayload = {
   riskTrail?: RiskTone[]
   insights?: InsightSummary[]
   places?: PlaceSummary[]
-  tasks?: {
-    id: string
-    title: string
-    status: TaskStatus
-    dueAt?: string | null
-    notes?: string
-    linkedPlaceId?: string
-    linkedInsightId?: string
-  }[]
+  /** Plan tasks (lib/plans/schema); parsed on arrival since intake may be an older build */
+  tasks?: unknown[]
+  /** The api/no-trek/plan/from-intake body, when intake couldn't save the plan itself */
+  session?: unknown
 }
 
+/** The tasks page's view of a server plan (api/no-trek/plan) */
+type ServerPlan = { id: string; version: number; risk?: RiskTone; tasks: Task[] }
+
+/** Where this page's plan lives: its server id, the version last synced, and unsynced edits */
+type PlanLink = { id?: string; version?: number; dirty?: boolean }
+
+type SyncState = 'local' | 'saving' | 'synced' | 'offline'
+
+/** Changes made to the plan elsewhere since this device last synced it, newest first */
+type PlanChanges = { since: number; revisions: RevisionSummary[]; error?: string }
+
 type CoachRole = 'user' | 'assistant'
 
 type CoachMessage = {
@@ -72,56 +75,16 @@ type CoachMessage = {
 
 const BRAND_BLUE = '#0E5BD8'
 
-const ALLOWED_DOMAINS = [
-  'nih.gov',
-  'medlineplus.gov',
-  'cdc.gov',
-  'who.int',
-  'nice.org.uk',
-  'mayoclinic.org',
-  'aafp.org',
-  'cochranelibrary.com',
-]
-
 const TASKS_PERSIST_KEY = 'nt_tasks_page_v2'
 const INTAKE_EXPORT_KEY = 'nt_intake_to_tasks_v1'
+const PLAN_API = '/api/no-trek/plan'
 
-const TASKS_COACH_SYSTEM_PROMPT = `
-You are Stella, the care-task coach for No Trek.
-
-Length of reply:
-- Do not reply in paragraphs reply in texts and if needed expand more but do not ramble on.
-- Do not go over 2-3 sentences per reply unless abosulutely neccessary, aim for 2 sentences.
-- Ask a question at the end if needed to give further clarity.
-- Be intuitive and look for user engagement.
-
-Context:
-- The user already did some intake or planning.
-- This page is about *doing the steps*, not diagnosing.
-- Your job is to turn a list of steps into something that feels doable, meaningful, and worth it.
-
-Style:
-- Sound like a calm, smart nurse / care navigator texting a friend.
-- Push gently, not with guilt. Make the “why” behind a task feel clear and personal.
-- Translate chaos into a small set of priorities. Less overwhelm, more “I know what to do next.”
-
-What you do here:
-- Explain why specific tasks matter (safety, clarity, peace of mind, money, time).
-- Help the user choose *which* tasks to do today vs later.
-- Break big steps into smaller ones if they feel stuck.
-- Suggest simple scripts for phone calls or messages.
-- Encourage pacing: it's okay to do one thing at a time.
-
-Boundaries:
-- You are not a doctor or emergency service.
-- Do NOT diagnose, prescribe, or recommend starting/stopping specific medications.
-- Keep guidance educational and motivational.
-- If a task describes a potential emergency (“go to ER”, “call 911”, etc.), reinforce that emergency steps should not be delayed.
-
-Evidence:
-- When you make factual medical claims or risk statements, attach citations from trusted domains only.
-- Motivational / emotional support does NOT need citations.
-`.trim()
+const SYNC_LABEL: Record<SyncState, string> = {
+  local: 'Saved on this device',
+  saving: 'Syncing…',
+  synced: 'Synced',
+  offline: 'Offline · saved on this device',
+}
 
 /* ============================== Utils ============================== */
 
@@ -138,36 +101,58 @@ const domainOf = (url: string) => {
   }
 }
 
+const sameTitle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+/** An intake export folded into the tasks here, the way the server re-plans a session */
+function mergeExport(local: Task[], payload: IntakeExportPayload): Task[] {
+  try {
+    const fresh = planFromSession(parseIntakeSession(payload.session))
+    return replan({ ...fresh, tasks: local }, fresh).tasks
+  } catch {
+    // Older intake builds hand over only the user's follow-ups
+    const added = parseTasks(payload.tasks).filter(
+      t => !local.some(l => l.id === t.id || sameTitle(l.title, t.title)),
+    )
+    return [...local, ...added.map(t => ({ ...t, fromIntake: true }))]
+  }
+}
+
 const isDeclarative = (t?: string) => {
   if (!t) return false
   const s = t.trim()
   return s.length > 0 && (!s.endsWith('?') || /[.!] /.test(s))
 }
 
-function filterAllowed(cites?: TaskCitation[]) {
-  const seen = new Set<string>()
-  return (cites || []).filter(ci => {
-    if (!ci?.url) return false
-    const d = domainOf(ci.url)
-    const ok = ALLOWED_DOMAINS.some(allow => d.endsWith(allow))
-    if (!ok || seen.has(ci.url)) return false
-    seen.add(ci.url)
-    return true
+
+/* ============================== Plan API ============================== */
+
+class PlanSyncError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+async function planRequest<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+  const r = await fetch(`${PLAN_API}${path}`, {
+    method,
+    cache: 'no-store',
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
   })
+  const j = await r.json().catch(() => ({}))
+  if (!r.ok) throw new PlanSyncError(r.status, j?.error || `HTTP ${r.status}`)
+  return j as T
 }
 
-async function backfillCitations(text: string): Promise<TaskCitation[]> {
+async function fetchPlan(id: string): Promise<ServerPlan | null> {
   try {
-    const r = await fetch('/api/no-trek/cite', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text, allowedDomains: ALLOWED_DOMAINS }),
-    })
-    if (!r.ok) return []
-    const j = await r.json()
-    return filterAllowed(j.citations || [])
-  } catch {
-    return []
+    return await planRequest<ServerPlan>(`/${id}`)
+  } catch (e) {
+    if (e instanceof PlanSyncError && e.status === 404) return null
+    throw e
   }
 }
 
@@ -305,7 +290,7 @@ function EmergencyBanner() {
 export default function TasksPage() {
   const [risk, setRisk] = useState<RiskTone>('low')
   const [riskTrail, setRiskTrail] = useState<RiskTone[]>([])
-  const [tasks, setTasks] = useState<CareTask[]>([])
+  const [tasks, setTasks] = useState<Task[]>([])
   const [places, setPlaces] = useState<PlaceSummary[]>([])
   const [insights, setInsights] = useState<InsightSummary[]>([])
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null)
@@ -313,12 +298,14 @@ export default function TasksPage() {
   const [coachMessages, setCoachMessages] = useState<CoachMessage[]>([])
   const [coachDraft, setCoachDraft] = useState('')
   const [coachSending, setCoachSending] = useState(false)
+  const coachAbortRef = useRef<AbortController | null>(null)
 
   const [coachEvidenceLock, setCoachEvidenceLock] = useState(true)
   const [coachPreferCitations, setCoachPreferCitations] = useState(true)
   const [coachGateMsg, setCoachGateMsg] = useState<string | null>(null)
 
   const [engineConnected, setEngineConnected] = useState<boolean | null>(null)
+  const [citePolicy, setCitePolicy] = useState<DomainPolicy | null>(null)
 
   const [filter, setFilter] = useState<'all' | 'today' | 'week' | 'done'>('all')
   const [newTitle, setNewTitle] = useState('')
@@ -327,49 +314,81 @@ export default function TasksPage() {
   const [episodeCreatedAt, setEpisodeCreatedAt] = useState<string | null>(null)
   const [fromLabel, setFromLabel] = useState<string | null>(null)
 
+  const [planLink, setPlanLink] = useState<PlanLink>({})
+  const [syncState, setSyncState] = useState<SyncState>('local')
+  const [planChanges, setPlanChanges] = useState<PlanChanges | null>(null)
+  // Sync runs outside render, so it reads the link from a ref and queues one request at a time
+  const planLinkRef = useRef<PlanLink>({})
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve())
+
   /* ---------- Load from localStorage / intake export ---------- */
 
+  /** The episode around the tasks: places, insights, risk and where it came from */
+  function applyIntakeContext(payload: IntakeExportPayload) {
+    setPlaces(payload.places || [])
+    setInsights(payload.insights || [])
+    if (payload.risk) setRisk(payload.risk)
+    if (Array.isArray(payload.riskTrail)) setRiskTrail(payload.riskTrail)
+    if (payload.createdAt) setEpisodeCreatedAt(payload.createdAt)
+    setFromLabel(payload.from || 'Intake')
+  }
+
   useEffect(() => {
     try {
       const stored = localStorage.getItem(TASKS_PERSIST_KEY)
-      if (stored) {
-        const snap = JSON.parse(stored)
-        if (Array.isArray(snap.tasks)) setTasks(snap.tasks)
+      const snap = stored ? JSON.parse(stored) : null
+      const exported = localStorage.getItem(INTAKE_EXPORT_KEY)
+
+      // ?plan=<id>: a plan intake just saved (api/no-trek/plan/from-intake). The export
+      // alongside it carries only context; the tasks come from the server.
+      const requested = new URLSearchParams(window.location.search).get('plan')
+      if (requested && snap?.plan?.id !== requested) {
+        if (exported) {
+          const payload: IntakeExportPayload = JSON.parse(exported)
+          applyIntakeContext(payload)
+          localStorage.removeItem(INTAKE_EXPORT_KEY)
+        }
+        setTasks([])
+        queueSync([], risk, { id: requested })
+        return
+      }
+
+      const link: PlanLink = snap?.plan && typeof snap.plan === 'object' ? snap.plan : {}
+
+      // Any other intake export is folded into what's here, snapshot or not. One intake
+      // couldn't save carries its session, which goes on to the server from here.
+      if (exported) {
+        const payload: IntakeExportPayload = JSON.parse(exported)
+        const base = snap ? parseTasks(snap.tasks) : []
+        const merged = mergeExport(base, payload)
+        setTasks(merged)
+        applyIntakeContext(payload)
+        const mergedRisk = payload.risk || snap?.risk || 'low'
+        if (payload.session) {
+          sendPendingExport(payload.session, merged, mergedRisk, link)
+        } else {
+          localStorage.removeItem(INTAKE_EXPORT_KEY)
+          // Context only (intake saved the plan) adds nothing, so the server copy still wins
+          queueSync(merged, mergedRisk, { ...link, dirty: !!link.id && merged.length > base.length })
+        }
+        return
+      }
+
+      if (snap) {
+        const savedTasks = parseTasks(snap.tasks)
+        setTasks(savedTasks)
         if (Array.isArray(snap.places)) setPlaces(snap.places)
         if (Array.isArray(snap.insights)) setInsights(snap.insights)
         if (snap.risk) setRisk(snap.risk)
         if (Array.isArray(snap.riskTrail)) setRiskTrail(snap.riskTrail)
         if (typeof snap.episodeCreatedAt === 'string') setEpisodeCreatedAt(snap.episodeCreatedAt)
         if (typeof snap.fromLabel === 'string') setFromLabel(snap.fromLabel)
-        return
-      }
-
-      const exported = localStorage.getItem(INTAKE_EXPORT_KEY)
-      if (exported) {
-        const payload: IntakeExportPayload = JSON.parse(exported)
-        const importedTasks: CareTask[] = (payload.tasks || []).map(t => ({
-          id: t.id || uid('t'),
-          title: t.title,
-          status: t.status || 'todo',
-          dueAt: t.dueAt ?? null,
-          notes: t.notes,
-          linkedPlaceId: t.linkedPlaceId,
-          linkedInsightId: t.linkedInsightId,
-          createdAt: payload.createdAt || new Date().toISOString(),
-          fromIntake: true,
-        }))
-        setTasks(importedTasks)
-        setPlaces(payload.places || [])
-        setInsights(payload.insights || [])
-        if (payload.risk) setRisk(payload.risk)
-        if (Array.isArray(payload.riskTrail)) setRiskTrail(payload.riskTrail)
-        if (payload.createdAt) setEpisodeCreatedAt(payload.createdAt)
-        setFromLabel(payload.from || 'Intake')
-        localStorage.removeItem(INTAKE_EXPORT_KEY)
+        queueSync(savedTasks, snap.risk || 'low', link)
       }
     } catch {
       // ignore
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
 
   useEffect(() => {
@@ -382,12 +401,134 @@ export default function TasksPage() {
         riskTrail,
         episodeCreatedAt,
         fromLabel,
+        plan: planLink,
       }
       localStorage.setItem(TASKS_PERSIST_KEY, JSON.stringify(snap))
     } catch {
       // ignore
     }
-  }, [tasks, places, insights, risk, riskTrail, episodeCreatedAt, fromLabel])
+  }, [tasks, places, insights, risk, riskTrail, episodeCreatedAt, fromLabel, planLink])
+
+  /* ---------- Server plan sync ---------- */
+
+  /**
+   * Saves an intake session that couldn't be saved from intake. The server makes or
+   * re-plans the session's plan and the page follows it. Offline, the merged tasks stay
+   * here as unsynced edits and the export waits for the next visit; a refusal drops it.
+   */
+  async function sendPendingExport(session: unknown, local: Task[], localRisk: RiskTone, link: PlanLink) {
+    setSyncState('saving')
+    try {
+      const saved = await planRequest<{ id: string }>('/from-intake', 'POST', session)
+      localStorage.removeItem(INTAKE_EXPORT_KEY)
+      queueSync(local, localRisk, { id: saved.id, version: undefined, dirty: false })
+    } catch (e) {
+      if (e instanceof PlanSyncError) localStorage.removeItem(INTAKE_EXPORT_KEY)
+      queueSync(local, localRisk, { ...link, dirty: !!link.id })
+    }
+  }
+
+  function updatePlanLink(patch: PlanLink) {
+    planLinkRef.current = { ...planLinkRef.current, ...patch }
+    setPlanLink(planLinkRef.current)
+  }
+
+  /**
+   * Brings this page and its server plan together. The server's copy wins unless only this
+   * device changed it since the last sync (edits made offline); a plan the server doesn't
+   * have yet is created from the tasks here.
+   */
+  async function connectPlan(local: Task[], localRisk: RiskTone, link: PlanLink) {
+    setSyncState('saving')
+    try {
+      const server = link.id ? await fetchPlan(link.id) : null
+      if (server && !(link.dirty && server.version === link.version)) {
+        setTasks(parseTasks(server.tasks))
+        if (server.risk) setRisk(server.risk)
+        updatePlanLink({ id: server.id, version: server.version, dirty: false })
+        setSyncState('synced')
+        if (link.version && server.version > link.version) await loadPlanChanges(server.id, link.version)
+        return
+      }
+      if (!server && !local.length) {
+        setSyncState('local')
+        return
+      }
+      const saved = await planRequest<{ id: string; version: number }>('', 'POST', {
+        id: link.id,
+        version: server?.version,
+        title: 'Care plan',
+        risk: localRisk,
+        tasks: local,
+      })
+      updatePlanLink({ id: saved.id, version: saved.version, dirty: false })
+      setSyncState('synced')
+    } catch {
+      updatePlanLink({ dirty: true })
+      setSyncState('offline')
+    }
+  }
+
+  /**
+   * Queues a change for the server. `op` applies it to the plan and returns the new
+   * version; without one, or while the page isn't linked to a plan, the whole task list is
+   * pushed instead. A 409 or 404 means the plan changed or vanished elsewhere, so the page
+   * reconnects from the server's copy.
+   */
+  function queueSync(
+    next: Task[],
+    nextRisk: RiskTone,
+    link?: PlanLink,
+    op?: (planId: string, version?: number) => Promise<number>,
+  ) {
+    if (link) updatePlanLink(link)
+    syncQueueRef.current = syncQueueRef.current.then(async () => {
+      const current = planLinkRef.current
+      if (!op || !current.id || current.dirty) return connectPlan(next, nextRisk, current)
+      setSyncState('saving')
+      try {
+        updatePlanLink({ version: await op(current.id, current.version) })
+        setSyncState('synced')
+      } catch (e) {
+        if (e instanceof PlanSyncError && (e.status === 409 || e.status === 404)) {
+          return connectPlan(next, nextRisk, { id: current.id })
+        }
+        updatePlanLink({ dirty: true })
+        setSyncState('offline')
+      }
+    })
+  }
+
+  const withVersion = (path: string, v?: number) => (v ? `${path}?version=${v}` : path)
+
+  /** What Stella, the coach or another device did to the plan after version `since` */
+  async function loadPlanChanges(planId: string, since: number) {
+    try {
+      const { revisions } = await planRequest<{ revisions: RevisionSummary[] }>(
+        `/${planId}/revisions?since=${since}`,
+      )
+      setPlanChanges(revisions.length ? { since, revisions } : null)
+    } catch {
+      // the tasks are already here; the summary of how they got there is a nicety
+    }
+  }
+
+  /** Puts the plan back as this device last saw it; the restore is itself a revision */
+  function undoPlanChanges() {
+    const changes = planChanges
+    if (!changes) return
+    syncQueueRef.current = syncQueueRef.current.then(async () => {
+      const { id, version } = planLinkRef.current
+      if (!id) return
+      try {
+        await planRequest(`/${id}/revisions/${changes.since}/restore`, 'POST', { version })
+        setPlanChanges(null)
+        await connectPlan(tasks, risk, { id })
+      } catch (e) {
+        setPlanChanges({ ...changes, error: e instanceof Error ? e.message : 'Could not undo' })
+      }
+    })
+  }
 
   /* ---------- Engine status ---------- */
 
@@ -403,6 +544,18 @@ export default function TasksPage() {
     })()
   }, [])
 
+  /* ---------- Citation domain policy ---------- */
+
+  useEffect(() => {
+    ;(async () => {
+      try {
+        const r = await fetch('/api/no-trek/cite/policy', { cache: 'no-store' })
+        const j = await r.json()
+        if (j?.policy) setCitePolicy(j.policy)
+      } catch {}
+    })()
+  }, [])
+
   /* ---------- Task helpers ---------- */
 
   const today = new Date()
@@ -472,7 +625,7 @@ export default function TasksPage() {
     [tasks, selectedTaskId],
   )
 
-  function upsertTask(newTask: CareTask) {
+  function upsertTask(newTask: Task) {
     setTasks(prev => {
       const idx = prev.findIndex(t => t.id === newTask.id)
       if (idx === -1) return [newTask, ...prev]
@@ -483,36 +636,50 @@ export default function TasksPage() {
   }
 
   function toggleTaskStatus(id: string) {
-    setTasks(prev =>
-      prev.map(t => {
-        if (t.id !== id) return t
-        const next: TaskStatus =
-          t.status === 'todo' ? 'doing' : t.status === 'doing' ? 'done' : 'todo'
-        return { ...t, status: next, updatedAt: new Date().toISOString() }
-      }),
-    )
+    const task = tasks.find(t => t.id === id)
+    if (!task) return
+    const status: TaskStatus =
+      task.status === 'todo' ? 'doing' : task.status === 'doing' ? 'done' : 'todo'
+    const next = tasks.map(t => (t.id === id ? { ...t, status } : t))
+    setTasks(next)
+    queueSync(next, risk, undefined, async (planId, version) => {
+      const r = await planRequest<{ version: number }>(`/${planId}/tasks/${id}`, 'PATCH', { status, version })
+      return r.version
+    })
   }
 
   function clearDoneTasks() {
-    setTasks(prev => prev.filter(t => t.status !== 'done'))
+    const done = tasks.filter(t => t.status === 'done')
+    const next = tasks.filter(t => t.status !== 'done')
+    setTasks(next)
     if (selectedTask && selectedTask.status === 'done') {
       setSelectedTaskId(null)
     }
+    queueSync(next, risk, undefined, async (planId, version) => {
+      let v = version
+      for (const t of done) {
+        v = (await planRequest<{ version: number }>(withVersion(`/${planId}/tasks/${t.id}`, v), 'DELETE')).version
+      }
+      return v!
+    })
   }
 
   function handleAddTask() {
     const title = newTitle.trim()
     if (!title) return
-    const task: CareTask = {
+    const task = parseTask({
       id: uid('t'),
-      title,
-      status: 'todo',
-      notes: newNotes.trim() || undefined,
+      title: title.slice(0, 200),
+      notes: newNotes.trim().slice(0, 2000) || undefined,
       dueAt: newDue ? new Date(newDue).toISOString() : null,
-      createdAt: new Date().toISOString(),
       fromIntake: false,
-    }
-    setTasks(prev => [task, ...prev])
+    })
+    const next = [task, ...tasks]
+    setTasks(next)
+    queueSync(next, risk, undefined, async (planId, version) => {
+      const r = await planRequest<{ version: number }>(`/${planId}/tasks`, 'POST', { ...task, index: 0, version })
+      return r.version
+    })
     setNewTitle('')
     setNewNotes('')
     setNewDue('')
@@ -524,6 +691,7 @@ export default function TasksPage() {
   async function sendCoach(textOverride?: string) {
     const text = (textOverride ?? coachDraft).trim()
     if (!text) return
+    if (coachAbortRef.current) return // one reply in flight at a time
 
     const userMsg: CoachMessage = {
       id: uid(),
@@ -538,41 +706,58 @@ export default function TasksPage() {
     const aId = uid('coach_a')
     setCoachMessages(prev => [...prev, { id: aId, role: 'assistant', text: '' }])
 
+    const controller = new AbortController()
+    coachAbortRef.current = controller
+
     try {
       const payloadMessages: any[] = [
-        { role: 'system', content: TASKS_COACH_SYSTEM_PROMPT },
         ...coachMessages.map(m => ({ role: m.role, content: m.text })),
         { role: 'user', content: userMsg.text },
       ]
 
       const r = await fetch('/api/no-trek/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
+          mode: 'coach',
           messages: payloadMessages,
-          allowedDomains: ALLOWED_DOMAINS,
+          backfillCitations: coachPreferCitations,
+          stream: true,
         }),
+        signal: controller.signal,
       })
 
       if (!r.ok) {
         const body = await r.text()
-        await typeCoachFull(aId, `Error: ${r.status} — ${body.slice(0, 200)}`)
-        setCoachSending(false)
+        typeCoachInto(aId, `Error: ${r.status} — ${body.slice(0, 200)}`)
         return
       }
 
-      const data: { text?: string; citations?: TaskCitation[] } = await r.json()
-      let finalCites = filterAllowed(data.citations)
-
-      if (coachPreferCitations && isDeclarative(data.text) && finalCites.length === 0) {
-        const back = await backfillCitations(data.text || '')
-        if (back.length) {
-          finalCites = back
-        } else if (coachEvidenceLock) {
-          setCoachGateMsg(
-            'Some parts of this might not be fully citation-backed — treat this as coaching and education, not a diagnosis.',
-          )
-        }
+      const result: { data?: { text?: string; citations?: TaskCitation[] }; error?: string } = {}
+      await readSSE(r, (event, payload) => {
+        const p = payload as { text?: string; citations?: TaskCitation[]; error?: string; details?: string }
+        if (event === 'delta') typeCoachInto(aId, p?.text || '')
+        else if (event === 'final') result.data = p
+        else if (event === 'error') result.error = p?.details || p?.error || 'stream failed'
+      })
+
+      if (!result.data) {
+        typeCoachInto(aId, `\n\nI lost the connection mid-reply. (${result.error || 'no final response'})`)
+        return
+      }
+      const data = result.data
+
+      setCoachMessages(prev =>
+        prev.map(m => (m.id === aId && !m.text ? { ...m, text: data.text || '' } : m)),
+      )
+
+      // Server validates the model's sources and backfills when coachPreferCitations is on
+      const finalCites = keepAllowed(data.citations, citePolicy)
+
+      if (coachEvidenceLock && isDeclarative(data.text) && finalCites.length === 0) {
+        setCoachGateMsg(
+          'Some parts of this might not be fully citation-backed — treat this as coaching and education, not a diagnosis.',
+        )
       }
 
       if (finalCites.length > 0) {
@@ -580,34 +765,29 @@ export default function TasksPage() {
           prev.map(m => (m.id === aId ? { ...m, citations: finalCites } : m)),
         )
       }
-
-      await typeCoachFull(aId, data.text || '')
     } catch (e: any) {
-      await typeCoachFull(
-        aId,
-        `I couldn't reach the coach engine. (${String(e?.message || e)})`,
-      )
+      if (e?.name === 'AbortError') {
+        typeCoachInto(aId, ' … (stopped)')
+      } else {
+        typeCoachInto(aId, `I couldn't reach the coach engine. (${String(e?.message || e)})`)
+      }
     } finally {
+      if (coachAbortRef.current === controller) coachAbortRef.current = null
       setCoachSending(false)
     }
   }
 
+  function stopCoach() {
+    coachAbortRef.current?.abort()
+  }
+
   function typeCoachInto(id: string, chunk: string) {
     setCoachMessages(prev =>
       prev.map(m => (m.id === id ? { ...m, text: (m.text || '') + chunk } : m)),
     )
   }
 
-  async function typeCoachFull(id: string, full: string) {
-    if (!full) return
-    const step = 18
-    for (let i = 0; i < full.length; i += step) {
-      typeCoachInto(id, full.slice(i, i + step))
-      await new Promise(r => setTimeout(r, 10))
-    }
-  }
-
-  async function handleAskStellaWhy(task: CareTask) {
+  async function handleAskStellaWhy(task: Task) {
     setSelectedTaskId(task.id)
     const place = task.linkedPlaceId
       ? places.find(p => p.id === task.linkedPlaceId) || null
@@ -771,9 +951,39 @@ export default function TasksPage() {
                     : 'Base engine'}
                 </span>
               </div>
+              <div className="inline-flex items-center gap-2 rounded-full border-[2px] border-slate-600/80 bg-slate-900/80 px-3 py-1 text-[11px] text-slate-100">
+                <span
+                  className={cx(
+                    'h-2 w-2 rounded-full',
+                    syncState === 'synced'
+                      ? 'bg-emerald-400'
+                      : syncState === 'offline'
+                      ? 'bg-amber-400'
+                      : 'bg-slate-400',
+                  )}
+                />
+                <span>{SYNC_LABEL[syncState]}</span>
+                {syncState === 'offline' && (
+                  <button
+                    type="button"
+                    onClick={() => queueSync(tasks, risk)}
+                    className="font-semibold text-sky-200 underline hover:text-sky-100"
+                  >
+                    Retry
+                  </button>
+                )}
+              </div>
             </div>
           </div>
 
+          {planChanges && (
+            <PlanChangesCard
+              changes={planChanges}
+              onUndo={undoPlanChanges}
+              onDismiss={() => setPlanChanges(null)}
+            />
+          )}
+
           {/* Metrics & filters */}
           <div className="mt-5 flex flex-wrap items-center justify-between gap-3">
             <div className="flex flex-wrap items-center gap-2 text-[11px] text-slate-200/90">
@@ -1014,13 +1224,23 @@ export default function TasksPage() {
                     }
                     className="h-[60px] min-h-[54px] flex-1 resize-none rounded-xl border border-slate-600/80 bg-slate-900/80 px-3 py-2 text-sm text-slate-50 placeholder:text-slate-400 outline-none focus:border-slate-300"
                   />
-                  <button
-                    type="submit"
-                    disabled={coachSending || !coachDraft.trim()}
-                    className="inline-flex h-[60px] items-center justify-center rounded-xl bg-sky-500 px-4 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 shadow-[0_0_24px_rgba(56,189,248,0.9)] transition-transform hover:-translate-y-0.5 hover:shadow-[0_0_36px_rgba(56,189,248,1)] disabled:cursor-not-allowed disabled:opacity-40"
-                  >
-                    Ask Stella
-                  </button>
+                  {coachSending ? (
+                    <button
+                      type="button"
+                      onClick={stopCoach}
+                      className="inline-flex h-[60px] items-center justify-center rounded-xl border-[2px] border-slate-500/80 bg-slate-800 px-4 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-100 hover:bg-slate-700"
+                    >
+                      Stop
+                    </button>
+                  ) : (
+                    <button
+                      type="submit"
+                      disabled={!coachDraft.trim()}
+                      className="inline-flex h-[60px] items-center justify-center rounded-xl bg-sky-500 px-4 text-[11px] font-semibold uppercase tracking-[0.18em] text-slate-950 shadow-[0_0_24px_rgba(56,189,248,0.9)] transition-transform hover:-translate-y-0.5 hover:shadow-[0_0_36px_rgba(56,189,248,1)] disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      Ask Stella
+                    </button>
+                  )}
                 </form>
                 <div className="mt-1 text-[10px] text-slate-400">
                   Stella&apos;s answers here are coaching and education only, not a diagnosis or
@@ -1040,6 +1260,69 @@ export default function TasksPage() {
   )
 }
 
+/* ============================== Plan Changes ============================== */
+
+function PlanChangesCard({
+  changes,
+  onUndo,
+  onDismiss,
+}: {
+  changes: PlanChanges
+  onUndo: () => void
+  onDismiss: () => void
+}) {
+  const [showAll, setShowAll] = useState(false)
+  const shown = showAll ? changes.revisions : changes.revisions.slice(0, 3)
+  const hidden = changes.revisions.length - shown.length
+
+  return (
+    <section
+      className="mt-5 rounded-2xl border-[2px] border-sky-500/60 bg-sky-950/40 p-3 text-slate-50"
+      aria-label="Changes since your last visit"
+    >
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <p className="text-[11px] font-semibold uppercase tracking-[0.2em] text-sky-200/90">
+          Since your last visit
+        </p>
+        <div className="flex items-center gap-2 text-[11px]">
+          <button
+            type="button"
+            onClick={onUndo}
+            className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 font-semibold text-slate-100 hover:bg-slate-800/90"
+          >
+            Undo these changes
+          </button>
+          <button
+            type="button"
+            onClick={onDismiss}
+            className="rounded-full border border-slate-600/80 bg-slate-900/80 px-3 py-1 font-semibold text-slate-100 hover:bg-slate-800/90"
+          >
+            Got it
+          </button>
+        </div>
+      </div>
+      <ul className="mt-2 space-y-1 text-sm">
+        {shown.map(r => (
+          <li key={r.version} className="flex flex-wrap items-baseline gap-x-2">
+            <span>{r.summary}</span>
+            <span className="text-[11px] text-slate-400">{new Date(r.at).toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+      {hidden > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowAll(true)}
+          className="mt-1 text-[11px] font-semibold text-sky-200 underline hover:text-sky-100"
+        >
+          {hidden} earlier change{hidden === 1 ? '' : 's'}
+        </button>
+      )}
+      {changes.error && <p className="mt-2 text-[11px] text-amber-200">Couldn’t undo: {changes.error}</p>}
+    </section>
+  )
+}
+
 /* ============================== Task Card ============================== */
 
 function TaskCard({
@@ -1050,7 +1333,7 @@ function TaskCard({
   onToggleStatus,
   onAskStella,
 }: {
-  task: CareTask
+  task: Task
   place: PlaceSummary | null
   selected: boolean
   onSelect: () => void
@@ -1063,6 +1346,8 @@ function TaskCard({
     if (Number.isNaN(d.getTime())) return 'When you can'
     return d.toLocaleString()
   }, [task.dueAt])
+  // The "directions" action: open the linked place in the user's map app
+  const directions = place && !place.virtual ? mapLinks(place)[0] : undefined
 
   return (
     <div
@@ -1126,7 +1411,11 @@ function TaskCard({
               {place && (
                 <span className="rounded-full border border-slate-600/80 bg-slate-900/80 px-2 py-0.5">
                   {place.name}
-                  {typeof place.distance_km === 'number'
+                  {place.virtual
+                    ? ' · virtual visit'
+                    : place.travel?.drive
+                    ? ` · ${place.travel.drive.minutes} min by car`
+                    : typeof place.distance_km === 'number'
                     ? ` · ${place.distance_km.toFixed(1)} km`
                     : ''}
                   {typeof place.est_cost_min === 'number' &&
@@ -1160,6 +1449,17 @@ function TaskCard({
           >
             Ask Stella why this matters
           </button>
+          {directions && (
+            <a
+              href={directions.url}
+              target="_blank"
+              rel="noreferrer"
+              onClick={e => e.stopPropagation()}
+              className="inline-flex items-center justify-center rounded-full border border-slate-600/80 bg-slate-900/80 px-2.5 py-1 text-[11px] font-semibold text-slate-100 hover:bg-slate-800/90"
+            >
+              Directions
+            </a>
+          )}
         </div>
       </div>
     </div>
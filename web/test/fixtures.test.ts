@@ -0,0 +1,24 @@
+// Runs every fixture corpus (lib/fixtures.ts): one test per case, so a failure names the
+// phrase, schedule or session that changed. `npm test`.
+
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import type { FixtureSuite } from '../src/app/lib/fixtures'
+import { hoursSuite } from '../src/app/lib/places/fixtures'
+import { planSuite } from '../src/app/lib/plans/fixtures'
+import { redFlagSuite } from '../src/app/lib/redflags/fixtures'
+
+function runSuite<T>(suite: FixtureSuite<T>) {
+  describe(suite.name, () => {
+    for (const c of suite.cases) {
+      it(suite.label(c), () => {
+        const { expected, got } = suite.run(c)
+        assert.deepEqual(got, expected)
+      })
+    }
+  })
+}
+
+runSuite(redFlagSuite)
+runSuite(hoursSuite)
+runSuite(planSuite)